@@ -1,13 +1,14 @@
 import { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 import { Button } from './components/ui/button';
-import { Calculator, BarChart3, Settings, FileText, TrendingUp, Menu as MenuIcon, Zap, Users, Home } from 'lucide-react';
+import { Calculator, BarChart3, Settings, FileText, TrendingUp, Menu as MenuIcon, Zap, Users, Home, Landmark } from 'lucide-react';
 import Dashboard from './components/Dashboard';
 import SalesModel from './components/SalesModel';
 import MenuBOM from './components/MenuBOM';
 import UtilitiesModel from './components/UtilitiesModel';
 import LaborModel from './components/LaborModel';
 import FixedCosts from './components/FixedCosts';
+import Financing from './components/Financing';
 import Scenarios from './components/Scenarios';
 import Reports from './components/Reports';
 import FinanceSettings from './components/FinanceSettings';
@@ -177,7 +178,7 @@ export default function App() {
         <LoadingOverlay isLoading={isLoading} text="กำลังคำนวณ...">
           <div className="container mx-auto px-4 py-6 page-transition">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-              <TabsList className="grid w-full grid-cols-9 gap-1">
+              <TabsList className="grid w-full grid-cols-10 gap-1">
                 <TabsTrigger value="dashboard" className="flex flex-col gap-1 p-3 tab-smooth hover-lift">
                   <Home className="w-4 h-4" />
                   <span className="text-xs">แดชบอร์ด</span>
@@ -202,6 +203,10 @@ export default function App() {
                   <Calculator className="w-4 h-4" />
                   <span className="text-xs">ค่าใช้จ่ายคงที่</span>
                 </TabsTrigger>
+                <TabsTrigger value="financing" className="flex flex-col gap-1 p-3 tab-smooth hover-lift">
+                  <Landmark className="w-4 h-4" />
+                  <span className="text-xs">เงินทุน</span>
+                </TabsTrigger>
                 <TabsTrigger value="scenarios" className="flex flex-col gap-1 p-3 tab-smooth hover-lift">
                   <BarChart3 className="w-4 h-4" />
                   <span className="text-xs">สถานการณ์</span>
@@ -243,6 +248,10 @@ export default function App() {
                 <FixedCosts />
               </TabsContent>
 
+              <TabsContent value="financing" className="space-y-6">
+                <Financing />
+              </TabsContent>
+
               <TabsContent value="scenarios" className="space-y-6">
                 <Scenarios 
                   currentScenario={currentScenario}
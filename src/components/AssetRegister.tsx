@@ -0,0 +1,381 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Plus, Edit, Trash2, TrendingDown } from 'lucide-react';
+import { parseNumberInput } from '../lib/utils';
+import { useFinanceState } from '../hooks/useFinanceState';
+import { getPlanYear, MONTH_LABELS_TH } from '../lib/calendar';
+import { convertToReportingCurrency, CURRENCIES, getReportingCurrency } from '../lib/fx';
+import {
+  ASSET_CATEGORIES,
+  buildAssetSchedule,
+  buildYearDepreciation,
+  DEPRECIATION_METHODS,
+  FixedAsset,
+  getAssets,
+  summarizeScheduleByYear
+} from '../lib/assets';
+
+export default function AssetRegister() {
+  const { data, updateAssets, formatCurrency } = useFinanceState();
+  const planYear = getPlanYear(data);
+  const assets = getAssets(data);
+  const reportingCurrency = getReportingCurrency(data);
+  // Schedules and totals are in the reporting currency, converted at each purchase date
+  const reportingAssets = getAssets(data && convertToReportingCurrency(data));
+
+  const emptyAsset = (): FixedAsset => ({
+    id: '',
+    name: '',
+    category: 'equipment',
+    purchaseDate: `${planYear}-01-01`,
+    cost: 0,
+    usefulLifeYears: 5,
+    salvageValue: 0,
+    method: 'straightLine'
+  });
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newAsset, setNewAsset] = useState<FixedAsset>(emptyAsset);
+  const [selectedAssetId, setSelectedAssetId] = useState<string>('');
+
+  const yearDepreciation = buildYearDepreciation(reportingAssets, planYear);
+  const schedules = reportingAssets.map(asset => buildAssetSchedule(asset));
+  const selectedSchedule = schedules.find(schedule => schedule.asset.id === selectedAssetId) || schedules[0];
+
+  const getCategoryLabel = (category: string) =>
+    ASSET_CATEGORIES.find(c => c.key === category)?.label || category;
+  const getMethodLabel = (method: string) =>
+    DEPRECIATION_METHODS.find(m => m.key === method)?.label || method;
+
+  // Book value at the end of the plan year (cost before the first depreciation month)
+  const getBookValueAtYearEnd = (assetId: string) => {
+    const schedule = schedules.find(s => s.asset.id === assetId);
+    if (!schedule) return 0;
+    if (schedule.disposal && schedule.disposal.year <= planYear) return 0;
+    const entries = schedule.entries.filter(entry => entry.year <= planYear);
+    if (entries.length > 0) return entries[entries.length - 1].closingBookValue;
+    return schedule.entries[0]?.openingBookValue ?? schedule.asset.cost;
+  };
+
+  const handleSaveAsset = () => {
+    const assetToSave: FixedAsset = {
+      ...newAsset,
+      id: newAsset.id || `asset_${Date.now()}`,
+      disposalDate: newAsset.disposalDate || undefined,
+      disposalProceeds: newAsset.disposalDate ? newAsset.disposalProceeds || 0 : undefined
+    };
+    const updatedAssets = editingId !== null
+      ? assets.map(asset => asset.id === editingId ? assetToSave : asset)
+      : [...assets, assetToSave];
+
+    if (JSON.stringify(updatedAssets) !== JSON.stringify(assets)) {
+      updateAssets(updatedAssets);
+    }
+
+    setNewAsset(emptyAsset());
+    setEditingId(null);
+    setIsDialogOpen(false);
+  };
+
+  const handleEdit = (asset: FixedAsset) => {
+    setNewAsset({ ...asset });
+    setEditingId(asset.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (assetId: string) => {
+    updateAssets(assets.filter(asset => asset.id !== assetId));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingDown className="w-5 h-5" />
+                ทะเบียนทรัพย์สินและค่าเสื่อมราคา
+              </CardTitle>
+              <CardDescription>
+                ค่าเสื่อมราคาคำนวณอัตโนมัติจากทะเบียนทรัพย์สินและรวมในค่าใช้จ่ายดำเนินงาน
+              </CardDescription>
+            </div>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => { setNewAsset(emptyAsset()); setEditingId(null); }}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  เพิ่มทรัพย์สิน
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingId !== null ? 'แก้ไขทรัพย์สิน' : 'เพิ่มทรัพย์สิน'}</DialogTitle>
+                  <DialogDescription>
+                    อุปกรณ์ งานตกแต่ง หรือเฟอร์นิเจอร์ที่ใช้งานเกิน 1 ปี
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-name">ชื่อทรัพย์สิน</Label>
+                      <Input
+                        id="asset-name"
+                        value={newAsset.name}
+                        onChange={(e) => setNewAsset(prev => ({ ...prev, name: e.target.value }))}
+                        placeholder="ตู้เย็น, เตาแก๊ส, งานตกแต่ง"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>ประเภท</Label>
+                      <Select
+                        value={newAsset.category}
+                        onValueChange={(value) => setNewAsset(prev => ({ ...prev, category: value as FixedAsset['category'] }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ASSET_CATEGORIES.map(category => (
+                            <SelectItem key={category.key} value={category.key}>{category.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-purchase-date">วันที่ซื้อ</Label>
+                      <Input
+                        id="asset-purchase-date"
+                        type="date"
+                        value={newAsset.purchaseDate}
+                        onChange={(e) => setNewAsset(prev => ({ ...prev, purchaseDate: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-currency">สกุลเงิน</Label>
+                      <Select
+                        value={newAsset.currency || reportingCurrency}
+                        onValueChange={(value) => setNewAsset(prev => ({ ...prev, currency: value === reportingCurrency ? undefined : value }))}
+                      >
+                        <SelectTrigger id="asset-currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map(option => (
+                            <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-cost">ราคาทุน ({newAsset.currency || reportingCurrency})</Label>
+                      <Input
+                        id="asset-cost"
+                        type="number"
+                        value={newAsset.cost}
+                        onChange={(e) => setNewAsset(prev => ({ ...prev, cost: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-life">อายุการใช้งาน (ปี)</Label>
+                      <Input
+                        id="asset-life"
+                        type="number"
+                        value={newAsset.usefulLifeYears}
+                        onChange={(e) => setNewAsset(prev => ({ ...prev, usefulLifeYears: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-salvage">มูลค่าซาก ({newAsset.currency || reportingCurrency})</Label>
+                      <Input
+                        id="asset-salvage"
+                        type="number"
+                        value={newAsset.salvageValue}
+                        onChange={(e) => setNewAsset(prev => ({ ...prev, salvageValue: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>วิธีคิดค่าเสื่อม</Label>
+                      <Select
+                        value={newAsset.method}
+                        onValueChange={(value) => setNewAsset(prev => ({ ...prev, method: value as FixedAsset['method'] }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DEPRECIATION_METHODS.map(method => (
+                            <SelectItem key={method.key} value={method.key}>{method.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-disposal-date">วันที่จำหน่าย (ถ้ามี)</Label>
+                      <Input
+                        id="asset-disposal-date"
+                        type="date"
+                        value={newAsset.disposalDate || ''}
+                        onChange={(e) => setNewAsset(prev => ({ ...prev, disposalDate: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="asset-disposal-proceeds">เงินที่ได้รับจากการจำหน่าย ({newAsset.currency || reportingCurrency})</Label>
+                      <Input
+                        id="asset-disposal-proceeds"
+                        type="number"
+                        disabled={!newAsset.disposalDate}
+                        value={newAsset.disposalProceeds || 0}
+                        onChange={(e) => setNewAsset(prev => ({ ...prev, disposalProceeds: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button onClick={handleSaveAsset} disabled={!newAsset.name || newAsset.cost <= 0}>
+                    {editingId !== null ? 'บันทึกการแก้ไข' : 'เพิ่มทรัพย์สิน'}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">ราคาทุนรวม</div>
+              <div className="text-lg font-bold">{formatCurrency(reportingAssets.reduce((total, asset) => total + (asset.cost || 0), 0))}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">ค่าเสื่อมราคาปี {planYear}</div>
+              <div className="text-lg font-bold">{formatCurrency(yearDepreciation.totalDepreciation)}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">เฉลี่ย/เดือน</div>
+              <div className="text-lg font-bold">{formatCurrency(yearDepreciation.totalDepreciation / 12)}</div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ทรัพย์สิน</TableHead>
+                <TableHead>ประเภท</TableHead>
+                <TableHead>วันที่ซื้อ</TableHead>
+                <TableHead className="text-right">ราคาทุน</TableHead>
+                <TableHead>วิธี</TableHead>
+                <TableHead className="text-right">มูลค่าตามบัญชีสิ้นปี {planYear}</TableHead>
+                <TableHead className="text-right">การดำเนินการ</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assets.map(asset => (
+                <TableRow key={asset.id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {asset.name}
+                      {asset.disposalDate && <Badge variant="secondary">จำหน่ายแล้ว</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{getCategoryLabel(asset.category)}</Badge>
+                  </TableCell>
+                  <TableCell>{asset.purchaseDate}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(asset.cost, asset.currency || reportingCurrency)}</TableCell>
+                  <TableCell>{getMethodLabel(asset.method)} {asset.usefulLifeYears} ปี</TableCell>
+                  <TableCell className="text-right">{formatCurrency(getBookValueAtYearEnd(asset.id))}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex gap-1 justify-end">
+                      <Button size="sm" variant="ghost" onClick={() => handleEdit(asset)}>
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(asset.id)}>
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedSchedule && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>ตารางค่าเสื่อมราคา</CardTitle>
+                <CardDescription>
+                  {getMethodLabel(selectedSchedule.asset.method)} · มูลค่าซาก {formatCurrency(selectedSchedule.asset.salvageValue || 0)}
+                </CardDescription>
+              </div>
+              <Select value={selectedSchedule.asset.id} onValueChange={setSelectedAssetId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assets.map(asset => (
+                    <SelectItem key={asset.id} value={asset.id}>{asset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ปี</TableHead>
+                  <TableHead className="text-right">มูลค่าต้นงวด</TableHead>
+                  <TableHead className="text-right">ค่าเสื่อมราคา</TableHead>
+                  <TableHead className="text-right">มูลค่าปลายงวด</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summarizeScheduleByYear(selectedSchedule).map(row => (
+                  <TableRow key={row.year} className={row.year === planYear ? 'bg-muted' : ''}>
+                    <TableCell className="font-medium">{row.year}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.openingBookValue)}</TableCell>
+                    <TableCell className="text-right">({formatCurrency(row.depreciation)})</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.closingBookValue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {selectedSchedule.disposal && (
+              <div className="p-3 bg-muted rounded-lg text-sm">
+                จำหน่าย {MONTH_LABELS_TH[selectedSchedule.disposal.monthIndex]} {selectedSchedule.disposal.year}:
+                มูลค่าตามบัญชี {formatCurrency(selectedSchedule.disposal.bookValue)},
+                ได้รับ {formatCurrency(selectedSchedule.disposal.proceeds)},
+                <span className={selectedSchedule.disposal.gain < 0 ? 'text-red-600' : 'text-green-600'}>
+                  {' '}{selectedSchedule.disposal.gain < 0 ? 'ขาดทุน' : 'กำไร'} {formatCurrency(Math.abs(selectedSchedule.disposal.gain))}
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
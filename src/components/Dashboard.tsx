@@ -3,8 +3,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { TrendingUp, TrendingDown, DollarSign, Target, AlertTriangle, BarChart3 } from 'lucide-react';
-import { formatCurrency, formatPercent, formatNumber } from '../lib/utils';
-import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { formatPercent, formatNumber } from '../lib/utils';
+import { buildCvpSeries } from '../lib/break-even';
+import { useFinanceState } from '../hooks/useFinanceState';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, ReferenceLine } from 'recharts';
 
 interface DashboardProps {
   currentScenario: string;
@@ -53,6 +55,8 @@ function KPICard({ title, value, change, icon, status = 'good', description }: K
 }
 
 export default function Dashboard({ currentScenario, financialData }: DashboardProps) {
+  const { formatCurrency } = useFinanceState();
+
   if (!financialData) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -73,6 +77,8 @@ export default function Dashboard({ currentScenario, financialData }: DashboardP
     foodCostPct: 0,
     laborPct: 0,
     bepPerDay: 0,
+    bepRevenue: 0,
+    bepCustomersPerDay: 0,
     safetyMargin: 0,
     cmPct: 0
   };
@@ -82,15 +88,18 @@ export default function Dashboard({ currentScenario, financialData }: DashboardP
   };
   const menus = financialData?.menus || [];
 
-  // Sample data for charts
-  const monthlyData = [
-    { month: 'ม.ค.', revenue: 180000, costs: 120000, profit: 60000 },
-    { month: 'ก.พ.', revenue: 190000, costs: 125000, profit: 65000 },
-    { month: 'มี.ค.', revenue: 200000, costs: 130000, profit: 70000 },
-    { month: 'เม.ย.', revenue: 210000, costs: 135000, profit: 75000 },
-    { month: 'พ.ค.', revenue: 195000, costs: 128000, profit: 67000 },
-    { month: 'มิ.ย.', revenue: 205000, costs: 132000, profit: 73000 },
-  ];
+  // 12-month projection from the engine (seasonality × open days)
+  const monthlyData = (financialData?.pnl?.projection || []).map((month: any) => ({
+    month: month.label,
+    revenue: month.revenue,
+    costs: month.revenue - month.operatingProfit,
+    profit: month.operatingProfit
+  }));
+  const projectionYear = financialData?.pnl?.projection?.[0]?.year;
+
+  // Cost-volume-profit lines per month from the mix-weighted break-even
+  const breakEven = financialData?.pnl?.breakEven;
+  const cvpData = breakEven ? buildCvpSeries(breakEven) : [];
 
   // Safe cost breakdown with null checks
   const costBreakdown = [
@@ -153,7 +162,7 @@ export default function Dashboard({ currentScenario, financialData }: DashboardP
           title="จุดคุ้มทุน/วัน"
           value={`${formatNumber(kpis.bepPerDay)} จาน`}
           icon={<Target className="h-4 w-4" />}
-          description={`Safety Margin: ${formatPercent(kpis.safetyMargin)}`}
+          description={`≈ ${formatNumber(kpis.bepCustomersPerDay || 0)} ลูกค้า/วัน · Safety Margin: ${formatPercent(kpis.safetyMargin)}`}
           status={getKPIStatus('safetyMargin', kpis.safetyMargin)}
         />
       </div>
@@ -197,7 +206,7 @@ export default function Dashboard({ currentScenario, financialData }: DashboardP
         <Card>
           <CardHeader>
             <CardTitle>แนวโน้มรายได้และกำไร</CardTitle>
-            <CardDescription>6 เดือนที่ผ่านมา</CardDescription>
+            <CardDescription>ประมาณการ 12 เดือน{projectionYear ? ` ปี ${projectionYear}` : ''} ตามฤดูกาลและวันเปิดร้าน</CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -254,6 +263,81 @@ export default function Dashboard({ currentScenario, financialData }: DashboardP
         </Card>
       </div>
 
+      {/* Break-even Analysis */}
+      {breakEven && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>ต้นทุน-ปริมาณ-กำไร (CVP)</CardTitle>
+              <CardDescription>
+                จุดคุ้มทุน {formatNumber(breakEven.units)} จาน/เดือน · {formatCurrency(breakEven.revenue)}/เดือน
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={cvpData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="units"
+                    type="number"
+                    domain={[0, 'dataMax']}
+                    tickFormatter={(value) => formatNumber(value)}
+                  />
+                  <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                  <Tooltip
+                    formatter={(value) => formatCurrency(value as number)}
+                    labelFormatter={(value) => `${formatNumber(value as number)} จาน/เดือน`}
+                  />
+                  <Line type="linear" dataKey="revenue" stroke="#8884d8" strokeWidth={2} dot={false} name="รายได้" />
+                  <Line type="linear" dataKey="totalCosts" stroke="#ff7300" strokeWidth={2} dot={false} name="ต้นทุนรวม" />
+                  <Line type="linear" dataKey="fixedCosts" stroke="#999999" strokeDasharray="4 4" dot={false} name="ต้นทุนคงที่" />
+                  <ReferenceLine x={breakEven.units} stroke="#dc2626" strokeDasharray="3 3" label="จุดคุ้มทุน" />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>ส่วนร่วมคุ้มทุนรายเมนู</CardTitle>
+              <CardDescription>
+                CM เฉลี่ยถ่วงน้ำหนัก {formatCurrency(breakEven.contributionPerUnit)}/จาน ({formatPercent(breakEven.contributionMarginPercent)}) หลังหักค่าธรรมเนียมช่องทาง
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2">เมนู</th>
+                      <th className="text-right py-2">สัดส่วนขาย</th>
+                      <th className="text-right py-2">CM/จาน</th>
+                      <th className="text-right py-2">จาน/เดือน ณ จุดคุ้มทุน</th>
+                      <th className="text-right py-2">ครอบคลุมต้นทุนคงที่</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {breakEven.menus.map((menu: any) => (
+                      <tr key={menu.id} className="border-b">
+                        <td className="py-2 font-medium">{menu.name}</td>
+                        <td className="text-right py-2">{formatPercent(menu.mixShare * 100)}</td>
+                        <td className="text-right py-2">{formatCurrency(menu.contributionPerUnit)}</td>
+                        <td className="text-right py-2">{formatNumber(menu.units)}</td>
+                        <td className="text-right py-2">{formatPercent(menu.coveragePercent)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                ต้องขาย {formatNumber(breakEven.unitsPerDay)} จาน หรือ {formatCurrency(breakEven.revenuePerDay)} ต่อวันเปิดร้าน
+                (≈ {formatNumber(breakEven.customersPerDay)} ลูกค้า/วัน)
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Menu Performance Table */}
       <Card>
         <CardHeader>
@@ -304,6 +388,18 @@ export default function Dashboard({ currentScenario, financialData }: DashboardP
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
+            {(pnl.cashFlow?.negativeMonths?.length || 0) > 0 && (
+              <div className="flex items-start gap-3 p-3 bg-red-50 rounded-lg">
+                <AlertTriangle className="w-4 h-4 text-red-500 mt-0.5" />
+                <div>
+                  <p className="font-medium text-red-900">เงินสดติดลบ: {pnl.cashFlow.negativeMonths.join(', ')}</p>
+                  <p className="text-sm text-red-700">
+                    เงินสดต่ำสุด {formatCurrency(pnl.cashFlow.lowestCash)} ควรเพิ่มเงินสดตั้งต้นหรือจัดหาวงเงินสำรองก่อนช่วงยอดขายต่ำ
+                  </p>
+                </div>
+              </div>
+            )}
+
             {kpis.primeCostPct > 60 && (
               <div className="flex items-start gap-3 p-3 bg-red-50 rounded-lg">
                 <AlertTriangle className="w-4 h-4 text-red-500 mt-0.5" />
@@ -8,12 +8,72 @@ import { Switch } from './ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
-import { Settings, Shield, Trash2, RotateCcw, Globe, Calculator, HelpCircle, Download, Upload, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
-import { formatCurrency, parseNumberInput } from '../lib/utils';
+import { Settings, Shield, Plus, Trash2, RotateCcw, Globe, Calculator, HelpCircle, Download, Upload, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { parseNumberInput } from '../lib/utils';
 import { useFinanceState } from '../hooks/useFinanceState';
+import { ALL_WEEKDAYS, getOpenWeekdays } from '../lib/calendar';
+import { getVatSettings } from '../lib/vat';
+import { getTaxSettings } from '../lib/tax';
+import { getMultiYearSettings, MAX_PROJECTION_YEARS, MIN_PROJECTION_YEARS } from '../lib/multi-year';
+import { getAppraisalSettings, getInitialInvestment } from '../lib/appraisal';
+import { getCashFlowSettings, PAYROLL_TIMINGS } from '../lib/cash-flow';
+import { getFinancialTargets } from '../lib/goal-seek';
+import { convertToReportingCurrency, CURRENCIES, FxRate, getForeignCurrencies, getMissingFxCurrencies, getReportingCurrency } from '../lib/fx';
+import { CASH_PRICE_STEP, DECIMAL_PLACE_OPTIONS, getMoneySettings, ROUNDING_METHODS, ROUNDING_SCOPES } from '../lib/money';
 
 export default function FinanceSettings() {
-  const { data, reset, exportData, importData } = useFinanceState();
+  const { data, reset, exportData, importData, updateMeta, updateFxRates, formatCurrency } = useFinanceState();
+  const openWeekdays = getOpenWeekdays(data);
+  const vatSettings = getVatSettings(data);
+  const taxSettings = getTaxSettings(data);
+  const updateTaxSettings = (updates: Record<string, any>) => {
+    updateMeta({ tax: { ...(data?.meta?.tax || {}), ...updates } });
+  };
+  const multiYearSettings = getMultiYearSettings(data);
+  const updateMultiYearSettings = (updates: Record<string, any>) => {
+    updateMeta({ multiYear: { ...multiYearSettings, ...updates } });
+  };
+  const appraisalSettings = getAppraisalSettings(data);
+  // Register capex paid at opening; assets bought later are paid in their month
+  const assetRegisterCost = getInitialInvestment(data && convertToReportingCurrency(data), { ...appraisalSettings, initialCapex: null, preOpeningCosts: 0 });
+  const updateAppraisalSettings = (updates: Record<string, any>) => {
+    updateMeta({ appraisal: { ...appraisalSettings, ...updates } });
+  };
+  const cashFlowSettings = getCashFlowSettings(data);
+  const updateCashFlowSettings = (updates: Record<string, any>) => {
+    updateMeta({ cashFlow: { ...cashFlowSettings, ...updates } });
+  };
+  const moneySettings = getMoneySettings(data);
+  const updateMoneySettings = (updates: Record<string, any>) => {
+    updateMeta({ money: { ...moneySettings, ...updates } });
+  };
+  const reportingCurrency = getReportingCurrency(data);
+  const fxRates: FxRate[] = Array.isArray(data?.fxRates) ? data.fxRates : [];
+  const missingFxCurrencies = getMissingFxCurrencies(data);
+  const handleAddFxRate = () => {
+    const currency = getForeignCurrencies(data)[0] || CURRENCIES.find(option => option.code !== reportingCurrency)?.code || 'USD';
+    updateFxRates([
+      ...fxRates,
+      { id: `fx_${Date.now()}`, currency, rate: 1, effectiveDate: new Date().toISOString().split('T')[0] }
+    ]);
+  };
+  const handleUpdateFxRate = (id: string, updates: Partial<FxRate>) => {
+    updateFxRates(fxRates.map(rate => rate.id === id ? { ...rate, ...updates } : rate));
+  };
+  const handleDeleteFxRate = (id: string) => {
+    updateFxRates(fxRates.filter(rate => rate.id !== id));
+  };
+  const financialTargets = getFinancialTargets(data);
+  const updateFinancialTargets = (updates: Record<string, any>) => {
+    updateMeta({ targets: { ...financialTargets, ...updates } });
+  };
+  const escalationFields: { key: keyof typeof multiYearSettings.escalation; label: string }[] = [
+    { key: 'menuPrice', label: 'ราคาเมนู' },
+    { key: 'ingredients', label: 'วัตถุดิบและบรรจุภัณฑ์' },
+    { key: 'wages', label: 'ค่าแรง' },
+    { key: 'utilities', label: 'ค่าสาธารณูปโภค' },
+    { key: 'rent', label: 'ค่าเช่า' }
+  ];
   const [settings, setSettings] = useState(() => data?.meta || {});
   const [language, setLanguage] = useState('th');
   const [currency, setCurrency] = useState('THB');
@@ -39,6 +99,7 @@ export default function FinanceSettings() {
     
     // Update data through state manager
     setSettings(updatedMeta);
+    updateMeta({ currency, vatPercent, language });
     alert('บันทึกการตั้งค่าเรียบร้อย');
   };
 
@@ -227,9 +288,9 @@ export default function FinanceSettings() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="THB">บาทไทย (THB)</SelectItem>
-                      <SelectItem value="USD">ดอลลาร์สหรัฐ (USD)</SelectItem>
-                      <SelectItem value="EUR">ยูโร (EUR)</SelectItem>
+                      {CURRENCIES.map(option => (
+                        <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -253,18 +314,133 @@ export default function FinanceSettings() {
                 
                 <div className="space-y-2">
                   <Label htmlFor="decimal">ทศนิยม</Label>
-                  <Select defaultValue="2">
-                    <SelectTrigger>
+                  <Select
+                    value={String(moneySettings.decimalPlaces)}
+                    onValueChange={(value) => updateMoneySettings({ decimalPlaces: parseInt(value, 10) })}
+                  >
+                    <SelectTrigger id="decimal">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DECIMAL_PLACE_OPTIONS.map(places => (
+                        <SelectItem key={places} value={String(places)}>
+                          {places === 0 ? 'ไม่มีทศนิยม' : `${places} ตำแหน่ง`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    ใช้กับการแสดงผลและไฟล์ส่งออก
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rounding-method">วิธีปัดเศษ</Label>
+                  <Select
+                    value={moneySettings.method}
+                    onValueChange={(value) => updateMoneySettings({ method: value })}
+                  >
+                    <SelectTrigger id="rounding-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROUNDING_METHODS.map(option => (
+                        <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rounding-scope">ขอบเขตการปัดเศษ</Label>
+                  <Select
+                    value={moneySettings.scope}
+                    onValueChange={(value) => updateMoneySettings({ scope: value })}
+                  >
+                    <SelectTrigger id="rounding-scope">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="0">ไม่มีทศนิยม</SelectItem>
-                      <SelectItem value="2">2 ตำแหน่ง</SelectItem>
-                      <SelectItem value="4">4 ตำแหน่ง</SelectItem>
+                      {ROUNDING_SCOPES.map(option => (
+                        <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <p className="text-xs text-muted-foreground">
+                    ปัดทุกรายการ: ต้นทุนแต่ละวัตถุดิบและราคาต่อหน่วยถูกปัดก่อนนำไปรวม
+                  </p>
                 </div>
               </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="round-cash">ปัดราคาขายหน้าร้านทีละ {CASH_PRICE_STEP} บาท</Label>
+                  <Switch
+                    id="round-cash"
+                    checked={moneySettings.roundCashPrices}
+                    onCheckedChange={(checked) => updateMoneySettings({ roundCashPrices: checked })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  ราคาที่ลูกค้าจ่ายหน้าร้านปัดเป็นหน่วย 25 สตางค์ ไม่ใช้กับช่องทางเดลิเวอรี่
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>อัตราแลกเปลี่ยน</CardTitle>
+              <CardDescription>
+                มูลค่า {reportingCurrency} ต่อ 1 หน่วยสกุลเงินต่างประเทศ วัตถุดิบและค่าใช้จ่ายคงที่ใช้อัตราที่มีผล ณ ต้นปีแผน สินทรัพย์ใช้อัตรา ณ วันที่ซื้อ
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {fxRates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">ยังไม่มีอัตราแลกเปลี่ยน</p>
+              ) : (
+                <div className="space-y-2">
+                  {fxRates.map(rate => (
+                    <div key={rate.id} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                      <Select value={rate.currency} onValueChange={(value) => handleUpdateFxRate(rate.id, { currency: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.filter(option => option.code !== reportingCurrency).map(option => (
+                            <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        value={rate.rate}
+                        onChange={(e) => handleUpdateFxRate(rate.id, { rate: parseNumberInput(e.target.value) })}
+                      />
+                      <Input
+                        type="date"
+                        value={rate.effectiveDate}
+                        onChange={(e) => handleUpdateFxRate(rate.id, { effectiveDate: e.target.value })}
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteFxRate(rate.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {missingFxCurrencies.length > 0 && (
+                <p className="text-xs text-red-600">
+                  ยังไม่มีอัตราสำหรับ {missingFxCurrencies.join(', ')} รายการในสกุลเงินนี้จะคิดตามตัวเลขเดิมโดยไม่แปลงค่า
+                </p>
+              )}
+              <Button variant="outline" size="sm" onClick={handleAddFxRate}>
+                <Plus className="w-4 h-4 mr-2" />
+                เพิ่มอัตราแลกเปลี่ยน
+              </Button>
             </CardContent>
           </Card>
 
@@ -298,7 +474,13 @@ export default function FinanceSettings() {
                 <div className="grid grid-cols-4 gap-2">
                   {['จันทร์', 'อังคาร', 'พุธ', 'พฤหัสบดี', 'ศุกร์', 'เสาร์', 'อาทิตย์'].map((day, index) => (
                     <div key={day} className="flex items-center space-x-2">
-                      <Switch id={`day-${index}`} defaultChecked={index < 6} />
+                      <Switch
+                        id={`day-${index}`}
+                        checked={openWeekdays.includes(ALL_WEEKDAYS[index])}
+                        onCheckedChange={(checked) => updateMeta({
+                          openDays: ALL_WEEKDAYS.filter(d => d === ALL_WEEKDAYS[index] ? checked : openWeekdays.includes(d))
+                        })}
+                      />
                       <Label htmlFor={`day-${index}`} className="text-sm">{day}</Label>
                     </div>
                   ))}
@@ -316,7 +498,7 @@ export default function FinanceSettings() {
                 การตั้งค่าทางการเงิน
               </CardTitle>
               <CardDescription>
-                กำหนดค่าเริ่มต้นสำหรับการคำนวณทางการเงิน
+                กำหนดค่าเริ่มต้นสำหรับการคำนวณทางการเงิน เป้าหมายเหล่านี้ใช้ใน Goal Seek ของแท็บสถานการณ์
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -326,7 +508,8 @@ export default function FinanceSettings() {
                   <Input
                     id="target-profit"
                     type="number"
-                    placeholder="50000"
+                    value={financialTargets.targetMonthlyProfit}
+                    onChange={(e) => updateFinancialTargets({ targetMonthlyProfit: parseNumberInput(e.target.value) })}
                   />
                 </div>
                 
@@ -335,7 +518,8 @@ export default function FinanceSettings() {
                   <Input
                     id="safety-margin"
                     type="number"
-                    placeholder="30"
+                    value={financialTargets.minSafetyMarginPercent}
+                    onChange={(e) => updateFinancialTargets({ minSafetyMarginPercent: parseNumberInput(e.target.value) })}
                   />
                 </div>
               </div>
@@ -346,7 +530,8 @@ export default function FinanceSettings() {
                   <Input
                     id="max-prime-cost"
                     type="number"
-                    defaultValue="60"
+                    value={financialTargets.maxPrimeCostPercent}
+                    onChange={(e) => updateFinancialTargets({ maxPrimeCostPercent: parseNumberInput(e.target.value) })}
                   />
                 </div>
                 
@@ -355,21 +540,57 @@ export default function FinanceSettings() {
                   <Input
                     id="max-food-cost"
                     type="number"
-                    defaultValue="35"
+                    value={financialTargets.maxFoodCostPercent}
+                    onChange={(e) => updateFinancialTargets({ maxFoodCostPercent: parseNumberInput(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="vat-registered">จดทะเบียนภาษีมูลค่าเพิ่ม (VAT)</Label>
+                  <Switch
+                    id="vat-registered"
+                    checked={vatSettings.registered}
+                    onCheckedChange={(checked) => updateMeta({ vatRegistered: checked })}
                   />
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  ปิดไว้หากร้านยังไม่จด VAT (รายได้ไม่เกิน 1.8 ล้านบาท/ปี) ระบบจะไม่แยกภาษีออกจากราคาขายและต้นทุน
+                </p>
               </div>
 
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label htmlFor="include-vat">รวม VAT ในราคาขาย</Label>
-                  <Switch id="include-vat" defaultChecked />
+                  <Switch
+                    id="include-vat"
+                    checked={vatSettings.pricesIncludeVat}
+                    disabled={!vatSettings.registered}
+                    onCheckedChange={(checked) => updateMeta({ pricesIncludeVat: checked })}
+                  />
                 </div>
                 <p className="text-xs text-muted-foreground">
                   เปิดใช้งานหากราคาเมนูในระบบรวม VAT แล้ว
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="ingredient-vatable">สัดส่วนวัตถุดิบที่มีใบกำกับภาษี (%)</Label>
+                <Input
+                  id="ingredient-vatable"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={vatSettings.ingredientVatablePercent}
+                  disabled={!vatSettings.registered}
+                  onChange={(e) => updateMeta({ ingredientVatablePercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  ใช้คำนวณภาษีซื้อที่ขอคืนได้ วัตถุดิบสดจากตลาดมักไม่มีใบกำกับภาษี
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label htmlFor="auto-calculate">คำนวณอัตโนมัติ</Label>
@@ -381,6 +602,290 @@ export default function FinanceSettings() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                ภาษีเงินได้
+              </CardTitle>
+              <CardDescription>
+                ใช้ประมาณการภาษีทั้งปีและกำไรสุทธิหลังภาษี
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>รูปแบบกิจการ</Label>
+                  <Select value={taxSettings.entityType} onValueChange={(value) => updateTaxSettings({ entityType: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="individual">บุคคลธรรมดา (ภาษีเงินได้บุคคลธรรมดา)</SelectItem>
+                      <SelectItem value="company">นิติบุคคล (ภาษีเงินได้นิติบุคคล)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {taxSettings.entityType === 'individual' ? (
+                  <div className="space-y-2">
+                    <Label>การหักค่าใช้จ่าย</Label>
+                    <Select value={taxSettings.expenseMethod} onValueChange={(value) => updateTaxSettings({ expenseMethod: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="lumpSum">หักเหมา {taxSettings.lumpSumPercent}%</SelectItem>
+                        <SelectItem value="actual">หักตามจริง</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="paid-up-capital">ทุนจดทะเบียนชำระแล้ว (บาท)</Label>
+                    <Input
+                      id="paid-up-capital"
+                      type="number"
+                      value={taxSettings.paidUpCapital}
+                      onChange={(e) => updateTaxSettings({ paidUpCapital: parseFloat(e.target.value) || 0 })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      SME (ทุนไม่เกิน 5 ล้าน และรายได้ไม่เกิน 30 ล้าน) ใช้อัตรา 0/15/20%
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {taxSettings.entityType === 'individual' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="personal-allowances">ค่าลดหย่อนรวม (บาท/ปี)</Label>
+                    <Input
+                      id="personal-allowances"
+                      type="number"
+                      value={taxSettings.personalAllowances}
+                      onChange={(e) => updateTaxSettings({ personalAllowances: parseFloat(e.target.value) || 0 })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      ค่าลดหย่อนส่วนตัว 60,000 บาท บวกค่าลดหย่อนอื่นๆ
+                    </p>
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                ดอกเบี้ยจ่ายคำนวณจากตารางผ่อนชำระในแท็บเงินกู้ และหักก่อนคำนวณภาษี
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                ประมาณการหลายปี
+              </CardTitle>
+              <CardDescription>
+                อัตราเพิ่มของราคาและต้นทุนต่อปี การเติบโตของยอดขาย และช่วงเริ่มต้นของร้านใหม่
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>จำนวนปี</Label>
+                  <Select
+                    value={String(multiYearSettings.years)}
+                    onValueChange={(value) => updateMultiYearSettings({ years: parseInt(value, 10) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: MAX_PROJECTION_YEARS - MIN_PROJECTION_YEARS + 1 }, (_, index) => MIN_PROJECTION_YEARS + index).map(years => (
+                        <SelectItem key={years} value={String(years)}>{years} ปี</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ramp-up-months">ช่วงเริ่มต้นกิจการ (เดือน)</Label>
+                  <Input
+                    id="ramp-up-months"
+                    type="number"
+                    min="0"
+                    value={multiYearSettings.rampUpMonths}
+                    onChange={(e) => updateMultiYearSettings({ rampUpMonths: Math.max(0, Math.round(parseNumberInput(e.target.value))) })}
+                  />
+                  <p className="text-xs text-muted-foreground">0 = ร้านที่เปิดดำเนินการอยู่แล้ว</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ramp-up-start">ยอดขายเดือนแรก (% ของประมาณการ)</Label>
+                  <Input
+                    id="ramp-up-start"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={multiYearSettings.rampUpStartPercent}
+                    disabled={multiYearSettings.rampUpMonths === 0}
+                    onChange={(e) => updateMultiYearSettings({ rampUpStartPercent: Math.min(100, Math.max(0, parseNumberInput(e.target.value))) })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>อัตราเพิ่มต่อปี (%)</Label>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {escalationFields.map(({ key, label }) => (
+                    <div key={key} className="space-y-1">
+                      <Label htmlFor={`escalation-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+                      <Input
+                        id={`escalation-${key}`}
+                        type="number"
+                        step="0.1"
+                        value={multiYearSettings.escalation[key]}
+                        onChange={(e) => updateMultiYearSettings({
+                          escalation: { ...multiYearSettings.escalation, [key]: parseFloat(e.target.value) || 0 }
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {multiYearSettings.years > 1 && (
+                <div className="space-y-2">
+                  <Label>การเติบโตของยอดขายเทียบปีก่อน (%)</Label>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {multiYearSettings.volumeGrowthPercent.slice(0, multiYearSettings.years - 1).map((growth, index) => (
+                      <div key={index} className="space-y-1">
+                        <Label htmlFor={`volume-growth-${index}`} className="text-xs text-muted-foreground">ปีที่ {index + 2}</Label>
+                        <Input
+                          id={`volume-growth-${index}`}
+                          type="number"
+                          step="0.1"
+                          value={growth}
+                          onChange={(e) => updateMultiYearSettings({
+                            volumeGrowthPercent: multiYearSettings.volumeGrowthPercent.map((value, i) =>
+                              i === index ? parseFloat(e.target.value) || 0 : value
+                            )
+                          })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                ประเมินการลงทุน
+              </CardTitle>
+              <CardDescription>
+                เงินลงทุนเริ่มต้นและอัตราคิดลดสำหรับ NPV, IRR และระยะเวลาคืนทุน ตลอดช่วงประมาณการหลายปี
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="initial-capex">เงินลงทุนในทรัพย์สิน (บาท)</Label>
+                  <Input
+                    id="initial-capex"
+                    type="number"
+                    min="0"
+                    value={appraisalSettings.initialCapex ?? ''}
+                    placeholder={String(assetRegisterCost)}
+                    onChange={(e) => updateAppraisalSettings({
+                      initialCapex: e.target.value === '' ? null : Math.max(0, parseNumberInput(e.target.value))
+                    })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    เว้นว่างเพื่อใช้ราคาทุนจากทะเบียนทรัพย์สินที่ซื้อภายในวันเปิดร้าน ({formatCurrency(assetRegisterCost)}) ทรัพย์สินที่ซื้อภายหลังจะหักจากกระแสเงินสดในเดือนที่ซื้อ
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pre-opening-costs">ค่าใช้จ่ายก่อนเปิดร้าน (บาท)</Label>
+                  <Input
+                    id="pre-opening-costs"
+                    type="number"
+                    min="0"
+                    value={appraisalSettings.preOpeningCosts}
+                    onChange={(e) => updateAppraisalSettings({ preOpeningCosts: Math.max(0, parseNumberInput(e.target.value)) })}
+                  />
+                  <p className="text-xs text-muted-foreground">เงินมัดจำ ค่าอบรม การตลาดช่วงเปิดร้าน</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="discount-rate">อัตราคิดลด (% ต่อปี)</Label>
+                  <Input
+                    id="discount-rate"
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={appraisalSettings.discountRatePercent}
+                    onChange={(e) => updateAppraisalSettings({ discountRatePercent: Math.max(0, parseNumberInput(e.target.value)) })}
+                  />
+                  <p className="text-xs text-muted-foreground">ต้นทุนเงินทุนหรือผลตอบแทนที่ต้องการ</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                กระแสเงินสด
+              </CardTitle>
+              <CardDescription>
+                เงินสดตั้งต้น การจ่ายเงินเดือน และเงินถอนใช้ส่วนตัว สำหรับงบกระแสเงินสดรายเดือน
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="opening-cash">เงินสดต้นปี (บาท)</Label>
+                  <Input
+                    id="opening-cash"
+                    type="number"
+                    value={cashFlowSettings.openingCash}
+                    onChange={(e) => updateCashFlowSettings({ openingCash: parseNumberInput(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="owner-drawings">เงินถอนใช้ส่วนตัว/เดือน (บาท)</Label>
+                  <Input
+                    id="owner-drawings"
+                    type="number"
+                    min="0"
+                    value={cashFlowSettings.ownerDrawingsPerMonth}
+                    onChange={(e) => updateCashFlowSettings({ ownerDrawingsPerMonth: Math.max(0, parseNumberInput(e.target.value)) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>การจ่ายเงินเดือน</Label>
+                  <Select
+                    value={cashFlowSettings.payrollTiming}
+                    onValueChange={(value) => updateCashFlowSettings({ payrollTiming: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYROLL_TIMINGS.map(timing => (
+                        <SelectItem key={timing.key} value={timing.key}>{timing.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                ระยะเวลารับเงินจากแต่ละช่องทางและเครดิตซัพพลายเออร์ ตั้งค่าได้ที่เงินทุนหมุนเวียนในแท็บเงินทุน
+              </p>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="privacy" className="space-y-6">
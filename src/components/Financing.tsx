@@ -0,0 +1,331 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Plus, Edit, Trash2, Landmark } from 'lucide-react';
+import { parseNumberInput } from '../lib/utils';
+import { useFinanceState } from '../hooks/useFinanceState';
+import { getPlanYear, MONTH_LABELS_TH } from '../lib/calendar';
+import { buildLoanSchedule, buildYearFinancing, getLoans, INTEREST_METHODS, Loan } from '../lib/loans';
+import WorkingCapital from './WorkingCapital';
+
+export default function Financing() {
+  const { data, updateLoans, formatCurrency } = useFinanceState();
+  const planYear = getPlanYear(data);
+  const loans = getLoans(data);
+
+  const emptyLoan = (): Loan => ({
+    id: '',
+    name: '',
+    principal: 0,
+    annualRatePercent: 6,
+    termMonths: 60,
+    graceMonths: 0,
+    method: 'effective',
+    startDate: `${planYear}-01-01`
+  });
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newLoan, setNewLoan] = useState<Loan>(emptyLoan);
+  const [selectedLoanId, setSelectedLoanId] = useState<string>('');
+
+  const yearFinancing = buildYearFinancing(loans, planYear);
+  const selectedLoan = loans.find(loan => loan.id === selectedLoanId) || loans[0];
+  const selectedSchedule = selectedLoan ? buildLoanSchedule(selectedLoan) : [];
+
+  const getMethodLabel = (method: string) =>
+    INTEREST_METHODS.find(m => m.key === method)?.label || method;
+
+  // First full installment after the grace period
+  const getInstallment = (loan: Loan) => {
+    const schedule = buildLoanSchedule(loan);
+    const firstRepayment = schedule.find(entry => entry.principal > 0);
+    return firstRepayment ? firstRepayment.payment : 0;
+  };
+
+  const handleSaveLoan = () => {
+    const loanToSave: Loan = {
+      ...newLoan,
+      id: newLoan.id || `loan_${Date.now()}`,
+      termMonths: Math.round(newLoan.termMonths),
+      graceMonths: Math.round(newLoan.graceMonths)
+    };
+    const updatedLoans = editingId !== null
+      ? loans.map(loan => loan.id === editingId ? loanToSave : loan)
+      : [...loans, loanToSave];
+
+    if (JSON.stringify(updatedLoans) !== JSON.stringify(loans)) {
+      updateLoans(updatedLoans);
+    }
+
+    setNewLoan(emptyLoan());
+    setEditingId(null);
+    setIsDialogOpen(false);
+  };
+
+  const handleEdit = (loan: Loan) => {
+    setNewLoan({ ...loan });
+    setEditingId(loan.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (loanId: string) => {
+    updateLoans(loans.filter(loan => loan.id !== loanId));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="w-5 h-5" />
+                เงินกู้และดอกเบี้ย
+              </CardTitle>
+              <CardDescription>
+                ดอกเบี้ยจ่ายแสดงใต้กำไรจากการดำเนินงาน เงินต้นที่ผ่อนชำระใช้ในการวางแผนเงินสด
+              </CardDescription>
+            </div>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => { setNewLoan(emptyLoan()); setEditingId(null); }}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  เพิ่มเงินกู้
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingId !== null ? 'แก้ไขเงินกู้' : 'เพิ่มเงินกู้'}</DialogTitle>
+                  <DialogDescription>
+                    งวดแรกเริ่มเดือนถัดจากวันที่รับเงินกู้ ช่วงปลอดเงินต้นชำระเฉพาะดอกเบี้ย
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="loan-name">ชื่อเงินกู้</Label>
+                      <Input
+                        id="loan-name"
+                        value={newLoan.name}
+                        onChange={(e) => setNewLoan(prev => ({ ...prev, name: e.target.value }))}
+                        placeholder="สินเชื่อธนาคาร, เงินกู้ SME"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="loan-start-date">วันที่รับเงินกู้</Label>
+                      <Input
+                        id="loan-start-date"
+                        type="date"
+                        value={newLoan.startDate}
+                        onChange={(e) => setNewLoan(prev => ({ ...prev, startDate: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="loan-principal">เงินต้น (บาท)</Label>
+                      <Input
+                        id="loan-principal"
+                        type="number"
+                        value={newLoan.principal}
+                        onChange={(e) => setNewLoan(prev => ({ ...prev, principal: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="loan-rate">อัตราดอกเบี้ย (% ต่อปี)</Label>
+                      <Input
+                        id="loan-rate"
+                        type="number"
+                        step="0.1"
+                        value={newLoan.annualRatePercent}
+                        onChange={(e) => setNewLoan(prev => ({ ...prev, annualRatePercent: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="loan-term">ระยะเวลา (เดือน)</Label>
+                      <Input
+                        id="loan-term"
+                        type="number"
+                        value={newLoan.termMonths}
+                        onChange={(e) => setNewLoan(prev => ({ ...prev, termMonths: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="loan-grace">ปลอดเงินต้น (เดือน)</Label>
+                      <Input
+                        id="loan-grace"
+                        type="number"
+                        value={newLoan.graceMonths}
+                        onChange={(e) => setNewLoan(prev => ({ ...prev, graceMonths: parseNumberInput(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>วิธีคิดดอกเบี้ย</Label>
+                      <Select
+                        value={newLoan.method}
+                        onValueChange={(value) => setNewLoan(prev => ({ ...prev, method: value as Loan['method'] }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INTEREST_METHODS.map(method => (
+                            <SelectItem key={method.key} value={method.key}>{method.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button
+                    onClick={handleSaveLoan}
+                    disabled={!newLoan.name || newLoan.principal <= 0 || newLoan.termMonths <= 0 || newLoan.graceMonths >= newLoan.termMonths}
+                  >
+                    {editingId !== null ? 'บันทึกการแก้ไข' : 'เพิ่มเงินกู้'}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">ดอกเบี้ยจ่ายปี {planYear}</div>
+              <div className="text-lg font-bold">{formatCurrency(yearFinancing.totalInterest)}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">เงินต้นที่ผ่อนชำระปี {planYear}</div>
+              <div className="text-lg font-bold">{formatCurrency(yearFinancing.totalPrincipal)}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">ยอดหนี้คงเหลือสิ้นปี</div>
+              <div className="text-lg font-bold">{formatCurrency(yearFinancing.closingBalance)}</div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>เงินกู้</TableHead>
+                <TableHead>วันที่รับเงิน</TableHead>
+                <TableHead className="text-right">เงินต้น</TableHead>
+                <TableHead className="text-right">ดอกเบี้ย</TableHead>
+                <TableHead>วิธี</TableHead>
+                <TableHead className="text-right">ค่างวด</TableHead>
+                <TableHead className="text-right">การดำเนินการ</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loans.map(loan => (
+                <TableRow key={loan.id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {loan.name}
+                      {loan.graceMonths > 0 && <Badge variant="secondary">ปลอดเงินต้น {loan.graceMonths} เดือน</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{loan.startDate}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(loan.principal)}</TableCell>
+                  <TableCell className="text-right">{loan.annualRatePercent}% · {loan.termMonths} เดือน</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{getMethodLabel(loan.method)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(getInstallment(loan))}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex gap-1 justify-end">
+                      <Button size="sm" variant="ghost" onClick={() => handleEdit(loan)}>
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(loan.id)}>
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {loans.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    ยังไม่มีเงินกู้
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedLoan && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>ตารางผ่อนชำระ</CardTitle>
+                <CardDescription>
+                  {getMethodLabel(selectedLoan.method)} · {selectedLoan.annualRatePercent}% ต่อปี
+                </CardDescription>
+              </div>
+              <Select value={selectedLoan.id} onValueChange={setSelectedLoanId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {loans.map(loan => (
+                    <SelectItem key={loan.id} value={loan.id}>{loan.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>งวด</TableHead>
+                    <TableHead>เดือน</TableHead>
+                    <TableHead className="text-right">ยอดต้นงวด</TableHead>
+                    <TableHead className="text-right">ค่างวด</TableHead>
+                    <TableHead className="text-right">ดอกเบี้ย</TableHead>
+                    <TableHead className="text-right">เงินต้น</TableHead>
+                    <TableHead className="text-right">ยอดคงเหลือ</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedSchedule.map(entry => (
+                    <TableRow key={entry.period} className={entry.year === planYear ? 'bg-muted' : ''}>
+                      <TableCell>{entry.period}</TableCell>
+                      <TableCell>{MONTH_LABELS_TH[entry.monthIndex]} {entry.year}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.openingBalance)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.payment)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.interest)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.principal)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.closingBalance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <WorkingCapital />
+    </div>
+  );
+}
@@ -3,16 +3,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Calculator, Plus, Edit, Trash2, Home, Wifi, Wrench, TrendingDown } from 'lucide-react';
-import { formatCurrency, parseNumberInput } from '../lib/utils';
+import { parseNumberInput } from '../lib/utils';
 import { FixedCost } from '../lib/finance-engine';
+import { convertToReporting, CURRENCIES, getReportingCurrency } from '../lib/fx';
 import { useFinanceState } from '../hooks/useFinanceState';
+import AssetRegister from './AssetRegister';
 
 export default function FixedCosts() {
-  const { data, updateFixedCosts } = useFinanceState();
+  const { data, updateFixedCosts, formatCurrency } = useFinanceState();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [newFixedCost, setNewFixedCost] = useState<FixedCost>({
@@ -23,6 +26,10 @@ export default function FixedCosts() {
 
   // Use data from global state instead of local state
   const fixedCosts: FixedCost[] = data?.fixedCosts || [];
+  const reportingCurrency = getReportingCurrency(data);
+
+  // Monthly amount in the reporting currency
+  const getMonthlyAmount = (cost: FixedCost): number => convertToReporting(cost.amountPerMonth, cost.currency, data);
 
   const resetNewFixedCost = () => {
     setNewFixedCost({
@@ -33,7 +40,7 @@ export default function FixedCosts() {
   };
 
   const getTotalMonthlyCost = (): number => {
-    return fixedCosts.reduce((total, cost) => total + cost.amountPerMonth, 0);
+    return fixedCosts.reduce((total, cost) => total + getMonthlyAmount(cost), 0);
   };
 
   const getTotalYearlyCost = (): number => {
@@ -118,7 +125,6 @@ export default function FixedCosts() {
     { name: 'ค่าอินเทอร์เน็ต', amount: 700, category: 'สื่อสาร' },
     { name: 'ค่าโทรศัพท์', amount: 300, category: 'สื่อสาร' },
     { name: 'ค่าซ่อมบำรุงขั้นต่ำ', amount: 1000, category: 'ซ่อมบำรุง' },
-    { name: 'ค่าเสื่อมราคาอุปกรณ์', amount: 1500, category: 'ค่าเสื่อมราคา' },
     { name: 'ประกันอุบัติเหตุ', amount: 500, category: 'ประกัน' },
     { name: 'ใบอนุญาตประกอบการ', amount: 200, category: 'ใบอนุญาต' },
     { name: 'ค่าสมาชิกธนาคาร', amount: 50, category: 'เช่าและค่าธรรมเนียม' }
@@ -212,7 +218,24 @@ export default function FixedCosts() {
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="amount">จำนวนเงิน/เดือน (บาท)</Label>
+                  <Label htmlFor="cost-currency">สกุลเงิน</Label>
+                  <Select
+                    value={newFixedCost.currency || reportingCurrency}
+                    onValueChange={(value) => setNewFixedCost(prev => ({ ...prev, currency: value === reportingCurrency ? undefined : value }))}
+                  >
+                    <SelectTrigger id="cost-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map(option => (
+                        <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="amount">จำนวนเงิน/เดือน ({newFixedCost.currency || reportingCurrency})</Label>
                   <Input
                     id="amount"
                     type="number"
@@ -244,7 +267,7 @@ export default function FixedCosts() {
                 <div className="p-3 bg-muted rounded-lg">
                   <div className="text-sm font-medium">ประเภท: {getCostCategory(newFixedCost.name)}</div>
                   <div className="text-xs text-muted-foreground mt-1">
-                    ต้นทุนต่อปี: {formatCurrency(newFixedCost.amountPerMonth * 12)}
+                    ต้นทุนต่อปี: {formatCurrency(newFixedCost.amountPerMonth * 12, newFixedCost.currency || reportingCurrency)}
                   </div>
                 </div>
 
@@ -348,11 +371,11 @@ export default function FixedCosts() {
                     />
                   </TableCell>
                   <TableCell className="text-right">
-                    {formatCurrency((editingAmounts[cost.id] ?? cost.amountPerMonth) * 12)}
+                    {formatCurrency((editingAmounts[cost.id] ?? cost.amountPerMonth) * 12, cost.currency || reportingCurrency)}
                   </TableCell>
                   <TableCell className="text-right">
                     {getTotalMonthlyCost() > 0 ? 
-                      `${((cost.amountPerMonth / getTotalMonthlyCost()) * 100).toFixed(1)}%` : 
+                      `${((getMonthlyAmount(cost) / getTotalMonthlyCost()) * 100).toFixed(1)}%` : 
                       '0%'
                     }
                   </TableCell>
@@ -390,7 +413,7 @@ export default function FixedCosts() {
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {Object.entries(groupedCosts as Record<string, FixedCost[]>).map(([category, costs]: [string, FixedCost[]]) => {
-              const categoryTotal = costs.reduce((sum: number, cost: FixedCost) => sum + cost.amountPerMonth, 0);
+              const categoryTotal = costs.reduce((sum: number, cost: FixedCost) => sum + getMonthlyAmount(cost), 0);
               const categoryPercentage = getTotalMonthlyCost() > 0 ? 
                 (categoryTotal / getTotalMonthlyCost()) * 100 : 0;
               
@@ -405,7 +428,7 @@ export default function FixedCosts() {
                     {costs.map((cost: FixedCost) => (
                       <div key={cost.id} className="flex justify-between">
                         <span>{cost.name}</span>
-                        <span>{formatCurrency(cost.amountPerMonth)}</span>
+                        <span>{formatCurrency(cost.amountPerMonth, cost.currency || reportingCurrency)}</span>
                       </div>
                     ))}
                   </div>
@@ -427,6 +450,9 @@ export default function FixedCosts() {
         </CardContent>
       </Card>
 
+      {/* Asset Register */}
+      <AssetRegister />
+
       {/* Cost Analysis */}
       <Card>
         <CardHeader>
@@ -458,11 +484,11 @@ export default function FixedCosts() {
             <div className="p-4 bg-orange-50 rounded-lg">
               <div className="text-sm font-medium text-orange-900">รายการสูงสุด</div>
               <div className="text-2xl font-bold text-orange-600">
-                {fixedCosts.length > 0 ? formatCurrency(Math.max(...fixedCosts.map(c => c.amountPerMonth))) : formatCurrency(0)}
+                {fixedCosts.length > 0 ? formatCurrency(Math.max(...fixedCosts.map(getMonthlyAmount))) : formatCurrency(0)}
               </div>
               <div className="text-xs text-orange-700">
                 {fixedCosts.length > 0 ? 
-                  fixedCosts.find(c => c.amountPerMonth === Math.max(...fixedCosts.map(cost => cost.amountPerMonth)))?.name :
+                  fixedCosts.find(c => getMonthlyAmount(c) === Math.max(...fixedCosts.map(getMonthlyAmount)))?.name :
                   'ไม่มีข้อมูล'
                 }
               </div>
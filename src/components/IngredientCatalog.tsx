@@ -0,0 +1,356 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Plus, Edit, Trash2, BookOpen, Link2 } from 'lucide-react';
+import { parseNumberInput } from '../lib/utils';
+import { useFinanceState } from '../hooks/useFinanceState';
+import { convertToReporting, CURRENCIES, getReportingCurrency } from '../lib/fx';
+import { describePurchaseUnit, getUnit, UNITS, UnitKey } from '../lib/units';
+import { getIngredients, getIngredientUsage, Ingredient, INGREDIENT_CATEGORIES } from '../lib/ingredients';
+
+export default function IngredientCatalog() {
+  const { data, updateIngredients, linkBomToCatalog, formatCurrency } = useFinanceState();
+  const ingredients = getIngredients(data);
+  const reportingCurrency = getReportingCurrency(data);
+  const menus = data?.menus || [];
+  // Free-text lines that "นำเข้าจากสูตรอาหาร" would move into the catalog
+  const freeTextLines = menus.flatMap(menu => menu.bom || []).filter(line => !line.packaging && !line.ingredientId && line.item);
+
+  const emptyIngredient = (): Ingredient => ({
+    id: '',
+    name: '',
+    category: 'other',
+    purchaseUnit: 'kg',
+    purchaseQty: 1,
+    price: 0,
+    defaultYieldPercent: 100,
+    defaultWastePercent: 0
+  });
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newIngredient, setNewIngredient] = useState<Ingredient>(emptyIngredient);
+  const [selectedIngredientId, setSelectedIngredientId] = useState<string>('');
+
+  const selectedIngredient = ingredients.find(ingredient => ingredient.id === selectedIngredientId) || ingredients[0];
+  const usage = selectedIngredient ? getIngredientUsage(data, selectedIngredient.id) : [];
+  const usageCount = (ingredientId: string) => getIngredientUsage(data, ingredientId).length;
+
+  const getCategoryLabel = (category: string) =>
+    INGREDIENT_CATEGORIES.find(c => c.key === category)?.label || category;
+  const formatPrice = (ingredient: Ingredient) =>
+    `${formatCurrency(ingredient.price, ingredient.currency || reportingCurrency)} / ${describePurchaseUnit(ingredient)}`;
+  const needsDensity = getUnit(newIngredient.purchaseUnit)?.dimension !== 'count';
+
+  const handleSaveIngredient = () => {
+    const ingredientToSave: Ingredient = {
+      ...newIngredient,
+      id: newIngredient.id || `ing_${Date.now()}`,
+      name: newIngredient.name.trim(),
+      densityGPerMl: needsDensity ? newIngredient.densityGPerMl || undefined : undefined
+    };
+    const updatedIngredients = editingId !== null
+      ? ingredients.map(ingredient => ingredient.id === editingId ? ingredientToSave : ingredient)
+      : [...ingredients, ingredientToSave];
+
+    if (JSON.stringify(updatedIngredients) !== JSON.stringify(ingredients)) {
+      updateIngredients(updatedIngredients);
+    }
+
+    setNewIngredient(emptyIngredient());
+    setEditingId(null);
+    setIsDialogOpen(false);
+  };
+
+  const handleEdit = (ingredient: Ingredient) => {
+    setNewIngredient({ ...ingredient });
+    setEditingId(ingredient.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (ingredientId: string) => {
+    updateIngredients(ingredients.filter(ingredient => ingredient.id !== ingredientId));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="w-5 h-5" />
+                คลังวัตถุดิบและราคา
+              </CardTitle>
+              <CardDescription>
+                สูตรอาหารอ้างอิงราคาจากคลัง แก้ราคาที่นี่ครั้งเดียว ต้นทุนทุกเมนูที่ใช้วัตถุดิบนั้นจะเปลี่ยนตาม
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={linkBomToCatalog} disabled={freeTextLines.length === 0}>
+                <Link2 className="w-4 h-4 mr-2" />
+                นำเข้าจากสูตรอาหาร ({freeTextLines.length})
+              </Button>
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={() => { setNewIngredient(emptyIngredient()); setEditingId(null); }}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    เพิ่มวัตถุดิบ
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>{editingId !== null ? 'แก้ไขวัตถุดิบ' : 'เพิ่มวัตถุดิบ'}</DialogTitle>
+                    <DialogDescription>
+                      ราคาซื้อต่อหน่วยซื้อ และค่าเริ่มต้นของ Yield/Waste สำหรับสูตรอาหารใหม่
+                    </DialogDescription>
+                  </DialogHeader>
+
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="ingredient-name">ชื่อวัตถุดิบ</Label>
+                        <Input
+                          id="ingredient-name"
+                          value={newIngredient.name}
+                          onChange={(e) => setNewIngredient(prev => ({ ...prev, name: e.target.value }))}
+                          placeholder="น่องไก่"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>หมวดหมู่</Label>
+                        <Select
+                          value={newIngredient.category}
+                          onValueChange={(value) => setNewIngredient(prev => ({ ...prev, category: value as Ingredient['category'] }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INGREDIENT_CATEGORIES.map(category => (
+                              <SelectItem key={category.key} value={category.key}>{category.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="ingredient-currency">สกุลเงิน</Label>
+                        <Select
+                          value={newIngredient.currency || reportingCurrency}
+                          onValueChange={(value) => setNewIngredient(prev => ({ ...prev, currency: value === reportingCurrency ? undefined : value }))}
+                        >
+                          <SelectTrigger id="ingredient-currency">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CURRENCIES.map(option => (
+                              <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="ingredient-price">ราคาซื้อ ({newIngredient.currency || reportingCurrency})</Label>
+                        <Input
+                          id="ingredient-price"
+                          type="number"
+                          value={newIngredient.price}
+                          onChange={(e) => setNewIngredient(prev => ({ ...prev, price: parseNumberInput(e.target.value) }))}
+                          placeholder="450"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="ingredient-purchase-qty">ต่อหน่วยซื้อ</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="ingredient-purchase-qty"
+                            type="number"
+                            value={newIngredient.purchaseQty}
+                            onChange={(e) => setNewIngredient(prev => ({ ...prev, purchaseQty: parseNumberInput(e.target.value) }))}
+                            placeholder="15"
+                          />
+                          <Select
+                            value={newIngredient.purchaseUnit}
+                            onValueChange={(value) => setNewIngredient(prev => ({ ...prev, purchaseUnit: value as UnitKey }))}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {UNITS.map(unit => (
+                                <SelectItem key={unit.key} value={unit.key}>{unit.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="ingredient-yield">Yield เริ่มต้น (%)</Label>
+                        <Input
+                          id="ingredient-yield"
+                          type="number"
+                          value={newIngredient.defaultYieldPercent}
+                          onChange={(e) => setNewIngredient(prev => ({ ...prev, defaultYieldPercent: parseFloat(e.target.value) || 100 }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="ingredient-waste">Waste เริ่มต้น (%)</Label>
+                        <Input
+                          id="ingredient-waste"
+                          type="number"
+                          value={newIngredient.defaultWastePercent}
+                          onChange={(e) => setNewIngredient(prev => ({ ...prev, defaultWastePercent: parseFloat(e.target.value) || 0 }))}
+                        />
+                      </div>
+                      {needsDensity && (
+                        <div className="space-y-2">
+                          <Label htmlFor="ingredient-density">ความหนาแน่น (กรัม/มล.)</Label>
+                          <Input
+                            id="ingredient-density"
+                            type="number"
+                            step="0.01"
+                            value={newIngredient.densityGPerMl ?? ''}
+                            onChange={(e) => setNewIngredient(prev => ({ ...prev, densityGPerMl: parseNumberInput(e.target.value) || undefined }))}
+                            placeholder="ไม่ระบุ"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <DialogFooter>
+                    <Button onClick={handleSaveIngredient} disabled={!newIngredient.name.trim() || newIngredient.purchaseQty <= 0}>
+                      {editingId !== null ? 'บันทึกการแก้ไข' : 'เพิ่มวัตถุดิบ'}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {ingredients.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>วัตถุดิบ</TableHead>
+                  <TableHead>หมวดหมู่</TableHead>
+                  <TableHead className="text-right">ราคาซื้อ</TableHead>
+                  <TableHead className="text-right">Yield / Waste</TableHead>
+                  <TableHead className="text-right">ใช้ในเมนู</TableHead>
+                  <TableHead className="text-right">การดำเนินการ</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ingredients.map(ingredient => {
+                  const used = usageCount(ingredient.id);
+                  return (
+                    <TableRow key={ingredient.id}>
+                      <TableCell className="font-medium">{ingredient.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getCategoryLabel(ingredient.category)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatPrice(ingredient)}</TableCell>
+                      <TableCell className="text-right">{ingredient.defaultYieldPercent}% / {ingredient.defaultWastePercent}%</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="link" onClick={() => setSelectedIngredientId(ingredient.id)}>
+                          {used} รายการ
+                        </Button>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-1 justify-end">
+                          <Button size="sm" variant="ghost" onClick={() => handleEdit(ingredient)}>
+                            <Edit className="w-3 h-3" />
+                          </Button>
+                          {/* Entries still used by a recipe cannot be removed */}
+                          <Button size="sm" variant="ghost" disabled={used > 0} onClick={() => handleDelete(ingredient.id)}>
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">
+              ยังไม่มีวัตถุดิบในคลัง เพิ่มวัตถุดิบหรือนำเข้าจากสูตรอาหารที่มีอยู่
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedIngredient && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>เมนูที่ใช้วัตถุดิบ</CardTitle>
+                <CardDescription>
+                  {selectedIngredient.name} · {formatPrice(selectedIngredient)}
+                </CardDescription>
+              </div>
+              <Select value={selectedIngredient.id} onValueChange={setSelectedIngredientId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ingredients.map(ingredient => (
+                    <SelectItem key={ingredient.id} value={ingredient.id}>{ingredient.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {usage.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>เมนู</TableHead>
+                    <TableHead className="text-right">ปริมาณต่อจาน</TableHead>
+                    <TableHead className="text-right">Yield %</TableHead>
+                    <TableHead className="text-right">Waste %</TableHead>
+                    <TableHead className="text-right">ต้นทุนต่อจาน</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usage.map((use, index) => (
+                    <TableRow key={`${use.menuId}_${index}`}>
+                      <TableCell className="font-medium">{use.menuName}</TableCell>
+                      <TableCell className="text-right">{use.qty} {getUnit(use.unit)?.label || use.unit}</TableCell>
+                      <TableCell className="text-right">{use.yieldPercent}%</TableCell>
+                      <TableCell className="text-right">{use.wastePercent}%</TableCell>
+                      <TableCell className="text-right">
+                        {use.costPerUnit === null
+                          ? <span className="text-red-600">แปลงหน่วยไม่ได้</span>
+                          : formatCurrency(convertToReporting(use.costPerUnit, selectedIngredient.currency, data))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center text-muted-foreground py-8">
+                ยังไม่มีเมนูที่ใช้วัตถุดิบนี้
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
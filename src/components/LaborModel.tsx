@@ -9,12 +9,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Users, Plus, Edit, Trash2, Calculator, Clock, DollarSign } from 'lucide-react';
-import { formatCurrency, parseNumberInput } from '../lib/utils';
+import { parseNumberInput } from '../lib/utils';
 import { LaborItem } from '../lib/finance-engine';
 import { useFinanceState } from '../hooks/useFinanceState';
+import { buildOperatingCalendar } from '../lib/calendar';
 
 export default function LaborModel() {
-  const { data, updateLabor } = useFinanceState();
+  const { data, updateLabor, formatCurrency } = useFinanceState();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [newLaborItem, setNewLaborItem] = useState<LaborItem>({
@@ -48,8 +49,12 @@ export default function LaborModel() {
     return calculateDailyWage(item) * item.daysPerWeek;
   };
 
+  // Staff work their days out of the shop's open weekdays, over the open days of an average month
+  const calendar = buildOperatingCalendar(data);
   const calculateMonthlyWage = (item: LaborItem): number => {
-    return calculateWeeklyWage(item) * 4.33; // Average weeks per month
+    if (calendar.openDaysPerWeek <= 0) return 0;
+    const attendance = Math.min(Math.max(item.daysPerWeek || 0, 0), calendar.openDaysPerWeek) / calendar.openDaysPerWeek;
+    return calculateDailyWage(item) * attendance * calendar.avgOpenDaysPerMonth;
   };
 
   const getTotalMonthlyCost = (): number => {
@@ -3,29 +3,41 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { Plus, Edit, Trash2, Package, ChefHat } from 'lucide-react';
-import { formatCurrency, parseNumberInput } from '../lib/utils';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Plus, Edit, Trash2, Package, ChefHat, Tag } from 'lucide-react';
+import { formatPercent, parseNumberInput } from '../lib/utils';
 import { useFinanceState } from '../hooks/useFinanceState';
-
-interface BOMItem {
+import { getNormalizedMenuMix } from '../lib/finance-engine';
+import { getMenuElasticity, getPricingSettings, PriceOptimization, repriceMenu } from '../lib/pricing';
+import { convertToReporting, CURRENCIES, getReportingCurrency } from '../lib/fx';
+import { calculateIngredientCost, convertQuantity, describePurchaseUnit, getPurchasePrice, getRecipeQuantity, getUnit, MeasuredIngredient, toUnitForm, UnitKey, UNITS } from '../lib/units';
+import { getIngredients, Ingredient, resolveIngredientLine } from '../lib/ingredients';
+import IngredientCatalog from './IngredientCatalog';
+
+interface BOMItem extends MeasuredIngredient {
   item: string;
-  qtyG: number;
-  unitCostPerKg: number;
   yieldPercent: number;
   wastePercent: number;
   packaging?: {
     qtyUnit: number;
     unitCost: number;
   };
+  currency?: string;
+  ingredientId?: string;
 }
 
 interface MenuItem {
   id: string;
   name: string;
   price: number;
+  mixShare?: number;
+  deliveryMarkupPercent?: number;
+  priceElasticity?: number;
+  referencePrice?: number;
   channelMix: {
     dineIn: number;
     takeaway: number;
@@ -35,10 +47,13 @@ interface MenuItem {
 }
 
 export default function MenuBOM() {
-  const { data, updateMenu, addMenu, deleteMenu } = useFinanceState();
+  const { data, updateMenu, addMenu, deleteMenu, updateMeta, optimizeMenuPrice, formatCurrency } = useFinanceState();
   
   // Use global state directly
   const menus = data?.menus || [];
+  const menuMix = getNormalizedMenuMix(menus);
+  const reportingCurrency = getReportingCurrency(data);
+  const ingredients = getIngredients(data);
   const [selectedMenu, setSelectedMenu] = useState<MenuItem | null>(menus[0] || null);
   
   // Sync selected menu when menus change (only when first mount or menus length changes)
@@ -53,6 +68,33 @@ export default function MenuBOM() {
     }
     // Only depend on menus length and selectedMenu id to avoid triggering on identity changes
   }, [menus.length, selectedMenu?.id]);
+  // Profit curve and recommended price of the selected menu, recomputed in the worker when the data changes
+  const pricingSettings = getPricingSettings(data);
+  const [priceOptimization, setPriceOptimization] = useState<PriceOptimization | null>(null);
+  useEffect(() => {
+    if (!selectedMenu) {
+      setPriceOptimization(null);
+      return;
+    }
+    let active = true;
+    optimizeMenuPrice(selectedMenu.id).then(optimization => {
+      if (active) setPriceOptimization(optimization);
+    });
+    return () => {
+      active = false;
+    };
+  }, [data, selectedMenu?.id, optimizeMenuPrice]);
+
+  const updateSelectedMenu = (updatedMenu: MenuItem) => {
+    if (!selectedMenu) return;
+    updateMenu(selectedMenu.id, updatedMenu);
+    setSelectedMenu(updatedMenu);
+  };
+
+  const updatePricingSettings = (updates: Record<string, any>) => {
+    updateMeta({ pricing: { ...pricingSettings, ...updates } });
+  };
+
   const [isMenuDialogOpen, setIsMenuDialogOpen] = useState(false);
   const [isBOMDialogOpen, setIsBOMDialogOpen] = useState(false);
   const [editingBOMIndex, setEditingBOMIndex] = useState<number | null>(null);
@@ -61,28 +103,86 @@ export default function MenuBOM() {
   const [newMenu, setNewMenu] = useState({
     name: '',
     price: 0,
+    mixPercent: 0,
+    deliveryMarkupPercent: 0,
     channelMix: { dineIn: 70, takeaway: 20, delivery: 10 },
     bom: [] as BOMItem[]
   });
 
-  const [newBOMItem, setNewBOMItem] = useState<BOMItem>({
+  const emptyBOMItem = (): BOMItem => ({
     item: '',
-    qtyG: 0,
-    unitCostPerKg: 0,
+    qty: 0,
+    unit: 'g',
+    purchaseCost: 0,
+    purchaseQty: 1,
+    purchaseUnit: 'kg',
     yieldPercent: 100,
     wastePercent: 0
   });
+  const [newBOMItem, setNewBOMItem] = useState<BOMItem>(emptyBOMItem);
+  // Lines priced from the catalog show and cost with the catalog's price and pack
+  const resolveLine = (item: BOMItem): BOMItem => resolveIngredientLine(item, ingredients);
+  const resolvedNewBOMItem = resolveLine(newBOMItem);
+  const linkedIngredient = ingredients.find(ingredient => ingredient.id === newBOMItem.ingredientId);
+  // Mass and volume meet through the density; count units only convert among themselves
+  const newBOMDimensions = [getUnit(resolvedNewBOMItem.unit)?.dimension, getUnit(resolvedNewBOMItem.purchaseUnit)?.dimension];
+  const needsDensity = newBOMDimensions[0] !== newBOMDimensions[1] && !newBOMDimensions.includes('count');
+  const unitsConvert = resolvedNewBOMItem.unit && resolvedNewBOMItem.purchaseUnit
+    ? convertQuantity(1, resolvedNewBOMItem.unit, resolvedNewBOMItem.purchaseUnit, needsDensity ? resolvedNewBOMItem.densityGPerMl : undefined) !== null
+    : true;
+
+  // Reference a catalog entry, taking its default yield and waste; the price stays in the catalog
+  const linkNewBOMItem = (ingredient: Ingredient) => {
+    setNewBOMItem(prev => ({
+      item: ingredient.name,
+      ingredientId: ingredient.id,
+      qty: prev.qty ?? 0,
+      unit: prev.unit || ingredient.purchaseUnit,
+      yieldPercent: ingredient.defaultYieldPercent,
+      wastePercent: ingredient.defaultWastePercent
+    }));
+  };
 
-  const calculateBOMCost = (bomItem: BOMItem): number => {
+  const unlinkNewBOMItem = () => {
+    setNewBOMItem(prev => {
+      const { ingredientId, ...line } = resolveLine(prev);
+      return line;
+    });
+  };
+
+  // Catalog lines are edited as stored; free-text lines move to the unit form
+  const toEditableLine = (item: BOMItem): BOMItem => item.ingredientId ? { ...item } : toUnitForm(item);
+
+  const renderUnitSelect = (value: UnitKey | undefined, onChange: (unit: UnitKey) => void, id: string) => (
+    <Select value={value} onValueChange={(unit) => onChange(unit as UnitKey)}>
+      <SelectTrigger id={id} className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {UNITS.map(unit => (
+          <SelectItem key={unit.key} value={unit.key}>{unit.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const formatRecipeQuantity = (item: BOMItem) => {
+    const recipe = getRecipeQuantity(item);
+    return `${recipe.qty} ${getUnit(recipe.unit)?.label || recipe.unit}`;
+  };
+  const formatPurchasePrice = (line: BOMItem) => {
+    const item = resolveLine(line);
+    return `${formatCurrency(getPurchasePrice(item).cost, item.currency || reportingCurrency)} / ${describePurchaseUnit(item)}`;
+  };
+
+  // Cost per menu unit in the reporting currency
+  const calculateBOMCost = (line: BOMItem): number => {
+    const bomItem = resolveLine(line);
     if (bomItem.packaging) {
-      return bomItem.packaging.qtyUnit * bomItem.packaging.unitCost;
+      return convertToReporting(bomItem.packaging.qtyUnit * bomItem.packaging.unitCost, bomItem.currency, data);
     }
     
-    const effectiveYield = bomItem.yieldPercent / 100;
-    const wasteMultiplier = 1 + (bomItem.wastePercent / 100);
-    const actualQtyNeeded = (bomItem.qtyG / 1000) * wasteMultiplier / effectiveYield;
-    
-    return actualQtyNeeded * bomItem.unitCostPerKg;
+    return convertToReporting(calculateIngredientCost(bomItem) ?? 0, bomItem.currency, data);
   };
 
   const calculateTotalBOMCost = (bom: BOMItem[]): number => {
@@ -105,6 +205,9 @@ export default function MenuBOM() {
       id: menuId,
       name: newMenu.name,
       price: newMenu.price,
+      // Leaving the share empty keeps the menu on an equal split
+      ...(newMenu.mixPercent > 0 ? { mixShare: Math.min(100, newMenu.mixPercent) / 100 } : {}),
+      deliveryMarkupPercent: newMenu.deliveryMarkupPercent,
       channelMix: {
         dineIn: newMenu.channelMix.dineIn / 100,
         takeaway: newMenu.channelMix.takeaway / 100,
@@ -116,7 +219,7 @@ export default function MenuBOM() {
     // Add through global state manager (ensures add + persist)
     addMenu(menu);
 
-    setNewMenu({ name: '', price: 0, channelMix: { dineIn: 70, takeaway: 20, delivery: 10 }, bom: [] });
+    setNewMenu({ name: '', price: 0, mixPercent: 0, deliveryMarkupPercent: 0, channelMix: { dineIn: 70, takeaway: 20, delivery: 10 }, bom: [] });
     setIsMenuDialogOpen(false);
     setSelectedMenu(menu);
   };
@@ -144,13 +247,7 @@ export default function MenuBOM() {
       setSelectedMenu(updatedMenu);
     }
 
-    setNewBOMItem({
-      item: '',
-      qtyG: 0,
-      unitCostPerKg: 0,
-      yieldPercent: 100,
-      wastePercent: 0
-    });
+    setNewBOMItem(emptyBOMItem());
     setEditingBOMIndex(null);
     setIsEditingNewMenu(false);
     setIsBOMDialogOpen(false);
@@ -163,20 +260,14 @@ export default function MenuBOM() {
 
     setNewMenu(prev => ({ ...prev, bom: updatedBOM }));
 
-    setNewBOMItem({
-      item: '',
-      qtyG: 0,
-      unitCostPerKg: 0,
-      yieldPercent: 100,
-      wastePercent: 0
-    });
+    setNewBOMItem(emptyBOMItem());
     setEditingBOMIndex(null);
     setIsEditingNewMenu(false);
     setIsBOMDialogOpen(false);
   };
 
   const handleEditBOMInNewMenu = (index: number) => {
-    setNewBOMItem(newMenu.bom[index]);
+    setNewBOMItem(toEditableLine(newMenu.bom[index]));
     setEditingBOMIndex(index);
     setIsEditingNewMenu(true);
     setIsBOMDialogOpen(true);
@@ -189,7 +280,7 @@ export default function MenuBOM() {
 
   const handleEditBOMItem = (index: number) => {
     if (!selectedMenu) return;
-    setNewBOMItem(selectedMenu.bom[index]);
+    setNewBOMItem(toEditableLine(selectedMenu.bom[index]));
     setEditingBOMIndex(index);
     setIsEditingNewMenu(false);
     setIsBOMDialogOpen(true);
@@ -260,6 +351,18 @@ export default function MenuBOM() {
                   placeholder="60"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="menu-mix">สัดส่วนยอดขาย (% ของจานทั้งหมดต่อวัน)</Label>
+                <Input
+                  id="menu-mix"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={newMenu.mixPercent || ''}
+                  onChange={(e) => setNewMenu(prev => ({ ...prev, mixPercent: parseNumberInput(e.target.value) }))}
+                  placeholder="เว้นว่างเพื่อแบ่งเท่ากัน"
+                />
+              </div>
               <div className="grid grid-cols-3 gap-2">
                 <div className="space-y-2">
                   <Label>Dine-in (%)</Label>
@@ -295,6 +398,20 @@ export default function MenuBOM() {
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="menu-delivery-markup">บวกราคาเดลิเวอรี (%)</Label>
+                <Input
+                  id="menu-delivery-markup"
+                  type="number"
+                  min={0}
+                  value={newMenu.deliveryMarkupPercent}
+                  onChange={(e) => setNewMenu(prev => ({ ...prev, deliveryMarkupPercent: parseNumberInput(e.target.value) }))}
+                  placeholder="0"
+                />
+                <p className="text-xs text-muted-foreground">
+                  ราคาบนแอปเดลิเวอรี {formatCurrency(newMenu.price * (1 + (newMenu.deliveryMarkupPercent || 0) / 100))}
+                </p>
+              </div>
 
               {/* BOM Section for New Menu */}
               <div className="border-t pt-4">
@@ -321,8 +438,8 @@ export default function MenuBOM() {
                       <TableHeader>
                         <TableRow>
                           <TableHead>วัตถุดิบ</TableHead>
-                          <TableHead className="text-right">ปริมาณ (กรัม)</TableHead>
-                          <TableHead className="text-right">ราคา/กก.</TableHead>
+                          <TableHead className="text-right">ปริมาณ</TableHead>
+                          <TableHead className="text-right">ราคาซื้อ</TableHead>
                           <TableHead className="text-right">Yield %</TableHead>
                           <TableHead className="text-right">Waste %</TableHead>
                           <TableHead className="text-right">ต้นทุน</TableHead>
@@ -332,9 +449,9 @@ export default function MenuBOM() {
                       <TableBody>
                         {newMenu.bom.map((item, index) => (
                           <TableRow key={index}>
-                            <TableCell className="font-medium">{item.item}</TableCell>
-                            <TableCell className="text-right">{item.qtyG}</TableCell>
-                            <TableCell className="text-right">{formatCurrency(item.unitCostPerKg)}</TableCell>
+                            <TableCell className="font-medium">{resolveLine(item).item}</TableCell>
+                            <TableCell className="text-right">{formatRecipeQuantity(item)}</TableCell>
+                            <TableCell className="text-right">{formatPurchasePrice(item)}</TableCell>
                             <TableCell className="text-right">{item.yieldPercent}%</TableCell>
                             <TableCell className="text-right">{item.wastePercent}%</TableCell>
                             <TableCell className="text-right font-medium">
@@ -428,7 +545,7 @@ export default function MenuBOM() {
                     <div>
                       <h4 className="font-medium">{menu.name}</h4>
                       <p className="text-sm text-muted-foreground">
-                        {formatCurrency(menu.price)}
+                        {formatCurrency(menu.price)} · สัดส่วน {formatPercent((menuMix[menu.id] || 0) * 100)}
                       </p>
                     </div>
                     <Badge variant={getStatusColor(calculateContributionMarginPercent(menu))}>
@@ -493,35 +610,123 @@ export default function MenuBOM() {
                       </DialogTitle>
                     </DialogHeader>
                     <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="bom-ingredient">วัตถุดิบจากคลัง</Label>
+                        <Select
+                          value={newBOMItem.ingredientId || 'free'}
+                          onValueChange={(value) => {
+                            const ingredient = ingredients.find(entry => entry.id === value);
+                            if (ingredient) {
+                              linkNewBOMItem(ingredient);
+                            } else {
+                              unlinkNewBOMItem();
+                            }
+                          }}
+                        >
+                          <SelectTrigger id="bom-ingredient">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="free">ไม่ใช้คลัง (กรอกราคาเอง)</SelectItem>
+                            {ingredients.map(ingredient => (
+                              <SelectItem key={ingredient.id} value={ingredient.id}>{ingredient.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                       <div className="space-y-2">
                         <Label htmlFor="item-name">ชื่อวัตถุดิบ</Label>
                         <Input
                           id="item-name"
-                          value={newBOMItem.item}
+                          value={resolvedNewBOMItem.item}
+                          disabled={!!linkedIngredient}
                           onChange={(e) => setNewBOMItem(prev => ({ ...prev, item: e.target.value }))}
                           placeholder="น่องไก่"
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="qty">ปริมาณ (กรัม)</Label>
-                        <Input
-                          id="qty"
-                          type="number"
-                          value={newBOMItem.qtyG}
-                          onChange={(e) => setNewBOMItem(prev => ({ ...prev, qtyG: parseNumberInput(e.target.value) }))}
-                          placeholder="120"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="unit-cost">ราคาต่อกิโลกรัม (บาท)</Label>
-                        <Input
-                          id="unit-cost"
-                          type="number"
-                          value={newBOMItem.unitCostPerKg}
-                          onChange={(e) => setNewBOMItem(prev => ({ ...prev, unitCostPerKg: parseNumberInput(e.target.value) }))}
-                          placeholder="70"
-                        />
+                        <Label htmlFor="qty">ปริมาณที่ใช้ต่อจาน</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="qty"
+                            type="number"
+                            value={newBOMItem.qty ?? 0}
+                            onChange={(e) => setNewBOMItem(prev => ({ ...prev, qty: parseNumberInput(e.target.value) }))}
+                            placeholder="180"
+                          />
+                          {renderUnitSelect(newBOMItem.unit, unit => setNewBOMItem(prev => ({ ...prev, unit })), 'qty-unit')}
+                        </div>
                       </div>
+                      {linkedIngredient ? (
+                        <div className="space-y-2">
+                          <Label>ราคาซื้อจากคลัง</Label>
+                          <div className="text-sm font-medium pt-2">{formatPurchasePrice(newBOMItem)}</div>
+                        </div>
+                      ) : (
+                        <>
+                        <div className="space-y-2">
+                          <Label htmlFor="bom-currency">สกุลเงิน</Label>
+                          <Select
+                            value={newBOMItem.currency || reportingCurrency}
+                            onValueChange={(value) => setNewBOMItem(prev => ({ ...prev, currency: value === reportingCurrency ? undefined : value }))}
+                          >
+                            <SelectTrigger id="bom-currency">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CURRENCIES.map(option => (
+                                <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="unit-cost">ราคาซื้อ ({newBOMItem.currency || reportingCurrency})</Label>
+                          <Input
+                            id="unit-cost"
+                            type="number"
+                            value={newBOMItem.purchaseCost ?? 0}
+                            onChange={(e) => setNewBOMItem(prev => ({ ...prev, purchaseCost: parseNumberInput(e.target.value) }))}
+                            placeholder="450"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="purchase-qty">ต่อหน่วยซื้อ (เช่น กระสอบ 15 กก.)</Label>
+                          <div className="flex gap-2">
+                            <Input
+                              id="purchase-qty"
+                              type="number"
+                              value={newBOMItem.purchaseQty ?? 1}
+                              onChange={(e) => setNewBOMItem(prev => ({ ...prev, purchaseQty: parseNumberInput(e.target.value) }))}
+                              placeholder="15"
+                            />
+                            {renderUnitSelect(newBOMItem.purchaseUnit, purchaseUnit => setNewBOMItem(prev => ({ ...prev, purchaseUnit })), 'purchase-unit')}
+                          </div>
+                        </div>
+                        </>
+                      )}
+                      {needsDensity && !linkedIngredient && (
+                        <div className="space-y-2">
+                          <Label htmlFor="density">ความหนาแน่น (กรัม/มล.)</Label>
+                          <Input
+                            id="density"
+                            type="number"
+                            step="0.01"
+                            value={newBOMItem.densityGPerMl ?? ''}
+                            onChange={(e) => setNewBOMItem(prev => ({ ...prev, densityGPerMl: parseNumberInput(e.target.value) || undefined }))}
+                            placeholder="1.0"
+                          />
+                        </div>
+                      )}
+                      {!unitsConvert && (
+                        <p className="col-span-2 text-sm text-red-600">
+                          {needsDensity
+                            ? linkedIngredient
+                              ? 'ระบุความหนาแน่นของวัตถุดิบนี้ในคลังวัตถุดิบ เพื่อแปลงระหว่างน้ำหนักและปริมาตร'
+                              : 'ระบุความหนาแน่นเพื่อแปลงระหว่างน้ำหนักและปริมาตร'
+                            : 'หน่วยที่ใช้และหน่วยที่ซื้อแปลงกันไม่ได้ (หน่วยนับกับน้ำหนัก/ปริมาตร)'}
+                        </p>
+                      )}
                       <div className="space-y-2">
                         <Label htmlFor="yield">Yield (%)</Label>
                         <Input
@@ -566,8 +771,8 @@ export default function MenuBOM() {
                   <TableHeader>
                     <TableRow>
                       <TableHead>วัตถุดิบ</TableHead>
-                      <TableHead className="text-right">ปริมาณ (กรัม)</TableHead>
-                      <TableHead className="text-right">ราคา/กก.</TableHead>
+                      <TableHead className="text-right">ปริมาณ</TableHead>
+                      <TableHead className="text-right">ราคาซื้อ</TableHead>
                       <TableHead className="text-right">Yield %</TableHead>
                       <TableHead className="text-right">Waste %</TableHead>
                       <TableHead className="text-right">ต้นทุน</TableHead>
@@ -577,9 +782,9 @@ export default function MenuBOM() {
                   <TableBody>
                     {selectedMenu.bom.map((item, index) => (
                       <TableRow key={index}>
-                        <TableCell className="font-medium">{item.item}</TableCell>
-                        <TableCell className="text-right">{item.qtyG}</TableCell>
-                        <TableCell className="text-right">{formatCurrency(item.unitCostPerKg)}</TableCell>
+                        <TableCell className="font-medium">{resolveLine(item).item}</TableCell>
+                        <TableCell className="text-right">{formatRecipeQuantity(item)}</TableCell>
+                        <TableCell className="text-right">{formatPurchasePrice(item)}</TableCell>
                         <TableCell className="text-right">{item.yieldPercent}%</TableCell>
                         <TableCell className="text-right">{item.wastePercent}%</TableCell>
                         <TableCell className="text-right font-medium">
@@ -641,6 +846,120 @@ export default function MenuBOM() {
           </CardContent>
         </Card>
       </div>
+
+      {selectedMenu && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tag className="w-5 h-5" />
+              ราคาที่เหมาะสม: {selectedMenu.name}
+            </CardTitle>
+            <CardDescription>
+              ความยืดหยุ่นของราคา (elasticity) = % ยอดขายที่เปลี่ยนเมื่อราคาเปลี่ยน 1% เช่น -1.5 หมายถึงขึ้นราคา 10% ยอดขายลดประมาณ 15%
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="menu-elasticity">ความยืดหยุ่นของราคา</Label>
+                <Input
+                  id="menu-elasticity"
+                  type="number"
+                  step="0.1"
+                  value={getMenuElasticity(selectedMenu, pricingSettings)}
+                  onChange={(e) => updateSelectedMenu({ ...selectedMenu, priceElasticity: parseNumberInput(e.target.value) })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {selectedMenu.priceElasticity === undefined ? 'ใช้ค่าเริ่มต้นของทุกเมนู' : 'ค่าเฉพาะเมนูนี้'}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-min-change">ราคาต่ำสุดที่พิจารณา (%)</Label>
+                <Input
+                  id="price-min-change"
+                  type="number"
+                  value={pricingSettings.minPriceChangePercent}
+                  onChange={(e) => updatePricingSettings({ minPriceChangePercent: parseNumberInput(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-max-change">ราคาสูงสุดที่พิจารณา (%)</Label>
+                <Input
+                  id="price-max-change"
+                  type="number"
+                  value={pricingSettings.maxPriceChangePercent}
+                  onChange={(e) => updatePricingSettings({ maxPriceChangePercent: parseNumberInput(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            {priceOptimization && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <Card className="p-4">
+                    <div className="text-sm font-medium text-muted-foreground">ราคาปัจจุบัน</div>
+                    <div className="text-xl font-bold">{formatCurrency(priceOptimization.currentPrice)}</div>
+                    {priceOptimization.referencePrice !== priceOptimization.currentPrice && (
+                      <div className="text-xs text-muted-foreground">ยอดขายพยากรณ์ที่ราคา {formatCurrency(priceOptimization.referencePrice)}</div>
+                    )}
+                  </Card>
+                  <Card className="p-4">
+                    <div className="text-sm font-medium text-muted-foreground">ราคาแนะนำ</div>
+                    <div className="text-xl font-bold text-blue-600">{formatCurrency(priceOptimization.recommendedPrice)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatPercent((priceOptimization.recommendedPrice / priceOptimization.currentPrice - 1) * 100)} จากราคาปัจจุบัน
+                    </div>
+                  </Card>
+                  <Card className="p-4">
+                    <div className="text-sm font-medium text-muted-foreground">กำไรจากการดำเนินงาน/เดือน</div>
+                    <div className="text-xl font-bold">{formatCurrency(priceOptimization.recommendedProfit)}</div>
+                    <div className={`text-xs ${priceOptimization.profitChange > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
+                      {priceOptimization.profitChange >= 0 ? '+' : ''}{formatCurrency(priceOptimization.profitChange)} จากปัจจุบัน
+                    </div>
+                  </Card>
+                  <Card className="p-4 flex items-center justify-center">
+                    <Button
+                      variant="outline"
+                      disabled={Math.abs(priceOptimization.recommendedPrice - priceOptimization.currentPrice) < 0.5}
+                      onClick={() => updateSelectedMenu(repriceMenu(selectedMenu, Math.round(priceOptimization.recommendedPrice)))}
+                    >
+                      ใช้ราคาแนะนำ
+                    </Button>
+                  </Card>
+                </div>
+
+                {priceOptimization.elasticity === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    ยังไม่ได้กำหนดความยืดหยุ่นของราคา ยอดขายจึงไม่เปลี่ยนตามราคา และราคาแนะนำจะเป็นราคาสูงสุดที่พิจารณาเสมอ
+                  </p>
+                )}
+
+                <ResponsiveContainer width="100%" height={320}>
+                  <LineChart data={priceOptimization.curve}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="price"
+                      type="number"
+                      domain={[priceOptimization.minPrice, priceOptimization.maxPrice]}
+                      tickFormatter={(value) => formatCurrency(value)}
+                    />
+                    <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                    <Tooltip
+                      formatter={(value) => [formatCurrency(value as number), 'กำไรจากการดำเนินงาน/เดือน']}
+                      labelFormatter={(value) => `ราคา ${formatCurrency(value as number)}`}
+                    />
+                    <ReferenceLine x={priceOptimization.currentPrice} stroke="#666" strokeDasharray="4 4" label="ปัจจุบัน" />
+                    <ReferenceLine x={priceOptimization.recommendedPrice} stroke="#2563eb" label="แนะนำ" />
+                    <Line type="monotone" dataKey="monthlyOperatingProfit" stroke="#8884d8" strokeWidth={3} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <IngredientCatalog />
     </div>
   );
-}
\ No newline at end of file
+}
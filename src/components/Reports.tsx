@@ -4,23 +4,50 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { LineChart, Line, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
 import { FileText, Download, Printer, Share, BarChart3, PieChart, TrendingUp } from 'lucide-react';
-import { formatCurrency, formatPercent, downloadJSON, downloadCSV } from '../lib/utils';
+import { formatNumber, formatPercent, downloadJSON, downloadCSV } from '../lib/utils';
 import { useFinanceState } from '../hooks/useFinanceState';
+import { MENU_CLASSES, MenuClass, MenuEngineeringItem, MenuEngineeringResult } from '../lib/menu-engineering';
+import { AnnualPnL, MonthlyProjection, MultiYearMonth, YearlyProjection } from '../lib/finance-engine';
+import { AppraisalResult } from '../lib/appraisal';
+import { CashFlowMonth, CashFlowStatement } from '../lib/cash-flow';
+import { TaxBracketResult } from '../lib/tax';
+import { convertFromReporting, getFxRates, getReportingCurrency } from '../lib/fx';
 
 interface ReportsProps {
   financialData: any;
 }
 
+// Amount columns of the CSV exports, rounded at the money precision
+const PNL_MONEY_KEYS = ['revenue', 'channelFees', 'netRevenue', 'cogs', 'grossProfit', 'operatingExpenses', 'depreciation', 'operatingProfit', 'interest', 'preTaxProfit', 'taxExpense', 'netProfit'];
+const MULTI_YEAR_MONEY_KEYS = [...PNL_MONEY_KEYS, 'disposalGain'];
+const CASH_FLOW_MONEY_KEYS = [
+  'openingCash', 'cashSales', 'deliveryPayouts', 'loanProceeds', 'disposalProceeds', 'supplierPayments', 'payroll', 'otherExpenses',
+  'vatPayments', 'incomeTax', 'interest', 'principalRepayment', 'capex', 'ownerDrawings', 'netCashFlow', 'closingCash'
+];
+const MENU_MONEY_KEYS = ['price', 'variableCost', 'contributionMargin'];
+// Precision of the other numeric CSV columns; unlisted ones use CSV_DEFAULT_DECIMALS
+const CSV_COLUMN_DECIMALS: Record<string, number> = {
+  year: 0,
+  openDays: 0,
+  units: 1,
+  volumeFactor: 4,
+  contributionMarginPercent: 2,
+  popularityPercent: 2
+};
+
 export default function Reports({ financialData }: ReportsProps) {
-  const { exportData, exportFreshData, importData, forceSave } = useFinanceState();
+  const { data, exportData, exportFreshData, importData, forceSave, formatCurrency, moneySettings } = useFinanceState();
   const [selectedPeriod, setSelectedPeriod] = useState('monthly');
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState<string>('');
+  const [displayCurrency, setDisplayCurrency] = useState<string | null>(null);
 
   // Comprehensive export utility with real-time data fetching and retry logic
   const performRealTimeExport = async (
-    exportType: 'json' | 'pnl' | 'menu' | 'comprehensive',
+    exportType: 'json' | 'pnl' | 'menu' | 'multiYear' | 'cashFlow' | 'comprehensive',
     maxRetries = 3
   ): Promise<{
     freshData: any;
@@ -100,7 +127,24 @@ export default function Reports({ financialData }: ReportsProps) {
   // Get fresh data for display - but DO NOT use for exports to ensure real-time data
   const kpis = financialData?.kpis || {};
   const pnl = financialData?.pnl || { daily: {}, monthly: {} };
+  const projection: MonthlyProjection[] = pnl.projection || [];
+  const multiYearYears: YearlyProjection[] = financialData?.multiYear?.years || [];
+  const multiYearMonths: MultiYearMonth[] = financialData?.multiYear?.months || [];
+  const appraisal: AppraisalResult | null = financialData?.appraisal || null;
+  const cashFlow: CashFlowStatement | null = pnl.cashFlow || null;
+  const formatMonths = (months: number | null) =>
+    months === null ? 'ไม่คืนทุนในช่วงประมาณการ' : `${(months / 12).toFixed(1)} ปี (${months.toFixed(1)} เดือน)`;
   const menus = financialData?.menus || [];
+  const menuEngineering: MenuEngineeringResult | null = financialData?.menuEngineering || null;
+  const menuClassColors: Record<MenuClass, string> = { star: '#16a34a', plowhorse: '#2563eb', puzzle: '#f59e0b', dog: '#dc2626' };
+  const getMenuClass = (key: MenuClass) => MENU_CLASSES.find(menuClass => menuClass.key === key);
+
+  // Results are computed in the reporting currency; on screen they can be shown in any
+  // currency with a rate. Exports stay in the reporting currency.
+  const reportingCurrency = getReportingCurrency(data);
+  const displayCurrencies = [reportingCurrency, ...Array.from(new Set(getFxRates(data).map(rate => rate.currency))).filter(code => code !== reportingCurrency)];
+  const shownCurrency = displayCurrency && displayCurrencies.includes(displayCurrency) ? displayCurrency : reportingCurrency;
+  const formatMoney = (amount: number) => formatCurrency(convertFromReporting(amount, shownCurrency, data), shownCurrency);
 
   const handleExportJSON = async () => {
     setIsExporting(true);
@@ -143,24 +187,38 @@ export default function Reports({ financialData }: ReportsProps) {
         {
           period: 'รายวัน',
           revenue: freshPnL.daily?.revenue || 0,
+          channelFees: freshPnL.daily?.channelFees || 0,
+          netRevenue: freshPnL.daily?.netRevenue || 0,
           cogs: freshPnL.daily?.cogs || 0,
           grossProfit: freshPnL.daily?.grossProfit || 0,
           operatingExpenses: freshPnL.daily?.operatingExpenses || 0,
-          operatingProfit: freshPnL.daily?.operatingProfit || 0
+          depreciation: freshPnL.daily?.depreciation || 0,
+          operatingProfit: freshPnL.daily?.operatingProfit || 0,
+          interest: freshPnL.daily?.interest || 0,
+          preTaxProfit: freshPnL.daily?.preTaxProfit || 0,
+          taxExpense: freshPnL.daily?.taxExpense || 0,
+          netProfit: freshPnL.daily?.netProfit || 0
         },
         {
           period: 'รายเดือน',
           revenue: freshPnL.monthly?.revenue || 0,
+          channelFees: freshPnL.monthly?.channelFees || 0,
+          netRevenue: freshPnL.monthly?.netRevenue || 0,
           cogs: freshPnL.monthly?.cogs || 0,
           grossProfit: freshPnL.monthly?.grossProfit || 0,
           operatingExpenses: freshPnL.monthly?.operatingExpenses || 0,
-          operatingProfit: freshPnL.monthly?.operatingProfit || 0
+          depreciation: freshPnL.monthly?.depreciation || 0,
+          operatingProfit: freshPnL.monthly?.operatingProfit || 0,
+          interest: freshPnL.monthly?.interest || 0,
+          preTaxProfit: freshPnL.monthly?.preTaxProfit || 0,
+          taxExpense: freshPnL.monthly?.taxExpense || 0,
+          netProfit: freshPnL.monthly?.netProfit || 0
         }
       ];
 
       const filename = `pnl-${new Date().toISOString().split('T')[0]}.csv`;
       setExportProgress('กำลังดาวน์โหลด...');
-      downloadCSV(pnlData, filename);
+      downloadCSV(pnlData, filename, PNL_MONEY_KEYS, moneySettings, CSV_COLUMN_DECIMALS);
 
       console.log(`[Reports] Real-time P&L export completed at ${exportData.exportInfo.timestamp}`);
       setExportProgress('เสร็จสิ้น!');
@@ -178,6 +236,119 @@ export default function Reports({ financialData }: ReportsProps) {
     }
   };
 
+  const toMultiYearRow = (row: AnnualPnL) => ({
+    revenue: row?.revenue || 0,
+    channelFees: row?.channelFees || 0,
+    netRevenue: row?.netRevenue || 0,
+    cogs: row?.cogs || 0,
+    grossProfit: row?.grossProfit || 0,
+    operatingExpenses: row?.operatingExpenses || 0,
+    depreciation: row?.depreciation || 0,
+    operatingProfit: row?.operatingProfit || 0,
+    disposalGain: row?.disposalGain || 0,
+    interest: row?.interest || 0,
+    preTaxProfit: row?.preTaxProfit || 0,
+    taxExpense: row?.taxExpense || 0,
+    netProfit: row?.netProfit || 0
+  });
+
+  const handleExportMultiYear = async (period: 'yearly' | 'monthly') => {
+    setIsExporting(true);
+    setExportProgress('กำลังเริ่มต้น...');
+
+    try {
+      const exportData = await performRealTimeExport('multiYear');
+      const freshMultiYear = exportData.computationResult?.multiYear || { years: [], months: [] };
+
+      setExportProgress('กำลังสร้างประมาณการหลายปี...');
+
+      const rows = period === 'yearly'
+        ? (freshMultiYear.years || []).map((year: YearlyProjection) => ({
+            year: year.year,
+            openDays: year.openDays || 0,
+            units: year.units || 0,
+            ...toMultiYearRow(year)
+          }))
+        : (freshMultiYear.months || []).map((month: MultiYearMonth) => ({
+            year: month.year,
+            month: month.month,
+            openDays: month.openDays || 0,
+            volumeFactor: month.volumeFactor || 0,
+            units: month.units || 0,
+            ...toMultiYearRow(month)
+          }));
+
+      const filename = `pnl-${period === 'yearly' ? 'multi-year' : 'multi-year-monthly'}-${new Date().toISOString().split('T')[0]}.csv`;
+      setExportProgress('กำลังดาวน์โหลด...');
+      downloadCSV(rows, filename, MULTI_YEAR_MONEY_KEYS, moneySettings, CSV_COLUMN_DECIMALS);
+
+      console.log(`[Reports] Real-time multi-year ${period} export completed at ${exportData.exportInfo.timestamp}`);
+      setExportProgress('เสร็จสิ้น!');
+
+    } catch (error) {
+      console.error('Real-time multi-year export failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'ไม่สามารถส่งออกประมาณการหลายปีได้';
+      alert(`ข้อผิดพลาด: ${errorMessage}`);
+      setExportProgress('');
+    } finally {
+      setTimeout(() => {
+        setIsExporting(false);
+        setExportProgress('');
+      }, 1000);
+    }
+  };
+
+  const handleExportCashFlow = async () => {
+    setIsExporting(true);
+    setExportProgress('กำลังเริ่มต้น...');
+
+    try {
+      const exportData = await performRealTimeExport('cashFlow');
+      const freshMonths = exportData.computationResult?.pnl?.cashFlow?.months || [];
+
+      setExportProgress('กำลังสร้างงบกระแสเงินสด...');
+
+      const rows = freshMonths.map((month: CashFlowMonth) => ({
+        year: month.year,
+        month: month.month,
+        openingCash: month.openingCash || 0,
+        cashSales: month.cashSales || 0,
+        deliveryPayouts: month.deliveryPayouts || 0,
+        loanProceeds: month.loanProceeds || 0,
+        disposalProceeds: month.disposalProceeds || 0,
+        supplierPayments: month.supplierPayments || 0,
+        payroll: month.payroll || 0,
+        otherExpenses: month.otherExpenses || 0,
+        vatPayments: month.vatPayments || 0,
+        incomeTax: month.incomeTax || 0,
+        interest: month.interest || 0,
+        principalRepayment: month.principalRepayment || 0,
+        capex: month.capex || 0,
+        ownerDrawings: month.ownerDrawings || 0,
+        netCashFlow: month.netCashFlow || 0,
+        closingCash: month.closingCash || 0
+      }));
+
+      const filename = `cash-flow-${new Date().toISOString().split('T')[0]}.csv`;
+      setExportProgress('กำลังดาวน์โหลด...');
+      downloadCSV(rows, filename, CASH_FLOW_MONEY_KEYS, moneySettings, CSV_COLUMN_DECIMALS);
+
+      console.log(`[Reports] Real-time cash-flow export completed at ${exportData.exportInfo.timestamp}`);
+      setExportProgress('เสร็จสิ้น!');
+
+    } catch (error) {
+      console.error('Real-time cash-flow export failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'ไม่สามารถส่งออกงบกระแสเงินสดได้';
+      alert(`ข้อผิดพลาด: ${errorMessage}`);
+      setExportProgress('');
+    } finally {
+      setTimeout(() => {
+        setIsExporting(false);
+        setExportProgress('');
+      }, 1000);
+    }
+  };
+
   const handleExportMenuAnalysis = async () => {
     setIsExporting(true);
     setExportProgress('กำลังเริ่มต้น...');
@@ -185,20 +356,26 @@ export default function Reports({ financialData }: ReportsProps) {
     try {
       const exportData = await performRealTimeExport('menu');
       const freshMenus = exportData.computationResult?.menus || [];
+      const freshClasses: MenuEngineeringItem[] = exportData.computationResult?.menuEngineering?.items || [];
 
       setExportProgress('กำลังสร้างการวิเคราะห์เมนู...');
 
-      const menuData = freshMenus.map((menu: any) => ({
-        menuName: menu?.name || 'Unknown',
-        price: menu?.price || 0,
-        variableCost: menu?.vc || 0,
-        contributionMargin: menu?.cm || 0,
-        contributionMarginPercent: menu?.cmPct || 0
-      }));
+      const menuData = freshMenus.map((menu: any) => {
+        const engineering = freshClasses.find(item => item.id === menu?.id);
+        return {
+          menuName: menu?.name || 'Unknown',
+          price: menu?.price || 0,
+          variableCost: menu?.vc || 0,
+          contributionMargin: menu?.cm || 0,
+          contributionMarginPercent: menu?.cmPct || 0,
+          popularityPercent: engineering?.popularityPercent || 0,
+          menuClass: engineering ? getMenuClass(engineering.classification)?.label || '' : ''
+        };
+      });
 
       const filename = `menu-analysis-${new Date().toISOString().split('T')[0]}.csv`;
       setExportProgress('กำลังดาวน์โหลด...');
-      downloadCSV(menuData, filename);
+      downloadCSV(menuData, filename, MENU_MONEY_KEYS, moneySettings, CSV_COLUMN_DECIMALS);
 
       console.log(`[Reports] Real-time menu analysis export completed at ${exportData.exportInfo.timestamp}`);
       setExportProgress('เสร็จสิ้น!');
@@ -413,9 +590,9 @@ export default function Reports({ financialData }: ReportsProps) {
   ];
 
   const kpiSummary = [
-    { metric: 'รายได้รายวัน', value: formatCurrency(kpis.revenue), status: 'good' },
-    { metric: 'กำไรขั้นต้น', value: formatCurrency(kpis.grossProfit), status: 'good' },
-    { metric: 'กำไรจากการดำเนินงาน', value: formatCurrency(kpis.operatingProfit), status: kpis.operatingProfit > 0 ? 'good' : 'warning' },
+    { metric: 'รายได้รายวัน', value: formatMoney(kpis.revenue), status: 'good' },
+    { metric: 'กำไรขั้นต้น', value: formatMoney(kpis.grossProfit), status: 'good' },
+    { metric: 'กำไรจากการดำเนินงาน', value: formatMoney(kpis.operatingProfit), status: kpis.operatingProfit > 0 ? 'good' : 'warning' },
     { metric: 'Prime Cost %', value: formatPercent(kpis.primeCostPct), status: kpis.primeCostPct < 60 ? 'good' : 'warning' },
     { metric: 'Food Cost %', value: formatPercent(kpis.foodCostPct), status: kpis.foodCostPct < 35 ? 'good' : 'warning' },
     { metric: 'Labor %', value: formatPercent(kpis.laborPct), status: kpis.laborPct < 25 ? 'good' : 'warning' },
@@ -431,6 +608,18 @@ export default function Reports({ financialData }: ReportsProps) {
           <p className="text-muted-foreground">สรุปผลการดำเนินงานและการส่งออกข้อมูล</p>
         </div>
         <div className="flex items-center gap-2">
+          {displayCurrencies.length > 1 && (
+            <Select value={shownCurrency} onValueChange={setDisplayCurrency}>
+              <SelectTrigger className="w-28" aria-label="สกุลเงินที่แสดง">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {displayCurrencies.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button variant="outline" onClick={handlePrint}>
             <Printer className="w-4 h-4 mr-2" />
             พิมพ์
@@ -446,7 +635,12 @@ export default function Reports({ financialData }: ReportsProps) {
         <TabsList>
           <TabsTrigger value="summary">สรุปผลการดำเนินงาน</TabsTrigger>
           <TabsTrigger value="pnl">งบกำไรขาดทุน</TabsTrigger>
+          <TabsTrigger value="projection">ประมาณการ 12 เดือน</TabsTrigger>
+          <TabsTrigger value="cashFlow">กระแสเงินสด</TabsTrigger>
+          <TabsTrigger value="multiYear">ประมาณการหลายปี</TabsTrigger>
+          <TabsTrigger value="appraisal">ประเมินการลงทุน</TabsTrigger>
           <TabsTrigger value="menu">วิเคราะห์เมนู</TabsTrigger>
+          <TabsTrigger value="menuEngineering">Menu Engineering</TabsTrigger>
         </TabsList>
 
         <TabsContent value="summary" className="space-y-6">
@@ -544,7 +738,7 @@ export default function Reports({ financialData }: ReportsProps) {
                   {costStructure.map((cost, index) => (
                     <TableRow key={index}>
                       <TableCell className="font-medium">{cost.category}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(cost.amount)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(cost.amount)}</TableCell>
                       <TableCell className="text-right">{formatPercent(cost.percentage)}</TableCell>
                       <TableCell className="text-right">
                         <Badge variant={cost.percentage < 50 ? 'default' : 'secondary'}>
@@ -587,41 +781,558 @@ export default function Reports({ financialData }: ReportsProps) {
                 </TableHeader>
                 <TableBody>
                   <TableRow className="font-medium">
-                    <TableCell>รายได้</TableCell>
-                    <TableCell className="text-right">{formatCurrency(pnl.daily.revenue)}</TableCell>
-                    <TableCell className="text-right">{formatCurrency(pnl.monthly.revenue)}</TableCell>
+                    <TableCell>รายได้{(pnl.daily.vat?.outputVat || 0) > 0 ? ' (ไม่รวม VAT)' : ''}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.daily.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.monthly.revenue)}</TableCell>
                     <TableCell className="text-right">100.0%</TableCell>
                   </TableRow>
+                  <TableRow>
+                    <TableCell className="pl-4">ค่าธรรมเนียมชำระเงินและคอมมิชชัน</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.daily.channelFees || 0)})</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.monthly.channelFees || 0)})</TableCell>
+                    <TableCell className="text-right">({formatPercent(((pnl.daily.channelFees || 0) / pnl.daily.revenue) * 100)})</TableCell>
+                  </TableRow>
+                  <TableRow className="font-medium">
+                    <TableCell>รายได้สุทธิ</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.daily.netRevenue ?? pnl.daily.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.monthly.netRevenue ?? pnl.monthly.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(((pnl.daily.netRevenue ?? pnl.daily.revenue) / pnl.daily.revenue) * 100)}</TableCell>
+                  </TableRow>
                   <TableRow>
                     <TableCell className="pl-4">ต้นทุนขาย (COGS)</TableCell>
-                    <TableCell className="text-right">({formatCurrency(pnl.daily.cogs)})</TableCell>
-                    <TableCell className="text-right">({formatCurrency(pnl.monthly.cogs)})</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.daily.cogs)})</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.monthly.cogs)})</TableCell>
                     <TableCell className="text-right">({formatPercent((pnl.daily.cogs / pnl.daily.revenue) * 100)})</TableCell>
                   </TableRow>
                   <TableRow className="font-medium border-t">
                     <TableCell>กำไรขั้นต้น</TableCell>
-                    <TableCell className="text-right">{formatCurrency(pnl.daily.grossProfit)}</TableCell>
-                    <TableCell className="text-right">{formatCurrency(pnl.monthly.grossProfit)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.daily.grossProfit)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.monthly.grossProfit)}</TableCell>
                     <TableCell className="text-right">{formatPercent((pnl.daily.grossProfit / pnl.daily.revenue) * 100)}</TableCell>
                   </TableRow>
                   <TableRow>
                     <TableCell className="pl-4">ค่าใช้จ่ายดำเนินงาน</TableCell>
-                    <TableCell className="text-right">({formatCurrency(pnl.daily.operatingExpenses)})</TableCell>
-                    <TableCell className="text-right">({formatCurrency(pnl.monthly.operatingExpenses)})</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.daily.operatingExpenses)})</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.monthly.operatingExpenses)})</TableCell>
                     <TableCell className="text-right">({formatPercent((pnl.daily.operatingExpenses / pnl.daily.revenue) * 100)})</TableCell>
                   </TableRow>
+                  <TableRow>
+                    <TableCell className="pl-8 text-muted-foreground">รวมค่าเสื่อมราคา</TableCell>
+                    <TableCell className="text-right text-muted-foreground">({formatMoney(pnl.daily.depreciation || 0)})</TableCell>
+                    <TableCell className="text-right text-muted-foreground">({formatMoney(pnl.monthly.depreciation || 0)})</TableCell>
+                    <TableCell className="text-right text-muted-foreground">({formatPercent(((pnl.daily.depreciation || 0) / pnl.daily.revenue) * 100)})</TableCell>
+                  </TableRow>
                   <TableRow className="font-bold border-t">
                     <TableCell>กำไรจากการดำเนินงาน</TableCell>
-                    <TableCell className="text-right">{formatCurrency(pnl.daily.operatingProfit)}</TableCell>
-                    <TableCell className="text-right">{formatCurrency(pnl.monthly.operatingProfit)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.daily.operatingProfit)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.monthly.operatingProfit)}</TableCell>
                     <TableCell className="text-right">{formatPercent((pnl.daily.operatingProfit / pnl.daily.revenue) * 100)}</TableCell>
                   </TableRow>
+                  {(pnl.monthly.disposalGain || 0) !== 0 && (
+                    <TableRow>
+                      <TableCell className="pl-4">กำไร (ขาดทุน) จากการขายทรัพย์สิน</TableCell>
+                      <TableCell className="text-right">{formatMoney(pnl.daily.disposalGain)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(pnl.monthly.disposalGain)}</TableCell>
+                      <TableCell className="text-right">{formatPercent((pnl.daily.disposalGain / pnl.daily.revenue) * 100)}</TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow>
+                    <TableCell className="pl-4">ดอกเบี้ยจ่าย</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.daily.interest || 0)})</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.monthly.interest || 0)})</TableCell>
+                    <TableCell className="text-right">({formatPercent(((pnl.daily.interest || 0) / pnl.daily.revenue) * 100)})</TableCell>
+                  </TableRow>
+                  <TableRow className="font-medium">
+                    <TableCell>กำไรก่อนภาษี</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.daily.preTaxProfit ?? pnl.daily.operatingProfit)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.monthly.preTaxProfit ?? pnl.monthly.operatingProfit)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(((pnl.daily.preTaxProfit ?? pnl.daily.operatingProfit) / pnl.daily.revenue) * 100)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell className="pl-4">ภาษีเงินได้ (ประมาณการ)</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.daily.taxExpense || 0)})</TableCell>
+                    <TableCell className="text-right">({formatMoney(pnl.monthly.taxExpense || 0)})</TableCell>
+                    <TableCell className="text-right">({formatPercent(((pnl.daily.taxExpense || 0) / pnl.daily.revenue) * 100)})</TableCell>
+                  </TableRow>
+                  <TableRow className="font-bold border-t">
+                    <TableCell>กำไรสุทธิ</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.daily.netProfit ?? pnl.daily.operatingProfit)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(pnl.monthly.netProfit ?? pnl.monthly.operatingProfit)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(((pnl.daily.netProfit ?? pnl.daily.operatingProfit) / pnl.daily.revenue) * 100)}</TableCell>
+                  </TableRow>
                 </TableBody>
               </Table>
             </CardContent>
           </Card>
         </TabsContent>
 
+        <TabsContent value="projection" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="w-5 h-5" />
+                ประมาณการกำไรขาดทุน 12 เดือน{projection[0] ? ` (ปี ${projection[0].year})` : ''}
+              </CardTitle>
+              <CardDescription>
+                ยอดขายรายวันปรับตามดัชนีฤดูกาล คูณจำนวนวันเปิดร้านจริงของแต่ละเดือน
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>เดือน</TableHead>
+                    <TableHead className="text-right">วันเปิด</TableHead>
+                    <TableHead className="text-right">ฤดูกาล</TableHead>
+                    <TableHead className="text-right">รายได้</TableHead>
+                    <TableHead className="text-right">ค่าธรรมเนียม</TableHead>
+                    <TableHead className="text-right">ต้นทุนขาย</TableHead>
+                    <TableHead className="text-right">ค่าใช้จ่ายดำเนินงาน</TableHead>
+                    <TableHead className="text-right">กำไรจากการดำเนินงาน</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projection.map((month) => (
+                    <TableRow key={month.month}>
+                      <TableCell className="font-medium">{month.label}</TableCell>
+                      <TableCell className="text-right">{month.openDays}</TableCell>
+                      <TableCell className="text-right">{formatPercent(month.seasonality * 100, 0)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(month.revenue)}</TableCell>
+                      <TableCell className="text-right">({formatMoney(month.channelFees)})</TableCell>
+                      <TableCell className="text-right">({formatMoney(month.cogs)})</TableCell>
+                      <TableCell className="text-right">({formatMoney(month.operatingExpenses)})</TableCell>
+                      <TableCell className={`text-right font-medium ${month.operatingProfit < 0 ? 'text-red-600' : ''}`}>
+                        {formatMoney(month.operatingProfit)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {pnl.annual && (
+                    <TableRow className="font-bold border-t">
+                      <TableCell>รวมทั้งปี</TableCell>
+                      <TableCell className="text-right">{pnl.annual.openDays}</TableCell>
+                      <TableCell className="text-right">-</TableCell>
+                      <TableCell className="text-right">{formatMoney(pnl.annual.revenue)}</TableCell>
+                      <TableCell className="text-right">({formatMoney(pnl.annual.channelFees)})</TableCell>
+                      <TableCell className="text-right">({formatMoney(pnl.annual.cogs)})</TableCell>
+                      <TableCell className="text-right">({formatMoney(pnl.annual.operatingExpenses)})</TableCell>
+                      <TableCell className="text-right">{formatMoney(pnl.annual.operatingProfit)}</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {pnl.tax && (
+            <Card>
+              <CardHeader>
+                <CardTitle>ประมาณการภาษีเงินได้ทั้งปี</CardTitle>
+                <CardDescription>
+                  {pnl.tax.entityType === 'company'
+                    ? 'ภาษีเงินได้นิติบุคคล คำนวณจากกำไรสุทธิก่อนภาษี'
+                    : `ภาษีเงินได้บุคคลธรรมดา หักค่าใช้จ่าย${pnl.tax.expenseMethod === 'actual' ? 'ตามจริง' : 'แบบเหมา'}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">เงินได้พึงประเมิน</div>
+                    <div className="text-lg font-bold">{formatMoney(pnl.tax.assessableIncome)}</div>
+                  </div>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">เงินได้สุทธิที่ต้องเสียภาษี</div>
+                    <div className="text-lg font-bold">{formatMoney(pnl.tax.taxableIncome)}</div>
+                  </div>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">ภาษีที่ต้องชำระ</div>
+                    <div className="text-lg font-bold text-red-600">{formatMoney(pnl.tax.taxPayable)}</div>
+                  </div>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">อัตราภาษีที่แท้จริง</div>
+                    <div className="text-lg font-bold">{formatPercent(pnl.tax.effectiveRatePercent)}</div>
+                  </div>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ช่วงเงินได้สุทธิ</TableHead>
+                      <TableHead className="text-right">อัตรา</TableHead>
+                      <TableHead className="text-right">เงินได้ในช่วง</TableHead>
+                      <TableHead className="text-right">ภาษี</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pnl.tax.brackets.filter((bracket: TaxBracketResult) => bracket.taxableAmount > 0).map((bracket: TaxBracketResult) => (
+                      <TableRow key={bracket.from}>
+                        <TableCell>{formatMoney(bracket.from)} - {bracket.to === null ? 'ขึ้นไป' : formatMoney(bracket.to)}</TableCell>
+                        <TableCell className="text-right">{bracket.ratePercent}%</TableCell>
+                        <TableCell className="text-right">{formatMoney(bracket.taxableAmount)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(bracket.tax)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {pnl.tax.minimumTax > pnl.tax.progressiveTax && (
+                  <p className="text-sm text-orange-600">
+                    ใช้ภาษีขั้นต่ำ 0.5% ของเงินได้พึงประเมิน ({formatMoney(pnl.tax.minimumTax)}) เนื่องจากสูงกว่าภาษีตามอัตราก้าวหน้า
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {pnl.annual && (pnl.annual.outputVat || 0) > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>ภาษีมูลค่าเพิ่มรายเดือน (ภ.พ.30)</CardTitle>
+                <CardDescription>
+                  ภาษีขายหักภาษีซื้อจากวัตถุดิบและค่าสาธารณูปโภค
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>เดือน</TableHead>
+                      <TableHead className="text-right">ภาษีขาย</TableHead>
+                      <TableHead className="text-right">ภาษีซื้อ</TableHead>
+                      <TableHead className="text-right">VAT ที่ต้องชำระ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {projection.map((month) => (
+                      <TableRow key={month.month}>
+                        <TableCell className="font-medium">{month.label}</TableCell>
+                        <TableCell className="text-right">{formatMoney(month.outputVat)}</TableCell>
+                        <TableCell className="text-right">({formatMoney(month.inputVat)})</TableCell>
+                        <TableCell className="text-right font-medium">{formatMoney(month.netVatPayable)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-bold border-t">
+                      <TableCell>รวมทั้งปี</TableCell>
+                      <TableCell className="text-right">{formatMoney(pnl.annual.outputVat)}</TableCell>
+                      <TableCell className="text-right">({formatMoney(pnl.annual.inputVat)})</TableCell>
+                      <TableCell className="text-right">{formatMoney(pnl.annual.netVatPayable)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="cashFlow" className="space-y-4">
+          {cashFlow && cashFlow.negativeMonths.length > 0 && (
+            <div className="p-4 bg-red-50 rounded-lg border border-red-200 text-sm text-red-700">
+              เงินสดติดลบในเดือน {cashFlow.negativeMonths.join(', ')} (ต่ำสุด {formatMoney(cashFlow.lowestCash)})
+              ควรเพิ่มเงินสดตั้งต้น จัดหาเงินกู้ หรือเลื่อนการลงทุน
+            </div>
+          )}
+          {cashFlow && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="w-5 h-5" />
+                      งบกระแสเงินสดรายเดือน{projection[0] ? ` (ปี ${projection[0].year})` : ''}
+                    </CardTitle>
+                    <CardDescription>
+                      เงินสดต้นปี {formatMoney(cashFlow.settings.openingCash)} · เดลิเวอรีโอนเงินใน {formatNumber(cashFlow.timing.deliveryPayoutDays, 0)} วัน ·
+                      เครดิตซัพพลายเออร์เฉลี่ย {formatNumber(cashFlow.timing.supplierPaymentDays, 1)} วัน ·
+                      ค้างรับสิ้นปี {formatMoney(cashFlow.closingReceivables)} · ค้างจ่ายสิ้นปี {formatMoney(cashFlow.closingPayables)}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleExportCashFlow} disabled={isExporting}>
+                    <Download className="w-4 h-4 mr-2" />
+                    CSV
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>รายการ</TableHead>
+                        {cashFlow.months.map(month => (
+                          <TableHead key={month.month} className="text-right">{month.label}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow className="bg-muted">
+                        <TableCell className="font-medium">เงินสดต้นเดือน</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">{formatMoney(month.openingCash)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ยอดขายหน้าร้าน</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">{formatMoney(month.cashSales)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>เงินโอนจากเดลิเวอรี</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">{formatMoney(month.deliveryPayouts)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>เงินกู้ที่ได้รับ</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">{formatMoney(month.loanProceeds)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ขายทรัพย์สิน</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">{formatMoney(month.disposalProceeds)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>จ่ายซัพพลายเออร์</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.supplierPayments)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>เงินเดือน</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.payroll)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ค่าใช้จ่ายคงที่และสาธารณูปโภค</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.otherExpenses)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ภาษีมูลค่าเพิ่ม</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.vatPayments)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ภาษีเงินได้</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.incomeTax)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ดอกเบี้ย</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.interest)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ผ่อนเงินต้น</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.principalRepayment)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ซื้อทรัพย์สิน</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.capex)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>ถอนใช้ส่วนตัว</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className="text-right">({formatMoney(month.ownerDrawings)})</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow className="font-medium">
+                        <TableCell>กระแสเงินสดสุทธิ</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className={`text-right ${month.netCashFlow < 0 ? 'text-red-600' : ''}`}>
+                            {formatMoney(month.netCashFlow)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow className="bg-muted font-bold">
+                        <TableCell>เงินสดปลายเดือน</TableCell>
+                        {cashFlow.months.map(month => (
+                          <TableCell key={month.month} className={`text-right ${month.isNegative ? 'text-red-600' : ''}`}>
+                            {formatMoney(month.closingCash)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="multiYear" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <BarChart3 className="w-5 h-5" />
+                    ประมาณการกำไรขาดทุน {multiYearYears.length} ปี
+                  </CardTitle>
+                  <CardDescription>
+                    ราคาและต้นทุนปรับขึ้นตามอัตราเพิ่มรายปี ยอดขายตามอัตราการเติบโตและช่วงเริ่มต้นกิจการ (ตั้งค่าได้ที่หน้าการตั้งค่า)
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleExportMultiYear('yearly')} disabled={isExporting}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV รายปี
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ปี</TableHead>
+                    <TableHead className="text-right">รายได้</TableHead>
+                    <TableHead className="text-right">ค่าธรรมเนียม</TableHead>
+                    <TableHead className="text-right">ต้นทุนขาย</TableHead>
+                    <TableHead className="text-right">ค่าใช้จ่ายดำเนินงาน</TableHead>
+                    <TableHead className="text-right">กำไรจากการดำเนินงาน</TableHead>
+                    <TableHead className="text-right">ภาษีเงินได้</TableHead>
+                    <TableHead className="text-right">กำไรสุทธิ</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {multiYearYears.map((year) => (
+                    <TableRow key={year.year}>
+                      <TableCell className="font-medium">{year.year}</TableCell>
+                      <TableCell className="text-right">{formatMoney(year.revenue)}</TableCell>
+                      <TableCell className="text-right">({formatMoney(year.channelFees)})</TableCell>
+                      <TableCell className="text-right">({formatMoney(year.cogs)})</TableCell>
+                      <TableCell className="text-right">({formatMoney(year.operatingExpenses)})</TableCell>
+                      <TableCell className="text-right">{formatMoney(year.operatingProfit)}</TableCell>
+                      <TableCell className="text-right">({formatMoney(year.taxExpense)})</TableCell>
+                      <TableCell className={`text-right font-medium ${year.netProfit < 0 ? 'text-red-600' : ''}`}>
+                        {formatMoney(year.netProfit)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>ประมาณการรายเดือน</CardTitle>
+                  <CardDescription>ดัชนียอดขายรวมการเติบโตและช่วงเริ่มต้นกิจการ</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleExportMultiYear('monthly')} disabled={isExporting}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV รายเดือน
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>เดือน</TableHead>
+                      <TableHead className="text-right">วันเปิด</TableHead>
+                      <TableHead className="text-right">ดัชนียอดขาย</TableHead>
+                      <TableHead className="text-right">รายได้</TableHead>
+                      <TableHead className="text-right">กำไรจากการดำเนินงาน</TableHead>
+                      <TableHead className="text-right">กำไรสุทธิ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {multiYearMonths.map((month) => (
+                      <TableRow key={`${month.year}-${month.month}`}>
+                        <TableCell className="font-medium">{month.label} {month.year}</TableCell>
+                        <TableCell className="text-right">{month.openDays}</TableCell>
+                        <TableCell className="text-right">{formatPercent(month.seasonality * month.volumeFactor * 100, 0)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(month.revenue)}</TableCell>
+                        <TableCell className={`text-right ${month.operatingProfit < 0 ? 'text-red-600' : ''}`}>
+                          {formatMoney(month.operatingProfit)}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${month.netProfit < 0 ? 'text-red-600' : ''}`}>
+                          {formatMoney(month.netProfit)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="appraisal" className="space-y-4">
+          {appraisal && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>NPV ที่อัตราคิดลด {formatPercent(appraisal.settings.discountRatePercent, 1)}</CardDescription>
+                    <CardTitle className={appraisal.npv < 0 ? 'text-red-600' : 'text-green-600'}>{formatMoney(appraisal.npv)}</CardTitle>
+                  </CardHeader>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>IRR ต่อปี</CardDescription>
+                    <CardTitle>{appraisal.irrPercent === null ? '-' : formatPercent(appraisal.irrPercent, 1)}</CardTitle>
+                  </CardHeader>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>ระยะเวลาคืนทุน</CardDescription>
+                    <CardTitle className="text-base">{formatMonths(appraisal.paybackMonths)}</CardTitle>
+                  </CardHeader>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>ระยะเวลาคืนทุนแบบคิดลด</CardDescription>
+                    <CardTitle className="text-base">{formatMonths(appraisal.discountedPaybackMonths)}</CardTitle>
+                  </CardHeader>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5" />
+                    กระแสเงินสดสะสม
+                  </CardTitle>
+                  <CardDescription>
+                    เงินลงทุนเริ่มต้น {formatMoney(appraisal.initialInvestment)} เทียบกับกระแสเงินสดจากการดำเนินงานหลังภาษี
+                    (กำไรจากการดำเนินงาน + ค่าเสื่อมราคา - ภาษี) ตลอด {multiYearYears.length} ปี
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <LineChart data={appraisal.periods}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="period" />
+                      <YAxis tickFormatter={(value) => formatMoney(value)} />
+                      <Tooltip
+                        formatter={(value) => formatMoney(value as number)}
+                        labelFormatter={(period) => appraisal.periods[period as number]?.label || period}
+                      />
+                      <Legend />
+                      <ReferenceLine y={0} stroke="#888" />
+                      <Line type="monotone" dataKey="cumulative" stroke="#8884d8" strokeWidth={2} dot={false} name="เงินสดสะสม" />
+                      <Line type="monotone" dataKey="discountedCumulative" stroke="#82ca9d" strokeWidth={2} dot={false} name="เงินสดสะสมคิดลด" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+
         <TabsContent value="menu" className="space-y-4">
           <Card>
             <CardHeader>
@@ -654,9 +1365,9 @@ export default function Reports({ financialData }: ReportsProps) {
                   {menus.map((menu: any, index: number) => (
                     <TableRow key={index}>
                       <TableCell className="font-medium">{menu.name}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(menu.price)}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(menu.vc)}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(menu.cm)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(menu.price)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(menu.vc)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(menu.cm)}</TableCell>
                       <TableCell className="text-right">
                         <Badge 
                           variant={menu.cmPct > 60 ? 'default' : menu.cmPct > 40 ? 'secondary' : 'destructive'}
@@ -694,7 +1405,103 @@ export default function Reports({ financialData }: ReportsProps) {
           </Card>
         </TabsContent>
 
+        <TabsContent value="menuEngineering" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Menu Engineering Matrix</CardTitle>
+              <CardDescription>
+                {menuEngineering && menuEngineering.items.length > 0
+                  ? `ขายดีเมื่อสัดส่วนยอดขาย ≥ ${formatPercent(menuEngineering.popularityThresholdPercent)} (กฎ 70%) · กำไรสูงเมื่อ CM/จาน ≥ ค่าเฉลี่ยถ่วงน้ำหนัก ${formatMoney(menuEngineering.averageCM)}`
+                  : 'จัดกลุ่มเมนูตามความนิยมและกำไรต่อจาน'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {menuEngineering && menuEngineering.items.length > 0 ? (
+                <div className="space-y-6">
+                  <ResponsiveContainer width="100%" height={400}>
+                    <ScatterChart margin={{ top: 20, right: 30, bottom: 20, left: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="popularityPercent" name="สัดส่วนยอดขาย" tickFormatter={(value) => `${value.toFixed(0)}%`} />
+                      <YAxis type="number" dataKey="cm" name="CM/จาน" tickFormatter={(value) => formatMoney(value)} />
+                      <Tooltip
+                        cursor={{ strokeDasharray: '3 3' }}
+                        content={({ payload }) => {
+                          const item = payload?.[0]?.payload;
+                          if (!item) return null;
+                          return (
+                            <div className="bg-background border rounded p-2 text-sm shadow">
+                              <div className="font-medium">{item.name}</div>
+                              <div>{getMenuClass(item.classification)?.label}</div>
+                              <div>สัดส่วนยอดขาย {formatPercent(item.popularityPercent)}</div>
+                              <div>CM/จาน {formatMoney(item.cm)}</div>
+                            </div>
+                          );
+                        }}
+                      />
+                      <Legend />
+                      <ReferenceLine x={menuEngineering.popularityThresholdPercent} stroke="#666" strokeDasharray="4 4" />
+                      <ReferenceLine y={menuEngineering.averageCM} stroke="#666" strokeDasharray="4 4" />
+                      {MENU_CLASSES.map(menuClass => (
+                        <Scatter
+                          key={menuClass.key}
+                          name={menuClass.label}
+                          data={menuEngineering.items.filter(item => item.classification === menuClass.key)}
+                          fill={menuClassColors[menuClass.key]}
+                        />
+                      ))}
+                    </ScatterChart>
+                  </ResponsiveContainer>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {MENU_CLASSES.map(menuClass => (
+                      <div key={menuClass.key} className="p-4 border rounded-lg">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="font-medium" style={{ color: menuClassColors[menuClass.key] }}>{menuClass.label}</div>
+                          <Badge variant="outline">{menuEngineering.counts[menuClass.key]} เมนู</Badge>
+                        </div>
+                        <div className="text-sm text-muted-foreground">{menuClass.description}</div>
+                        <div className="text-sm mt-2">{menuClass.action}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>เมนู</TableHead>
+                        <TableHead className="text-right">ขาย/วัน</TableHead>
+                        <TableHead className="text-right">สัดส่วนยอดขาย</TableHead>
+                        <TableHead className="text-right">CM/จาน</TableHead>
+                        <TableHead>กลุ่ม</TableHead>
+                        <TableHead>ข้อเสนอแนะ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {menuEngineering.items.map(item => (
+                        <TableRow key={item.id}>
+                          <TableCell className="font-medium">{item.name}</TableCell>
+                          <TableCell className="text-right">{formatNumber(item.dailyUnits, 1)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(item.popularityPercent)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(item.cm)}</TableCell>
+                          <TableCell>
+                            <Badge style={{ backgroundColor: menuClassColors[item.classification as MenuClass] }}>
+                              {getMenuClass(item.classification)?.label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">{getMenuClass(item.classification)?.action}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">ยังไม่มีเมนูสำหรับวิเคราะห์</div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
       </Tabs>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -6,15 +6,34 @@ import { Label } from './ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
 import { Slider } from './ui/slider';
-import { TrendingUp, Calendar, CreditCard, Truck, Clock } from 'lucide-react';
-import { formatCurrency, formatPercent, parseNumberInput } from '../lib/utils';
-import { useFinanceState } from '../hooks/useFinanceState';
+import { TrendingUp, Calendar, CreditCard, Truck, Clock, PieChart, Plus, Trash2 } from 'lucide-react';
+import { formatPercent, parseNumberInput } from '../lib/utils';
+import { useFinanceState, useComputationResults } from '../hooks/useFinanceState';
+import { getNormalizedMenuMix, ChannelPnL, MenuItem, SalesModel as SalesModelData } from '../lib/finance-engine';
+import { ALL_WEEKDAYS, buildOperatingCalendar, CalendarHoliday, ClosureRange, getCalendarSettings, getThaiPublicHolidays, hasThaiLunarHolidays } from '../lib/calendar';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 
 export default function SalesModel() {
-  const { data, updateSalesModel } = useFinanceState();
+  const { data, updateSalesModel, updateMenuMix, updateMeta, formatCurrency } = useFinanceState();
+  const { pnl } = useComputationResults();
+  const channelPnL: ChannelPnL[] = pnl?.channels || [];
+  const deliveryChannel = channelPnL.find(channel => channel.channel === 'delivery');
+  const paymentFeesDaily = channelPnL
+    .filter(channel => channel.channel !== 'delivery')
+    .reduce((sum, channel) => sum + channel.fees, 0);
   
   // Use global state directly
-  const salesData = data?.salesModel || {};
+  const salesData: Partial<SalesModelData> = data?.salesModel || {};
+  const menus: MenuItem[] = data?.menus || [];
+  const normalizedMix = getNormalizedMenuMix(menus);
+
+  // Operating calendar for the plan year (open weekdays minus holidays and closures)
+  const calendar = buildOperatingCalendar(data);
+  const calendarSettings = getCalendarSettings(data);
+  const openDaysPerMonth = calendar.avgOpenDaysPerMonth;
+  const operatingHours = data?.meta?.operatingHours || { open: '07:00', close: '15:00' };
+  const [newHoliday, setNewHoliday] = useState<CalendarHoliday>({ date: '', name: '' });
+  const [newClosure, setNewClosure] = useState<Omit<ClosureRange, 'id'>>({ start: '', end: '', reason: '' });
 
   // Define month arrays at the top
   const monthNames = ['ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.', 'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.'];
@@ -139,6 +158,12 @@ export default function SalesModel() {
     updateSalesModel(updatedSalesData);
   };
 
+  const handleItemsPerCustomerChange = (value: number) => {
+    const itemsPerCustomer = value > 0 ? value : 1;
+    if ((salesData.itemsPerCustomer || 1) === itemsPerCustomer) return;
+    updateSalesModel({ ...salesData, itemsPerCustomer });
+  };
+
   const handlePaymentFeeChange = (value: number) => {
     setPaymentFee(value);
     if ((salesData.paymentFeePercent || 0) === value) return;
@@ -153,14 +178,80 @@ export default function SalesModel() {
     updateSalesModel(updatedSalesData);
   };
 
+  // Sales mix is saved as the raw shares typed in; the calculation normalizes them to 100%.
+  // Menus without a share of their own are pinned at the share they are shown with (an
+  // equal split), so editing one menu does not move the others.
+  const handleMixChange = (menuId: string, percent: number) => {
+    const unset = menus.filter(menu => menu.id !== menuId && typeof menu.mixShare !== 'number');
+    const pinned = Object.fromEntries(unset.map(menu => [menu.id, normalizedMix[menu.id] || 0]));
+    updateMenuMix({ ...pinned, [menuId]: Math.max(0, Math.min(100, percent)) / 100 });
+  };
+
+  const handleNormalizeMix = () => {
+    updateMenuMix(normalizedMix);
+  };
+
+  const rawMixTotal = menus.reduce((sum, menu) =>
+    sum + (typeof menu.mixShare === 'number' ? menu.mixShare : (normalizedMix[menu.id] || 0)), 0) * 100;
+
+  // Mix-weighted selling price per unit
+  const avgPrice = menus.reduce((sum, menu) => sum + (menu.price || 0) * (normalizedMix[menu.id] || 0), 0);
+
   const calculateMonthlyUnits = (month: string) => {
     const seasonalityFactor = (localSeasonality[month] || 100) / 100;
-    return Math.round(forecastDaily * 30 * seasonalityFactor);
+    const openDays = calendar.months.find(m => m.month === month)?.openDays ?? openDaysPerMonth;
+    return Math.round(forecastDaily * openDays * seasonalityFactor);
+  };
+
+  const handleToggleOpenDay = (day: string, checked: boolean) => {
+    const openDays = checked
+      ? ALL_WEEKDAYS.filter(d => d === day || calendar.openWeekdays.includes(d))
+      : calendar.openWeekdays.filter(d => d !== day);
+    updateMeta({ openDays });
+  };
+
+  const handleOperatingHoursChange = (field: 'open' | 'close', value: string) => {
+    updateMeta({ operatingHours: { ...operatingHours, [field]: value } });
+  };
+
+  const updateCalendarSettings = (updates: Partial<typeof calendarSettings>) => {
+    updateMeta({ calendar: { ...calendarSettings, ...updates } });
+  };
+
+  const handleAddThaiHolidays = () => {
+    const existing = new Set(calendarSettings.holidays.map(h => h.date));
+    const preset = getThaiPublicHolidays(calendar.year).filter(h => !existing.has(h.date));
+    updateCalendarSettings({
+      holidays: [...calendarSettings.holidays, ...preset].sort((a, b) => a.date.localeCompare(b.date))
+    });
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHoliday.date) return;
+    updateCalendarSettings({
+      holidays: [...calendarSettings.holidays.filter(h => h.date !== newHoliday.date), { ...newHoliday, name: newHoliday.name || 'วันหยุดร้าน' }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    });
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  const handleAddClosure = () => {
+    if (!newClosure.start || !newClosure.end || newClosure.end < newClosure.start) return;
+    updateCalendarSettings({
+      closures: [...calendarSettings.closures, { ...newClosure, id: `closure_${Date.now()}` }]
+    });
+    setNewClosure({ start: '', end: '', reason: '' });
+  };
+
+  const getOperatingHoursPerDay = () => {
+    const [openHour, openMinute] = (operatingHours.open || '0:0').split(':').map(Number);
+    const [closeHour, closeMinute] = (operatingHours.close || '0:0').split(':').map(Number);
+    const minutes = (closeHour * 60 + closeMinute) - (openHour * 60 + openMinute);
+    return minutes > 0 ? minutes / 60 : 0;
   };
 
   const calculateMonthlyRevenue = (month: string) => {
     const units = calculateMonthlyUnits(month);
-    const avgPrice = 60; // This should come from menu data
     return units * avgPrice;
   };
 
@@ -210,6 +301,21 @@ export default function SalesModel() {
                     ยอดขายเฉลี่ยต่อวันที่คาดการณ์
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="items-per-customer">จำนวนจานต่อลูกค้า</Label>
+                  <Input
+                    id="items-per-customer"
+                    type="number"
+                    step="0.1"
+                    min="1"
+                    value={salesData.itemsPerCustomer || 1}
+                    onChange={(e) => handleItemsPerCustomerChange(parseNumberInput(e.target.value))}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    ใช้แปลงจุดคุ้มทุนจากจำนวนจานเป็นจำนวนลูกค้าต่อวัน (≈ {Math.round(forecastDaily / (salesData.itemsPerCustomer || 1))} ลูกค้า/วัน)
+                  </p>
+                </div>
                 
                 <div className="space-y-2">
                   <Label>ปรับด้วย Slider</Label>
@@ -235,19 +341,76 @@ export default function SalesModel() {
                 </Card>
                 <Card className="p-4">
                   <div className="text-sm font-medium text-muted-foreground">รายสัปดาห์</div>
-                  <div className="text-xl font-bold">{forecastDaily * 7} จาน</div>
+                  <div className="text-xl font-bold">{forecastDaily * calendar.openDaysPerWeek} จาน</div>
                 </Card>
                 <Card className="p-4">
                   <div className="text-sm font-medium text-muted-foreground">รายเดือน</div>
-                  <div className="text-xl font-bold">{forecastDaily * 30} จาน</div>
+                  <div className="text-xl font-bold">{Math.round(forecastDaily * openDaysPerMonth)} จาน</div>
                 </Card>
                 <Card className="p-4">
                   <div className="text-sm font-medium text-muted-foreground">รายปี</div>
-                  <div className="text-xl font-bold">{forecastDaily * 365} จาน</div>
+                  <div className="text-xl font-bold">{forecastDaily * calendar.totalOpenDays} จาน</div>
                 </Card>
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PieChart className="w-5 h-5" />
+                สัดส่วนการขายแต่ละเมนู
+              </CardTitle>
+              <CardDescription>
+                แบ่งยอดขายรวมต่อวันให้แต่ละเมนู (ระบบจะปรับสัดส่วนรวมเป็น 100% ในการคำนวณ)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {menus.length === 0 ? (
+                <p className="text-sm text-muted-foreground">ยังไม่มีเมนู</p>
+              ) : (
+                <>
+                  <div className="space-y-3">
+                    {menus.map((menu) => {
+                      const share = normalizedMix[menu.id] || 0;
+                      const rawPercent = typeof menu.mixShare === 'number' ? menu.mixShare * 100 : share * 100;
+                      return (
+                        <div key={menu.id} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-center">
+                          <Label htmlFor={`mix-${menu.id}`} className="md:col-span-1">{menu.name}</Label>
+                          <Input
+                            id={`mix-${menu.id}`}
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={Math.round(rawPercent * 10) / 10}
+                            onChange={(e) => handleMixChange(menu.id, parseNumberInput(e.target.value))}
+                          />
+                          <div className="text-sm text-muted-foreground">
+                            ใช้คำนวณ {formatPercent(share * 100)}
+                          </div>
+                          <div className="text-sm font-medium text-right">
+                            {Math.round(forecastDaily * share)} จาน/วัน
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex items-center justify-between pt-2 border-t">
+                    <div className="text-sm">
+                      รวม: <span className={Math.abs(rawMixTotal - 100) > 0.1 ? 'text-orange-600 font-medium' : 'font-medium'}>
+                        {formatPercent(rawMixTotal)}
+                      </span>
+                      <span className="text-muted-foreground ml-4">ราคาเฉลี่ยถ่วงน้ำหนัก {formatCurrency(avgPrice)}</span>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleNormalizeMix} disabled={Math.abs(rawMixTotal - 100) <= 0.1}>
+                      ปรับให้รวมเป็น 100%
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="seasonality" className="space-y-6">
@@ -479,7 +642,7 @@ export default function SalesModel() {
                 <div className="p-3 bg-muted rounded-lg">
                   <div className="text-sm font-medium">ผลกระทบต่อรายได้</div>
                   <div className="text-lg font-bold text-red-600">
-                    -{formatCurrency((calculateMonthlyRevenue('Jan') * paymentFee) / 100)} /เดือน
+                    -{formatCurrency(paymentFeesDaily * openDaysPerMonth)} /เดือน
                   </div>
                 </div>
               </CardContent>
@@ -514,15 +677,56 @@ export default function SalesModel() {
                 <div className="p-3 bg-muted rounded-lg">
                   <div className="text-sm font-medium">ผลกระทบยอดเดลิเวอรี</div>
                   <div className="text-lg font-bold text-red-600">
-                    -{formatCurrency((calculateMonthlyRevenue('Jan') * 0.1 * deliveryCommission) / 100)} /เดือน
+                    -{formatCurrency((deliveryChannel?.fees || 0) * openDaysPerMonth)} /เดือน
                   </div>
                   <div className="text-xs text-muted-foreground">
-                    สมมติเดลิเวอรี 10% ของยอดขาย
+                    เดลิเวอรี {formatPercent(pnl && pnl.daily.revenue > 0 ? ((deliveryChannel?.revenue || 0) / pnl.daily.revenue) * 100 : 0)} ของยอดขาย ตามสัดส่วนช่องทางของแต่ละเมนู
                   </div>
                 </div>
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>กำไรขาดทุนแยกตามช่องทาง (รายเดือน)</CardTitle>
+              <CardDescription>
+                รายได้สุทธิหลังหักค่าธรรมเนียม และกำไรส่วนเกินหลังหักต้นทุนวัตถุดิบ
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ช่องทาง</TableHead>
+                    <TableHead className="text-right">จาน/เดือน</TableHead>
+                    <TableHead className="text-right">รายได้</TableHead>
+                    <TableHead className="text-right">ค่าธรรมเนียม</TableHead>
+                    <TableHead className="text-right">รายได้สุทธิ</TableHead>
+                    <TableHead className="text-right">ต้นทุนวัตถุดิบ</TableHead>
+                    <TableHead className="text-right">กำไรส่วนเกิน</TableHead>
+                    <TableHead className="text-right">% ของรายได้</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {channelPnL.map((channel) => (
+                    <TableRow key={channel.channel}>
+                      <TableCell className="font-medium">{channel.label}</TableCell>
+                      <TableCell className="text-right">{Math.round(channel.units * openDaysPerMonth).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(channel.revenue * openDaysPerMonth)}</TableCell>
+                      <TableCell className="text-right text-red-600">({formatCurrency(channel.fees * openDaysPerMonth)})</TableCell>
+                      <TableCell className="text-right">{formatCurrency(channel.netRevenue * openDaysPerMonth)}</TableCell>
+                      <TableCell className="text-right">({formatCurrency(channel.cogs * openDaysPerMonth)})</TableCell>
+                      <TableCell className={`text-right font-medium ${channel.contribution < 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(channel.contribution * openDaysPerMonth)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPercent(channel.contributionPct)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="schedule" className="space-y-4">
@@ -546,7 +750,8 @@ export default function SalesModel() {
                         <input
                           type="checkbox"
                           id={`day-${index}`}
-                          defaultChecked={index < 6} // Default open Mon-Sat
+                          checked={calendar.openWeekdays.includes(ALL_WEEKDAYS[index])}
+                          onChange={(e) => handleToggleOpenDay(ALL_WEEKDAYS[index], e.target.checked)}
                           className="rounded border-gray-300"
                         />
                         <Label htmlFor={`day-${index}`} className="text-sm">{day}</Label>
@@ -561,7 +766,8 @@ export default function SalesModel() {
                     <Input
                       id="open-time"
                       type="time"
-                      defaultValue="07:00"
+                      value={operatingHours.open}
+                      onChange={(e) => handleOperatingHoursChange('open', e.target.value)}
                     />
                   </div>
                   
@@ -570,7 +776,8 @@ export default function SalesModel() {
                     <Input
                       id="close-time"
                       type="time"
-                      defaultValue="15:00"
+                      value={operatingHours.close}
+                      onChange={(e) => handleOperatingHoursChange('close', e.target.value)}
                     />
                   </div>
                 </div>
@@ -579,8 +786,140 @@ export default function SalesModel() {
               <div className="p-3 bg-blue-50 rounded-lg">
                 <div className="text-sm font-medium text-blue-900">ข้อมูลสรุป</div>
                 <div className="text-sm text-blue-700">
-                  เปิดทำการ 6 วัน/สัปดาห์ × 8 ชั่วโมง/วัน = 48 ชั่วโมง/สัปดาห์
+                  เปิดทำการ {calendar.openDaysPerWeek} วัน/สัปดาห์ × {getOperatingHoursPerDay()} ชั่วโมง/วัน = {calendar.openDaysPerWeek * getOperatingHoursPerDay()} ชั่วโมง/สัปดาห์
+                </div>
+                <div className="text-sm text-blue-700">
+                  ปี {calendar.year}: เปิดจริง {calendar.totalOpenDays} วัน (เฉลี่ย {openDaysPerMonth.toFixed(1)} วัน/เดือน)
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="w-5 h-5" />
+                    วันหยุดและวันปิดร้าน
+                  </CardTitle>
+                  <CardDescription>
+                    วันที่ร้านปิดจะไม่นับเป็นวันขาย ค่าแรงรายชั่วโมง และค่าสาธารณูปโภค
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="plan-year" className="text-sm">ปีแผน</Label>
+                  <Input
+                    id="plan-year"
+                    type="number"
+                    className="w-24"
+                    value={calendar.year}
+                    onChange={(e) => {
+                      const year = parseInt(e.target.value, 10);
+                      if (year >= 2000 && year <= 2100) updateMeta({ planYear: year });
+                    }}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <Label>วันหยุด ({calendarSettings.holidays.length} วัน)</Label>
+                  <Button variant="outline" size="sm" onClick={handleAddThaiHolidays}>
+                    เพิ่มวันหยุดราชการไทย {calendar.year}
+                  </Button>
+                </div>
+                {!hasThaiLunarHolidays(calendar.year) && (
+                  <p className="text-xs text-orange-600">
+                    ยังไม่มีวันมาฆบูชา วิสาขบูชา อาสาฬหบูชา และเข้าพรรษาของปี {calendar.year} ซึ่งกำหนดตามปฏิทินจันทรคติ กรุณาเพิ่มเองเมื่อประกาศวันหยุดแล้ว
+                  </p>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <Input
+                    type="date"
+                    value={newHoliday.date}
+                    onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+                  />
+                  <Input
+                    value={newHoliday.name}
+                    onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="ชื่อวันหยุด"
+                  />
+                  <Button variant="outline" onClick={handleAddHoliday} disabled={!newHoliday.date}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    เพิ่มวันหยุด
+                  </Button>
+                </div>
+                {calendarSettings.holidays.length > 0 && (
+                  <div className="max-h-64 overflow-y-auto space-y-1">
+                    {calendarSettings.holidays.map((holiday) => (
+                      <div key={holiday.date} className="flex justify-between items-center text-sm p-2 rounded border">
+                        <span>{holiday.date} · {holiday.name}</span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => updateCalendarSettings({ holidays: calendarSettings.holidays.filter(h => h.date !== holiday.date) })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-3 border-t pt-4">
+                <Label>ช่วงปิดร้าน (เช่น ปิดปรับปรุง พักร้อน)</Label>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                  <Input
+                    type="date"
+                    value={newClosure.start}
+                    onChange={(e) => setNewClosure(prev => ({ ...prev, start: e.target.value }))}
+                  />
+                  <Input
+                    type="date"
+                    value={newClosure.end}
+                    onChange={(e) => setNewClosure(prev => ({ ...prev, end: e.target.value }))}
+                  />
+                  <Input
+                    value={newClosure.reason}
+                    onChange={(e) => setNewClosure(prev => ({ ...prev, reason: e.target.value }))}
+                    placeholder="เหตุผล"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleAddClosure}
+                    disabled={!newClosure.start || !newClosure.end || newClosure.end < newClosure.start}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    เพิ่มช่วงปิด
+                  </Button>
                 </div>
+                {calendarSettings.closures.map((closure) => (
+                  <div key={closure.id} className="flex justify-between items-center text-sm p-2 rounded border">
+                    <span>{closure.start} ถึง {closure.end}{closure.reason ? ` · ${closure.reason}` : ''}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => updateCalendarSettings({ closures: calendarSettings.closures.filter(c => c.id !== closure.id) })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-3 md:grid-cols-6 lg:grid-cols-12 gap-2 border-t pt-4">
+                {calendar.months.map((month) => (
+                  <div key={month.month} className="text-center p-2 rounded bg-muted">
+                    <div className="text-xs text-muted-foreground">{month.label}</div>
+                    <div className="text-lg font-bold">{month.openDays}</div>
+                    {month.closedDays > 0 && (
+                      <div className="text-xs text-red-600">ปิด {month.closedDays}</div>
+                    )}
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -1,17 +1,24 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Badge } from './ui/badge';
 import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+import { Progress } from './ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
-import { BarChart3, Plus, Copy, Trash2, TrendingUp, TrendingDown, ArrowUpDown } from 'lucide-react';
-import { formatCurrency, formatPercent } from '../lib/utils';
-import { Scenario } from '../lib/finance-engine';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, ReferenceLine, Legend, Cell } from 'recharts';
+import { BarChart3, Plus, Copy, Trash2, TrendingUp, TrendingDown, ArrowUpDown, Dices, Target, X } from 'lucide-react';
+import { formatNumber, formatPercent, parseNumberInput } from '../lib/utils';
+import { FinancialMetrics, Scenario, ScenarioAppraisal } from '../lib/finance-engine';
+import { DEFAULT_SENSITIVITY_OPTIONS, DriverSensitivity, TornadoBar } from '../lib/sensitivity';
+import { getFinancialTargets, GOAL_SEEK_DRIVERS, GOAL_SEEK_TARGETS, GoalSeekDriverKey, GoalSeekResult, GoalSeekTargetKey } from '../lib/goal-seek';
+import { DISTRIBUTION_TYPES, DistributionType, DriverDistribution, getMonteCarloSettings, MonteCarloResult, SIMULATION_DRIVERS, SimulationDriverKey } from '../lib/monte-carlo';
+import { useFinanceState, useComputationResults } from '../hooks/useFinanceState';
 
 interface ScenariosProps {
   currentScenario: string;
@@ -19,6 +26,8 @@ interface ScenariosProps {
 }
 
 export default function Scenarios({ currentScenario, onScenarioChange }: ScenariosProps) {
+  const { data, updateMeta, scenarios: engineScenarios, compareScenarioAppraisals, runMonteCarlo, cancelMonteCarlo, goalSeek, formatCurrency } = useFinanceState();
+  const { sensitivity } = useComputationResults();
   const [scenarios] = useState(() => ({}));
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newScenarioName, setNewScenarioName] = useState('');
@@ -82,13 +91,106 @@ export default function Scenarios({ currentScenario, onScenarioChange }: Scenari
     };
   });
 
-  const sensitivityData = [
-    { variable: 'ราคาเมนู', change: -10, impact: -15.2 },
-    { variable: 'ราคาเมนู', change: -5, impact: -7.6 },
-    { variable: 'ราคาเมนู', change: 0, impact: 0 },
-    { variable: 'ราคาเมนู', change: 5, impact: 8.3 },
-    { variable: 'ราคาเมนู', change: 10, impact: 16.7 },
+  // NPV, IRR and payback of every scenario, recomputed in the worker when the data or scenarios change
+  const [scenarioAppraisals, setScenarioAppraisals] = useState<ScenarioAppraisal[]>([]);
+  useEffect(() => {
+    let active = true;
+    compareScenarioAppraisals().then(appraisals => {
+      if (active && appraisals) setScenarioAppraisals(appraisals);
+    });
+    return () => {
+      active = false;
+    };
+  }, [data, engineScenarios, compareScenarioAppraisals]);
+  const formatPayback = (months: number | null) => months === null ? '-' : `${months.toFixed(1)} เดือน`;
+
+  // Sensitivity results come from the engine for the active scenario
+  const sensitivityRange = data?.meta?.sensitivity?.rangePercent || DEFAULT_SENSITIVITY_OPTIONS.rangePercent;
+  const sensitivityDrivers: DriverSensitivity[] = sensitivity?.drivers || [];
+  const tornadoData: TornadoBar[] = sensitivity?.tornado || [];
+  const [selectedDriver, setSelectedDriver] = useState('menu_price');
+  const selectedDriverSeries = sensitivityDrivers.find(driver => driver.key === selectedDriver)?.series || [];
+
+  const handleSensitivityRangeChange = (value: string) => {
+    const rangePercent = parseFloat(value);
+    if (!rangePercent || rangePercent === sensitivityRange) return;
+    updateMeta({
+      sensitivity: {
+        rangePercent,
+        stepPercent: rangePercent / 4
+      }
+    });
+  };
+
+  // Monte Carlo settings are saved with the data; the simulation itself runs on demand
+  const monteCarloSettings = getMonteCarloSettings(data);
+  const [simulation, setSimulation] = useState<MonteCarloResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationProgress, setSimulationProgress] = useState(0);
+
+  const updateMonteCarloSettings = (updates: Record<string, any>) => {
+    updateMeta({ monteCarlo: { ...monteCarloSettings, ...updates } });
+  };
+
+  const updateDriverDistribution = (key: SimulationDriverKey, updates: Partial<DriverDistribution>) => {
+    updateMonteCarloSettings({
+      drivers: { ...monteCarloSettings.drivers, [key]: { ...monteCarloSettings.drivers[key], ...updates } }
+    });
+  };
+
+  // The simulation runs in the compute worker; a cancelled run resolves to null and keeps the last result
+  const handleRunSimulation = async () => {
+    setIsSimulating(true);
+    setSimulationProgress(0);
+    const result = await runMonteCarlo(monteCarloSettings, (completed, total) => {
+      setSimulationProgress(total > 0 ? (completed / total) * 100 : 0);
+    });
+    if (result) setSimulation(result);
+    setIsSimulating(false);
+  };
+
+  // Goal seek against the targets saved in the finance settings
+  const financialTargets = getFinancialTargets(data);
+  const [goalSeekDriver, setGoalSeekDriver] = useState<GoalSeekDriverKey>('forecast_units');
+  const [goalSeekTarget, setGoalSeekTarget] = useState<GoalSeekTargetKey>('operating_profit');
+  const [goalSeekResult, setGoalSeekResult] = useState<GoalSeekResult<FinancialMetrics> | null>(null);
+  const [goalSeekRunning, setGoalSeekRunning] = useState(false);
+  const selectedGoalSeekDriver = GOAL_SEEK_DRIVERS.find(driver => driver.key === goalSeekDriver)!;
+  const selectedGoalSeekTarget = GOAL_SEEK_TARGETS.find(target => target.key === goalSeekTarget)!;
+
+  const handleGoalSeek = async () => {
+    setGoalSeekRunning(true);
+    try {
+      setGoalSeekResult(await goalSeek(goalSeekDriver, goalSeekTarget, financialTargets[selectedGoalSeekTarget.setting]));
+    } finally {
+      setGoalSeekRunning(false);
+    }
+  };
+
+  const goalSeekKpiRows: { label: string; value: (result: { monthlyOperatingProfit: number; kpis: FinancialMetrics }) => string }[] = [
+    { label: 'กำไรจากการดำเนินงาน/เดือน', value: ({ monthlyOperatingProfit }) => formatCurrency(monthlyOperatingProfit) },
+    { label: 'รายได้/วัน', value: ({ kpis }) => formatCurrency(kpis.revenue) },
+    { label: 'กำไรขั้นต้น/วัน', value: ({ kpis }) => formatCurrency(kpis.grossProfit) },
+    { label: 'กำไรจากการดำเนินงาน/วัน', value: ({ kpis }) => formatCurrency(kpis.operatingProfit) },
+    { label: 'กำไรสุทธิ/วัน', value: ({ kpis }) => formatCurrency(kpis.netProfit) },
+    { label: 'Prime Cost', value: ({ kpis }) => formatPercent(kpis.primeCostPct) },
+    { label: 'Food Cost', value: ({ kpis }) => formatPercent(kpis.foodCostPct) },
+    { label: 'Labor Cost', value: ({ kpis }) => formatPercent(kpis.laborPct) },
+    { label: 'Contribution Margin', value: ({ kpis }) => formatPercent(kpis.cmPct) },
+    { label: 'จุดคุ้มทุน (จาน/วัน)', value: ({ kpis }) => formatNumber(kpis.bepPerDay, 1) },
+    { label: 'จุดคุ้มทุน (รายได้/เดือน)', value: ({ kpis }) => formatCurrency(kpis.bepRevenue) },
+    { label: 'จุดคุ้มทุน (ลูกค้า/วัน)', value: ({ kpis }) => formatNumber(kpis.bepCustomersPerDay, 1) },
+    { label: 'Safety Margin', value: ({ kpis }) => formatPercent(kpis.safetyMargin) },
+    { label: 'ยอดเฉลี่ย/จาน', value: ({ kpis }) => formatCurrency(kpis.avgTicket) }
   ];
+  const formatDriverValue = (value: number) => selectedGoalSeekDriver.key === 'forecast_units'
+    ? `${formatNumber(value, 1)} ${selectedGoalSeekDriver.unit}`
+    : formatCurrency(value);
+
+  const histogramData = (simulation?.histogram || []).map(bin => ({
+    ...bin,
+    label: formatCurrency((bin.from + bin.to) / 2)
+  }));
 
   return (
     <div className="space-y-6">
@@ -139,6 +241,8 @@ export default function Scenarios({ currentScenario, onScenarioChange }: Scenari
           <TabsTrigger value="adjust">ปรับตัวแปร</TabsTrigger>
           <TabsTrigger value="compare">เปรียบเทียบ</TabsTrigger>
           <TabsTrigger value="sensitivity">ความไว</TabsTrigger>
+          <TabsTrigger value="simulation">Monte Carlo</TabsTrigger>
+          <TabsTrigger value="goalSeek">Goal Seek</TabsTrigger>
           <TabsTrigger value="quick">Quick Scenarios</TabsTrigger>
         </TabsList>
 
@@ -444,35 +548,449 @@ export default function Scenarios({ currentScenario, onScenarioChange }: Scenari
               </div>
             </CardContent>
           </Card>
-        </TabsContent>
 
-        <TabsContent value="sensitivity" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>การวิเคราะห์ความไว (Sensitivity Analysis)</CardTitle>
+              <CardTitle>เปรียบเทียบผลตอบแทนการลงทุน</CardTitle>
               <CardDescription>
-                ดูผลกระทบของการเปลี่ยนแปลงตัวแปรหนึ่งต่อกำไร
+                NPV, IRR และระยะเวลาคืนทุนของแต่ละสถานการณ์ ตลอดช่วงประมาณการหลายปี
               </CardDescription>
             </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>สถานการณ์</TableHead>
+                    <TableHead className="text-right">เงินลงทุน</TableHead>
+                    <TableHead className="text-right">NPV</TableHead>
+                    <TableHead className="text-right">IRR ต่อปี</TableHead>
+                    <TableHead className="text-right">คืนทุน</TableHead>
+                    <TableHead className="text-right">คืนทุนแบบคิดลด</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {scenarioAppraisals.map(({ scenarioId, name, appraisal }) => (
+                    <TableRow key={scenarioId} className={scenarioId === currentScenario ? 'bg-muted' : ''}>
+                      <TableCell className="font-medium">{name}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(appraisal.initialInvestment)}</TableCell>
+                      <TableCell className={`text-right ${appraisal.npv < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(appraisal.npv)}
+                      </TableCell>
+                      <TableCell className="text-right">{appraisal.irrPercent === null ? '-' : formatPercent(appraisal.irrPercent, 1)}</TableCell>
+                      <TableCell className="text-right">{formatPayback(appraisal.paybackMonths)}</TableCell>
+                      <TableCell className="text-right">{formatPayback(appraisal.discountedPaybackMonths)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="sensitivity" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle>การวิเคราะห์ความไว (Sensitivity Analysis)</CardTitle>
+                  <CardDescription>
+                    ตัวแปรใดกระทบกำไรจากการดำเนินงาน/เดือนมากที่สุด เมื่อปรับขึ้นลง ±{sensitivityRange}%
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label>ช่วงการปรับ</Label>
+                  <Select value={String(sensitivityRange)} onValueChange={handleSensitivityRangeChange}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="10">±10%</SelectItem>
+                      <SelectItem value="20">±20%</SelectItem>
+                      <SelectItem value="30">±30%</SelectItem>
+                      <SelectItem value="50">±50%</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-sm text-muted-foreground mb-4">
+                กำไรจากการดำเนินงานฐาน: {formatCurrency(sensitivity?.baseOperatingProfit || 0)} /เดือน
+              </div>
+              <h4 className="font-medium mb-4">Tornado Chart: ผลกระทบต่อกำไร (บาท/เดือน)</h4>
+              <ResponsiveContainer width="100%" height={Math.max(240, tornadoData.length * 40)}>
+                <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ left: 40 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" tickFormatter={(value) => formatCurrency(value)} />
+                  <YAxis type="category" dataKey="label" width={140} />
+                  <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                  <Legend />
+                  <ReferenceLine x={0} stroke="#666" />
+                  <Bar dataKey="lowImpact" stackId="impact" fill="#f87171" name={`-${sensitivityRange}%`} />
+                  <Bar dataKey="highImpact" stackId="impact" fill="#4ade80" name={`+${sensitivityRange}%`} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle>ความไวรายตัวแปร</CardTitle>
+                  <CardDescription>กำไรจากการดำเนินงาน/เดือน เมื่อปรับตัวแปรที่เลือก</CardDescription>
+                </div>
+                <Select value={selectedDriver} onValueChange={setSelectedDriver}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sensitivityDrivers.map(driver => (
+                      <SelectItem key={driver.key} value={driver.key}>{driver.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={400}>
-                <LineChart data={sensitivityData}>
+                <LineChart data={selectedDriverSeries}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="change" tickFormatter={(value) => `${value}%`} />
-                  <YAxis tickFormatter={(value) => `${value}%`} />
+                  <YAxis tickFormatter={(value) => formatCurrency(value)} />
                   <Tooltip 
-                    formatter={(value) => [`${value}%`, 'ผลกระทบต่อกำไร']}
+                    formatter={(value) => [formatCurrency(value as number), 'กำไรจากการดำเนินงาน']}
                     labelFormatter={(value) => `การเปลี่ยนแปลง: ${value}%`}
                   />
+                  <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
                   <Line 
                     type="monotone" 
-                    dataKey="impact" 
+                    dataKey="operatingProfit" 
                     stroke="#8884d8" 
                     strokeWidth={3}
                     dot={{ fill: '#8884d8', strokeWidth: 2, r: 4 }}
                   />
                 </LineChart>
               </ResponsiveContainer>
+
+              <Table className="mt-4">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>การเปลี่ยนแปลง</TableHead>
+                    <TableHead className="text-right">กำไร/เดือน</TableHead>
+                    <TableHead className="text-right">ผลกระทบ</TableHead>
+                    <TableHead className="text-right">% ผลกระทบ</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedDriverSeries.map(point => (
+                    <TableRow key={point.change}>
+                      <TableCell>{point.change >= 0 ? '+' : ''}{point.change}%</TableCell>
+                      <TableCell className="text-right">{formatCurrency(point.operatingProfit)}</TableCell>
+                      <TableCell className={`text-right ${point.impact < 0 ? 'text-red-600' : point.impact > 0 ? 'text-green-600' : ''}`}>
+                        {point.impact >= 0 ? '+' : ''}{formatCurrency(point.impact)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPercent(point.impactPercent)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="simulation" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle>จำลองความไม่แน่นอน (Monte Carlo)</CardTitle>
+                  <CardDescription>
+                    สุ่มตัวแปรตามการกระจายที่กำหนดหลายพันครั้ง เพื่อดูการกระจายของกำไรสุทธิต่อปี
+                  </CardDescription>
+                </div>
+                {isSimulating ? (
+                  <Button variant="outline" onClick={cancelMonteCarlo}>
+                    <X className="w-4 h-4 mr-2" />
+                    ยกเลิก
+                  </Button>
+                ) : (
+                  <Button onClick={handleRunSimulation}>
+                    <Dices className="w-4 h-4 mr-2" />
+                    เริ่มจำลอง
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isSimulating && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>กำลังจำลอง...</span>
+                    <span>{formatPercent(simulationProgress, 0)}</span>
+                  </div>
+                  <Progress value={simulationProgress} />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4 max-w-md">
+                <div className="space-y-2">
+                  <Label htmlFor="monte-carlo-iterations">จำนวนรอบ</Label>
+                  <Input
+                    id="monte-carlo-iterations"
+                    type="number"
+                    min="100"
+                    max="20000"
+                    step="500"
+                    value={monteCarloSettings.iterations}
+                    onChange={(e) => updateMonteCarloSettings({ iterations: parseNumberInput(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="monte-carlo-seed">Seed</Label>
+                  <Input
+                    id="monte-carlo-seed"
+                    type="number"
+                    value={monteCarloSettings.seed}
+                    onChange={(e) => updateMonteCarloSettings({ seed: parseNumberInput(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ตัวแปร</TableHead>
+                    <TableHead>การกระจาย</TableHead>
+                    <TableHead className="text-right">ต่ำสุด</TableHead>
+                    <TableHead className="text-right">น่าจะเป็น/เฉลี่ย</TableHead>
+                    <TableHead className="text-right">สูงสุด</TableHead>
+                    <TableHead className="text-right">ส่วนเบี่ยงเบน</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {SIMULATION_DRIVERS.map(driver => {
+                    const distribution = monteCarloSettings.drivers[driver.key];
+                    const numberInput = (field: 'min' | 'mostLikely' | 'max' | 'stdDev', disabled: boolean) => (
+                      <Input
+                        type="number"
+                        className="h-8 w-24 ml-auto text-right"
+                        disabled={!distribution.enabled || disabled}
+                        value={distribution[field]}
+                        onChange={(e) => updateDriverDistribution(driver.key, { [field]: parseNumberInput(e.target.value) })}
+                      />
+                    );
+                    return (
+                      <TableRow key={driver.key}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={distribution.enabled}
+                              onCheckedChange={(enabled) => updateDriverDistribution(driver.key, { enabled })}
+                            />
+                            <span>{driver.label}</span>
+                            <span className="text-xs text-muted-foreground">({driver.unit === 'percent' ? '%' : 'จุด %'})</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={distribution.type}
+                            onValueChange={(type) => updateDriverDistribution(driver.key, { type: type as DistributionType })}
+                            disabled={!distribution.enabled}
+                          >
+                            <SelectTrigger className="h-8 w-56">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DISTRIBUTION_TYPES.map(type => (
+                                <SelectItem key={type.key} value={type.key}>{type.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">{numberInput('min', distribution.type === 'normal')}</TableCell>
+                        <TableCell className="text-right">{numberInput('mostLikely', distribution.type === 'uniform')}</TableCell>
+                        <TableCell className="text-right">{numberInput('max', distribution.type === 'normal')}</TableCell>
+                        <TableCell className="text-right">{numberInput('stdDev', distribution.type !== 'normal')}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground">
+                ค่าเป็นการเปลี่ยนแปลงจากแผนปัจจุบัน: ยอดขายและราคาวัตถุดิบเป็น %, ของเสียและสัดส่วนเดลิเวอรีเป็นจุดเปอร์เซ็นต์
+              </p>
+            </CardContent>
+          </Card>
+
+          {simulation && (
+            <Card>
+              <CardHeader>
+                <CardTitle>การกระจายของกำไรสุทธิต่อปี</CardTitle>
+                <CardDescription>
+                  {simulation.settings.iterations.toLocaleString()} รอบ (seed {simulation.settings.seed}) · กำไรตามแผน {formatCurrency(simulation.baseProfit)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">โอกาสขาดทุน</div>
+                    <div className={`text-lg font-bold ${simulation.lossProbabilityPercent > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatPercent(simulation.lossProbabilityPercent, 1)}
+                    </div>
+                  </div>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">P10</div>
+                    <div className="text-lg font-bold">{formatCurrency(simulation.p10)}</div>
+                  </div>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">P50 (มัธยฐาน)</div>
+                    <div className="text-lg font-bold">{formatCurrency(simulation.p50)}</div>
+                  </div>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">P90</div>
+                    <div className="text-lg font-bold">{formatCurrency(simulation.p90)}</div>
+                  </div>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-sm text-muted-foreground">ค่าเฉลี่ย ± SD</div>
+                    <div className="text-lg font-bold">{formatCurrency(simulation.mean)}</div>
+                    <div className="text-xs text-muted-foreground">± {formatCurrency(simulation.stdDev)}</div>
+                  </div>
+                </div>
+
+                <ResponsiveContainer width="100%" height={320}>
+                  <BarChart data={histogramData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" interval="preserveStartEnd" />
+                    <YAxis tickFormatter={(value) => `${value}%`} />
+                    <Tooltip
+                      formatter={(value) => [formatPercent(value as number, 1), 'สัดส่วนของรอบ']}
+                      labelFormatter={(_, payload) => {
+                        const bin = payload?.[0]?.payload;
+                        return bin ? `${formatCurrency(bin.from)} ถึง ${formatCurrency(bin.to)}` : '';
+                      }}
+                    />
+                    <Bar dataKey="percent">
+                      {histogramData.map(bin => (
+                        <Cell key={bin.from} fill={bin.to <= 0 ? '#f87171' : bin.from < 0 ? '#fbbf24' : '#4ade80'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+                <p className="text-xs text-muted-foreground">
+                  สีแดง = ขาดทุน, สีเหลือง = ช่วงที่คร่อมจุดคุ้มทุน · ต่ำสุด {formatCurrency(simulation.min)} สูงสุด {formatCurrency(simulation.max)}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="goalSeek" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="w-5 h-5" />
+                Goal Seek
+              </CardTitle>
+              <CardDescription>
+                หาค่าของตัวแปรหนึ่งตัวที่ทำให้ถึงเป้าหมาย โดยตัวแปรอื่นคงเดิม
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label>ตัวแปรที่ปรับ</Label>
+                  <Select value={goalSeekDriver} onValueChange={(value) => { setGoalSeekDriver(value as GoalSeekDriverKey); setGoalSeekResult(null); }}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GOAL_SEEK_DRIVERS.map(driver => (
+                        <SelectItem key={driver.key} value={driver.key}>{driver.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>เป้าหมาย</Label>
+                  <Select value={goalSeekTarget} onValueChange={(value) => { setGoalSeekTarget(value as GoalSeekTargetKey); setGoalSeekResult(null); }}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GOAL_SEEK_TARGETS.map(target => (
+                        <SelectItem key={target.key} value={target.key}>{target.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="goal-seek-target-value">ค่าเป้าหมาย ({selectedGoalSeekTarget.unit})</Label>
+                  <Input
+                    id="goal-seek-target-value"
+                    type="number"
+                    value={financialTargets[selectedGoalSeekTarget.setting]}
+                    onChange={(e) => {
+                      updateMeta({ targets: { ...financialTargets, [selectedGoalSeekTarget.setting]: parseNumberInput(e.target.value) } });
+                      setGoalSeekResult(null);
+                    }}
+                  />
+                </div>
+                <Button onClick={handleGoalSeek} disabled={goalSeekRunning}>
+                  <Target className="w-4 h-4 mr-2" />
+                  คำนวณ
+                </Button>
+              </div>
+
+              {goalSeekResult && (
+                <div className="space-y-4">
+                  <div className="p-4 bg-muted rounded-lg">
+                    {goalSeekResult.status === 'unreachable' && (
+                      <div className="text-red-600 font-medium">
+                        ไม่สามารถถึงเป้าหมายได้ด้วยการปรับ{selectedGoalSeekDriver.label}เพียงอย่างเดียว
+                      </div>
+                    )}
+                    {goalSeekResult.status !== 'unreachable' && goalSeekResult.requiredValue === null && (
+                      <div className="text-green-600 font-medium">
+                        ถึงเป้าหมายแล้ว ไม่ว่าจะปรับ{selectedGoalSeekDriver.label}ในช่วงใด
+                      </div>
+                    )}
+                    {goalSeekResult.requiredValue !== null && (
+                      <div className="space-y-1">
+                        <div className="text-sm text-muted-foreground">
+                          {goalSeekResult.bound === 'minimum' ? 'ค่าขั้นต่ำที่ต้องการ' : 'ค่าสูงสุดที่รับได้'}
+                          {goalSeekResult.status === 'alreadyMet' && ' (แผนปัจจุบันถึงเป้าหมายแล้ว)'}
+                        </div>
+                        <div className="text-2xl font-bold">{formatDriverValue(goalSeekResult.requiredValue)}</div>
+                        <div className="text-sm text-muted-foreground">
+                          ปัจจุบัน {formatDriverValue(goalSeekResult.baseValue)} ·
+                          เปลี่ยนแปลง {(goalSeekResult.changePercent || 0) >= 0 ? '+' : ''}{formatPercent(goalSeekResult.changePercent || 0)}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {goalSeekResult.solution && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>KPI</TableHead>
+                          <TableHead className="text-right">แผนปัจจุบัน</TableHead>
+                          <TableHead className="text-right">เมื่อถึงเป้าหมาย</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {goalSeekKpiRows.map(row => (
+                          <TableRow key={row.label}>
+                            <TableCell>{row.label}</TableCell>
+                            <TableCell className="text-right">{row.value(goalSeekResult.base)}</TableCell>
+                            <TableCell className="text-right font-medium">{row.value(goalSeekResult.solution!)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -9,12 +9,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Zap, Flame, Droplets, Plus, Edit, Trash2, Calculator } from 'lucide-react';
-import { formatCurrency, parseNumberInput } from '../lib/utils';
+import { parseNumberInput } from '../lib/utils';
 import { UtilityItem } from '../lib/finance-engine';
 import { useFinanceState } from '../hooks/useFinanceState';
+import { buildOperatingCalendar } from '../lib/calendar';
 
 export default function UtilitiesModel() {
-  const { data, updateUtilities } = useFinanceState();
+  const { data, updateUtilities, formatCurrency } = useFinanceState();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [newUtility, setNewUtility] = useState<UtilityItem>({
@@ -51,8 +52,10 @@ export default function UtilitiesModel() {
     return 0;
   };
 
+  // Utilities run on open days of an average month in the plan year
+  const openDaysPerMonth = buildOperatingCalendar(data).avgOpenDaysPerMonth;
   const calculateMonthlyCost = (utility: UtilityItem): number => {
-    return calculateDailyCost(utility) * 30;
+    return calculateDailyCost(utility) * openDaysPerMonth;
   };
 
   const getTotalMonthlyCost = (): number => {
@@ -0,0 +1,186 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Wallet } from 'lucide-react';
+import { formatNumber, parseNumberInput } from '../lib/utils';
+import { useComputationResults, useFinanceState } from '../hooks/useFinanceState';
+import { SALES_CHANNELS } from '../lib/finance-engine';
+import { getWorkingCapitalSettings, IngredientTerms, IngredientWorkingCapital } from '../lib/working-capital';
+
+export default function WorkingCapital() {
+  const { data, updateMeta, formatCurrency } = useFinanceState();
+  const { pnl } = useComputationResults();
+  const settings = getWorkingCapitalSettings(data);
+  const workingCapital = pnl?.workingCapital || null;
+
+  const updateSettings = (updates: Record<string, any>) => {
+    updateMeta({ workingCapital: { ...settings, ...updates } });
+  };
+
+  // Terms are saved under the ingredient key, carrying over any saved under its name
+  const updateIngredientTerms = (ingredient: IngredientWorkingCapital, updates: Partial<IngredientTerms>) => {
+    const current = settings.ingredients[ingredient.key] || settings.ingredients[ingredient.name] || {};
+    updateSettings({
+      ingredients: { ...settings.ingredients, [ingredient.key]: { ...current, ...updates } }
+    });
+  };
+
+  const parseDays = (value: string) => Math.max(0, parseNumberInput(value));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="w-5 h-5" />
+          เงินทุนหมุนเวียน
+        </CardTitle>
+        <CardDescription>
+          สต็อกวัตถุดิบ ยอดขายที่ยังไม่ได้รับเงิน และเครดิตจากซัพพลายเออร์ ระยะเวลาเหล่านี้ใช้ในงบกระแสเงินสดด้วย
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {workingCapital && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">สต็อกวัตถุดิบ</div>
+              <div className="text-lg font-bold">{formatCurrency(workingCapital.inventory)}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">ลูกหนี้ (ยอดขายรอรับเงิน)</div>
+              <div className="text-lg font-bold">{formatCurrency(workingCapital.receivables)}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">เจ้าหนี้ซัพพลายเออร์</div>
+              <div className="text-lg font-bold">({formatCurrency(workingCapital.payables)})</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">เงินทุนหมุนเวียนที่ต้องใช้</div>
+              <div className={`text-lg font-bold ${workingCapital.requirement < 0 ? 'text-green-600' : ''}`}>
+                {formatCurrency(workingCapital.requirement)}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                วงจรเงินสด {formatNumber(workingCapital.cashConversionCycle, 1)} วัน
+                ({formatNumber(workingCapital.inventoryDays, 1)} + {formatNumber(workingCapital.receivableDays, 1)} - {formatNumber(workingCapital.payableDays, 1)})
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>ระยะเวลารับเงินตามช่องทางขาย (วัน)</Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {SALES_CHANNELS.map(channel => (
+              <div key={channel.key} className="space-y-1">
+                <Label htmlFor={`receivable-days-${channel.key}`} className="text-xs text-muted-foreground">{channel.label}</Label>
+                <Input
+                  id={`receivable-days-${channel.key}`}
+                  type="number"
+                  min="0"
+                  value={settings.receivableDays[channel.key] ?? 0}
+                  onChange={(e) => updateSettings({
+                    receivableDays: { ...settings.receivableDays, [channel.key]: parseDays(e.target.value) }
+                  })}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">แพลตฟอร์มเดลิเวอรีที่โอนเงินรายสัปดาห์ ใช้ประมาณ 7 วัน</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="default-inventory-days">สต็อกวัตถุดิบทั่วไป (วัน)</Label>
+            <Input
+              id="default-inventory-days"
+              type="number"
+              min="0"
+              value={settings.defaultTerms.inventoryDays}
+              onChange={(e) => updateSettings({ defaultTerms: { ...settings.defaultTerms, inventoryDays: parseDays(e.target.value) } })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="default-supplier-days">เครดิตซัพพลายเออร์ทั่วไป (วัน)</Label>
+            <Input
+              id="default-supplier-days"
+              type="number"
+              min="0"
+              value={settings.defaultTerms.supplierCreditDays}
+              onChange={(e) => updateSettings({ defaultTerms: { ...settings.defaultTerms, supplierCreditDays: parseDays(e.target.value) } })}
+            />
+            <p className="text-xs text-muted-foreground">0 = จ่ายเงินสดทันที</p>
+          </div>
+        </div>
+
+        {workingCapital && workingCapital.ingredients.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>วัตถุดิบ/บรรจุภัณฑ์</TableHead>
+                <TableHead className="text-right">ซื้อเฉลี่ย/วัน</TableHead>
+                <TableHead className="text-right w-32">สต็อก (วัน)</TableHead>
+                <TableHead className="text-right w-32">เครดิต (วัน)</TableHead>
+                <TableHead className="text-right">มูลค่าสต็อก</TableHead>
+                <TableHead className="text-right">เจ้าหนี้</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {workingCapital.ingredients.map(ingredient => (
+                <TableRow key={ingredient.key}>
+                  <TableCell className="font-medium">{ingredient.name}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(ingredient.dailyAmount)}</TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      className="h-8 text-right"
+                      value={ingredient.inventoryDays}
+                      onChange={(e) => updateIngredientTerms(ingredient, { inventoryDays: parseDays(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      className="h-8 text-right"
+                      value={ingredient.supplierCreditDays}
+                      onChange={(e) => updateIngredientTerms(ingredient, { supplierCreditDays: parseDays(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(ingredient.inventory)}</TableCell>
+                  <TableCell className="text-right">({formatCurrency(ingredient.payables)})</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {workingCapital && workingCapital.volumeSensitivity.length > 0 && (
+          <div className="space-y-2">
+            <Label>เงินทุนหมุนเวียนเมื่อยอดขายเปลี่ยนแปลง</Label>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ยอดขาย</TableHead>
+                  <TableHead className="text-right">เงินทุนหมุนเวียน</TableHead>
+                  <TableHead className="text-right">เปลี่ยนแปลง</TableHead>
+                  <TableHead className="text-right">วงจรเงินสด (วัน)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {workingCapital.volumeSensitivity.map((row: any) => (
+                  <TableRow key={row.volumeChangePercent} className={row.volumeChangePercent === 0 ? 'bg-muted' : ''}>
+                    <TableCell>{row.volumeChangePercent > 0 ? '+' : ''}{row.volumeChangePercent}%</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.requirement)}</TableCell>
+                    <TableCell className="text-right">{row.changeInRequirement > 0 ? '+' : ''}{formatCurrency(row.changeInRequirement)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(row.cashConversionCycle, 1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,17 @@
 // React hook for Finance State Management
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { StateManager, AppState } from '../lib/state-manager';
+import { FinanceMeta, FixedCost, LaborItem, MenuItem, SalesModel, UtilityItem } from '../lib/finance-engine';
+import { FixedAsset } from '../lib/assets';
+import { Loan } from '../lib/loans';
+import { FxRate } from '../lib/fx';
+import { Ingredient } from '../lib/ingredients';
+import { MonteCarloSettings } from '../lib/monte-carlo';
+import { ComputeProgressHandler } from '../lib/compute-client';
+import { GoalSeekDriverKey, GoalSeekTargetKey } from '../lib/goal-seek';
+import { getMoneySettings } from '../lib/money';
+import { formatCurrency } from '../lib/utils';
 
 let globalStateManager: StateManager | null = null;
 
@@ -50,35 +60,69 @@ export const useFinanceState = () => {
   // Get singleton instance of state manager - this won't change
   const stateManager = useRef(getStateManager());
 
+  // Amounts are shown at the rounding and precision of the loaded data's money settings
+  const moneySettings = useMemo(() => getMoneySettings(state.data), [state.data]);
+  const formatMoney = useCallback(
+    (amount: number, currency?: string) => formatCurrency(amount, currency, moneySettings),
+    [moneySettings]
+  );
+
   // Memoized actions to prevent unnecessary re-renders
   const actions = {
-    updateMenu: useCallback((menuId: string, updates: any) => {
+    updateMenu: useCallback((menuId: string, updates: Partial<MenuItem>) => {
       stateManager.current.updateMenu(menuId, updates);
     }, []),
-    addMenu: useCallback((menu: any) => {
-      // @ts-ignore
+    addMenu: useCallback((menu: MenuItem) => {
       stateManager.current.addMenu(menu);
     }, []),
     deleteMenu: useCallback((menuId: string) => {
       stateManager.current.deleteMenu(menuId);
     }, []),
 
-    updateSalesModel: useCallback((updates: any) => {
+    updateMenuMix: useCallback((mix: Record<string, number>) => {
+      stateManager.current.updateMenuMix(mix);
+    }, []),
+
+    updateMeta: useCallback((updates: Partial<FinanceMeta>) => {
+      stateManager.current.updateMeta(updates);
+    }, []),
+
+    updateSalesModel: useCallback((updates: Partial<SalesModel>) => {
       stateManager.current.updateSalesModel(updates);
     }, []),
 
-    updateUtilities: useCallback((utilities: any[]) => {
+    updateUtilities: useCallback((utilities: UtilityItem[]) => {
       stateManager.current.updateUtilities(utilities);
     }, []),
 
-    updateLabor: useCallback((labor: any[]) => {
+    updateLabor: useCallback((labor: LaborItem[]) => {
       stateManager.current.updateLabor(labor);
     }, []),
 
-    updateFixedCosts: useCallback((fixedCosts: any[]) => {
+    updateFixedCosts: useCallback((fixedCosts: FixedCost[]) => {
       stateManager.current.updateFixedCosts(fixedCosts);
     }, []),
 
+    updateAssets: useCallback((assets: FixedAsset[]) => {
+      stateManager.current.updateAssets(assets);
+    }, []),
+
+    updateLoans: useCallback((loans: Loan[]) => {
+      stateManager.current.updateLoans(loans);
+    }, []),
+
+    updateFxRates: useCallback((fxRates: FxRate[]) => {
+      stateManager.current.updateFxRates(fxRates);
+    }, []),
+
+    updateIngredients: useCallback((ingredients: Ingredient[]) => {
+      stateManager.current.updateIngredients(ingredients);
+    }, []),
+
+    linkBomToCatalog: useCallback(() => {
+      stateManager.current.linkBomToCatalog();
+    }, []),
+
     importData: useCallback((jsonString: string) => {
       return stateManager.current.importData(jsonString);
     }, []),
@@ -95,6 +139,26 @@ export const useFinanceState = () => {
       stateManager.current.setCurrentScenario(scenarioId);
     }, []),
 
+    compareScenarioAppraisals: useCallback((scenarioIds?: string[]) => {
+      return stateManager.current.compareScenarioAppraisals(scenarioIds);
+    }, []),
+
+    runMonteCarlo: useCallback((settings?: MonteCarloSettings, onProgress?: ComputeProgressHandler) => {
+      return stateManager.current.runMonteCarlo(settings, onProgress);
+    }, []),
+
+    cancelMonteCarlo: useCallback(() => {
+      stateManager.current.cancelMonteCarlo();
+    }, []),
+
+    optimizeMenuPrice: useCallback((menuId: string) => {
+      return stateManager.current.optimizeMenuPrice(menuId);
+    }, []),
+
+    goalSeek: useCallback((driver: GoalSeekDriverKey, target: GoalSeekTargetKey, targetValue?: number) => {
+      return stateManager.current.goalSeek(driver, target, targetValue);
+    }, []),
+
     clearError: useCallback(() => {
       stateManager.current.clearError();
     }, []),
@@ -110,7 +174,9 @@ export const useFinanceState = () => {
 
   return {
     ...state,
-    ...actions
+    ...actions,
+    moneySettings,
+    formatCurrency: formatMoney
   };
 };
 
@@ -138,7 +204,10 @@ export const useComputationResults = () => {
     pnl: computationResult?.pnl || null,
     kpis: computationResult?.kpis || null,
     menus: computationResult?.menus || [],
+    menuEngineering: computationResult?.menuEngineering || null,
     sensitivity: computationResult?.sensitivity || null,
+    multiYear: computationResult?.multiYear || null,
+    appraisal: computationResult?.appraisal || null,
     isLoading,
     error,
     computedAt: computationResult?.computedAt || null,
@@ -0,0 +1,95 @@
+// Unit tests for investment appraisal
+
+import { appraiseInvestment, calculateIRR, calculateNPV, calculatePaybackPeriods, getAssetsBoughtAfterOpening, getInitialInvestment, toMonthlyRate } from '../appraisal';
+import { FinanceEngine, StoredFinanceData } from '../finance-engine';
+
+describe('calculateNPV and calculateIRR', () => {
+  it('should discount cash flows from time zero', () => {
+    expect(calculateNPV(0.1, [-1000, 1100])).toBeCloseTo(0, 8);
+    expect(calculateNPV(0, [-1000, 400, 400])).toBe(-200);
+    expect(calculateIRR([-1000, 1100])).toBeCloseTo(0.1, 8);
+    expect(calculateIRR([-1000, 600, 600])).toBeCloseTo(0.130662, 5);
+  });
+
+  it('should return null without a sign change', () => {
+    expect(calculateIRR([-1000, -100])).toBeNull();
+  });
+});
+
+describe('calculatePaybackPeriods', () => {
+  it('should interpolate within the period the cumulative cash turns positive', () => {
+    expect(calculatePaybackPeriods([-1000, 400, 400, 400])).toBeCloseTo(2.5, 8);
+    expect(calculatePaybackPeriods([-1000, 400, 400])).toBeNull();
+  });
+});
+
+describe('appraiseInvestment', () => {
+  it('should annualize the IRR and report simple and discounted payback', () => {
+    const months = Array.from({ length: 24 }, (_, index) => ({ label: `M${index + 1}`, cashFlow: 1000 }));
+    const result = appraiseInvestment(12000, months, { discountRatePercent: 12, initialCapex: null, preOpeningCosts: 0 });
+
+    expect(result.periods).toHaveLength(25);
+    expect(result.periods[0]).toMatchObject({ period: 0, cashFlow: -12000, cumulative: -12000 });
+    expect(result.paybackMonths).toBe(12);
+    expect(result.discountedPaybackMonths).toBeGreaterThan(12);
+    expect(result.npv).toBeCloseTo(calculateNPV(toMonthlyRate(12), [-12000, ...months.map(month => month.cashFlow)]), 8);
+    // 24 payments of 1,000 against 12,000 yield about 6.49% a month
+    expect(result.irrPercent).toBeCloseTo(112.704, 2);
+  });
+
+  it('should take capex from the asset register unless overridden', () => {
+    const data = { assets: [{ id: 'oven', cost: 50000 }], meta: { appraisal: { preOpeningCosts: 10000 } } } as unknown as StoredFinanceData;
+
+    expect(getInitialInvestment(data)).toBe(60000);
+    expect(getInitialInvestment({ ...data, meta: { appraisal: { initialCapex: 20000 } } })).toBe(20000);
+  });
+
+  it('should leave assets bought after the opening out of the initial investment', () => {
+    const data = {
+      assets: [
+        { id: 'oven', cost: 50000, purchaseDate: '2024-11-15' },
+        { id: 'fryer', cost: 8000, purchaseDate: '2025-04-10' }
+      ],
+      meta: { planYear: 2025 }
+    } as unknown as StoredFinanceData;
+
+    expect(getInitialInvestment(data)).toBe(50000);
+    expect(getAssetsBoughtAfterOpening(data).map(asset => asset.id)).toEqual(['fryer']);
+    expect(getAssetsBoughtAfterOpening({ ...data, meta: { planYear: 2025, appraisal: { initialCapex: 60000 } } })).toEqual([]);
+  });
+});
+
+describe('engine appraisal', () => {
+  it('should appraise the multi-year projection and compare scenarios', () => {
+    const engine = new FinanceEngine();
+    engine.updateMeta({ multiYear: { years: 2 }, appraisal: { discountRatePercent: 8, preOpeningCosts: 5000 } });
+    const result = engine.compute();
+
+    expect(result.appraisal.periods).toHaveLength(25);
+    expect(result.appraisal.initialInvestment).toBe(95000);
+    const first = result.multiYear.months[0];
+    expect(result.appraisal.periods[1].cashFlow).toBeCloseTo(first.operatingProfit + first.depreciation - first.taxExpense, 8);
+
+    const comparison = engine.compareScenarioAppraisals();
+    expect(comparison[0].scenarioId).toBe('base');
+    expect(comparison[0].appraisal.npv).toBeCloseTo(result.appraisal.npv, 6);
+    expect(comparison.map(entry => entry.scenarioId)).toEqual(Object.keys(engine.getScenarios()));
+  });
+
+  it('should pay for assets bought after the opening in their month', () => {
+    const engine = new FinanceEngine();
+    engine.updateMeta({ planYear: 2025, multiYear: { years: 2 } });
+    const before = engine.compute();
+    engine.updateAssets([
+      ...engine.getData().assets!,
+      { id: 'fryer', name: 'Fryer', category: 'equipment', purchaseDate: '2026-03-10', cost: 12000, usefulLifeYears: 5, salvageValue: 0, method: 'straightLine' }
+    ]);
+    const after = engine.compute();
+
+    expect(after.appraisal.initialInvestment).toBe(before.appraisal.initialInvestment);
+    // March of the second projected year
+    const march = after.multiYear.months[14];
+    expect(after.appraisal.periods[15].cashFlow).toBeCloseTo(march.operatingProfit + march.depreciation - march.taxExpense - 12000, 8);
+    expect(after.appraisal.periods[14].cashFlow).toBeCloseTo(before.appraisal.periods[14].cashFlow, 8);
+  });
+});
@@ -0,0 +1,120 @@
+// Unit tests for the fixed-asset register
+
+import { buildAssetSchedule, buildYearDepreciation, FixedAsset, migrateLegacyDepreciation, summarizeScheduleByYear } from '../assets';
+import { FinanceData, FinanceEngine } from '../finance-engine';
+
+const oven: FixedAsset = {
+  id: 'oven',
+  name: 'Oven',
+  category: 'equipment',
+  purchaseDate: '2025-07-15',
+  cost: 13000,
+  usefulLifeYears: 1,
+  salvageValue: 1000,
+  method: 'straightLine'
+};
+
+describe('buildAssetSchedule', () => {
+  it('should depreciate straight-line from the purchase month down to salvage', () => {
+    const schedule = buildAssetSchedule(oven);
+
+    expect(schedule.entries).toHaveLength(12);
+    expect(schedule.entries[0]).toMatchObject({ year: 2025, monthIndex: 6, depreciation: 1000 });
+    expect(schedule.entries[11]).toMatchObject({ year: 2026, monthIndex: 5, closingBookValue: 1000, accumulatedDepreciation: 12000 });
+
+    const [first, second] = summarizeScheduleByYear(schedule);
+    expect(first).toEqual({ year: 2025, openingBookValue: 13000, depreciation: 6000, closingBookValue: 7000 });
+    expect(second.depreciation).toBe(6000);
+  });
+
+  it('should apply double the straight-line rate to the book value', () => {
+    const schedule = buildAssetSchedule({ ...oven, usefulLifeYears: 2, salvageValue: 0, cost: 24000, method: 'decliningBalance' });
+
+    expect(schedule.entries).toHaveLength(24);
+    // 2 / 24 months of the opening book value
+    expect(schedule.entries[0].depreciation).toBeCloseTo(2000, 8);
+    expect(schedule.entries[1].depreciation).toBeCloseTo(22000 / 12, 8);
+    expect(schedule.entries[23].closingBookValue).toBeCloseTo(0, 8);
+  });
+
+  it('should stop depreciating on disposal and report the gain or loss', () => {
+    const schedule = buildAssetSchedule({ ...oven, disposalDate: '2025-10-01', disposalProceeds: 9000 });
+
+    // July, August and September only
+    expect(schedule.entries).toHaveLength(3);
+    expect(schedule.disposal).toEqual({ year: 2025, monthIndex: 9, bookValue: 10000, proceeds: 9000, gain: -1000 });
+  });
+});
+
+describe('buildYearDepreciation', () => {
+  it('should total depreciation and disposal gains by month of the year', () => {
+    const result = buildYearDepreciation([oven, { ...oven, id: 'fryer', disposalDate: '2025-09-10', disposalProceeds: 12000 }], 2025);
+
+    expect(result.depreciation[5]).toBe(0);
+    expect(result.depreciation[6]).toBe(2000);
+    expect(result.depreciation[8]).toBe(1000);
+    expect(result.disposalGain[8]).toBe(1000);
+    expect(result.totalDepreciation).toBe(8000);
+  });
+});
+
+describe('migrateLegacyDepreciation', () => {
+  it('should turn the depreciation fixed cost into an asset with the same monthly charge', () => {
+    const migrated = migrateLegacyDepreciation({
+      meta: { planYear: 2025 },
+      fixedCosts: [
+        { id: 'rent', name: 'ค่าเช่า', amountPerMonth: 5000 },
+        { id: 'depreciation', name: 'ค่าเสื่อมราคา', amountPerMonth: 1500 }
+      ]
+    } as unknown as FinanceData);
+
+    expect(migrated.fixedCosts.map((cost: any) => cost.id)).toEqual(['rent']);
+    expect(migrated.assets).toHaveLength(1);
+    expect(buildYearDepreciation(migrated.assets!, 2025).totalDepreciation).toBeCloseTo(18000, 8);
+    // Already migrated data is left alone
+    expect(migrateLegacyDepreciation(migrated)).toBe(migrated);
+  });
+});
+
+describe('engine depreciation', () => {
+  it('should include depreciation in operating expenses and disposal gains before tax', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL({
+      menus: [{ id: 'm', name: 'M', price: 100, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] }],
+      salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 0 },
+      labor: [],
+      utilities: [],
+      fixedCosts: [],
+      assets: [{ ...oven, disposalDate: '2025-10-01', disposalProceeds: 11000 }],
+      meta: { planYear: 2025 }
+    });
+
+    expect(pnl.annual.depreciation).toBe(3000);
+    expect(pnl.annual.operatingExpenses).toBe(3000);
+    expect(pnl.monthly.depreciation).toBe(250);
+    expect(pnl.projection[6].operatingExpenses).toBe(1000);
+    expect(pnl.projection[9].disposalGain).toBe(1000);
+    expect(pnl.annual.preTaxProfit).toBeCloseTo(pnl.annual.operatingProfit + 1000, 8);
+  });
+
+  it('should carry the disposal gain taxed in the year into the average month and day', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL({
+      menus: [{ id: 'm', name: 'M', price: 100, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] }],
+      salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 0 },
+      labor: [],
+      utilities: [],
+      fixedCosts: [],
+      assets: [{ ...oven, disposalDate: '2025-10-01', disposalProceeds: 11000 }],
+      meta: { planYear: 2025, tax: { entityType: 'company' } }
+    });
+    const { monthly, daily, annual } = pnl;
+
+    expect(annual.taxExpense).toBeGreaterThan(0);
+    expect(monthly.disposalGain).toBeCloseTo(1000 / 12, 8);
+    expect(monthly.preTaxProfit).toBeCloseTo(monthly.operatingProfit + monthly.disposalGain - monthly.interest, 8);
+    expect(monthly.preTaxProfit * 12).toBeCloseTo(annual.preTaxProfit, 6);
+    expect(monthly.netProfit * 12).toBeCloseTo(annual.netProfit, 6);
+    expect(daily.netProfit).toBeCloseTo(monthly.netProfit / pnl.calendar.avgOpenDaysPerMonth, 8);
+  });
+});
@@ -0,0 +1,83 @@
+// Unit tests for mix-weighted break-even
+
+import { buildCvpSeries, calculateBreakEven } from '../break-even';
+import { FinanceEngine } from '../finance-engine';
+
+describe('calculateBreakEven', () => {
+  const input = {
+    menus: [
+      { id: 'cheap', name: 'Cheap', units: 80, revenue: 4000, contribution: 2400 },
+      { id: 'premium', name: 'Premium', units: 20, revenue: 3000, contribution: 2000 }
+    ],
+    fixedCostsPerMonth: 8800,
+    openDaysPerMonth: 25,
+    itemsPerCustomer: 2
+  };
+
+  it('should use the mix-weighted contribution per unit', () => {
+    const result = calculateBreakEven(input);
+
+    // 4400 contribution over 100 units = 44 per unit; 7000 revenue = 70 per unit
+    expect(result.contributionPerUnit).toBeCloseTo(44, 10);
+    expect(result.revenuePerUnit).toBeCloseTo(70, 10);
+    expect(result.units).toBeCloseTo(200, 10);
+    expect(result.revenue).toBeCloseTo(14000, 10);
+    expect(result.unitsPerDay).toBeCloseTo(8, 10);
+    expect(result.revenuePerDay).toBeCloseTo(560, 10);
+    expect(result.customersPerDay).toBeCloseTo(4, 10);
+    expect(result.marginOfSafetyPercent).toBeCloseTo(92, 10);
+  });
+
+  it('should split the break-even volume across menus by the mix', () => {
+    const [cheap, premium] = calculateBreakEven(input).menus;
+
+    expect(cheap.units).toBeCloseTo(160, 10);
+    expect(cheap.contribution).toBeCloseTo(4800, 10);
+    expect(premium.contribution).toBeCloseTo(4000, 10);
+    expect(cheap.coveragePercent + premium.coveragePercent).toBeCloseTo(100, 10);
+  });
+
+  it('should return zero units when contribution is not positive', () => {
+    const result = calculateBreakEven({ ...input, menus: [{ id: 'a', name: 'A', units: 10, revenue: 100, contribution: -5 }] });
+
+    expect(result.units).toBe(0);
+    expect(result.customersPerDay).toBe(0);
+  });
+
+  it('should build CVP lines from zero volume past the forecast', () => {
+    const series = buildCvpSeries(calculateBreakEven({ ...input, openDaysPerMonth: 2 }), 4);
+
+    // Forecast is 200 units/month, the same as break-even, so the axis runs to 2x break-even
+    expect(series).toHaveLength(5);
+    expect(series[0].profit).toBe(-8800);
+    expect(series[2].units).toBeCloseTo(200, 10);
+    expect(series[2].profit).toBeCloseTo(0, 8);
+    expect(series[4].profit).toBeCloseTo(8800, 8);
+  });
+});
+
+describe('engine break-even', () => {
+  it('should include channel fees in the contribution margin', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL({
+      menus: [
+        { id: 'm', name: 'M', price: 100, channelMix: { dineIn: 0.5, takeaway: 0, delivery: 0.5 },
+          bom: [{ item: 'x', qtyG: 1000, unitCostPerKg: 40, yieldPercent: 100, wastePercent: 0 }] }
+      ],
+      salesModel: { forecastDailyUnits: 100, paymentFeePercent: 0, deliveryCommissionPercent: 20, itemsPerCustomer: 2 },
+      labor: [],
+      utilities: [],
+      fixedCosts: [{ id: 'rent', name: 'Rent', amountPerMonth: 10000 }],
+      meta: { planYear: 2025 }
+    });
+
+    // Dine-in CM 60, delivery CM 100 - 20 - 40 = 40; weighted 50
+    expect(pnl.breakEven.contributionPerUnit).toBeCloseTo(50, 8);
+    expect(pnl.breakEven.units).toBeCloseTo(200, 8);
+    expect(pnl.breakEven.customersPerDay).toBeCloseTo(100 / pnl.calendar.avgOpenDaysPerMonth, 8);
+
+    const kpis = (engine as any).calculateKPIs(pnl, { menus: [{ id: 'm' }], salesModel: { forecastDailyUnits: 100 } });
+    expect(kpis.bepUnits).toBeCloseTo(200, 8);
+    expect(kpis.bepRevenue).toBeCloseTo(20000, 8);
+  });
+});
@@ -0,0 +1,109 @@
+// Unit tests for the operating calendar
+
+import { buildOperatingCalendar, countOpenDaysInMonth, getClosedDates, getThaiPublicHolidays, hasThaiLunarHolidays } from '../calendar';
+import { FinanceData, FinanceEngine } from '../finance-engine';
+
+const MON_TO_SAT = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+describe('countOpenDaysInMonth', () => {
+  it('should count scheduled weekdays in a month', () => {
+    // January 2025 starts on a Wednesday and has four Sundays
+    expect(countOpenDaysInMonth(2025, 0, MON_TO_SAT)).toBe(27);
+    expect(countOpenDaysInMonth(2024, 1)).toBe(29);
+    expect(countOpenDaysInMonth(2025, 0, [])).toBe(0);
+  });
+
+  it('should skip closed dates', () => {
+    expect(countOpenDaysInMonth(2025, 0, MON_TO_SAT, new Set(['2025-01-01', '2025-01-05']))).toBe(26);
+  });
+});
+
+describe('getClosedDates', () => {
+  it('should expand closure ranges within the plan year', () => {
+    const closed = getClosedDates({
+      holidays: [{ date: '2025-04-13', name: 'Songkran' }, { date: '2024-04-13', name: 'Last year' }],
+      closures: [{ id: 'c1', start: '2024-12-30', end: '2025-01-02', reason: 'New year break' }]
+    }, 2025);
+
+    expect(Array.from(closed).sort()).toEqual(['2025-01-01', '2025-01-02', '2025-04-13']);
+  });
+
+  it('should ignore invalid ranges', () => {
+    const closed = getClosedDates({ holidays: [], closures: [{ id: 'c1', start: '2025-02-10', end: '2025-02-01' }] }, 2025);
+    expect(closed.size).toBe(0);
+  });
+});
+
+describe('getThaiPublicHolidays', () => {
+  it('should include fixed and lunar holidays for known years', () => {
+    const holidays = getThaiPublicHolidays(2025);
+    const dates = holidays.map(h => h.date);
+
+    expect(dates).toContain('2025-04-13');
+    expect(dates).toContain('2025-12-05');
+    expect(dates).toContain('2025-02-12');
+    expect(dates).toEqual([...dates].sort());
+  });
+
+  it('should add a substitution day for holidays on a weekend', () => {
+    const dates = getThaiPublicHolidays(2025).map(h => h.date);
+
+    // Coronation Day and Visakha Bucha fall on Sundays; Songkran runs Sunday to Tuesday
+    expect(dates).toContain('2025-05-05');
+    expect(dates).toContain('2025-05-12');
+    expect(dates).toContain('2025-04-16');
+    expect(new Set(dates).size).toBe(dates.length);
+  });
+
+  it('should report years without lunar holiday dates', () => {
+    expect(hasThaiLunarHolidays(2025)).toBe(true);
+    expect(hasThaiLunarHolidays(2035)).toBe(false);
+    expect(getThaiPublicHolidays(2035).map(h => h.name)).not.toContain('วันวิสาขบูชา');
+  });
+});
+
+describe('buildOperatingCalendar', () => {
+  it('should combine weekday schedule, holidays and closures', () => {
+    const calendar = buildOperatingCalendar({
+      meta: {
+        planYear: 2025,
+        openDays: MON_TO_SAT,
+        calendar: {
+          holidays: [{ date: '2025-01-01', name: 'New Year' }],
+          closures: [{ id: 'c1', start: '2025-02-03', end: '2025-02-08' }]
+        }
+      }
+    });
+
+    expect(calendar.openDaysPerWeek).toBe(6);
+    expect(calendar.months[0].openDays).toBe(26);
+    expect(calendar.months[0].closedDays).toBe(1);
+    expect(calendar.months[1].openDays).toBe(24 - 6);
+    expect(calendar.totalOpenDays).toBe(calendar.months.reduce((sum, m) => sum + m.openDays, 0));
+    expect(calendar.avgOpenDaysPerMonth).toBeCloseTo(calendar.totalOpenDays / 12, 10);
+  });
+
+  it('should drive engine labor and utility costs from open days', () => {
+    const engine = new FinanceEngine();
+    const data = {
+      menus: [],
+      salesModel: { forecastDailyUnits: 0 },
+      labor: [
+        { id: 'chef', role: 'Chef', type: 'direct', wagePerHour: 50, hoursPerDay: 8, daysPerWeek: 6 },
+        { id: 'helper', role: 'Helper', type: 'indirect', wagePerHour: 40, hoursPerDay: 5, daysPerWeek: 3 }
+      ],
+      utilities: [{ id: 'ac', type: 'electric', device: 'AC', kw: 2, hoursPerDay: 5, ratePerKwh: 5 }],
+      fixedCosts: [],
+      meta: { planYear: 2025, openDays: MON_TO_SAT }
+    } as unknown as FinanceData;
+    const calendar = buildOperatingCalendar(data);
+
+    // Chef works every open day; helper half of them
+    expect((engine as any).calculateDailyLaborCosts(data, calendar)).toBeCloseTo(400 + 200 * 0.5, 10);
+    expect((engine as any).calculateMonthlyUtilityCosts(data, calendar)).toBeCloseTo(50 * calendar.avgOpenDaysPerMonth, 10);
+
+    const pnl = (engine as any).calculatePnL(data);
+    expect(pnl.projection[0].operatingExpenses).toBeCloseTo((500 + 50) * 27, 10);
+    expect(pnl.annual.operatingExpenses).toBeCloseTo(550 * calendar.totalOpenDays, 10);
+  });
+});
@@ -0,0 +1,119 @@
+// Unit tests for the projected cash-flow statement
+
+import { buildCashFlowStatement, CashFlowMonthInput, DEFAULT_CASH_FLOW_SETTINGS, DEFAULT_PAYMENT_TIMING, settledAfterYearEnd, shiftByDays } from '../cash-flow';
+import { FinanceEngine } from '../finance-engine';
+
+const month = (index: number, overrides: Partial<CashFlowMonthInput> = {}): CashFlowMonthInput => ({
+  month: `m${index}`,
+  label: `M${index}`,
+  year: 2025,
+  storeSales: 0,
+  deliverySales: 0,
+  purchases: 0,
+  payroll: 0,
+  otherExpenses: 0,
+  netVatPayable: 0,
+  incomeTax: 0,
+  interest: 0,
+  principalRepayment: 0,
+  loanProceeds: 0,
+  capex: 0,
+  disposalProceeds: 0,
+  ...overrides
+});
+
+describe('shiftByDays', () => {
+  it('should split amounts between months by the fraction of the lag', () => {
+    expect(shiftByDays([300, 0, 0], 0)).toEqual([300, 0, 0]);
+    expect(shiftByDays([300, 0, 0], 15)).toEqual([150, 150, 0]);
+  });
+
+  it('should carry amounts settled after the last month to year end instead of wrapping', () => {
+    expect(shiftByDays([0, 0, 300], 30)).toEqual([0, 0, 0]);
+    expect(settledAfterYearEnd([0, 0, 300], 30)).toBe(300);
+    expect(shiftByDays([0, 300, 300], 45)).toEqual([0, 0, 150]);
+    expect(settledAfterYearEnd([0, 300, 300], 45)).toBe(450);
+    expect(settledAfterYearEnd([300, 300, 300], 0)).toBe(0);
+  });
+});
+
+describe('buildCashFlowStatement', () => {
+  it('should roll the cash balance and flag negative months', () => {
+    const statement = buildCashFlowStatement(
+      [
+        month(1, { storeSales: 10000, purchases: 4000, payroll: 3000, capex: 20000, loanProceeds: 10000 }),
+        month(2, { storeSales: 5000, purchases: 2000, payroll: 3000, interest: 100, principalRepayment: 900 }),
+        month(3, { storeSales: 12000, purchases: 4000, payroll: 3000 })
+      ],
+      { ...DEFAULT_CASH_FLOW_SETTINGS, openingCash: 5000, ownerDrawingsPerMonth: 1000 }
+    );
+
+    expect(statement.months.map(m => m.closingCash)).toEqual([-3000, -5000, -1000]);
+    expect(statement.months[1].openingCash).toBe(-3000);
+    expect(statement.negativeMonths).toEqual(['M1', 'M2', 'M3']);
+    expect(statement.lowestCash).toBe(-5000);
+    expect(statement.closingCash).toBe(-1000);
+  });
+
+  it('should delay delivery payouts, supplier payments, payroll and VAT', () => {
+    const statement = buildCashFlowStatement(
+      [
+        month(1, { deliverySales: 6000, purchases: 3000, payroll: 2000, netVatPayable: 700 }),
+        month(2),
+        month(3)
+      ],
+      { ...DEFAULT_CASH_FLOW_SETTINGS, payrollTiming: 'nextMonth' },
+      { ...DEFAULT_PAYMENT_TIMING, deliveryPayoutDays: 15, supplierPaymentDays: 60 }
+    );
+    const [first, second, third] = statement.months;
+
+    expect(first.deliveryPayouts).toBe(3000);
+    expect(second.deliveryPayouts).toBe(3000);
+    expect(third.supplierPayments).toBe(3000);
+    expect(second.payroll).toBe(2000);
+    expect(second.vatPayments).toBe(700);
+    expect(first.totalOutflows).toBe(0);
+    expect(statement.closingReceivables).toBe(0);
+    expect(statement.closingPayables).toBe(0);
+  });
+
+  it('should leave December settlements open at year end', () => {
+    const statement = buildCashFlowStatement(
+      [month(1), month(2), month(3, { deliverySales: 6000, purchases: 3000, payroll: 2000, netVatPayable: 700 })],
+      { ...DEFAULT_CASH_FLOW_SETTINGS, payrollTiming: 'nextMonth' },
+      { ...DEFAULT_PAYMENT_TIMING, deliveryPayoutDays: 15, supplierPaymentDays: 60 }
+    );
+
+    expect(statement.months[0].totalInflows).toBe(0);
+    expect(statement.months[0].totalOutflows).toBe(0);
+    expect(statement.months[2].deliveryPayouts).toBe(3000);
+    expect(statement.closingReceivables).toBe(3000);
+    expect(statement.closingPayables).toBe(3000 + 2000 + 700);
+  });
+});
+
+describe('engine cash flow', () => {
+  it('should build the plan-year cash flow from the projection', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL({
+      menus: [{ id: 'm', name: 'M', price: 100, channelMix: { dineIn: 0.5, takeaway: 0, delivery: 0.5 }, bom: [] }],
+      salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 30 },
+      labor: [],
+      utilities: [],
+      fixedCosts: [{ id: 'rent', name: 'Rent', amountPerMonth: 1000 }],
+      assets: [{ id: 'oven', name: 'Oven', category: 'equipment', purchaseDate: '2025-03-01', cost: 12000, usefulLifeYears: 1, salvageValue: 0, method: 'straightLine' }],
+      loans: [],
+      meta: { planYear: 2025, cashFlow: { openingCash: 1000 }, workingCapital: { receivableDays: { delivery: 0 } } }
+    });
+    const { months } = pnl.cashFlow;
+    const projected = pnl.projection[0];
+
+    expect(months).toHaveLength(12);
+    expect(months[0].cashSales).toBeCloseTo(projected.revenue / 2, 6);
+    expect(months[0].deliveryPayouts).toBeCloseTo(projected.revenue / 2 * 0.7, 6);
+    expect(months[0].otherExpenses).toBe(1000);
+    expect(months[2].capex).toBe(12000);
+    expect(months[0].openingCash).toBe(1000);
+    expect(pnl.cashFlow.closingCash).toBeCloseTo(months[11].closingCash, 8);
+  });
+});
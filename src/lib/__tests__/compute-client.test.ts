@@ -0,0 +1,75 @@
+// Unit tests for the compute worker client
+
+import { ComputeClient, ComputeWorker } from '../compute-client';
+import { ComputeInput, ComputeRequest } from '../compute-worker';
+import { DEFAULT_MONTE_CARLO_SETTINGS } from '../monte-carlo';
+import { FinanceEngine } from '../finance-engine';
+
+const input: ComputeInput = { data: new FinanceEngine().getData(), scenarios: {}, scenarioId: 'base' };
+
+describe('ComputeClient', () => {
+  it('should resolve superseded computations to null', async () => {
+    const client = new ComputeClient();
+
+    const first = client.compute(input);
+    const second = client.compute({ ...input, scenarios: { up: { id: 'up', name: 'Up', deltas: { menuPriceDeltaPercent: 10 } } }, scenarioId: 'up' });
+
+    expect(await first).toBeNull();
+    const result = await second;
+    expect(result!.scenarioId).toBe('up');
+    expect(result!.menus[0].price).toBeCloseTo(input.data.menus[0].price * 1.1, 10);
+  });
+
+  it('should report simulation progress and resolve a cancelled run to null', async () => {
+    const client = new ComputeClient();
+    const settings = { ...DEFAULT_MONTE_CARLO_SETTINGS, iterations: 500 };
+    const progress: number[] = [];
+
+    const result = await client.runMonteCarlo(input, settings, completed => progress.push(completed));
+    const cancelled = client.runMonteCarlo(input, settings);
+    client.cancel('monteCarlo');
+
+    expect(progress[progress.length - 1]).toBe(500);
+    expect(result!.settings.iterations).toBe(500);
+    expect(await cancelled).toBeNull();
+  });
+
+  it('should run goal seek and reject outstanding requests on terminate', async () => {
+    const client = new ComputeClient();
+
+    const result = await client.goalSeek(input, 'menu_price', 'operating_profit', 50000);
+    expect(result).toEqual(new FinanceEngine().goalSeek('menu_price', 'operating_profit', 50000));
+
+    const pending = client.compareScenarioAppraisals(input);
+    client.terminate();
+    await expect(pending).rejects.toThrow('Compute worker terminated');
+  });
+
+  it('should reject with the worker error', async () => {
+    const worker: ComputeWorker = {
+      onmessage: null,
+      onerror: null,
+      postMessage: (request: ComputeRequest) => {
+        setTimeout(() => worker.onmessage?.({ data: { type: 'error', id: request.id, error: 'Invalid data' } }), 0);
+      },
+      terminate: () => undefined
+    };
+    const client = new ComputeClient(worker);
+
+    await expect(client.compute(input)).rejects.toThrow('Invalid data');
+  });
+
+  it('should reject a result that does not answer the kind of request', async () => {
+    const worker: ComputeWorker = {
+      onmessage: null,
+      onerror: null,
+      postMessage: (request: ComputeRequest) => {
+        setTimeout(() => worker.onmessage?.({ data: { type: 'appraised', id: request.id, result: [] } }), 0);
+      },
+      terminate: () => undefined
+    };
+    const client = new ComputeClient(worker);
+
+    await expect(client.compute(input)).rejects.toThrow('Unexpected appraised response to a compute request');
+  });
+});
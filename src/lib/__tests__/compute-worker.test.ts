@@ -0,0 +1,101 @@
+// Unit tests for the compute worker request handler
+
+import { ComputeInput, ComputeResponse, createComputeHandler, MONTE_CARLO_CHUNK_SIZE } from '../compute-worker';
+import { DEFAULT_MONTE_CARLO_SETTINGS } from '../monte-carlo';
+import { createFinanceEngine, FinanceEngine } from '../finance-engine';
+
+const input: ComputeInput = { data: new FinanceEngine().getData(), scenarios: {}, scenarioId: 'base' };
+const settings = { ...DEFAULT_MONTE_CARLO_SETTINGS, iterations: MONTE_CARLO_CHUNK_SIZE * 2 + 100 };
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const setup = () => {
+  const responses: ComputeResponse[] = [];
+  const handle = createComputeHandler(response => responses.push(response));
+  const waitFor = async (predicate: () => boolean) => {
+    for (let tick = 0; tick < 100 && !predicate(); tick++) await nextTick();
+  };
+  return { responses, handle, waitFor };
+};
+
+describe('createComputeHandler', () => {
+  it('should compute only the latest of a burst of requests', async () => {
+    const { responses, handle, waitFor } = setup();
+
+    handle({ type: 'compute', id: 1, input });
+    handle({ type: 'compute', id: 2, input });
+    handle({ type: 'compute', id: 3, input });
+    handle({ type: 'cancel', id: 3 });
+    await waitFor(() => responses.length === 3);
+
+    expect(responses.map(response => [response.type, response.id])).toEqual([
+      ['cancelled', 1],
+      ['cancelled', 2],
+      ['cancelled', 3]
+    ]);
+
+    handle({ type: 'compute', id: 4, input });
+    await waitFor(() => responses.length === 4);
+    const computed = responses[3];
+    expect(computed.type).toBe('computed');
+    expect(computed.type === 'computed' && computed.result.kpis).toEqual(new FinanceEngine().compute().kpis);
+  });
+
+  it('should report Monte Carlo progress per chunk and match the direct run', async () => {
+    const { responses, handle, waitFor } = setup();
+
+    handle({ type: 'monteCarlo', id: 1, input, settings });
+    await waitFor(() => responses.some(response => response.type === 'simulated'));
+
+    const progress = responses.filter(response => response.type === 'progress');
+    expect(progress.map(response => response.type === 'progress' && response.completed)).toEqual([
+      MONTE_CARLO_CHUNK_SIZE,
+      MONTE_CARLO_CHUNK_SIZE * 2,
+      settings.iterations
+    ]);
+    const simulated = responses[responses.length - 1];
+    expect(simulated.type === 'simulated' && simulated.result).toEqual(new FinanceEngine().runMonteCarlo('base', settings));
+  });
+
+  it('should run computes between chunks and stop a cancelled simulation', async () => {
+    const { responses, handle, waitFor } = setup();
+
+    handle({ type: 'monteCarlo', id: 1, input, settings });
+    await waitFor(() => responses.length > 0);
+    handle({ type: 'compute', id: 2, input });
+    handle({ type: 'cancel', id: 1 });
+    await waitFor(() => responses.some(response => response.type === 'cancelled'));
+
+    expect(responses.map(response => [response.type, response.id])).toEqual([
+      ['progress', 1],
+      ['computed', 2],
+      ['cancelled', 1]
+    ]);
+  });
+
+  it('should run analyses between chunks and match the direct results', async () => {
+    const { responses, handle, waitFor } = setup();
+    const engine = createFinanceEngine(input.data, input.scenarios);
+    const menuId = input.data.menus[0].id;
+
+    handle({ type: 'monteCarlo', id: 1, input, settings });
+    await waitFor(() => responses.length > 0);
+    handle({ type: 'appraisals', id: 2, input });
+    handle({ type: 'priceOptimization', id: 3, input, menuId });
+    handle({ type: 'goalSeek', id: 4, input, driver: 'forecast_units', target: 'operating_profit', targetValue: 50000 });
+    handle({ type: 'cancel', id: 1 });
+    await waitFor(() => responses.some(response => response.type === 'cancelled'));
+
+    expect(responses.map(response => [response.type, response.id])).toEqual([
+      ['progress', 1],
+      ['appraised', 2],
+      ['optimized', 3],
+      ['sought', 4],
+      ['cancelled', 1]
+    ]);
+    const [, appraised, optimized, sought] = responses;
+    expect(appraised.type === 'appraised' && appraised.result).toEqual(engine.compareScenarioAppraisals());
+    expect(optimized.type === 'optimized' && optimized.result).toEqual(engine.optimizeMenuPrice(menuId));
+    expect(sought.type === 'sought' && sought.result).toEqual(engine.goalSeek('forecast_units', 'operating_profit', 50000));
+  });
+});
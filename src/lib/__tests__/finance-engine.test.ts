@@ -1,6 +1,6 @@
 // Unit tests for Finance Engine
 
-import { FinanceEngine, MenuItem, BOMItem, SalesModel, LaborItem, UtilityItem, FixedCost } from '../finance-engine';
+import { FinanceEngine, MenuItem, BOMItem, SalesModel, LaborItem, UtilityItem, FixedCost, applyScenarioDeltas, computeFinance, getNormalizedMenuMix } from '../finance-engine';
 import { FinancialDataValidator } from '../validation';
 
 describe('FinanceEngine', () => {
@@ -139,8 +139,26 @@ describe('FinanceEngine', () => {
       (financeEngine as any).data = testData;
       const result = (financeEngine as any).calculateDailyRevenue();
       
-      // Expected: (100 * 50 * 1.0) + (150 * 50 * 1.0) = 5000 + 7500 = 12500
-      expect(result).toBe(12500);
+      // No mix shares set, so units split equally: (100 * 25) + (150 * 25) = 2500 + 3750 = 6250
+      expect(result).toBe(6250);
+    });
+
+    it('should split daily units by menu mix share', () => {
+      const testData = {
+        menus: [
+          { id: 'menu1', name: 'Menu 1', price: 100, mixShare: 0.6, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] },
+          { id: 'menu2', name: 'Menu 2', price: 150, mixShare: 0.2, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] }
+        ],
+        salesModel: {
+          forecastDailyUnits: 100
+        }
+      };
+
+      (financeEngine as any).data = testData;
+      const result = (financeEngine as any).calculateDailyRevenue();
+
+      // Shares normalize to 75% / 25%: (100 * 75) + (150 * 25) = 7500 + 3750 = 11250
+      expect(result).toBeCloseTo(11250, 5);
     });
 
     it('should handle negative channel mix percentages', () => {
@@ -246,6 +264,118 @@ describe('FinanceEngine', () => {
     });
   });
 
+  describe('calculateChannelPnL', () => {
+    it('should deduct payment fees and delivery commission per channel', () => {
+      const testData = {
+        menus: [
+          {
+            id: 'menu1',
+            name: 'Menu 1',
+            price: 100,
+            deliveryMarkupPercent: 20,
+            channelMix: { dineIn: 0.5, takeaway: 0.3, delivery: 0.2 },
+            bom: [{ item: 'x', qtyG: 1000, unitCostPerKg: 40, yieldPercent: 100, wastePercent: 0 }]
+          }
+        ],
+        salesModel: { forecastDailyUnits: 100, paymentFeePercent: 2, deliveryCommissionPercent: 30 },
+        labor: [],
+        utilities: [],
+        fixedCosts: []
+      };
+
+      (financeEngine as any).data = testData;
+      const channels = (financeEngine as any).calculateChannelPnL();
+      const byKey = Object.fromEntries(channels.map((c: any) => [c.channel, c]));
+
+      expect(byKey.dineIn.revenue).toBeCloseTo(5000, 5);
+      expect(byKey.dineIn.fees).toBeCloseTo(100, 5);
+      // Delivery sells 20 units at the 120 marked-up price and pays 30% commission
+      expect(byKey.delivery.revenue).toBeCloseTo(2400, 5);
+      expect(byKey.delivery.fees).toBeCloseTo(720, 5);
+      expect(byKey.delivery.contribution).toBeCloseTo(2400 - 720 - 800, 5);
+
+      const pnl = (financeEngine as any).calculatePnL();
+      expect(pnl.daily.revenue).toBeCloseTo(10400, 5);
+      expect(pnl.daily.channelFees).toBeCloseTo(100 + 60 + 720, 5);
+      expect(pnl.daily.netRevenue).toBeCloseTo(10400 - 880, 5);
+      expect(pnl.daily.grossProfit).toBeCloseTo(10400 - 880 - 4000, 5);
+      expect(pnl.channels).toHaveLength(3);
+    });
+  });
+
+  describe('calculateProjection', () => {
+    it('should project 12 months with seasonality and open days', () => {
+      const testData = {
+        menus: [
+          { id: 'menu1', name: 'Menu 1', price: 100, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] }
+        ],
+        salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 0, seasonality: { Jan: 1.2, Feb: 0.5 } },
+        labor: [],
+        utilities: [],
+        fixedCosts: [{ id: 'rent', name: 'Rent', amountPerMonth: 10000 }],
+        meta: { planYear: 2025, openDays: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] }
+      };
+
+      (financeEngine as any).data = testData;
+      const pnl = (financeEngine as any).calculatePnL();
+
+      expect(pnl.projection).toHaveLength(12);
+      // January 2025 has 27 Mon-Sat days, February has 24
+      expect(pnl.projection[0].openDays).toBe(27);
+      expect(pnl.projection[0].revenue).toBeCloseTo(1000 * 1.2 * 27, 5);
+      expect(pnl.projection[1].openDays).toBe(24);
+      expect(pnl.projection[1].operatingProfit).toBeCloseTo(1000 * 0.5 * 24 - 10000, 5);
+      // Months without a factor default to 1
+      expect(pnl.projection[2].seasonality).toBe(1);
+
+      const annualRevenue = pnl.projection.reduce((sum: number, m: any) => sum + m.revenue, 0);
+      expect(pnl.annual.revenue).toBeCloseTo(annualRevenue, 5);
+      expect(pnl.annual.operatingExpenses).toBeCloseTo(120000, 5);
+    });
+  });
+
+  describe('menu mix', () => {
+    it('should normalize mix shares and fall back to an equal split', () => {
+      const menus = [
+        { id: 'a', name: 'A', price: 10, mixShare: 3, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] },
+        { id: 'b', name: 'B', price: 10, mixShare: 1, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] }
+      ];
+
+      expect(getNormalizedMenuMix(menus)).toEqual({ a: 0.75, b: 0.25 });
+      expect(getNormalizedMenuMix(menus.map(menu => ({ ...menu, mixShare: 0 })))).toEqual({ a: 0.5, b: 0.5 });
+      expect(getNormalizedMenuMix(menus.map(menu => ({ ...menu, mixShare: undefined })))).toEqual({ a: 0.5, b: 0.5 });
+    });
+
+    it('should weight COGS and contribution margin by the mix', () => {
+      const testData = {
+        menus: [
+          { id: 'cheap', name: 'Cheap', price: 50, mixShare: 0.8, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 },
+            bom: [{ item: 'x', qtyG: 1000, unitCostPerKg: 20, yieldPercent: 100, wastePercent: 0 }] },
+          { id: 'premium', name: 'Premium', price: 150, mixShare: 0.2, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 },
+            bom: [{ item: 'y', qtyG: 1000, unitCostPerKg: 50, yieldPercent: 100, wastePercent: 0 }] }
+        ],
+        salesModel: { forecastDailyUnits: 100 },
+        labor: [],
+        utilities: [],
+        fixedCosts: [{ id: 'rent', name: 'Rent', amountPerMonth: 9000 }]
+      };
+
+      (financeEngine as any).data = testData;
+      // COGS: 80 * 20 + 20 * 50 = 2600
+      expect((financeEngine as any).calculateDailyCOGS()).toBeCloseTo(2600, 5);
+
+      const pnl = (financeEngine as any).calculatePnL();
+      const kpis = (financeEngine as any).calculateKPIs(pnl);
+      // Weighted CM: 0.8 * 30 + 0.2 * 100 = 44; weighted price: 0.8 * 50 + 0.2 * 150 = 70
+      expect(kpis.cmPct).toBeCloseTo((44 / 70) * 100, 5);
+      expect(kpis.bepUnits).toBeCloseTo(9000 / 44, 5);
+      expect(kpis.avgTicket).toBeCloseTo(70, 5);
+
+      const metrics = (financeEngine as any).calculateMenuMetrics();
+      expect(metrics.map((m: any) => m.dailyUnits)).toEqual([80, 20]);
+    });
+  });
+
   describe('compute', () => {
     it('should return valid computation result', () => {
       const result = financeEngine.compute();
@@ -268,6 +398,55 @@ describe('FinanceEngine', () => {
     });
   });
 
+  describe('scenarios', () => {
+    it('should apply menu price and ingredient deltas without mutating base data', () => {
+      const base = financeEngine.getData();
+      const adjusted = applyScenarioDeltas(base, {
+        menuPriceDeltaPercent: 10,
+        ingredientCostDeltaPercent: 20,
+        wasteDeltaPercent: -50
+      });
+
+      expect(adjusted.menus[0].price).toBeCloseTo(55, 5);
+      expect(adjusted.menus[0].bom[0].unitCostPerKg).toBeCloseTo(84, 5);
+      expect(adjusted.menus[0].bom[0].wastePercent).toBeCloseTo(2.5, 5);
+      // Packaging is not an ingredient
+      expect(adjusted.menus[0].bom[3].packaging!.unitCost).toBe(2.5);
+      expect(base.menus[0].price).toBe(50);
+      expect(base.menus[0].bom[0].unitCostPerKg).toBe(70);
+    });
+
+    it('should scale electric rates and direct labor hours', () => {
+      const adjusted = applyScenarioDeltas(financeEngine.getData(), {
+        electricRateDeltaPercent: 15,
+        laborProductivityDeltaPercent: 25
+      });
+
+      expect(adjusted.utilities[0].ratePerKwh).toBeCloseTo(5.75, 5);
+      expect(adjusted.utilities[2].ratePerKg).toBe(29.33); // LPG untouched
+      expect(adjusted.labor[0].hoursPerDay).toBeCloseTo(6.4, 5); // direct: 8 / 1.25
+      expect(adjusted.labor[1].hoursPerDay).toBe(6); // indirect untouched
+    });
+
+    it('should compute the selected scenario', () => {
+      const base = financeEngine.compute('base');
+      const s1 = financeEngine.compute('S1');
+
+      expect(s1.scenarioId).toBe('S1');
+      expect(s1.pnl.daily.revenue).toBeCloseTo(base.pnl.daily.revenue * 1.05, 5);
+      expect(s1.pnl.daily.cogs).toBeGreaterThan(base.pnl.daily.cogs);
+      expect(s1.menus[0].price).toBeCloseTo(52.5, 5);
+    });
+
+    it('should fall back to base data for unknown scenarios', () => {
+      const base = financeEngine.compute();
+      const unknown = financeEngine.compute('missing');
+
+      expect(unknown.scenarioId).toBe('base');
+      expect(unknown.pnl.daily.revenue).toBe(base.pnl.daily.revenue);
+    });
+  });
+
   describe('importJSON', () => {
     it('should import valid JSON successfully', () => {
       const validData = {
@@ -315,6 +494,49 @@ describe('FinanceEngine', () => {
   });
 });
 
+describe('computeFinance', () => {
+  it('should match the engine computation without touching storage', () => {
+    const data = new FinanceEngine().getData();
+    const snapshot = JSON.stringify(data);
+    vi.mocked(localStorage.getItem).mockClear();
+    vi.mocked(localStorage.setItem).mockClear();
+
+    const result = computeFinance(data);
+    const expected = new FinanceEngine().compute();
+
+    expect(localStorage.getItem).not.toHaveBeenCalled();
+    expect(localStorage.setItem).not.toHaveBeenCalled();
+    expect(result.scenarioId).toBe('base');
+    expect(result.pnl.monthly).toEqual(expected.pnl.monthly);
+    expect(result.kpis).toEqual(expected.kpis);
+    expect(result.menus).toEqual(expected.menus);
+    expect(JSON.stringify(data)).toBe(snapshot);
+  });
+
+  it('should compute the requested scenario from the given scenarios only', () => {
+    const data = new FinanceEngine().getData();
+    const scenarios = { up: { id: 'up', name: 'Up', deltas: { menuPriceDeltaPercent: 10 } } };
+
+    const base = computeFinance(data);
+    const raised = computeFinance(data, { scenarios, scenarioId: 'up' });
+    const unknown = computeFinance(data, { scenarioId: 'S1' });
+
+    expect(raised.scenarioId).toBe('up');
+    expect(raised.menus[0].price).toBeCloseTo(base.menus[0].price * 1.1, 10);
+    expect(unknown.scenarioId).toBe('base');
+    expect(unknown.kpis).toEqual(base.kpis);
+  });
+
+  it('should return the zeroed result for invalid data', () => {
+    const data = { ...new FinanceEngine().getData(), menus: [] };
+
+    const result = computeFinance(data);
+
+    expect(result.error).toContain('Computation failed');
+    expect(result.pnl.breakEven.unitsPerDay).toBe(0);
+  });
+});
+
 describe('FinancialDataValidator', () => {
   describe('validateMenuItem', () => {
     it('should validate correct menu item', () => {
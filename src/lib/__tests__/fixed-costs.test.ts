@@ -0,0 +1,25 @@
+// Unit tests for the fixed cost helpers
+
+import { isRentCost, scaleRentCosts } from '../fixed-costs';
+
+describe('isRentCost', () => {
+  it('should find rent by id or by name', () => {
+    expect(isRentCost({ id: 'rent', name: 'Space', amountPerMonth: 1 })).toBe(true);
+    expect(isRentCost({ id: 'fixed_1', name: 'ค่าเช่าพื้นที่', amountPerMonth: 1 })).toBe(true);
+    expect(isRentCost({ id: 'fixed_2', name: 'Shop rental', amountPerMonth: 1 })).toBe(true);
+    expect(isRentCost({ id: 'fixed_3', name: 'Current account fee', amountPerMonth: 1 })).toBe(false);
+    expect(isRentCost(null)).toBe(false);
+  });
+});
+
+describe('scaleRentCosts', () => {
+  it('should scale only the rent rows', () => {
+    const scaled = scaleRentCosts([
+      { id: 'fixed_1', name: 'ค่าเช่าร้าน', amountPerMonth: 1000 },
+      { id: 'fixed_2', name: 'Internet', amountPerMonth: 500 }
+    ], 1.5);
+
+    expect(scaled.map(cost => cost.amountPerMonth)).toEqual([1500, 500]);
+    expect(scaleRentCosts(undefined, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+// Unit tests for foreign currency conversion
+
+import {
+  convertFromReporting,
+  convertToReporting,
+  convertToReportingCurrency,
+  findFxRate,
+  FxRate,
+  getMissingFxCurrencies,
+  getReportingCurrency
+} from '../fx';
+import { computeFinance, FinanceEngine } from '../finance-engine';
+import { resolveIngredients } from '../ingredients';
+import { FinancialDataValidator } from '../validation';
+
+const rates: FxRate[] = [
+  { id: 'usd-2024', currency: 'USD', rate: 34, effectiveDate: '2024-07-01' },
+  { id: 'usd-2025', currency: 'USD', rate: 36, effectiveDate: '2025-01-01' },
+  { id: 'jpy', currency: 'JPY', rate: 0.25, effectiveDate: '2025-03-01' }
+];
+
+const buildData = (overrides: any = {}) => ({
+  meta: { currency: 'THB', planYear: 2025 },
+  fxRates: rates,
+  menus: [
+    {
+      id: 'menu1',
+      name: 'Menu 1',
+      price: 100,
+      bom: [
+        { item: 'beef', qtyG: 100, unitCostPerKg: 10, yieldPercent: 100, wastePercent: 0, currency: 'USD' },
+        { item: 'box', qtyG: 0, unitCostPerKg: 0, yieldPercent: 100, wastePercent: 0, packaging: { qtyUnit: 1, unitCost: 20 }, currency: 'JPY' },
+        { item: 'rice', qtyG: 100, unitCostPerKg: 30, yieldPercent: 100, wastePercent: 0 }
+      ]
+    }
+  ],
+  fixedCosts: [
+    { id: 'license', name: 'Software', amountPerMonth: 50, currency: 'USD' },
+    { id: 'rent', name: 'Rent', amountPerMonth: 20000 }
+  ],
+  assets: [
+    { id: 'oven', name: 'Oven', category: 'equipment', purchaseDate: '2024-08-15', cost: 1000, usefulLifeYears: 5, salvageValue: 100, method: 'straightLine', currency: 'USD' }
+  ],
+  ...overrides
+});
+
+describe('exchange rates', () => {
+  it('should use the latest rate in effect, or the earliest one before any takes effect', () => {
+    expect(findFxRate(rates, 'USD', '2025-06-30')?.rate).toBe(36);
+    expect(findFxRate(rates, 'USD', '2024-12-31')?.rate).toBe(34);
+    expect(findFxRate(rates, 'USD', '2020-01-01')?.rate).toBe(34);
+    expect(findFxRate(rates, 'EUR', '2025-01-01')).toBeNull();
+  });
+
+  it('should convert to and from the reporting currency', () => {
+    const data = buildData();
+
+    expect(getReportingCurrency({})).toBe('THB');
+    expect(convertToReporting(10, 'USD', data)).toBe(360);
+    expect(convertToReporting(10, 'THB', data)).toBe(10);
+    expect(convertToReporting(10, undefined, data)).toBe(10);
+    expect(convertFromReporting(360, 'USD', data)).toBe(10);
+    // Without a rate the amount is taken as is
+    expect(convertToReporting(10, 'EUR', data)).toBe(10);
+  });
+});
+
+describe('convertToReportingCurrency', () => {
+  it('should convert operating costs at the plan start and assets at their purchase date', () => {
+    const data = buildData();
+    const snapshot = JSON.stringify(data);
+    const converted = convertToReportingCurrency(data);
+
+    const [beef, box, rice] = converted.menus[0].bom as any[];
+    expect(beef.unitCostPerKg).toBe(360);
+    expect(beef.currency).toBeUndefined();
+    expect(box.packaging.unitCost).toBe(5);
+    expect(rice).toBe(data.menus[0].bom[2]);
+    expect(converted.fixedCosts[0].amountPerMonth).toBe(1800);
+    expect(converted.fixedCosts[1].amountPerMonth).toBe(20000);
+    expect(converted.assets![0].cost).toBe(34000);
+    expect(converted.assets![0].salvageValue).toBe(3400);
+    expect(JSON.stringify(data)).toBe(snapshot);
+  });
+
+  it('should convert catalog prices whether or not the BOM is resolved first', () => {
+    const rice = { id: 'rice', name: 'Rice', category: 'dry', purchaseUnit: 'kg', purchaseQty: 10, price: 5, currency: 'USD', defaultYieldPercent: 100, defaultWastePercent: 0 };
+    const data = buildData({
+      ingredients: [rice],
+      menus: [{ id: 'menu1', name: 'Menu 1', price: 100, bom: [{ item: 'Rice', ingredientId: 'rice', qty: 100, unit: 'g', yieldPercent: 100, wastePercent: 0 }] }]
+    });
+
+    const { currency, ...reportingRice } = rice;
+    const converted = convertToReportingCurrency(data);
+    expect(converted.ingredients).toEqual([{ ...reportingRice, price: 180 }]);
+    expect(resolveIngredients(converted).menus[0].bom[0]).toMatchObject({ purchaseCost: 180, purchaseQty: 10 });
+    expect(convertToReportingCurrency(resolveIngredients(data)).menus[0].bom[0]).toMatchObject({ purchaseCost: 180, purchaseQty: 10 });
+  });
+
+  it('should return data without foreign amounts unchanged', () => {
+    const data = buildData({ fixedCosts: [], assets: [], menus: [] });
+
+    expect(convertToReportingCurrency(data)).toBe(data);
+  });
+
+  it('should report currencies in use without a rate', () => {
+    const data = buildData({ fxRates: rates.filter(rate => rate.currency !== 'JPY') });
+
+    expect(getMissingFxCurrencies(data)).toEqual(['JPY']);
+    expect(FinancialDataValidator.validateAllData(data).warnings.some(warning => warning.includes('JPY'))).toBe(true);
+    expect(FinancialDataValidator.validateFxRate({ id: 'x', currency: 'usd', rate: 0, effectiveDate: '2025' }).errors).toHaveLength(3);
+  });
+});
+
+describe('engine currency conversion', () => {
+  it('should compute foreign-priced items in the reporting currency', () => {
+    const base = new FinanceEngine().getData();
+    const priced = { ...base, fxRates: [{ id: 'usd', currency: 'USD', rate: 35, effectiveDate: '2000-01-01' }] };
+    const inDollars = {
+      ...priced,
+      menus: priced.menus.map(menu => ({
+        ...menu,
+        bom: menu.bom.map(line => line.packaging
+          ? { ...line, packaging: { ...line.packaging, unitCost: line.packaging.unitCost / 35 }, currency: 'USD' }
+          : { ...line, unitCostPerKg: line.unitCostPerKg! / 35, currency: 'USD' })
+      })),
+      fixedCosts: priced.fixedCosts.map(cost => ({ ...cost, amountPerMonth: cost.amountPerMonth / 35, currency: 'USD' }))
+    };
+
+    const expected = computeFinance(priced);
+    const result = computeFinance(inDollars);
+
+    expect(result.pnl.monthly.cogs).toBeCloseTo(expected.pnl.monthly.cogs, 6);
+    expect(result.pnl.monthly.operatingExpenses).toBeCloseTo(expected.pnl.monthly.operatingExpenses, 6);
+    expect(result.menus[0].vc).toBeCloseTo(expected.menus[0].vc, 8);
+  });
+});
@@ -0,0 +1,94 @@
+// Unit tests for the goal-seek solver
+
+import { DEFAULT_FINANCIAL_TARGETS, getFinancialTargets, goalSeek, GoalSeekOutcome } from '../goal-seek';
+import { FinanceData, FinanceEngine } from '../finance-engine';
+
+// Linear model: 100 units/day at a price of 50 and ingredients of 20 per unit,
+// 30 open days, rent of 30,000 and other fixed costs of 10,000 per month
+const data = {
+  menus: [{ id: 'm', price: 50, bom: [{ item: 'Pork', unitCostPerKg: 20 }] }],
+  salesModel: { forecastDailyUnits: 100 },
+  fixedCosts: [{ id: 'rent', amountPerMonth: 30000 }, { id: 'other', amountPerMonth: 10000 }]
+} as unknown as FinanceData;
+
+const evaluate = (flexed: any): GoalSeekOutcome => {
+  const units = flexed.salesModel.forecastDailyUnits;
+  const price = flexed.menus[0].price;
+  const ingredientCost = flexed.menus[0].bom[0].unitCostPerKg;
+  const fixedCosts = flexed.fixedCosts.reduce((total: number, cost: any) => total + cost.amountPerMonth, 0);
+  const breakEvenUnits = fixedCosts / 30 / (price - ingredientCost);
+  return {
+    monthlyOperatingProfit: (price - ingredientCost) * units * 30 - fixedCosts,
+    kpis: {
+      safetyMargin: units > 0 ? ((units - breakEvenUnits) / units) * 100 : 0,
+      primeCostPct: (ingredientCost / price) * 100,
+      foodCostPct: (ingredientCost / price) * 100,
+      avgTicket: price
+    }
+  };
+};
+
+describe('getFinancialTargets', () => {
+  it('should default missing targets', () => {
+    expect(getFinancialTargets({})).toEqual(DEFAULT_FINANCIAL_TARGETS);
+    expect(getFinancialTargets({ meta: { targets: { targetMonthlyProfit: 80000 } } }).targetMonthlyProfit).toBe(80000);
+  });
+});
+
+describe('goalSeek', () => {
+  it('should find the minimum units and price for a profit target', () => {
+    const units = goalSeek(data, evaluate, 'forecast_units', 'operating_profit', 62000);
+    const price = goalSeek(data, evaluate, 'menu_price', 'operating_profit', 62000);
+
+    expect(units.status).toBe('solved');
+    expect(units.bound).toBe('minimum');
+    expect(units.baseValue).toBe(100);
+    expect(units.requiredValue).toBeCloseTo(113.333, 2);
+    expect(units.changePercent).toBeCloseTo(13.333, 2);
+    expect(price.requiredValue).toBeCloseTo(54, 4);
+    expect(price.solution!.monthlyOperatingProfit).toBeGreaterThanOrEqual(62000 - 1e-3);
+  });
+
+  it('should find the rent and ingredient cost ceilings', () => {
+    const rent = goalSeek(data, evaluate, 'rent', 'operating_profit', 30000);
+    const ingredients = goalSeek(data, evaluate, 'ingredient_cost', 'prime_cost_pct', 50);
+
+    expect(rent.status).toBe('alreadyMet');
+    expect(rent.bound).toBe('maximum');
+    expect(rent.requiredValue).toBeCloseTo(50000, 2);
+    expect(ingredients.status).toBe('alreadyMet');
+    expect(ingredients.requiredValue).toBeCloseTo(25, 4);
+    expect(ingredients.solution!.kpis.primeCostPct).toBeLessThanOrEqual(50 + 1e-6);
+  });
+
+  it('should find a rent line the user added under another id', () => {
+    const renamed = { ...data, fixedCosts: [{ id: 'fixed_1', name: 'ค่าเช่าร้าน', amountPerMonth: 30000 }, { id: 'other', amountPerMonth: 10000 }] } as unknown as FinanceData;
+    const rent = goalSeek(renamed, evaluate, 'rent', 'operating_profit', 30000);
+
+    expect(rent.baseValue).toBe(30000);
+    expect(rent.requiredValue).toBeCloseTo(50000, 2);
+  });
+
+  it('should solve for a safety margin and report unreachable targets', () => {
+    const safety = goalSeek(data, evaluate, 'forecast_units', 'safety_margin', 50);
+    const unreachable = goalSeek(data, evaluate, 'rent', 'prime_cost_pct', 30);
+
+    // Break-even is 44.4 units/day, so a 50% margin needs twice that
+    expect(safety.requiredValue).toBeCloseTo(88.889, 2);
+    expect(unreachable.status).toBe('unreachable');
+    expect(unreachable.requiredValue).toBeNull();
+    expect(unreachable.solution).toBeNull();
+  });
+});
+
+describe('engine goal seek', () => {
+  it('should return the full KPI set at the solved value', () => {
+    const engine = new FinanceEngine();
+    const result = engine.goalSeek('forecast_units', 'operating_profit', 20000);
+
+    expect(result.solution).not.toBeNull();
+    expect(result.solution!.monthlyOperatingProfit).toBeCloseTo(20000, 0);
+    expect(result.solution!.kpis).toHaveProperty('bepPerDay');
+    expect(result.solution!.kpis).toHaveProperty('cmPct');
+  });
+});
@@ -0,0 +1,169 @@
+// Unit tests for the ingredient master
+
+import {
+  getIngredientUsage,
+  Ingredient,
+  linkBomToCatalog,
+  migrateBomToCatalog,
+  resolveIngredients
+} from '../ingredients';
+import { computeFinance, FinanceEngine } from '../finance-engine';
+import { FinancialDataValidator } from '../validation';
+
+const rice: Ingredient = {
+  id: 'rice',
+  name: 'Jasmine rice',
+  category: 'dry',
+  purchaseUnit: 'kg',
+  purchaseQty: 15,
+  price: 450,
+  defaultYieldPercent: 100,
+  defaultWastePercent: 2
+};
+
+const channelMix = { dineIn: 1, takeaway: 0, delivery: 0 };
+
+const buildData = (overrides: any = {}) => ({
+  meta: { currency: 'THB', planYear: 2025 },
+  salesModel: new FinanceEngine().getData().salesModel,
+  utilities: [],
+  labor: [],
+  fixedCosts: [],
+  ingredients: [rice],
+  menus: [
+    {
+      id: 'chicken',
+      name: 'Chicken rice',
+      price: 60,
+      channelMix,
+      bom: [
+        { item: 'rice', ingredientId: 'rice', qty: 180, unit: 'g', yieldPercent: 100, wastePercent: 0 },
+        { item: 'box', qtyG: 0, unitCostPerKg: 0, yieldPercent: 100, wastePercent: 0, packaging: { qtyUnit: 1, unitCost: 3 } }
+      ]
+    },
+    {
+      id: 'pork',
+      name: 'Pork rice',
+      price: 70,
+      channelMix,
+      bom: [{ item: 'rice', ingredientId: 'rice', qty: 0.2, unit: 'kg', yieldPercent: 100, wastePercent: 10 }]
+    }
+  ],
+  ...overrides
+});
+
+describe('resolveIngredients', () => {
+  it('should price catalog lines from their entry', () => {
+    const data = buildData();
+    const resolved = resolveIngredients(data);
+    const line: any = resolved.menus[0].bom[0];
+
+    expect(line).toMatchObject({ item: 'Jasmine rice', purchaseCost: 450, purchaseQty: 15, purchaseUnit: 'kg', qty: 180, unit: 'g' });
+    expect(resolved.menus[0].bom[1]).toBe(data.menus[0].bom[1]);
+  });
+
+  it('should return data without catalog references unchanged', () => {
+    const data = buildData({ ingredients: [] });
+    expect(resolveIngredients(data)).toBe(data);
+  });
+});
+
+describe('getIngredientUsage', () => {
+  it('should list every menu using an ingredient with its cost', () => {
+    const usage = getIngredientUsage(buildData(), 'rice');
+
+    expect(usage.map(use => use.menuId)).toEqual(['chicken', 'pork']);
+    expect(usage[0].costPerUnit).toBeCloseTo(5.4, 10);
+    expect(usage[1].costPerUnit).toBeCloseTo(0.2 * 1.1 * 30, 10);
+    expect(getIngredientUsage(buildData(), 'salt')).toEqual([]);
+  });
+});
+
+describe('migrateBomToCatalog', () => {
+  const legacy = buildData({
+    ingredients: undefined,
+    menus: [
+      {
+        id: 'a',
+        name: 'A',
+        price: 60,
+        channelMix,
+        bom: [
+          { item: 'Chicken', qtyG: 120, unitCostPerKg: 70, yieldPercent: 80, wastePercent: 5 },
+          { item: 'box', qtyG: 0, unitCostPerKg: 0, yieldPercent: 100, wastePercent: 0, packaging: { qtyUnit: 1, unitCost: 3 } }
+        ]
+      },
+      {
+        id: 'b',
+        name: 'B',
+        price: 80,
+        channelMix,
+        bom: [
+          { item: 'chicken ', qtyG: 150, unitCostPerKg: 70, yieldPercent: 90, wastePercent: 0 },
+          { item: 'Chicken', qtyG: 100, unitCostPerKg: 95, yieldPercent: 100, wastePercent: 0 }
+        ]
+      }
+    ]
+  });
+
+  it('should share an entry between lines with the same name and price', () => {
+    const migrated = migrateBomToCatalog(legacy);
+
+    expect(migrated.ingredients!.map((ingredient: Ingredient) => [ingredient.name, ingredient.price])).toEqual([
+      ['Chicken', 70],
+      ['Chicken', 95]
+    ]);
+    expect(migrated.menus[0].bom[0]).toEqual({ item: 'Chicken', ingredientId: migrated.ingredients![0].id, qty: 120, unit: 'g', yieldPercent: 80, wastePercent: 5 });
+    expect(migrated.menus[1].bom[0].ingredientId).toBe(migrated.ingredients![0].id);
+    expect(migrated.menus[0].bom[1]).toBe(legacy.menus[0].bom[1]);
+  });
+
+  it('should keep the name of every line', () => {
+    const migrated = migrateBomToCatalog(legacy);
+    const [chicken, pricierChicken] = migrated.ingredients!;
+
+    expect(migrated.menus.map(menu => menu.bom.map(line => line.item))).toEqual([
+      ['Chicken', 'box'],
+      ['chicken ', 'Chicken']
+    ]);
+    expect(migrated.menus[1].bom[1].ingredientId).toBe(pricierChicken.id);
+    expect(pricierChicken.id).not.toBe(chicken.id);
+    expect(resolveIngredients(migrated).menus[1].bom.map(line => line.item)).toEqual(['Chicken', 'Chicken']);
+  });
+
+  it('should keep every menu cost and run only once', () => {
+    const migrated = migrateBomToCatalog(legacy);
+    // load() takes the data as is; computeFinance migrates it on the way in
+    const engine = new FinanceEngine();
+    engine.load(legacy as any);
+    const before = engine.compute();
+    const after = computeFinance(migrated);
+
+    expect(after.menus).toHaveLength(2);
+    after.menus.forEach((menu, index) => expect(menu.vc).toBeCloseTo(before.menus[index].vc, 10));
+    expect(migrateBomToCatalog(migrated)).toBe(migrated);
+    expect(linkBomToCatalog(migrated)).toBe(migrated);
+  });
+});
+
+describe('engine ingredient catalog', () => {
+  it('should carry a catalog price update to every menu', () => {
+    const engine = new FinanceEngine();
+    engine.load(buildData() as any);
+    const before = engine.compute().menus;
+
+    engine.updateIngredients([{ ...rice, price: 900 }]);
+    const after = engine.compute().menus;
+
+    // Rice is the only ingredient of the pork menu and doubles in price
+    expect(after[1].vc).toBeCloseTo(before[1].vc * 2, 8);
+    expect(after[0].vc - before[0].vc).toBeCloseTo(5.4, 8);
+  });
+
+  it('should reject lines referring to an unknown ingredient', () => {
+    expect(FinancialDataValidator.validateBOMItem({ item: 'rice', ingredientId: 'rice', qty: 180, unit: 'g', yieldPercent: 100, wastePercent: 0 }).isValid).toBe(true);
+    expect(FinancialDataValidator.validateAllData(buildData()).errors).toEqual([]);
+    expect(FinancialDataValidator.validateAllData(buildData({ ingredients: [] })).errors.join(' ')).toContain('not in the catalog');
+    expect(FinancialDataValidator.validateIngredient({ ...rice, purchaseQty: 0 }).isValid).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+// Unit tests for loan amortization and financing
+
+import { buildLoanSchedule, buildYearFinancing, getAnnuityPayment, Loan } from '../loans';
+import { FinanceEngine } from '../finance-engine';
+
+const loan: Loan = {
+  id: 'bank',
+  name: 'Bank',
+  principal: 120000,
+  annualRatePercent: 12,
+  termMonths: 12,
+  graceMonths: 0,
+  method: 'effective',
+  startDate: '2025-06-15'
+};
+
+describe('buildLoanSchedule', () => {
+  it('should amortize an effective-rate loan with level installments', () => {
+    const schedule = buildLoanSchedule(loan);
+    const installment = getAnnuityPayment(120000, 0.01, 12);
+
+    expect(schedule).toHaveLength(12);
+    // First installment falls in the month after the drawdown
+    expect(schedule[0]).toMatchObject({ year: 2025, monthIndex: 6, openingBalance: 120000, interest: 1200 });
+    expect(schedule[0].payment).toBeCloseTo(installment, 8);
+    expect(schedule[11].payment).toBeCloseTo(installment, 6);
+    expect(schedule[11]).toMatchObject({ year: 2026, monthIndex: 5, closingBalance: 0 });
+    expect(schedule[11].interest).toBeLessThan(schedule[0].interest);
+  });
+
+  it('should charge flat interest on the original principal', () => {
+    const schedule = buildLoanSchedule({ ...loan, method: 'flat' });
+
+    schedule.forEach(entry => {
+      expect(entry.interest).toBeCloseTo(1200, 8);
+      expect(entry.principal).toBeCloseTo(10000, 8);
+    });
+    expect(schedule[11].closingBalance).toBeCloseTo(0, 8);
+  });
+
+  it('should pay interest only during the grace period', () => {
+    const schedule = buildLoanSchedule({ ...loan, termMonths: 15, graceMonths: 3 });
+
+    expect(schedule).toHaveLength(15);
+    expect(schedule.slice(0, 3).every(entry => entry.principal === 0 && entry.interest === 1200)).toBe(true);
+    expect(schedule[3].payment).toBeCloseTo(getAnnuityPayment(120000, 0.01, 12), 8);
+    expect(schedule[14].closingBalance).toBeCloseTo(0, 8);
+  });
+});
+
+describe('buildYearFinancing', () => {
+  it('should split interest, principal and proceeds by month of the year', () => {
+    const financing = buildYearFinancing([{ ...loan, method: 'flat' }], 2025);
+
+    expect(financing.proceeds[5]).toBe(120000);
+    expect(financing.interest[5]).toBe(0);
+    expect(financing.interest[6]).toBeCloseTo(1200, 8);
+    expect(financing.totalPrincipal).toBeCloseTo(60000, 8);
+    expect(financing.closingBalance).toBeCloseTo(60000, 8);
+    expect(buildYearFinancing([loan], 2024).closingBalance).toBe(0);
+  });
+});
+
+describe('engine interest', () => {
+  it('should deduct loan interest below operating profit and carry principal for cash planning', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL({
+      menus: [{ id: 'm', name: 'M', price: 100, channelMix: { dineIn: 1, takeaway: 0, delivery: 0 }, bom: [] }],
+      salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 0 },
+      labor: [],
+      utilities: [],
+      fixedCosts: [],
+      assets: [],
+      loans: [{ ...loan, method: 'flat' }],
+      meta: { planYear: 2025 }
+    });
+
+    expect(pnl.annual.interest).toBeCloseTo(7200, 8);
+    expect(pnl.monthly.interest).toBeCloseTo(600, 8);
+    expect(pnl.projection[6].interest).toBeCloseTo(1200, 8);
+    expect(pnl.projection[6].preTaxProfit).toBeCloseTo(pnl.projection[6].operatingProfit - 1200, 8);
+    expect(pnl.projection[6].principalRepayment).toBeCloseTo(10000, 8);
+    expect(pnl.projection[5].loanProceeds).toBe(120000);
+    expect(pnl.annual.principalRepayment).toBeCloseTo(60000, 8);
+  });
+});
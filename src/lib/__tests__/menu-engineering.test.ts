@@ -0,0 +1,59 @@
+// Unit tests for the menu engineering matrix
+
+import { analyzeMenuEngineering, classifyMenu, MenuEngineeringInput } from '../menu-engineering';
+import { FinanceEngine } from '../finance-engine';
+
+const menu = (id: string, dailyUnits: number, cm: number): MenuEngineeringInput => ({
+  id,
+  name: id,
+  mixShare: 0,
+  dailyUnits,
+  cm,
+  cmPct: 0
+});
+
+describe('classifyMenu', () => {
+  it('should map popularity and margin to the four quadrants', () => {
+    expect(classifyMenu(true, true)).toBe('star');
+    expect(classifyMenu(true, false)).toBe('plowhorse');
+    expect(classifyMenu(false, true)).toBe('puzzle');
+    expect(classifyMenu(false, false)).toBe('dog');
+  });
+});
+
+describe('analyzeMenuEngineering', () => {
+  it('should apply the 70% rule and the unit-weighted average margin', () => {
+    const result = analyzeMenuEngineering([
+      menu('star', 40, 60),
+      menu('plowhorse', 35, 20),
+      menu('puzzle', 15, 80),
+      menu('dog', 10, 10)
+    ]);
+
+    // 70% of an equal 25% share; average CM = (2400 + 700 + 1200 + 100) / 100
+    expect(result.popularityThresholdPercent).toBeCloseTo(17.5, 10);
+    expect(result.averageCM).toBeCloseTo(44, 10);
+    expect(result.items.map(item => item.classification)).toEqual(['star', 'plowhorse', 'puzzle', 'dog']);
+    expect(result.items[0].popularityPercent).toBeCloseTo(40, 10);
+    expect(result.counts).toEqual({ star: 1, plowhorse: 1, puzzle: 1, dog: 1 });
+  });
+
+  it('should fall back to the mix share without forecast units', () => {
+    const result = analyzeMenuEngineering([
+      { ...menu('a', 0, 30), mixShare: 0.9 },
+      { ...menu('b', 0, 50), mixShare: 0.1 }
+    ]);
+
+    expect(result.items.map(item => item.classification)).toEqual(['plowhorse', 'puzzle']);
+    expect(analyzeMenuEngineering([]).items).toEqual([]);
+  });
+});
+
+describe('engine menu engineering', () => {
+  it('should classify every menu in the computation result', () => {
+    const result = new FinanceEngine().compute();
+
+    expect(result.menuEngineering.items).toHaveLength(result.menus.length);
+    expect(result.menuEngineering.items[0].cm).toBeCloseTo(result.menus[0].cm, 10);
+  });
+});
@@ -0,0 +1,126 @@
+// Unit tests for money rounding
+
+import {
+  DEFAULT_MONEY_SETTINGS,
+  getMoneySettings,
+  roundCashPrice,
+  roundForDisplay,
+  roundLine,
+  roundMoney,
+  roundToStep,
+  sumMoney
+} from '../money';
+import { FinanceEngine, StoredFinanceData } from '../finance-engine';
+import { formatCurrency, toCSV } from '../utils';
+
+const lineScope = { ...DEFAULT_MONEY_SETTINGS, scope: 'line' as const };
+
+const buildData = (money: any) => ({
+  menus: [
+    {
+      id: 'menu1',
+      name: 'Menu 1',
+      price: 99.9,
+      channelMix: { dineIn: 1, takeaway: 0, delivery: 0 },
+      bom: [
+        { item: 'a', qtyG: 1000, unitCostPerKg: 10.005, yieldPercent: 100, wastePercent: 0 },
+        { item: 'b', qtyG: 1000, unitCostPerKg: 10.005, yieldPercent: 100, wastePercent: 0 }
+      ]
+    }
+  ],
+  salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 0 },
+  labor: [],
+  utilities: [],
+  fixedCosts: [],
+  meta: { planYear: 2025, money }
+});
+
+describe('money settings', () => {
+  it('should fall back to defaults for missing or unknown values', () => {
+    expect(getMoneySettings({})).toEqual(DEFAULT_MONEY_SETTINGS);
+    expect(getMoneySettings({ meta: { money: { decimalPlaces: 3, method: 'down', scope: 'line' } } } as unknown as StoredFinanceData)).toEqual({
+      ...DEFAULT_MONEY_SETTINGS,
+      scope: 'line'
+    });
+  });
+});
+
+describe('rounding', () => {
+  it('should round halves up despite binary representation', () => {
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(-1.005)).toBe(-1.01);
+    expect(roundMoney(2.675)).toBe(2.68);
+    expect(roundMoney(12.3456, 0)).toBe(12);
+  });
+
+  it("should apply banker's rounding to exact halves only", () => {
+    expect(roundMoney(2.5, 0, 'halfEven')).toBe(2);
+    expect(roundMoney(3.5, 0, 'halfEven')).toBe(4);
+    expect(roundMoney(1.005, 2, 'halfEven')).toBe(1);
+    expect(roundMoney(1.0051, 2, 'halfEven')).toBe(1.01);
+  });
+
+  it('should round cash prices to 25 satang only when enabled', () => {
+    expect(roundToStep(99.9, 0.25)).toBe(100);
+    expect(roundToStep(10.12, 0.25)).toBe(10);
+    expect(roundToStep(10.13, 0.25)).toBe(10.25);
+    expect(roundCashPrice(10.13, DEFAULT_MONEY_SETTINGS)).toBe(10.13);
+    expect(roundCashPrice(10.13, { ...DEFAULT_MONEY_SETTINGS, roundCashPrices: true })).toBe(10.25);
+  });
+
+  it('should add rounded lines exactly in line scope', () => {
+    expect(sumMoney([0.1, 0.2], lineScope)).toBe(0.3);
+    expect(sumMoney([1.005, 1.005], lineScope)).toBe(2.02);
+    expect(roundLine(1.005, lineScope)).toBe(1.01);
+    expect(roundLine(1.005, DEFAULT_MONEY_SETTINGS)).toBe(1.005);
+  });
+
+  it('should round for display at the configured decimal places', () => {
+    expect(roundForDisplay(0.1 + 0.2)).toBe(0.3);
+    expect(roundForDisplay(2.5, { ...DEFAULT_MONEY_SETTINGS, decimalPlaces: 0, method: 'halfEven' })).toBe(2);
+  });
+});
+
+describe('display precision', () => {
+  it('should format currency at the display precision', () => {
+    expect(formatCurrency(1234.567)).toContain('1,234.57');
+    expect(formatCurrency(1234.567, 'THB', { ...DEFAULT_MONEY_SETTINGS, decimalPlaces: 0 })).toContain('1,235');
+  });
+
+  it('should write every CSV number at a fixed precision', () => {
+    const csv = toCSV(
+      [{ month: 'Jan', revenue: 0.1 + 0.2 + 1000.005, units: 10.04, share: 0.1 + 0.2, volumeFactor: 1 / 3 }],
+      ['revenue'],
+      DEFAULT_MONEY_SETTINGS,
+      { units: 1 }
+    );
+
+    expect(csv).toBe('month,revenue,units,share,volumeFactor\nJan,1000.31,10,0.3,0.3333');
+  });
+});
+
+describe('engine money rounding', () => {
+  it('should keep full precision in total scope', () => {
+    const engine = new FinanceEngine();
+    const [metrics] = (engine as any).calculateMenuMetrics(buildData({}));
+
+    expect(metrics.vc).toBeCloseTo(20.01, 10);
+    expect(metrics.cm).toBeCloseTo(79.89, 10);
+  });
+
+  it('should round each BOM line before summing in line scope', () => {
+    const engine = new FinanceEngine();
+    const [halfUp] = (engine as any).calculateMenuMetrics(buildData({ scope: 'line' }));
+    const [halfEven] = (engine as any).calculateMenuMetrics(buildData({ scope: 'line', method: 'halfEven' }));
+
+    expect(halfUp.vc).toBe(20.02);
+    expect(halfEven.vc).toBe(20);
+  });
+
+  it('should charge rounded cash prices in store', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL(buildData({ roundCashPrices: true }));
+
+    expect(pnl.daily.revenue).toBeCloseTo(1000, 8);
+  });
+});
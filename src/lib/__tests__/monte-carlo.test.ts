@@ -0,0 +1,155 @@
+// Unit tests for the Monte Carlo profit simulation
+
+import {
+  buildHistogram,
+  calculatePercentile,
+  createMonteCarloRun,
+  createRandom,
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  DriverDistribution,
+  getMonteCarloSettings,
+  MonteCarloSettings,
+  runMonteCarloSimulation,
+  sampleDistribution,
+  SIMULATION_DRIVERS
+} from '../monte-carlo';
+import { FinanceData, FinanceEngine, StoredFinanceData } from '../finance-engine';
+
+const distribution = (overrides: Partial<DriverDistribution>): DriverDistribution => ({
+  enabled: true,
+  type: 'uniform',
+  min: 0,
+  mostLikely: 0,
+  max: 0,
+  stdDev: 0,
+  ...overrides
+});
+
+const sample = (dist: DriverDistribution, count: number, seed = 1) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => sampleDistribution(dist, random));
+};
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+describe('createRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const other = createRandom(43);
+    const values = [first(), first(), first()];
+
+    expect([second(), second(), second()]).toEqual(values);
+    expect(other()).not.toBe(values[0]);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe('sampleDistribution', () => {
+  it('should stay within the bounds and match the mean of each distribution', () => {
+    const triangular = sample(distribution({ type: 'triangular', min: -30, mostLikely: 0, max: 15 }), 20000);
+    const uniform = sample(distribution({ type: 'uniform', min: 10, max: 20 }), 20000);
+    const normal = sample(distribution({ type: 'normal', mostLikely: 5, stdDev: 2 }), 20000);
+    const normalMean = mean(normal);
+
+    expect(Math.min(...triangular)).toBeGreaterThanOrEqual(-30);
+    expect(Math.max(...triangular)).toBeLessThanOrEqual(15);
+    expect(mean(triangular)).toBeCloseTo(-5, 0);
+    expect(Math.min(...uniform)).toBeGreaterThanOrEqual(10);
+    expect(mean(uniform)).toBeCloseTo(15, 0);
+    expect(normalMean).toBeCloseTo(5, 1);
+    expect(Math.sqrt(mean(normal.map(value => (value - normalMean) ** 2)))).toBeCloseTo(2, 1);
+  });
+});
+
+describe('statistics', () => {
+  it('should interpolate percentiles and count values into histogram bins', () => {
+    const values = [0, 10, 20, 30, 40];
+
+    expect(calculatePercentile(values, 50)).toBe(20);
+    expect(calculatePercentile(values, 10)).toBe(4);
+    expect(calculatePercentile(values, 90)).toBe(36);
+
+    const histogram = buildHistogram(values, 2);
+    expect(histogram.map(bin => [bin.from, bin.to, bin.count])).toEqual([[0, 20, 2], [20, 40, 3]]);
+    expect(histogram[1].percent).toBe(60);
+  });
+});
+
+describe('getMonteCarloSettings', () => {
+  it('should default missing drivers and keep the triangular mode within its bounds', () => {
+    const settings = getMonteCarloSettings({
+      meta: { monteCarlo: { iterations: 5, drivers: { wastage: { type: 'triangular', min: 0, mostLikely: 10, max: 5 } } } }
+    } as unknown as StoredFinanceData);
+
+    expect(settings.iterations).toBe(100);
+    expect(settings.drivers.wastage.mostLikely).toBe(5);
+    expect(settings.drivers.forecast_units).toEqual(DEFAULT_MONTE_CARLO_SETTINGS.drivers.forecast_units);
+  });
+});
+
+describe('runMonteCarloSimulation', () => {
+  it('should apply the sampled drivers and summarise the profit distribution', () => {
+    const settings: MonteCarloSettings = {
+      iterations: 1000,
+      seed: 7,
+      histogramBins: 10,
+      drivers: {
+        ...DEFAULT_MONTE_CARLO_SETTINGS.drivers,
+        forecast_units: distribution({ type: 'uniform', min: -50, max: 50 }),
+        ingredient_price: distribution({ enabled: false }),
+        wastage: distribution({ enabled: false }),
+        delivery_share: distribution({ enabled: false })
+      }
+    };
+    // Profit of 10 per unit less 1,000 of fixed costs; break-even at 100 units
+    const data = { salesModel: { forecastDailyUnits: 100 } } as unknown as FinanceData;
+    const evaluate = (flexed: any) => flexed.salesModel.forecastDailyUnits * 10 - 1000;
+
+    const result = runMonteCarloSimulation(data, evaluate, settings);
+
+    expect(result.baseProfit).toBe(0);
+    expect(result.lossProbabilityPercent).toBeCloseTo(50, -1);
+    expect(result.p10).toBeCloseTo(-400, -2);
+    expect(result.p90).toBeCloseTo(400, -2);
+    expect(result.min).toBeGreaterThanOrEqual(-500);
+    expect(result.histogram.reduce((total, bin) => total + bin.count, 0)).toBe(1000);
+    expect(runMonteCarloSimulation(data, evaluate, settings)).toEqual(result);
+  });
+
+  it('should give the same result when run in chunks', () => {
+    const settings = { ...DEFAULT_MONTE_CARLO_SETTINGS, iterations: 300 };
+    const data = { salesModel: { forecastDailyUnits: 100 }, menus: [] } as unknown as FinanceData;
+    const evaluate = (flexed: any) => flexed.salesModel.forecastDailyUnits * 10 - 1000;
+
+    const run = createMonteCarloRun(data, evaluate, settings);
+    run.step(120);
+    expect(run.completed()).toBe(120);
+    run.step(500);
+
+    expect(run.completed()).toBe(300);
+    expect(run.result()).toEqual(runMonteCarloSimulation(data, evaluate, settings));
+  });
+
+  it('should shift delivery share from the in-store channels in proportion', () => {
+    const driver = SIMULATION_DRIVERS.find(item => item.key === 'delivery_share')!;
+    const [menu] = driver.apply({ menus: [{ channelMix: { dineIn: 0.6, takeaway: 0.2, delivery: 0.2 } }] } as unknown as FinanceData, 20).menus;
+
+    expect(menu.channelMix.delivery).toBeCloseTo(0.4, 10);
+    expect(menu.channelMix.dineIn).toBeCloseTo(0.45, 10);
+    expect(menu.channelMix.takeaway).toBeCloseTo(0.15, 10);
+  });
+});
+
+describe('engine Monte Carlo', () => {
+  it('should simulate annual net profit around the plan', () => {
+    const engine = new FinanceEngine();
+    const base = (engine as any).calculatePnL(engine.getScenarioData('base')).annual.netProfit;
+    const result = engine.runMonteCarlo('base', { ...DEFAULT_MONTE_CARLO_SETTINGS, iterations: 200 });
+
+    expect(result.baseProfit).toBeCloseTo(base, 6);
+    expect(result.p10).toBeLessThanOrEqual(result.p50);
+    expect(result.p50).toBeLessThanOrEqual(result.p90);
+    expect(result.histogram.reduce((total, bin) => total + bin.count, 0)).toBe(200);
+  });
+});
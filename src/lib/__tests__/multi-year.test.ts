@@ -0,0 +1,97 @@
+// Unit tests for the multi-year projection
+
+import { applyEscalation, DEFAULT_MULTI_YEAR_SETTINGS, getMultiYearSettings, getVolumeFactor } from '../multi-year';
+import { FinanceData, FinanceEngine } from '../finance-engine';
+
+const buildData = (multiYear: any) => ({
+  menus: [
+    {
+      id: 'menu1',
+      name: 'Menu 1',
+      price: 100,
+      channelMix: { dineIn: 1, takeaway: 0, delivery: 0 },
+      bom: [{ item: 'x', qtyG: 1000, unitCostPerKg: 40, yieldPercent: 100, wastePercent: 0 }]
+    }
+  ],
+  salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 0 },
+  labor: [{ id: 'cook', role: 'Cook', type: 'direct', wagePerHour: 50, hoursPerDay: 8, daysPerWeek: 7 }],
+  utilities: [{ id: 'ac', type: 'electric', device: 'AC', kw: 1, hoursPerDay: 10, ratePerKwh: 5 }],
+  fixedCosts: [
+    { id: 'rent', name: 'Rent', amountPerMonth: 10000 },
+    { id: 'internet', name: 'Internet', amountPerMonth: 500 }
+  ],
+  meta: { planYear: 2025, openDays: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'], multiYear }
+} as unknown as FinanceData);
+
+describe('getMultiYearSettings', () => {
+  it('should fall back to defaults and clamp the number of years', () => {
+    expect(getMultiYearSettings({})).toEqual(DEFAULT_MULTI_YEAR_SETTINGS);
+
+    const settings = getMultiYearSettings({ meta: { multiYear: { years: 9, volumeGrowthPercent: [10], rampUpStartPercent: 150 } } });
+    expect(settings.years).toBe(5);
+    expect(settings.volumeGrowthPercent).toEqual([10, 0, 0, 0]);
+    expect(settings.rampUpStartPercent).toBe(100);
+  });
+});
+
+describe('applyEscalation', () => {
+  it('should compound each category by its own rate', () => {
+    const escalation = { menuPrice: 10, ingredients: 20, wages: 5, utilities: 0, rent: 50 };
+    const data = applyEscalation(buildData({}), escalation, 2);
+
+    expect(data.menus[0].price).toBeCloseTo(121, 10);
+    expect(data.menus[0].bom[0].unitCostPerKg).toBeCloseTo(57.6, 10);
+    expect(data.labor[0].wagePerHour).toBeCloseTo(55.125, 10);
+    expect(data.utilities[0].ratePerKwh).toBe(5);
+    expect(data.fixedCosts[0].amountPerMonth).toBeCloseTo(22500, 10);
+    // Only rent escalates among the fixed costs
+    expect(data.fixedCosts[1].amountPerMonth).toBe(500);
+  });
+
+  it('should escalate a rent row the user added under another id', () => {
+    const base = buildData({});
+    const data = applyEscalation({ ...base, fixedCosts: [{ id: 'fixed_1', name: 'ค่าเช่าร้าน', amountPerMonth: 10000 }] }, { ...DEFAULT_MULTI_YEAR_SETTINGS.escalation, rent: 10 }, 1);
+
+    expect(data.fixedCosts[0].amountPerMonth).toBeCloseTo(11000, 10);
+  });
+});
+
+describe('getVolumeFactor', () => {
+  it('should compound growth and ramp up linearly from opening', () => {
+    const settings = { ...DEFAULT_MULTI_YEAR_SETTINGS, volumeGrowthPercent: [10, 20, 0, 0], rampUpMonths: 4, rampUpStartPercent: 60 };
+
+    expect(getVolumeFactor(settings, 0, 0)).toBeCloseTo(0.6, 10);
+    expect(getVolumeFactor(settings, 0, 2)).toBeCloseTo(0.8, 10);
+    expect(getVolumeFactor(settings, 0, 4)).toBe(1);
+    expect(getVolumeFactor(settings, 1, 0)).toBeCloseTo(1.1, 10);
+    expect(getVolumeFactor(settings, 2, 5)).toBeCloseTo(1.32, 10);
+  });
+});
+
+describe('engine multi-year projection', () => {
+  it('should project each year with escalated prices and grown volume', () => {
+    const engine = new FinanceEngine();
+    const data = buildData({
+      years: 3,
+      escalation: { menuPrice: 10, ingredients: 0, wages: 0, utilities: 0, rent: 0 },
+      volumeGrowthPercent: [10, 0],
+      rampUpMonths: 0
+    });
+    const result = (engine as any).calculateMultiYearProjection(data);
+
+    expect(result.years.map((year: any) => year.year)).toEqual([2025, 2026, 2027]);
+    expect(result.months).toHaveLength(36);
+
+    const [first, second] = result.years;
+    // 10 units a day at 100, then 11 units a day at 110
+    expect(first.revenue).toBeCloseTo(1000 * first.openDays, 6);
+    expect(second.revenue).toBeCloseTo(1210 * second.openDays, 6);
+    expect(second.cogs).toBeCloseTo(440 * second.openDays, 6);
+    expect(second.netProfit).toBeCloseTo(second.preTaxProfit - second.taxExpense, 6);
+
+    const monthlyRevenue = result.months
+      .filter((month: any) => month.yearIndex === 1)
+      .reduce((total: number, month: any) => total + month.revenue, 0);
+    expect(monthlyRevenue).toBeCloseTo(second.revenue, 6);
+  });
+});
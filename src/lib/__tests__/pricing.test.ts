@@ -0,0 +1,93 @@
+// Unit tests for price elasticity and the menu price optimizer
+
+import {
+  DEFAULT_PRICING_SETTINGS,
+  getElasticVolumeFactor,
+  getPricingSettings,
+  optimizeMenuPrice,
+  repriceMenu
+} from '../pricing';
+import { applyScenarioDeltas, FinanceData, FinanceEngine } from '../finance-engine';
+import { applyEscalation } from '../multi-year';
+
+describe('getElasticVolumeFactor', () => {
+  it('should scale volume by the price ratio to the power of the elasticity', () => {
+    const menu = { price: 110, referencePrice: 100, priceElasticity: -2 };
+
+    expect(getElasticVolumeFactor(menu)).toBeCloseTo(Math.pow(1.1, -2), 10);
+    expect(getElasticVolumeFactor({ price: 110, priceElasticity: -2 })).toBe(1);
+    expect(getElasticVolumeFactor({ price: 110, referencePrice: 100 })).toBe(1);
+    expect(getElasticVolumeFactor({ price: 110, referencePrice: 100 }, { ...DEFAULT_PRICING_SETTINGS, defaultElasticity: -1 }))
+      .toBeCloseTo(100 / 110, 10);
+  });
+
+  it('should keep the reference price across repeated repricing', () => {
+    const repriced = repriceMenu(repriceMenu({ price: 100 }, 120), 90);
+
+    expect(repriced).toEqual({ price: 90, referencePrice: 100 });
+  });
+});
+
+describe('getPricingSettings', () => {
+  it('should keep the upper bound above the lower bound', () => {
+    const settings = getPricingSettings({ meta: { pricing: { minPriceChangePercent: -120, maxPriceChangePercent: -99 } } });
+
+    expect(settings.minPriceChangePercent).toBe(-95);
+    expect(settings.maxPriceChangePercent).toBe(-95);
+    expect(settings.defaultElasticity).toBe(0);
+  });
+});
+
+describe('optimizeMenuPrice', () => {
+  it('should find the profit-maximizing price for constant elasticity', () => {
+    // Unit cost 40, 100 units at 100 and elasticity -2: profit peaks at 40 * e / (1 + e) = 80
+    const data = { menus: [{ id: 'm', price: 100, priceElasticity: -2 }] } as unknown as FinanceData;
+    const evaluate = (flexed: any) => {
+      const menu = flexed.menus[0];
+      return (menu.price - 40) * 100 * getElasticVolumeFactor(menu);
+    };
+
+    const result = optimizeMenuPrice(data, 'm', evaluate, { defaultElasticity: 0, minPriceChangePercent: -50, maxPriceChangePercent: 50 })!;
+
+    expect(result.recommendedPrice).toBeCloseTo(80, 3);
+    expect(result.currentProfit).toBe(6000);
+    expect(result.recommendedProfit).toBeCloseTo(40 * 100 * Math.pow(0.8, -2), 3);
+    expect(result.profitChange).toBeGreaterThan(0);
+    expect(result.curve[0].price).toBe(50);
+    expect(result.curve[result.curve.length - 1].price).toBe(150);
+    expect(result.curve[0].volumePercent).toBeCloseTo(400, 8);
+  });
+
+  it('should return null for an unknown menu', () => {
+    expect(optimizeMenuPrice({ menus: [] } as unknown as FinanceData, 'missing', () => 0)).toBeNull();
+  });
+});
+
+describe('engine price elasticity', () => {
+  it('should move volume with scenario price changes but not with escalation', () => {
+    const engine = new FinanceEngine();
+    const data = engine.getData();
+    const elastic = { ...data, menus: data.menus.map((menu: any) => ({ ...menu, priceElasticity: -1 })) };
+    const base = (engine as any).calculatePnL(elastic);
+    const raised = (engine as any).calculatePnL(applyScenarioDeltas(elastic, { menuPriceDeltaPercent: 10 }));
+    const escalated = applyEscalation(applyScenarioDeltas(elastic, { menuPriceDeltaPercent: 10 }), { menuPrice: 5, ingredients: 0, wages: 0, utilities: 0, rent: 0 }, 1);
+
+    // Revenue is flat at elasticity -1 since price and volume offset; food cost falls with volume
+    expect(raised.daily.revenue).toBeCloseTo(base.daily.revenue, 6);
+    expect(raised.daily.cogs).toBeCloseTo(base.daily.cogs / 1.1, 6);
+    expect(escalated.menus[0].referencePrice! / data.menus[0].price).toBeCloseTo(1.05, 10);
+  });
+
+  it('should recommend a price for a menu in the plan', () => {
+    const engine = new FinanceEngine();
+    const [menu] = engine.getData().menus;
+    engine.updateMenu(menu.id, { priceElasticity: -1.5 });
+
+    const result = engine.optimizeMenuPrice(menu.id)!;
+
+    expect(result.elasticity).toBe(-1.5);
+    expect(result.recommendedProfit).toBeGreaterThanOrEqual(result.currentProfit);
+    expect(result.recommendedPrice).toBeGreaterThanOrEqual(result.minPrice);
+    expect(result.recommendedPrice).toBeLessThanOrEqual(result.maxPrice);
+  });
+});
@@ -0,0 +1,67 @@
+// Unit tests for sensitivity analysis
+
+import { buildSensitivitySteps, runSensitivityAnalysis, SENSITIVITY_DRIVERS } from '../sensitivity';
+import { FinanceData, FinanceEngine } from '../finance-engine';
+
+describe('buildSensitivitySteps', () => {
+  it('should build symmetric steps including zero', () => {
+    expect(buildSensitivitySteps({ rangePercent: 20, stepPercent: 5 })).toEqual([-20, -15, -10, -5, 0, 5, 10, 15, 20]);
+  });
+
+  it('should always include the range end points', () => {
+    expect(buildSensitivitySteps({ rangePercent: 25, stepPercent: 10 })).toEqual([-25, -20, -10, 0, 10, 20, 25]);
+  });
+});
+
+describe('runSensitivityAnalysis', () => {
+  it('should flex every driver and rank them by swing', () => {
+    const data = {
+      menus: [{ id: 'm1', name: 'M1', price: 100, bom: [] }],
+      salesModel: { forecastDailyUnits: 10, deliveryCommissionPercent: 25 },
+      utilities: [],
+      labor: [],
+      fixedCosts: [{ id: 'rent', name: 'ค่าเช่า', amountPerMonth: 500 }]
+    } as unknown as FinanceData;
+    // Profit = price * units - rent
+    const evaluate = (d: any) => d.menus[0].price * d.salesModel.forecastDailyUnits - d.fixedCosts[0].amountPerMonth;
+
+    const result = runSensitivityAnalysis(data, evaluate, { rangePercent: 10, stepPercent: 10 });
+
+    expect(result.baseOperatingProfit).toBe(500);
+    expect(result.drivers).toHaveLength(SENSITIVITY_DRIVERS.length);
+
+    const price = result.drivers.find(d => d.key === 'menu_price')!;
+    expect(price.series.map(p => p.change)).toEqual([-10, 0, 10]);
+    expect(price.series[2].impact).toBeCloseTo(100, 5);
+    expect(price.series[2].impactPercent).toBeCloseTo(20, 5);
+
+    const rent = result.drivers.find(d => d.key === 'rent')!;
+    expect(rent.series[2].impact).toBeCloseTo(-50, 5);
+
+    expect(result.tornado[0].swing).toBeCloseTo(200, 5);
+    expect(result.tornado[result.tornado.length - 1].swing).toBe(0);
+  });
+
+  it('should flex a rent row the user added under another id', () => {
+    const data = {
+      menus: [],
+      salesModel: {},
+      utilities: [],
+      labor: [],
+      fixedCosts: [{ id: 'fixed_1', name: 'ค่าเช่าร้าน', amountPerMonth: 800 }, { id: 'fixed_2', name: 'Internet', amountPerMonth: 200 }]
+    } as unknown as FinanceData;
+    const evaluate = (d: any) => -d.fixedCosts.reduce((total: number, cost: any) => total + cost.amountPerMonth, 0);
+
+    const rent = runSensitivityAnalysis(data, evaluate, { rangePercent: 10, stepPercent: 10 }).drivers.find(d => d.key === 'rent')!;
+    expect(rent.series[2].impact).toBeCloseTo(-80, 5);
+  });
+
+  it('should be wired into the engine computation', () => {
+    const engine = new FinanceEngine();
+    const result = engine.compute();
+
+    expect(result.sensitivity.baseOperatingProfit).toBeCloseTo(result.pnl.monthly.operatingProfit, 5);
+    const ingredient = result.sensitivity.drivers.find((d: any) => d.key === 'ingredient_cost');
+    expect(ingredient!.series[0].operatingProfit).toBeGreaterThan(result.pnl.monthly.operatingProfit);
+  });
+});
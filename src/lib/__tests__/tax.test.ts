@@ -0,0 +1,55 @@
+// Unit tests for income tax estimates
+
+import { DEFAULT_TAX_SETTINGS, estimateIncomeTax } from '../tax';
+import { FinanceEngine } from '../finance-engine';
+
+describe('estimateIncomeTax', () => {
+  it('should apply the lump-sum deduction and progressive personal rates', () => {
+    const result = estimateIncomeTax(1000000, 300000, DEFAULT_TAX_SETTINGS);
+
+    // 1,000,000 - 60% lump sum - 60,000 allowance = 340,000 taxable
+    expect(result.taxableIncome).toBe(340000);
+    expect(result.progressiveTax).toBeCloseTo(7500 + 4000, 8);
+    // 0.5% of 1,000,000 is exactly 5,000, which is exempt
+    expect(result.minimumTax).toBe(0);
+    expect(result.taxPayable).toBeCloseTo(11500, 8);
+  });
+
+  it('should charge the minimum tax when it exceeds the progressive tax', () => {
+    const result = estimateIncomeTax(3000000, 200000, { ...DEFAULT_TAX_SETTINGS, expenseMethod: 'actual' });
+
+    expect(result.expenseDeduction).toBe(2800000);
+    expect(result.taxableIncome).toBe(140000);
+    expect(result.progressiveTax).toBe(0);
+    expect(result.taxPayable).toBeCloseTo(15000, 8);
+  });
+
+  it('should use SME corporate rates only for eligible companies', () => {
+    const sme = estimateIncomeTax(5000000, 1000000, { ...DEFAULT_TAX_SETTINGS, entityType: 'company' });
+    expect(sme.taxPayable).toBeCloseTo(105000, 8);
+
+    const large = estimateIncomeTax(5000000, 1000000, { ...DEFAULT_TAX_SETTINGS, entityType: 'company', paidUpCapital: 10000000 });
+    expect(large.taxPayable).toBeCloseTo(200000, 8);
+
+    const loss = estimateIncomeTax(5000000, -50000, { ...DEFAULT_TAX_SETTINGS, entityType: 'company' });
+    expect(loss.taxPayable).toBe(0);
+  });
+});
+
+describe('engine net profit', () => {
+  it('should deduct interest and tax from operating profit', () => {
+    const engine = new FinanceEngine();
+    engine.updateMeta({ planYear: 2025, tax: { entityType: 'company' } });
+    // Flat 10% on 240,000 drawn in December: 2,000 interest in every month of 2025
+    engine.updateLoans([{ id: 'bank', name: 'Bank', principal: 240000, annualRatePercent: 10, termMonths: 24, graceMonths: 0, method: 'flat', startDate: '2024-12-01' }]);
+    const result = engine.compute();
+    const { monthly, annual, tax } = result.pnl;
+
+    expect(monthly.interest).toBe(2000);
+    expect(monthly.preTaxProfit).toBeCloseTo(monthly.operatingProfit - 2000, 8);
+    expect(monthly.taxExpense).toBeCloseTo(tax.taxPayable / 12, 8);
+    expect(monthly.netProfit).toBeCloseTo(monthly.preTaxProfit - monthly.taxExpense, 8);
+    expect(annual.netProfit).toBeCloseTo(annual.preTaxProfit - tax.taxPayable, 6);
+    expect(result.kpis.netProfit).toBeCloseTo(result.pnl.daily.netProfit, 8);
+  });
+});
@@ -0,0 +1,71 @@
+// Unit tests for BOM units of measure
+
+import { calculateIngredientCost, convertQuantity, scaleIngredientPrice, toUnitForm } from '../units';
+import { FinanceEngine } from '../finance-engine';
+import { FinancialDataValidator } from '../validation';
+
+const line = (overrides: any) => ({ item: 'x', yieldPercent: 100, wastePercent: 0, ...overrides });
+
+describe('convertQuantity', () => {
+  it('should convert within a dimension by factor', () => {
+    expect(convertQuantity(180, 'g', 'kg')).toBeCloseTo(0.18, 12);
+    expect(convertQuantity(1.5, 'l', 'ml')).toBe(1500);
+    expect(convertQuantity(2, 'tbsp', 'tsp')).toBe(6);
+    expect(convertQuantity(6, 'piece', 'dozen')).toBe(0.5);
+  });
+
+  it('should convert between volume and mass only with a density', () => {
+    expect(convertQuantity(100, 'ml', 'g', 1.2)).toBeCloseTo(120, 10);
+    expect(convertQuantity(1, 'kg', 'l', 0.92)).toBeCloseTo(1.0869565, 6);
+    expect(convertQuantity(100, 'ml', 'g')).toBeNull();
+    expect(convertQuantity(1, 'piece', 'g', 1)).toBeNull();
+  });
+});
+
+describe('calculateIngredientCost', () => {
+  it('should cost the recipe quantity against the purchase pack', () => {
+    // 180 g of rice from a 450 baht 15 kg sack
+    expect(calculateIngredientCost(line({ qty: 180, unit: 'g', purchaseCost: 450, purchaseQty: 15, purchaseUnit: 'kg' }))).toBeCloseTo(5.4, 10);
+    // 2 eggs from a 60 baht tray of 30, with 10% breakage
+    expect(calculateIngredientCost(line({ qty: 2, unit: 'piece', purchaseCost: 60, purchaseQty: 30, purchaseUnit: 'piece', wastePercent: 10 }))).toBeCloseTo(4.4, 10);
+    // 30 ml of syrup bought by the kilogram
+    expect(calculateIngredientCost(line({ qty: 30, unit: 'ml', purchaseCost: 100, purchaseQty: 1, purchaseUnit: 'kg', densityGPerMl: 1.3 }))).toBeCloseTo(3.9, 10);
+  });
+
+  it('should keep the legacy grams and price per kilogram', () => {
+    const legacy = line({ qtyG: 120, unitCostPerKg: 70, yieldPercent: 80, wastePercent: 5 });
+
+    expect(calculateIngredientCost(legacy)).toBe((120 / 1000) * 1.05 / 0.8 * 70);
+    expect(calculateIngredientCost(toUnitForm(legacy))).toBeCloseTo(calculateIngredientCost(legacy)!, 12);
+    expect(toUnitForm(legacy)).not.toHaveProperty('qtyG');
+  });
+
+  it('should refuse units that cannot be converted', () => {
+    expect(calculateIngredientCost(line({ qty: 2, unit: 'piece', purchaseCost: 100, purchaseQty: 1, purchaseUnit: 'kg' }))).toBeNull();
+    expect(FinancialDataValidator.validateBOMItem(line({ qty: 2, unit: 'piece', purchaseCost: 100, purchaseQty: 1, purchaseUnit: 'kg' })).isValid).toBe(false);
+    expect(FinancialDataValidator.validateBOMItem(line({ qty: 2, unit: 'piece', purchaseCost: 60, purchaseQty: 30, purchaseUnit: 'piece' })).isValid).toBe(true);
+  });
+
+  it('should scale the price in either form', () => {
+    expect(scaleIngredientPrice(line({ unitCostPerKg: 70 }), 1.1).unitCostPerKg).toBeCloseTo(77, 10);
+    expect(scaleIngredientPrice(line({ purchaseCost: 450 }), 1.1).purchaseCost).toBeCloseTo(495, 10);
+  });
+});
+
+describe('engine units of measure', () => {
+  it('should cost BOM lines in any unit in the variable cost per unit', () => {
+    const engine = new FinanceEngine();
+    const menu = {
+      id: 'm',
+      name: 'Latte',
+      price: 80,
+      channelMix: { dineIn: 1, takeaway: 0, delivery: 0 },
+      bom: [
+        line({ item: 'milk', qty: 200, unit: 'ml', purchaseCost: 95, purchaseQty: 2, purchaseUnit: 'l' }),
+        line({ item: 'beans', qty: 18, unit: 'g', purchaseCost: 600, purchaseQty: 1, purchaseUnit: 'kg' })
+      ]
+    };
+
+    expect((engine as any).calculateVariableCostPerUnit(menu)).toBeCloseTo(9.5 + 10.8, 10);
+  });
+});
@@ -0,0 +1,69 @@
+// Unit tests for VAT handling
+
+import { getGrossSellingPrice, getInputVat, getNetSellingPrice, getVatSettings } from '../vat';
+import { FinanceEngine } from '../finance-engine';
+
+const buildData = (meta: any) => ({
+  menus: [
+    {
+      id: 'menu1',
+      name: 'Menu 1',
+      price: 107,
+      channelMix: { dineIn: 1, takeaway: 0, delivery: 0 },
+      bom: [{ item: 'x', qtyG: 1000, unitCostPerKg: 53.5, yieldPercent: 100, wastePercent: 0 }]
+    }
+  ],
+  salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 0 },
+  labor: [],
+  utilities: [{ id: 'ac', type: 'electric', device: 'AC', kw: 1, hoursPerDay: 2, ratePerKwh: 10.7 }],
+  fixedCosts: [],
+  meta: { planYear: 2025, vatPercent: 7, ...meta }
+});
+
+describe('VAT helpers', () => {
+  it('should treat unregistered businesses as VAT-free', () => {
+    const settings = getVatSettings({ meta: { vatPercent: 7 } });
+
+    expect(settings.registered).toBe(false);
+    expect(getNetSellingPrice(107, settings)).toBe(107);
+    expect(getInputVat(107, settings)).toBe(0);
+  });
+
+  it('should split VAT from inclusive and exclusive prices', () => {
+    const inclusive = getVatSettings({ meta: { vatRegistered: true, vatPercent: 7 } });
+    const exclusive = getVatSettings({ meta: { vatRegistered: true, vatPercent: 7, pricesIncludeVat: false } });
+
+    expect(getNetSellingPrice(107, inclusive)).toBeCloseTo(100, 10);
+    expect(getGrossSellingPrice(107, inclusive)).toBe(107);
+    expect(getNetSellingPrice(100, exclusive)).toBe(100);
+    expect(getGrossSellingPrice(100, exclusive)).toBeCloseTo(107, 10);
+    expect(getInputVat(107, inclusive, 50)).toBeCloseTo(3.5, 10);
+  });
+});
+
+describe('engine VAT position', () => {
+  it('should state revenue and costs ex-VAT and report net VAT payable', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL(buildData({ vatRegistered: true }));
+
+    expect(pnl.daily.revenue).toBeCloseTo(1000, 8);
+    expect(pnl.daily.cogs).toBeCloseTo(500, 8);
+    expect(pnl.daily.vat.outputVat).toBeCloseTo(70, 8);
+    // Input VAT: 35 on ingredients + 1.4 on electricity (21.4 inclusive)
+    expect(pnl.daily.vat.inputVat).toBeCloseTo(36.4, 8);
+    expect(pnl.daily.vat.netVatPayable).toBeCloseTo(33.6, 8);
+
+    const january = pnl.projection[0];
+    expect(january.outputVat).toBeCloseTo(70 * january.openDays, 8);
+    expect(pnl.annual.netVatPayable).toBeCloseTo(33.6 * pnl.annual.openDays, 6);
+  });
+
+  it('should leave prices untouched when not registered', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL(buildData({ vatRegistered: false }));
+
+    expect(pnl.daily.revenue).toBeCloseTo(1070, 8);
+    expect(pnl.daily.cogs).toBeCloseTo(535, 8);
+    expect(pnl.daily.vat.netVatPayable).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+// Unit tests for the working capital model
+
+import {
+  calculateWorkingCapital,
+  calculateWorkingCapitalAtVolumes,
+  getWorkingCapitalSettings,
+  WorkingCapitalInput
+} from '../working-capital';
+import { computeFinance, FinanceData, FinanceEngine, StoredFinanceData } from '../finance-engine';
+
+const input: WorkingCapitalInput = {
+  channelSales: [
+    { channel: 'dineIn', label: 'Dine-in', dailyAmount: 3000 },
+    { channel: 'delivery', label: 'Delivery', dailyAmount: 1000 }
+  ],
+  ingredientPurchases: [
+    { name: 'Pork', dailyAmount: 800 },
+    { name: 'Rice', dailyAmount: 200 }
+  ]
+};
+
+const settings = {
+  receivableDays: { dineIn: 0, takeaway: 0, delivery: 8 },
+  defaultTerms: { inventoryDays: 2, supplierCreditDays: 0 },
+  ingredients: { Rice: { inventoryDays: 12, supplierCreditDays: 30 } }
+};
+
+describe('getWorkingCapitalSettings', () => {
+  it('should fall back to the legacy cash-flow payment days', () => {
+    const result = getWorkingCapitalSettings({ meta: { cashFlow: { deliveryPayoutDays: 14, supplierPaymentDays: 10 } } } as unknown as StoredFinanceData);
+
+    expect(result.receivableDays).toEqual({ dineIn: 0, takeaway: 0, delivery: 14 });
+    expect(result.defaultTerms).toEqual({ inventoryDays: 3, supplierCreditDays: 10 });
+  });
+
+  it('should prefer stored working capital terms and ignore negative days', () => {
+    const result = getWorkingCapitalSettings({
+      meta: {
+        cashFlow: { deliveryPayoutDays: 14 },
+        workingCapital: { receivableDays: { delivery: 3, dineIn: -5 }, defaultTerms: { inventoryDays: 1 } }
+      }
+    } as unknown as StoredFinanceData);
+
+    expect(result.receivableDays.delivery).toBe(3);
+    expect(result.receivableDays.dineIn).toBe(0);
+    expect(result.defaultTerms.inventoryDays).toBe(1);
+  });
+});
+
+describe('calculateWorkingCapital', () => {
+  it('should apply per-ingredient terms and derive the cash conversion cycle', () => {
+    const result = calculateWorkingCapital(input, settings);
+
+    // Pork uses the default terms, rice its own
+    expect(result.ingredients.map(row => [row.inventory, row.payables])).toEqual([[1600, 0], [2400, 6000]]);
+    expect(result.inventory).toBe(4000);
+    expect(result.receivables).toBe(8000);
+    expect(result.payables).toBe(6000);
+    expect(result.requirement).toBe(6000);
+    expect(result.inventoryDays).toBe(4);
+    expect(result.receivableDays).toBe(2);
+    expect(result.payableDays).toBe(6);
+    expect(result.cashConversionCycle).toBe(0);
+  });
+
+  it('should scale the requirement with forecast volume at a constant cycle', () => {
+    const rows = calculateWorkingCapitalAtVolumes(input, settings, [-50, 0, 50]);
+
+    expect(rows.map(row => row.requirement)).toEqual([3000, 6000, 9000]);
+    expect(rows.map(row => row.changeInRequirement)).toEqual([-3000, 0, 3000]);
+    expect(rows.every(row => row.cashConversionCycle === 0)).toBe(true);
+  });
+});
+
+describe('engine working capital', () => {
+  it('should feed the working capital terms into the cash-flow timing', () => {
+    const engine = new FinanceEngine();
+    const pnl = (engine as any).calculatePnL({
+      menus: [{
+        id: 'm',
+        name: 'M',
+        price: 100,
+        channelMix: { dineIn: 0.5, takeaway: 0, delivery: 0.5 },
+        bom: [
+          { item: 'Pork', qtyG: 100, unitCostPerKg: 200, yieldPercent: 100, wastePercent: 0 },
+          { item: 'Box', qtyG: 0, unitCostPerKg: 0, yieldPercent: 100, wastePercent: 0, packaging: { qtyUnit: 1, unitCost: 5 } }
+        ]
+      }],
+      salesModel: { forecastDailyUnits: 10, paymentFeePercent: 0, deliveryCommissionPercent: 30 },
+      labor: [],
+      utilities: [],
+      fixedCosts: [],
+      assets: [],
+      loans: [],
+      meta: {
+        planYear: 2025,
+        workingCapital: {
+          receivableDays: { dineIn: 2, delivery: 10 },
+          defaultTerms: { inventoryDays: 4, supplierCreditDays: 0 },
+          ingredients: { Pork: { supplierCreditDays: 15 } }
+        }
+      }
+    });
+    const { workingCapital, cashFlow } = pnl;
+    const [pork, box] = workingCapital.ingredients;
+
+    expect(workingCapital.ingredients.map((row: any) => row.name)).toEqual(['Pork', 'Box']);
+    expect(pork.payables).toBeCloseTo(pork.dailyAmount * 15, 8);
+    expect(box.payables).toBe(0);
+    expect(workingCapital.inventory).toBeCloseTo((pork.dailyAmount + box.dailyAmount) * 4, 8);
+    expect(workingCapital.volumeSensitivity).toHaveLength(5);
+    expect(cashFlow.timing.storeReceivableDays).toBe(2);
+    expect(cashFlow.timing.deliveryPayoutDays).toBe(10);
+    expect(cashFlow.timing.supplierPaymentDays).toBeCloseTo(workingCapital.payableDays, 8);
+  });
+
+  it('should keep supplier terms of a catalog ingredient through a rename', () => {
+    const pork = { id: 'pork', name: 'Pork', category: 'meat', purchaseUnit: 'kg', purchaseQty: 1, price: 200, defaultYieldPercent: 100, defaultWastePercent: 0 };
+    const buildData = (name: string) => ({
+      ...new FinanceEngine().getData(),
+      ingredients: [{ ...pork, name }],
+      menus: [{
+        id: 'm',
+        name: 'M',
+        price: 100,
+        channelMix: { dineIn: 1, takeaway: 0, delivery: 0 },
+        bom: [{ item: name, ingredientId: 'pork', qty: 100, unit: 'g', yieldPercent: 100, wastePercent: 0 }]
+      }],
+      meta: { currency: 'THB', planYear: 2025, workingCapital: { ingredients: { pork: { supplierCreditDays: 15 } } } }
+    } as unknown as FinanceData);
+
+    const [before] = computeFinance(buildData('Pork')).pnl.workingCapital.ingredients;
+    const [after] = computeFinance(buildData('Pork belly')).pnl.workingCapital.ingredients;
+
+    expect(before).toMatchObject({ key: 'pork', name: 'Pork', supplierCreditDays: 15 });
+    expect(after).toMatchObject({ key: 'pork', name: 'Pork belly', supplierCreditDays: 15 });
+    expect(after.payables).toBeCloseTo(before.payables, 8);
+  });
+});
@@ -0,0 +1,170 @@
+// Investment appraisal: NPV, IRR and payback of the projected monthly cash flows
+
+import { FixedAsset, getAssets } from './assets';
+import { getPlanYear, parseYearMonth } from './calendar';
+import { StoredFinanceData } from './finance-engine';
+
+export interface AppraisalSettings {
+  // Annual discount rate (cost of capital) in percent
+  discountRatePercent: number;
+  // Capital expenditure before opening; null uses the asset register, where assets bought
+  // after the opening are paid in their month rather than at period 0
+  initialCapex: number | null;
+  // Deposits, fit-out fees, training and launch marketing paid before opening
+  preOpeningCosts: number;
+}
+
+export interface AppraisalPeriod {
+  // 0 is the investment at opening, 1 the first projected month
+  period: number;
+  label: string;
+  cashFlow: number;
+  discountedCashFlow: number;
+  cumulative: number;
+  discountedCumulative: number;
+}
+
+export interface AppraisalResult {
+  settings: AppraisalSettings;
+  initialInvestment: number;
+  npv: number;
+  // Annualized; null when the cash flows never change sign
+  irrPercent: number | null;
+  // Months from opening until the cumulative cash turns positive; null when it never does
+  paybackMonths: number | null;
+  discountedPaybackMonths: number | null;
+  periods: AppraisalPeriod[];
+}
+
+export const DEFAULT_APPRAISAL_SETTINGS: AppraisalSettings = {
+  discountRatePercent: 10,
+  initialCapex: null,
+  preOpeningCosts: 0
+};
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+export function getAppraisalSettings(data: StoredFinanceData | null | undefined): AppraisalSettings {
+  const stored: Partial<AppraisalSettings> = data?.meta?.appraisal || {};
+  return {
+    discountRatePercent: Math.max(0, toNumber(stored.discountRatePercent, DEFAULT_APPRAISAL_SETTINGS.discountRatePercent)),
+    initialCapex: typeof stored.initialCapex === 'number' && isFinite(stored.initialCapex) ? Math.max(0, stored.initialCapex) : null,
+    preOpeningCosts: Math.max(0, toNumber(stored.preOpeningCosts, DEFAULT_APPRAISAL_SETTINGS.preOpeningCosts))
+  };
+}
+
+// The opening is the start of the plan year; undated assets count as bought by then
+const isBoughtByOpening = (asset: FixedAsset, openingDate: string): boolean =>
+  !parseYearMonth(asset.purchaseDate) || asset.purchaseDate.slice(0, 10) <= openingDate;
+
+const getOpeningDate = (data: StoredFinanceData | null | undefined): string => `${getPlanYear(data)}-01-01`;
+
+// Capex and pre-opening costs paid at period 0
+export function getInitialInvestment(data: StoredFinanceData | null | undefined, settings: AppraisalSettings = getAppraisalSettings(data)): number {
+  const openingDate = getOpeningDate(data);
+  const capex = settings.initialCapex !== null
+    ? settings.initialCapex
+    : getAssets(data)
+        .filter(asset => isBoughtByOpening(asset, openingDate))
+        .reduce((total, asset) => total + (asset.cost || 0), 0);
+  return capex + settings.preOpeningCosts;
+}
+
+// Assets bought after the opening, paid out of the cash flow of their purchase month.
+// None when the initial capex is overridden, as the override covers all capex.
+export function getAssetsBoughtAfterOpening(data: StoredFinanceData | null | undefined, settings: AppraisalSettings = getAppraisalSettings(data)): FixedAsset[] {
+  if (settings.initialCapex !== null) return [];
+  const openingDate = getOpeningDate(data);
+  return getAssets(data).filter(asset => !isBoughtByOpening(asset, openingDate));
+}
+
+// Monthly rate equivalent to an annual rate in percent
+export function toMonthlyRate(annualRatePercent: number): number {
+  return Math.pow(1 + annualRatePercent / 100, 1 / 12) - 1;
+}
+
+// Net present value of cash flows where index 0 falls at time zero
+export function calculateNPV(ratePerPeriod: number, cashFlows: number[]): number {
+  return cashFlows.reduce((total, cashFlow, period) => total + cashFlow / Math.pow(1 + ratePerPeriod, period), 0);
+}
+
+// Rate per period at which the NPV is zero, found by bisection; null without a sign change
+export function calculateIRR(cashFlows: number[]): number | null {
+  let low = -0.99;
+  let high = 1;
+  let npvLow = calculateNPV(low, cashFlows);
+  let npvHigh = calculateNPV(high, cashFlows);
+
+  // Widen the upper bound for very profitable projects
+  while (npvLow * npvHigh > 0 && high < 1000) {
+    high *= 2;
+    npvHigh = calculateNPV(high, cashFlows);
+  }
+  if (!isFinite(npvLow) || npvLow * npvHigh > 0) return null;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNPV(mid, cashFlows);
+    if (Math.abs(npvMid) < 1e-9 || high - low < 1e-12) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Periods until the running total first turns non-negative, interpolated within the period
+export function calculatePaybackPeriods(cashFlows: number[]): number | null {
+  let cumulative = 0;
+  for (let period = 0; period < cashFlows.length; period++) {
+    const previous = cumulative;
+    cumulative += cashFlows[period];
+    if (cumulative >= 0) {
+      if (period === 0 || cashFlows[period] <= 0) return period;
+      return period - 1 + -previous / cashFlows[period];
+    }
+  }
+  return null;
+}
+
+// Appraise the initial investment against projected monthly cash flows
+export function appraiseInvestment(
+  initialInvestment: number,
+  monthlyCashFlows: { label: string; cashFlow: number }[],
+  settings: AppraisalSettings = DEFAULT_APPRAISAL_SETTINGS
+): AppraisalResult {
+  const monthlyRate = toMonthlyRate(settings.discountRatePercent);
+  const cashFlows = [-initialInvestment, ...monthlyCashFlows.map(month => month.cashFlow)];
+  const discounted = cashFlows.map((cashFlow, period) => cashFlow / Math.pow(1 + monthlyRate, period));
+
+  let cumulative = 0;
+  let discountedCumulative = 0;
+  const periods: AppraisalPeriod[] = cashFlows.map((cashFlow, period) => {
+    cumulative += cashFlow;
+    discountedCumulative += discounted[period];
+    return {
+      period,
+      label: period === 0 ? 'เปิดร้าน' : monthlyCashFlows[period - 1].label,
+      cashFlow,
+      discountedCashFlow: discounted[period],
+      cumulative,
+      discountedCumulative
+    };
+  });
+
+  const monthlyIrr = initialInvestment > 0 ? calculateIRR(cashFlows) : null;
+
+  return {
+    settings,
+    initialInvestment,
+    npv: discountedCumulative,
+    irrPercent: monthlyIrr === null ? null : (Math.pow(1 + monthlyIrr, 12) - 1) * 100,
+    paybackMonths: calculatePaybackPeriods(cashFlows),
+    discountedPaybackMonths: calculatePaybackPeriods(discounted),
+    periods
+  };
+}
@@ -0,0 +1,230 @@
+// Fixed-asset register: depreciation schedules and disposals
+
+import { getPlanYear, parseYearMonth } from './calendar';
+import { FinanceData, FixedCost, StoredFinanceData } from './finance-engine';
+
+export type AssetCategory = 'equipment' | 'renovation' | 'furniture';
+
+// Declining balance uses double the straight-line rate on the opening book value
+export type DepreciationMethod = 'straightLine' | 'decliningBalance';
+
+export interface FixedAsset {
+  id: string;
+  name: string;
+  category: AssetCategory;
+  // ISO date (YYYY-MM-DD); depreciation starts in the purchase month
+  purchaseDate: string;
+  cost: number;
+  usefulLifeYears: number;
+  salvageValue: number;
+  method: DepreciationMethod;
+  // Set when the asset is sold or scrapped; depreciation stops before the disposal month
+  disposalDate?: string;
+  disposalProceeds?: number;
+  // Currency of cost, salvage value and proceeds; the reporting currency when absent
+  currency?: string;
+}
+
+export interface DepreciationEntry {
+  year: number;
+  monthIndex: number;
+  openingBookValue: number;
+  depreciation: number;
+  accumulatedDepreciation: number;
+  closingBookValue: number;
+}
+
+export interface AssetDisposal {
+  year: number;
+  monthIndex: number;
+  bookValue: number;
+  proceeds: number;
+  // Proceeds less book value; negative for a loss
+  gain: number;
+}
+
+export interface AssetSchedule {
+  asset: FixedAsset;
+  entries: DepreciationEntry[];
+  disposal: AssetDisposal | null;
+}
+
+export interface AssetYearSummary {
+  year: number;
+  openingBookValue: number;
+  depreciation: number;
+  closingBookValue: number;
+}
+
+// Depreciation and disposal gains of all assets for each month of one year
+export interface YearDepreciation {
+  year: number;
+  depreciation: number[];
+  disposalGain: number[];
+  totalDepreciation: number;
+  totalDisposalGain: number;
+}
+
+export const ASSET_CATEGORIES: { key: AssetCategory; label: string }[] = [
+  { key: 'equipment', label: 'อุปกรณ์ครัว' },
+  { key: 'renovation', label: 'ตกแต่ง/ปรับปรุงร้าน' },
+  { key: 'furniture', label: 'เฟอร์นิเจอร์' }
+];
+
+export const DEPRECIATION_METHODS: { key: DepreciationMethod; label: string }[] = [
+  { key: 'straightLine', label: 'เส้นตรง' },
+  { key: 'decliningBalance', label: 'ยอดลดลงทวีคูณ' }
+];
+
+const monthOrdinal = (year: number, monthIndex: number): number => year * 12 + monthIndex;
+
+export function buildAssetSchedule(asset: FixedAsset): AssetSchedule {
+  const start = parseYearMonth(asset?.purchaseDate);
+  const cost = typeof asset?.cost === 'number' && asset.cost > 0 ? asset.cost : 0;
+  if (!start || cost === 0) return { asset, entries: [], disposal: null };
+
+  const salvage = Math.min(cost, Math.max(0, asset.salvageValue || 0));
+  const lifeMonths = Math.max(1, Math.round((asset.usefulLifeYears || 0) * 12));
+  const startOrdinal = monthOrdinal(start.year, start.monthIndex);
+  const disposalMonth = parseYearMonth(asset.disposalDate);
+  const disposalOrdinal = disposalMonth ? Math.max(startOrdinal, monthOrdinal(disposalMonth.year, disposalMonth.monthIndex)) : null;
+
+  const entries: DepreciationEntry[] = [];
+  let bookValue = cost;
+
+  for (let month = 0; month < lifeMonths; month++) {
+    const ordinal = startOrdinal + month;
+    if (disposalOrdinal !== null && ordinal >= disposalOrdinal) break;
+
+    const depreciable = bookValue - salvage;
+    let depreciation = asset.method === 'decliningBalance'
+      ? bookValue * (2 / lifeMonths)
+      : (cost - salvage) / lifeMonths;
+    // The last month of the useful life writes the asset down to its salvage value
+    if (month === lifeMonths - 1) depreciation = depreciable;
+    depreciation = Math.max(0, Math.min(depreciation, depreciable));
+
+    entries.push({
+      year: Math.floor(ordinal / 12),
+      monthIndex: ordinal % 12,
+      openingBookValue: bookValue,
+      depreciation,
+      accumulatedDepreciation: cost - bookValue + depreciation,
+      closingBookValue: bookValue - depreciation
+    });
+    bookValue -= depreciation;
+  }
+
+  let disposal: AssetDisposal | null = null;
+  if (disposalOrdinal !== null) {
+    const proceeds = Math.max(0, asset.disposalProceeds || 0);
+    disposal = {
+      year: Math.floor(disposalOrdinal / 12),
+      monthIndex: disposalOrdinal % 12,
+      bookValue,
+      proceeds,
+      gain: proceeds - bookValue
+    };
+  }
+
+  return { asset, entries, disposal };
+}
+
+// Book value at the start of a year and depreciation charged in it, for every year of the schedule
+export function summarizeScheduleByYear(schedule: AssetSchedule): AssetYearSummary[] {
+  const byYear = new Map<number, AssetYearSummary>();
+  schedule.entries.forEach(entry => {
+    const summary = byYear.get(entry.year);
+    if (summary) {
+      summary.depreciation += entry.depreciation;
+      summary.closingBookValue = entry.closingBookValue;
+    } else {
+      byYear.set(entry.year, {
+        year: entry.year,
+        openingBookValue: entry.openingBookValue,
+        depreciation: entry.depreciation,
+        closingBookValue: entry.closingBookValue
+      });
+    }
+  });
+  return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+}
+
+export function getAssets(data: StoredFinanceData | null | undefined): FixedAsset[] {
+  return Array.isArray(data?.assets) ? data.assets.filter(asset => asset && asset.id) : [];
+}
+
+export function buildYearDepreciation(assets: FixedAsset[], year: number): YearDepreciation {
+  const depreciation = new Array(12).fill(0);
+  const disposalGain = new Array(12).fill(0);
+
+  assets.forEach(asset => {
+    const schedule = buildAssetSchedule(asset);
+    schedule.entries.forEach(entry => {
+      if (entry.year === year) depreciation[entry.monthIndex] += entry.depreciation;
+    });
+    if (schedule.disposal && schedule.disposal.year === year) {
+      disposalGain[schedule.disposal.monthIndex] += schedule.disposal.gain;
+    }
+  });
+
+  return {
+    year,
+    depreciation,
+    disposalGain,
+    totalDepreciation: depreciation.reduce((total, value) => total + value, 0),
+    totalDisposalGain: disposalGain.reduce((total, value) => total + value, 0)
+  };
+}
+
+// Cash paid for assets bought and received for assets disposed of, by month of one year
+export function buildYearCapex(assets: FixedAsset[], year: number): { capex: number[]; disposalProceeds: number[] } {
+  const capex = new Array(12).fill(0);
+  const disposalProceeds = new Array(12).fill(0);
+
+  assets.forEach(asset => {
+    const schedule = buildAssetSchedule(asset);
+    const purchase = parseYearMonth(asset.purchaseDate);
+    if (purchase && purchase.year === year && asset.cost > 0) {
+      capex[purchase.monthIndex] += asset.cost;
+    }
+    if (schedule.disposal && schedule.disposal.year === year) {
+      disposalProceeds[schedule.disposal.monthIndex] += schedule.disposal.proceeds;
+    }
+  });
+
+  return { capex, disposalProceeds };
+}
+
+const LEGACY_DEPRECIATION_LIFE_YEARS = 5;
+
+const isLegacyDepreciationCost = (cost: FixedCost | null | undefined): boolean =>
+  !!cost && (cost.id === 'depreciation' || (typeof cost.name === 'string' && cost.name.includes('ค่าเสื่อม')));
+
+// Data saved before the asset register kept depreciation as a fixed cost row. Convert
+// those rows into a straight-line asset bought at the start of the plan year with the
+// same monthly charge, so depreciation is not counted twice.
+export function migrateLegacyDepreciation(data: FinanceData): FinanceData {
+  if (!data || Array.isArray(data.assets)) return data;
+
+  const fixedCosts: FixedCost[] = Array.isArray(data.fixedCosts) ? data.fixedCosts : [];
+  const legacy = fixedCosts.filter(isLegacyDepreciationCost);
+  const planYear = getPlanYear(data);
+
+  return {
+    ...data,
+    fixedCosts: fixedCosts.filter(cost => !isLegacyDepreciationCost(cost)),
+    assets: legacy
+      .filter(cost => typeof cost.amountPerMonth === 'number' && cost.amountPerMonth > 0)
+      .map((cost): FixedAsset => ({
+        id: `asset_${cost.id}`,
+        name: cost.name,
+        category: 'equipment',
+        purchaseDate: `${planYear}-01-01`,
+        cost: cost.amountPerMonth * LEGACY_DEPRECIATION_LIFE_YEARS * 12,
+        usefulLifeYears: LEGACY_DEPRECIATION_LIFE_YEARS,
+        salvageValue: 0,
+        method: 'straightLine'
+      }))
+  };
+}
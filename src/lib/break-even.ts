@@ -0,0 +1,119 @@
+// Mix-weighted break-even and cost-volume-profit analysis
+
+// Daily sales of one menu after channel fees and ex-VAT food cost
+export interface MenuContributionInput {
+  id: string;
+  name: string;
+  units: number;
+  revenue: number;
+  contribution: number;
+}
+
+export interface BreakEvenInput {
+  menus: MenuContributionInput[];
+  fixedCostsPerMonth: number;
+  openDaysPerMonth: number;
+  itemsPerCustomer: number;
+}
+
+export interface MenuBreakEven {
+  id: string;
+  name: string;
+  mixShare: number;
+  contributionPerUnit: number;
+  units: number;
+  contribution: number;
+  // Share of fixed costs this menu covers at the break-even point
+  coveragePercent: number;
+}
+
+export interface BreakEvenResult {
+  fixedCostsPerMonth: number;
+  revenuePerUnit: number;
+  contributionPerUnit: number;
+  contributionMarginPercent: number;
+  units: number;
+  revenue: number;
+  unitsPerDay: number;
+  revenuePerDay: number;
+  customersPerDay: number;
+  forecastUnitsPerMonth: number;
+  marginOfSafetyPercent: number;
+  menus: MenuBreakEven[];
+}
+
+export interface CvpPoint {
+  units: number;
+  revenue: number;
+  fixedCosts: number;
+  totalCosts: number;
+  profit: number;
+}
+
+// Break-even is reached when the mix-weighted contribution per unit covers the fixed costs.
+// Returns zero units when contribution per unit is not positive.
+export function calculateBreakEven(input: BreakEvenInput): BreakEvenResult {
+  const menus = input.menus || [];
+  const totalUnits = menus.reduce((total, menu) => total + menu.units, 0);
+  const totalRevenue = menus.reduce((total, menu) => total + menu.revenue, 0);
+  const totalContribution = menus.reduce((total, menu) => total + menu.contribution, 0);
+
+  const revenuePerUnit = totalUnits > 0 ? totalRevenue / totalUnits : 0;
+  const contributionPerUnit = totalUnits > 0 ? totalContribution / totalUnits : 0;
+  const fixedCostsPerMonth = Math.max(0, input.fixedCostsPerMonth);
+  const units = contributionPerUnit > 0 ? fixedCostsPerMonth / contributionPerUnit : 0;
+  const openDays = input.openDaysPerMonth > 0 ? input.openDaysPerMonth : 0;
+  const unitsPerDay = openDays > 0 ? units / openDays : 0;
+  const itemsPerCustomer = input.itemsPerCustomer > 0 ? input.itemsPerCustomer : 1;
+  const forecastUnitsPerMonth = totalUnits * openDays;
+
+  return {
+    fixedCostsPerMonth,
+    revenuePerUnit,
+    contributionPerUnit,
+    contributionMarginPercent: revenuePerUnit > 0 ? (contributionPerUnit / revenuePerUnit) * 100 : 0,
+    units,
+    revenue: units * revenuePerUnit,
+    unitsPerDay,
+    revenuePerDay: unitsPerDay * revenuePerUnit,
+    customersPerDay: unitsPerDay / itemsPerCustomer,
+    forecastUnitsPerMonth,
+    marginOfSafetyPercent: forecastUnitsPerMonth > 0 ? ((forecastUnitsPerMonth - units) / forecastUnitsPerMonth) * 100 : 0,
+    menus: menus.map(menu => {
+      const mixShare = totalUnits > 0 ? menu.units / totalUnits : 0;
+      const menuContributionPerUnit = menu.units > 0 ? menu.contribution / menu.units : 0;
+      const menuUnits = units * mixShare;
+      const contribution = menuUnits * menuContributionPerUnit;
+      return {
+        id: menu.id,
+        name: menu.name,
+        mixShare,
+        contributionPerUnit: menuContributionPerUnit,
+        units: menuUnits,
+        contribution,
+        coveragePercent: fixedCostsPerMonth > 0 ? (contribution / fixedCostsPerMonth) * 100 : 0
+      };
+    })
+  };
+}
+
+// Monthly revenue, cost and profit lines from zero volume up to beyond break-even and forecast
+export function buildCvpSeries(breakEven: BreakEvenResult, steps: number = 20): CvpPoint[] {
+  const maxUnits = Math.max(breakEven.units * 2, breakEven.forecastUnitsPerMonth * 1.25, 1);
+  const variableCostPerUnit = breakEven.revenuePerUnit - breakEven.contributionPerUnit;
+  const points: CvpPoint[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const units = (maxUnits * i) / steps;
+    const revenue = units * breakEven.revenuePerUnit;
+    const totalCosts = breakEven.fixedCostsPerMonth + units * variableCostPerUnit;
+    points.push({
+      units,
+      revenue,
+      fixedCosts: breakEven.fixedCostsPerMonth,
+      totalCosts,
+      profit: revenue - totalCosts
+    });
+  }
+  return points;
+}
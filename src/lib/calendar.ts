@@ -0,0 +1,237 @@
+// Operating calendar: which days of the plan year the restaurant is open
+
+import { StoredFinanceData } from './finance-engine';
+
+export const WEEKDAY_KEYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const ALL_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const MONTH_KEYS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+export const MONTH_LABELS_TH = ['ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.', 'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.'];
+
+// A single day the shop is closed (dates are YYYY-MM-DD)
+export interface CalendarHoliday {
+  date: string;
+  name: string;
+}
+
+// An inclusive range of days the shop is closed, e.g. renovation or vacation
+export interface ClosureRange {
+  id: string;
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+// Stored under data.meta.calendar
+export interface CalendarSettings {
+  holidays: CalendarHoliday[];
+  closures: ClosureRange[];
+}
+
+export interface CalendarMonth {
+  month: string;
+  label: string;
+  daysInMonth: number;
+  scheduledDays: number;
+  closedDays: number;
+  openDays: number;
+}
+
+export interface OperatingCalendar {
+  year: number;
+  openWeekdays: string[];
+  months: CalendarMonth[];
+  totalOpenDays: number;
+  avgOpenDaysPerMonth: number;
+  // Shop open days in an average week (0-7)
+  openDaysPerWeek: number;
+}
+
+// Thai public holidays on fixed dates (month-day)
+const THAI_FIXED_HOLIDAYS: { monthDay: string; name: string }[] = [
+  { monthDay: '01-01', name: 'วันขึ้นปีใหม่' },
+  { monthDay: '04-06', name: 'วันจักรี' },
+  { monthDay: '04-13', name: 'วันสงกรานต์' },
+  { monthDay: '04-14', name: 'วันสงกรานต์' },
+  { monthDay: '04-15', name: 'วันสงกรานต์' },
+  { monthDay: '05-01', name: 'วันแรงงานแห่งชาติ' },
+  { monthDay: '05-04', name: 'วันฉัตรมงคล' },
+  { monthDay: '06-03', name: 'วันเฉลิมพระชนมพรรษาสมเด็จพระราชินี' },
+  { monthDay: '07-28', name: 'วันเฉลิมพระชนมพรรษาพระบาทสมเด็จพระเจ้าอยู่หัว' },
+  { monthDay: '08-12', name: 'วันแม่แห่งชาติ' },
+  { monthDay: '10-13', name: 'วันนวมินทรมหาราช' },
+  { monthDay: '10-23', name: 'วันปิยมหาราช' },
+  { monthDay: '12-05', name: 'วันพ่อแห่งชาติ' },
+  { monthDay: '12-10', name: 'วันรัฐธรรมนูญ' },
+  { monthDay: '12-31', name: 'วันสิ้นปี' }
+];
+
+// Buddhist holidays follow the lunar calendar, so they are listed per year as announced
+const THAI_LUNAR_HOLIDAYS: Record<number, CalendarHoliday[]> = {
+  2024: [
+    { date: '2024-02-24', name: 'วันมาฆบูชา' },
+    { date: '2024-05-22', name: 'วันวิสาขบูชา' },
+    { date: '2024-07-20', name: 'วันอาสาฬหบูชา' },
+    { date: '2024-07-21', name: 'วันเข้าพรรษา' }
+  ],
+  2025: [
+    { date: '2025-02-12', name: 'วันมาฆบูชา' },
+    { date: '2025-05-11', name: 'วันวิสาขบูชา' },
+    { date: '2025-07-10', name: 'วันอาสาฬหบูชา' },
+    { date: '2025-07-11', name: 'วันเข้าพรรษา' }
+  ],
+  2026: [
+    { date: '2026-03-03', name: 'วันมาฆบูชา' },
+    { date: '2026-05-31', name: 'วันวิสาขบูชา' },
+    { date: '2026-07-29', name: 'วันอาสาฬหบูชา' },
+    { date: '2026-07-30', name: 'วันเข้าพรรษา' }
+  ]
+};
+
+export function toDateKey(year: number, monthIndex: number, day: number): string {
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Whether the Buddhist holidays of a year are known; the preset has only fixed dates otherwise
+export function hasThaiLunarHolidays(year: number): boolean {
+  return Array.isArray(THAI_LUNAR_HOLIDAYS[year]);
+}
+
+const isWeekend = (date: Date): boolean => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+// A holiday on a Saturday or Sunday is made up on the next weekday that is not already a
+// holiday or a substitution day. Substitution days falling in the next year are left out.
+const getSubstitutionDays = (holidays: CalendarHoliday[], year: number): CalendarHoliday[] => {
+  const taken = new Set(holidays.map(holiday => holiday.date));
+  const substitutes: CalendarHoliday[] = [];
+
+  holidays.forEach(holiday => {
+    const date = new Date(`${holiday.date}T00:00:00Z`);
+    if (!isWeekend(date)) return;
+
+    do {
+      date.setUTCDate(date.getUTCDate() + 1);
+    } while (isWeekend(date) || taken.has(toDateKey(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())));
+
+    const key = toDateKey(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    taken.add(key);
+    if (date.getUTCFullYear() === year) substitutes.push({ date: key, name: `วันหยุดชดเชย${holiday.name}` });
+  });
+  return substitutes;
+};
+
+// Thai public holiday preset for a year with its substitution days. Lunar holidays are only
+// known for listed years; see hasThaiLunarHolidays.
+export function getThaiPublicHolidays(year: number): CalendarHoliday[] {
+  const fixed = THAI_FIXED_HOLIDAYS.map(holiday => ({ date: `${year}-${holiday.monthDay}`, name: holiday.name }));
+  const holidays = [...fixed, ...(THAI_LUNAR_HOLIDAYS[year] || [])].sort((a, b) => a.date.localeCompare(b.date));
+  return [...holidays, ...getSubstitutionDays(holidays, year)].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function getDaysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+// Number of days in the month whose weekday is in the open-days schedule,
+// excluding any dates in the closed set
+export function countOpenDaysInMonth(
+  year: number,
+  monthIndex: number,
+  openDays: string[] = ALL_WEEKDAYS,
+  closedDates: Set<string> = new Set()
+): number {
+  const open = new Set(openDays);
+  const daysInMonth = getDaysInMonth(year, monthIndex);
+  let count = 0;
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const weekday = WEEKDAY_KEYS[new Date(Date.UTC(year, monthIndex, day)).getUTCDay()];
+    if (open.has(weekday) && !closedDates.has(toDateKey(year, monthIndex, day))) count++;
+  }
+  return count;
+}
+
+// Year and zero-based month of an ISO date (YYYY-MM-DD), or null when invalid
+export function parseYearMonth(date: string | undefined): { year: number; monthIndex: number } | null {
+  if (typeof date !== 'string') return null;
+  const match = /^(\d{4})-(\d{2})/.exec(date);
+  if (!match) return null;
+  const monthIndex = parseInt(match[2], 10) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  return { year: parseInt(match[1], 10), monthIndex };
+}
+
+// Plan year and weekly schedule, read from meta first and the sales model second
+export function getPlanYear(data: StoredFinanceData | null | undefined): number {
+  const year = data?.meta?.planYear;
+  return typeof year === 'number' && isFinite(year) ? year : new Date().getFullYear();
+}
+
+export function getOpenWeekdays(data: StoredFinanceData | null | undefined): string[] {
+  const openDays = data?.meta?.openDays || data?.salesModel?.openDays;
+  return Array.isArray(openDays) ? openDays : ALL_WEEKDAYS;
+}
+
+export function getCalendarSettings(data: StoredFinanceData | null | undefined): CalendarSettings {
+  const calendar: Partial<CalendarSettings> = data?.meta?.calendar || {};
+  return {
+    holidays: Array.isArray(calendar.holidays) ? calendar.holidays : [],
+    closures: Array.isArray(calendar.closures) ? calendar.closures : []
+  };
+}
+
+// Every closed date (holidays plus closure ranges) that falls in the given year
+export function getClosedDates(settings: CalendarSettings, year: number): Set<string> {
+  const closed = new Set<string>();
+  const yearPrefix = `${year}-`;
+
+  settings.holidays.forEach(holiday => {
+    if (holiday && typeof holiday.date === 'string' && holiday.date.startsWith(yearPrefix)) {
+      closed.add(holiday.date);
+    }
+  });
+
+  settings.closures.forEach(closure => {
+    const start = closure ? new Date(`${closure.start}T00:00:00Z`) : null;
+    const end = closure ? new Date(`${closure.end}T00:00:00Z`) : null;
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return;
+
+    for (const date = new Date(start); date <= end; date.setUTCDate(date.getUTCDate() + 1)) {
+      if (date.getUTCFullYear() === year) {
+        closed.add(toDateKey(year, date.getUTCMonth(), date.getUTCDate()));
+      }
+    }
+  });
+
+  return closed;
+}
+
+export function buildOperatingCalendar(data: StoredFinanceData | null | undefined): OperatingCalendar {
+  const year = getPlanYear(data);
+  const openWeekdays = getOpenWeekdays(data);
+  const closedDates = getClosedDates(getCalendarSettings(data), year);
+
+  const months: CalendarMonth[] = MONTH_KEYS.map((month, index) => {
+    const scheduledDays = countOpenDaysInMonth(year, index, openWeekdays);
+    const openDays = countOpenDaysInMonth(year, index, openWeekdays, closedDates);
+    return {
+      month,
+      label: MONTH_LABELS_TH[index],
+      daysInMonth: getDaysInMonth(year, index),
+      scheduledDays,
+      closedDays: scheduledDays - openDays,
+      openDays
+    };
+  });
+
+  const totalOpenDays = months.reduce((total, month) => total + month.openDays, 0);
+
+  return {
+    year,
+    openWeekdays,
+    months,
+    totalOpenDays,
+    avgOpenDaysPerMonth: totalOpenDays / 12,
+    openDaysPerWeek: new Set(openWeekdays.filter(day => ALL_WEEKDAYS.includes(day))).size
+  };
+}
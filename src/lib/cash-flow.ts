@@ -0,0 +1,210 @@
+// Projected cash-flow statement: timing of receipts and payments over the plan year
+
+import { StoredFinanceData } from './finance-engine';
+
+export type PayrollTiming = 'sameMonth' | 'nextMonth';
+
+export interface CashFlowSettings {
+  // Cash in hand and at the bank at the start of the plan year
+  openingCash: number;
+  payrollTiming: PayrollTiming;
+  ownerDrawingsPerMonth: number;
+}
+
+// Collection and payment days, taken from the working capital terms
+export interface PaymentTiming {
+  // Days before in-store sales (dine-in and takeaway) are received
+  storeReceivableDays: number;
+  // Days before delivery platforms pay out sales, net of commission
+  deliveryPayoutDays: number;
+  // Credit days given by ingredient and packaging suppliers
+  supplierPaymentDays: number;
+}
+
+// Accrued amounts of one month, before timing is applied. Sales and purchases include VAT.
+export interface CashFlowMonthInput {
+  month: string;
+  label: string;
+  year: number;
+  storeSales: number;
+  deliverySales: number;
+  purchases: number;
+  payroll: number;
+  // Fixed costs and utilities, paid in the month they are incurred
+  otherExpenses: number;
+  netVatPayable: number;
+  incomeTax: number;
+  interest: number;
+  principalRepayment: number;
+  loanProceeds: number;
+  capex: number;
+  disposalProceeds: number;
+}
+
+export interface CashFlowMonth {
+  month: string;
+  label: string;
+  year: number;
+  openingCash: number;
+  cashSales: number;
+  deliveryPayouts: number;
+  loanProceeds: number;
+  disposalProceeds: number;
+  totalInflows: number;
+  supplierPayments: number;
+  payroll: number;
+  otherExpenses: number;
+  vatPayments: number;
+  incomeTax: number;
+  interest: number;
+  principalRepayment: number;
+  capex: number;
+  ownerDrawings: number;
+  totalOutflows: number;
+  netCashFlow: number;
+  closingCash: number;
+  isNegative: boolean;
+}
+
+export interface CashFlowStatement {
+  settings: CashFlowSettings;
+  timing: PaymentTiming;
+  months: CashFlowMonth[];
+  totalInflows: number;
+  totalOutflows: number;
+  closingCash: number;
+  // Sales still to be received, and purchases, payroll and VAT still to be paid, at the end
+  // of the year; amounts that settle after the last month are carried here
+  closingReceivables: number;
+  closingPayables: number;
+  lowestCash: number;
+  // Labels of the months that end with a negative cash balance
+  negativeMonths: string[];
+}
+
+export const PAYROLL_TIMINGS: { key: PayrollTiming; label: string }[] = [
+  { key: 'sameMonth', label: 'จ่ายสิ้นเดือน' },
+  { key: 'nextMonth', label: 'จ่ายต้นเดือนถัดไป' }
+];
+
+export const DEFAULT_CASH_FLOW_SETTINGS: CashFlowSettings = {
+  openingCash: 0,
+  payrollTiming: 'sameMonth',
+  ownerDrawingsPerMonth: 0
+};
+
+export const DEFAULT_PAYMENT_TIMING: PaymentTiming = {
+  storeReceivableDays: 0,
+  deliveryPayoutDays: 7,
+  supplierPaymentDays: 0
+};
+
+const DAYS_PER_MONTH = 30;
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+export function getCashFlowSettings(data: StoredFinanceData | null | undefined): CashFlowSettings {
+  const stored: Partial<CashFlowSettings> = data?.meta?.cashFlow || {};
+  return {
+    openingCash: toNumber(stored.openingCash, DEFAULT_CASH_FLOW_SETTINGS.openingCash),
+    payrollTiming: stored.payrollTiming === 'nextMonth' ? 'nextMonth' : 'sameMonth',
+    ownerDrawingsPerMonth: Math.max(0, toNumber(stored.ownerDrawingsPerMonth, DEFAULT_CASH_FLOW_SETTINGS.ownerDrawingsPerMonth))
+  };
+}
+
+// Move monthly amounts later by a number of days, assuming they accrue evenly through
+// each month. Amounts shifted past the last month are left out; see settledAfterYearEnd.
+export function shiftByDays(amounts: number[], days: number): number[] {
+  const count = amounts.length;
+  const shifted = new Array(count).fill(0);
+  if (count === 0) return shifted;
+
+  const lagMonths = Math.max(0, days) / DAYS_PER_MONTH;
+  const wholeMonths = Math.floor(lagMonths);
+  const fraction = lagMonths - wholeMonths;
+
+  amounts.forEach((amount, index) => {
+    if (index + wholeMonths < count) shifted[index + wholeMonths] += amount * (1 - fraction);
+    if (fraction > 0 && index + wholeMonths + 1 < count) shifted[index + wholeMonths + 1] += amount * fraction;
+  });
+  return shifted;
+}
+
+// Part of the monthly amounts that shiftByDays moves past the last month, still open at year end
+export function settledAfterYearEnd(amounts: number[], days: number): number {
+  const lagMonths = Math.max(0, days) / DAYS_PER_MONTH;
+  return amounts.reduce((total, amount, index) => {
+    const monthsLeft = amounts.length - index;
+    return total + amount * Math.min(1, Math.max(0, lagMonths - monthsLeft + 1));
+  }, 0);
+}
+
+export function buildCashFlowStatement(
+  inputs: CashFlowMonthInput[],
+  settings: CashFlowSettings = DEFAULT_CASH_FLOW_SETTINGS,
+  timing: PaymentTiming = DEFAULT_PAYMENT_TIMING
+): CashFlowStatement {
+  const storeSales = inputs.map(input => input.storeSales);
+  const deliverySales = inputs.map(input => input.deliverySales);
+  const purchases = inputs.map(input => input.purchases);
+  const accruedPayroll = inputs.map(input => input.payroll);
+  const netVatPayable = inputs.map(input => input.netVatPayable);
+  const payrollDays = settings.payrollTiming === 'nextMonth' ? DAYS_PER_MONTH : 0;
+
+  const storeReceipts = shiftByDays(storeSales, timing.storeReceivableDays);
+  const deliveryPayouts = shiftByDays(deliverySales, timing.deliveryPayoutDays);
+  const supplierPayments = shiftByDays(purchases, timing.supplierPaymentDays);
+  const payroll = shiftByDays(accruedPayroll, payrollDays);
+  // VAT for a month is filed and paid in the following month
+  const vatPayments = shiftByDays(netVatPayable, DAYS_PER_MONTH);
+
+  let cash = settings.openingCash;
+  const months: CashFlowMonth[] = inputs.map((input, index) => {
+    const openingCash = cash;
+    const totalInflows = storeReceipts[index] + deliveryPayouts[index] + input.loanProceeds + input.disposalProceeds;
+    const totalOutflows = supplierPayments[index] + payroll[index] + input.otherExpenses + vatPayments[index] +
+      input.incomeTax + input.interest + input.principalRepayment + input.capex + settings.ownerDrawingsPerMonth;
+    const netCashFlow = totalInflows - totalOutflows;
+    cash = openingCash + netCashFlow;
+
+    return {
+      month: input.month,
+      label: input.label,
+      year: input.year,
+      openingCash,
+      cashSales: storeReceipts[index],
+      deliveryPayouts: deliveryPayouts[index],
+      loanProceeds: input.loanProceeds,
+      disposalProceeds: input.disposalProceeds,
+      totalInflows,
+      supplierPayments: supplierPayments[index],
+      payroll: payroll[index],
+      otherExpenses: input.otherExpenses,
+      vatPayments: vatPayments[index],
+      incomeTax: input.incomeTax,
+      interest: input.interest,
+      principalRepayment: input.principalRepayment,
+      capex: input.capex,
+      ownerDrawings: settings.ownerDrawingsPerMonth,
+      totalOutflows,
+      netCashFlow,
+      closingCash: cash,
+      isNegative: cash < 0
+    };
+  });
+
+  return {
+    settings,
+    timing,
+    months,
+    totalInflows: months.reduce((total, month) => total + month.totalInflows, 0),
+    totalOutflows: months.reduce((total, month) => total + month.totalOutflows, 0),
+    closingCash: cash,
+    closingReceivables: settledAfterYearEnd(storeSales, timing.storeReceivableDays) + settledAfterYearEnd(deliverySales, timing.deliveryPayoutDays),
+    closingPayables: settledAfterYearEnd(purchases, timing.supplierPaymentDays) + settledAfterYearEnd(accruedPayroll, payrollDays) +
+      settledAfterYearEnd(netVatPayable, DAYS_PER_MONTH),
+    lowestCash: months.reduce((lowest, month) => Math.min(lowest, month.closingCash), settings.openingCash),
+    negativeMonths: months.filter(month => month.isNegative).map(month => month.label)
+  };
+}
@@ -0,0 +1,172 @@
+// Main-thread client of the compute worker. Each kind of request keeps only its latest
+// call: starting a new one cancels the previous, which then resolves to null.
+
+import { ComputationResult, FinancialMetrics, ScenarioAppraisal } from './finance-engine';
+import { MonteCarloResult, MonteCarloSettings } from './monte-carlo';
+import { PriceOptimization } from './pricing';
+import { GoalSeekDriverKey, GoalSeekResult, GoalSeekTargetKey } from './goal-seek';
+import { ComputeInput, ComputeRequest, ComputeResponse, createComputeHandler } from './compute-worker';
+
+export interface ComputeWorker {
+  postMessage: (request: ComputeRequest) => void;
+  onmessage: ((event: { data: ComputeResponse }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  terminate: () => void;
+}
+
+export type ComputeProgressHandler = (completed: number, total: number) => void;
+
+// Result each kind of request resolves to
+interface RequestResults {
+  compute: ComputationResult;
+  monteCarlo: MonteCarloResult;
+  appraisals: ScenarioAppraisal[];
+  priceOptimization: PriceOptimization | null;
+  goalSeek: GoalSeekResult<FinancialMetrics>;
+}
+
+type RequestKind = keyof RequestResults;
+
+interface PendingRequest<K extends RequestKind> {
+  kind: K;
+  resolve: (result: RequestResults[K] | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: ComputeProgressHandler;
+}
+
+// A pending request of any kind, narrowed by its kind
+type AnyPendingRequest = { [K in RequestKind]: PendingRequest<K> }[RequestKind];
+
+// Worker bundled by Vite; without Worker support (tests, Node) the same handler runs
+// in-process, replying on later ticks like a worker would
+export function createComputeWorker(): ComputeWorker {
+  if (typeof Worker !== 'undefined') {
+    return new Worker(new URL('../workers/compute.worker.ts', import.meta.url), { type: 'module' }) as ComputeWorker;
+  }
+
+  const worker: ComputeWorker = {
+    onmessage: null,
+    onerror: null,
+    postMessage: request => handle(request),
+    terminate: () => {
+      worker.onmessage = null;
+    }
+  };
+  const handle = createComputeHandler(response => {
+    setTimeout(() => worker.onmessage?.({ data: response }), 0);
+  });
+  return worker;
+}
+
+export class ComputeClient {
+  private worker: ComputeWorker;
+  private nextId = 1;
+  private pending: Map<number, AnyPendingRequest> = new Map();
+  private latest: Partial<Record<RequestKind, number>> = {};
+
+  constructor(worker: ComputeWorker = createComputeWorker()) {
+    this.worker = worker;
+    this.worker.onmessage = event => this.handleResponse(event.data);
+    this.worker.onerror = () => this.rejectAll('Compute worker failed');
+  }
+
+  compute(input: ComputeInput): Promise<ComputationResult | null> {
+    return this.request('compute', id => ({ type: 'compute', id, input }));
+  }
+
+  runMonteCarlo(input: ComputeInput, settings?: MonteCarloSettings, onProgress?: ComputeProgressHandler): Promise<MonteCarloResult | null> {
+    return this.request('monteCarlo', id => ({ type: 'monteCarlo', id, input, settings }), onProgress);
+  }
+
+  compareScenarioAppraisals(input: ComputeInput, scenarioIds?: string[]): Promise<ScenarioAppraisal[] | null> {
+    return this.request('appraisals', id => ({ type: 'appraisals', id, input, scenarioIds }));
+  }
+
+  // Resolves to null when cancelled, as well as when the menu does not exist
+  optimizeMenuPrice(input: ComputeInput, menuId: string): Promise<PriceOptimization | null> {
+    return this.request('priceOptimization', id => ({ type: 'priceOptimization', id, input, menuId }));
+  }
+
+  goalSeek(input: ComputeInput, driver: GoalSeekDriverKey, target: GoalSeekTargetKey, targetValue?: number): Promise<GoalSeekResult<FinancialMetrics> | null> {
+    return this.request('goalSeek', id => ({ type: 'goalSeek', id, input, driver, target, targetValue }));
+  }
+
+  // Cancel the outstanding request of a kind; it resolves to null
+  cancel(kind: RequestKind): void {
+    const id = this.latest[kind];
+    if (id === undefined) return;
+    delete this.latest[kind];
+
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    this.worker.postMessage({ type: 'cancel', id });
+    pending.resolve(null);
+  }
+
+  terminate(): void {
+    this.rejectAll('Compute worker terminated');
+    this.worker.terminate();
+  }
+
+  private request<K extends RequestKind>(kind: K, build: (id: number) => ComputeRequest, onProgress?: ComputeProgressHandler): Promise<RequestResults[K] | null> {
+    this.cancel(kind);
+    const id = this.nextId++;
+    this.latest[kind] = id;
+
+    return new Promise<RequestResults[K] | null>((resolve, reject) => {
+      const pending: PendingRequest<K> = { kind, resolve, reject, onProgress };
+      this.pending.set(id, pending as AnyPendingRequest);
+      this.worker.postMessage(build(id));
+    });
+  }
+
+  private handleResponse(response: ComputeResponse): void {
+    const pending = this.pending.get(response.id);
+    // Responses to cancelled requests are stale and dropped
+    if (!pending) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.completed, response.total);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (this.latest[pending.kind] === response.id) {
+      delete this.latest[pending.kind];
+    }
+
+    // Each result is checked against the kind of request it answers
+    switch (response.type) {
+      case 'computed':
+        if (pending.kind === 'compute') return pending.resolve(response.result);
+        break;
+      case 'simulated':
+        if (pending.kind === 'monteCarlo') return pending.resolve(response.result);
+        break;
+      case 'appraised':
+        if (pending.kind === 'appraisals') return pending.resolve(response.result);
+        break;
+      case 'optimized':
+        if (pending.kind === 'priceOptimization') return pending.resolve(response.result);
+        break;
+      case 'sought':
+        if (pending.kind === 'goalSeek') return pending.resolve(response.result);
+        break;
+      case 'cancelled':
+        pending.resolve(null);
+        return;
+      case 'error':
+        pending.reject(new Error(response.error));
+        return;
+    }
+    pending.reject(new Error(`Unexpected ${response.type} response to a ${pending.kind} request`));
+  }
+
+  private rejectAll(message: string): void {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    this.latest = {};
+    pending.forEach(request => request.reject(new Error(message)));
+  }
+}
@@ -0,0 +1,164 @@
+// Message protocol and request handling of the background compute worker. The handler
+// has no worker globals of its own, so it also runs in-process where workers are unavailable.
+
+import { ComputationResult, createFinanceEngine, FinanceData, FinancialMetrics, Scenario, ScenarioAppraisal } from './finance-engine';
+import { MonteCarloResult, MonteCarloRun, MonteCarloSettings } from './monte-carlo';
+import { PriceOptimization } from './pricing';
+import { GoalSeekDriverKey, GoalSeekResult, GoalSeekTargetKey } from './goal-seek';
+
+// Model a request is computed against; copied to the worker with each request
+export interface ComputeInput {
+  data: FinanceData;
+  scenarios: Record<string, Scenario>;
+  scenarioId: string;
+}
+
+export type ComputeRequest =
+  | { type: 'compute'; id: number; input: ComputeInput }
+  | { type: 'monteCarlo'; id: number; input: ComputeInput; settings?: MonteCarloSettings }
+  | { type: 'appraisals'; id: number; input: ComputeInput; scenarioIds?: string[] }
+  | { type: 'priceOptimization'; id: number; input: ComputeInput; menuId: string }
+  | { type: 'goalSeek'; id: number; input: ComputeInput; driver: GoalSeekDriverKey; target: GoalSeekTargetKey; targetValue?: number }
+  | { type: 'cancel'; id: number };
+
+export type ComputeResponse =
+  | { type: 'computed'; id: number; result: ComputationResult }
+  | { type: 'simulated'; id: number; result: MonteCarloResult }
+  | { type: 'appraised'; id: number; result: ScenarioAppraisal[] }
+  | { type: 'optimized'; id: number; result: PriceOptimization | null }
+  | { type: 'sought'; id: number; result: GoalSeekResult<FinancialMetrics> }
+  | { type: 'progress'; id: number; completed: number; total: number }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; error: string };
+
+// Monte Carlo iterations run between checks for newer messages
+export const MONTE_CARLO_CHUNK_SIZE = 250;
+
+type Job = Exclude<ComputeRequest, { type: 'cancel' }>;
+
+// Jobs that finish in one go, as opposed to a chunked Monte Carlo run
+type QuickJob = Exclude<Job, { type: 'monteCarlo' }>;
+
+const isQuickJob = (job: Job): job is QuickJob => job.type !== 'monteCarlo';
+
+const runQuickJob = (job: QuickJob): ComputeResponse => {
+  const { data, scenarios, scenarioId } = job.input;
+  const engine = createFinanceEngine(data, scenarios);
+  switch (job.type) {
+    case 'compute':
+      return { type: 'computed', id: job.id, result: engine.compute(scenarioId) };
+    case 'appraisals':
+      return { type: 'appraised', id: job.id, result: engine.compareScenarioAppraisals(job.scenarioIds) };
+    case 'priceOptimization':
+      return { type: 'optimized', id: job.id, result: engine.optimizeMenuPrice(job.menuId, scenarioId) };
+    case 'goalSeek':
+      return { type: 'sought', id: job.id, result: engine.goalSeek(job.driver, job.target, job.targetValue, scenarioId) };
+  }
+};
+
+const formatError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Jobs start on a later tick, so a burst of requests is seen as a whole: a compute request
+// supersedes any compute still waiting, and cancellations reach jobs before they run.
+// A Monte Carlo run yields between chunks, where waiting quick jobs go first.
+export function createComputeHandler(post: (response: ComputeResponse) => void): (request: ComputeRequest) => void {
+  let queue: Job[] = [];
+  const cancelled = new Set<number>();
+  let scheduled = false;
+  // Id of the Monte Carlo run in progress
+  let simulating: number | null = null;
+
+  const schedule = () => {
+    if (scheduled || simulating !== null) return;
+    scheduled = true;
+    setTimeout(() => {
+      scheduled = false;
+      runNext();
+    }, 0);
+  };
+
+  const run = (job: QuickJob) => {
+    try {
+      post(runQuickJob(job));
+    } catch (error) {
+      post({ type: 'error', id: job.id, error: formatError(error) });
+    }
+  };
+
+  const runWaitingQuickJobs = () => {
+    const quickJobs = queue.filter(isQuickJob);
+    queue = queue.filter(job => !isQuickJob(job));
+    quickJobs.forEach(run);
+  };
+
+  const simulate = (job: Extract<Job, { type: 'monteCarlo' }>) => {
+    const finish = () => {
+      simulating = null;
+      if (queue.length > 0) schedule();
+    };
+
+    let monteCarlo: MonteCarloRun;
+    try {
+      monteCarlo = createFinanceEngine(job.input.data, job.input.scenarios).createMonteCarloRun(job.input.scenarioId, job.settings);
+    } catch (error) {
+      post({ type: 'error', id: job.id, error: formatError(error) });
+      return;
+    }
+
+    simulating = job.id;
+    const runChunk = () => {
+      runWaitingQuickJobs();
+      if (cancelled.delete(job.id)) {
+        post({ type: 'cancelled', id: job.id });
+        finish();
+        return;
+      }
+      try {
+        monteCarlo.step(MONTE_CARLO_CHUNK_SIZE);
+        post({ type: 'progress', id: job.id, completed: monteCarlo.completed(), total: monteCarlo.total });
+        if (monteCarlo.completed() < monteCarlo.total) {
+          setTimeout(runChunk, 0);
+          return;
+        }
+        post({ type: 'simulated', id: job.id, result: monteCarlo.result() });
+      } catch (error) {
+        post({ type: 'error', id: job.id, error: formatError(error) });
+      }
+      finish();
+    };
+    runChunk();
+  };
+
+  const runNext = () => {
+    runWaitingQuickJobs();
+    const job = queue.shift();
+    if (job?.type === 'monteCarlo') {
+      simulate(job);
+    }
+    if (simulating === null && queue.length > 0) schedule();
+  };
+
+  return (request: ComputeRequest) => {
+    if (request.type === 'cancel') {
+      const index = queue.findIndex(job => job.id === request.id);
+      if (index >= 0) {
+        queue.splice(index, 1);
+        post({ type: 'cancelled', id: request.id });
+      } else if (request.id === simulating) {
+        // Picked up by the running simulation before its next chunk
+        cancelled.add(request.id);
+      }
+      return;
+    }
+
+    if (request.type === 'compute') {
+      queue = queue.filter(job => {
+        if (job.type !== 'compute') return true;
+        post({ type: 'cancelled', id: job.id });
+        return false;
+      });
+    }
+    queue.push(request);
+    schedule();
+  };
+}
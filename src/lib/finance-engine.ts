@@ -1,9 +1,37 @@
 // Core Finance Engine for Restaurant Financial Modeling
 
+import { DEFAULT_SENSITIVITY_OPTIONS, runSensitivityAnalysis, SensitivityOptions, SensitivityResult } from './sensitivity';
+import { BreakEvenResult, calculateBreakEven } from './break-even';
+import { buildYearCapex, buildYearDepreciation, FixedAsset, getAssets, migrateLegacyDepreciation, YearDepreciation } from './assets';
+import { buildCashFlowStatement, CashFlowSettings, CashFlowStatement, getCashFlowSettings, PaymentTiming } from './cash-flow';
+import { calculateWorkingCapital, calculateWorkingCapitalAtVolumes, getWorkingCapitalSettings, WorkingCapitalAtVolume, WorkingCapitalResult, WorkingCapitalSettings } from './working-capital';
+import { buildOperatingCalendar, CalendarSettings, getPlanYear, OperatingCalendar } from './calendar';
+import { buildYearFinancing, getLoans, Loan, YearFinancing } from './loans';
+import { estimateIncomeTax, getTaxSettings, TaxEstimate, TaxSettings } from './tax';
+import { AppraisalResult, AppraisalSettings, appraiseInvestment, getAppraisalSettings, getAssetsBoughtAfterOpening, getInitialInvestment } from './appraisal';
+import { applyEscalation, getMultiYearSettings, getVolumeFactor, MultiYearSettings } from './multi-year';
+import { createMonteCarloRun, getMonteCarloSettings, MonteCarloResult, MonteCarloRun, MonteCarloSettings } from './monte-carlo';
+import { analyzeMenuEngineering, MenuEngineeringResult } from './menu-engineering';
+import { getElasticVolumeFactor, getPricingSettings, optimizeMenuPrice, PriceOptimization, PricingSettings, repriceMenu } from './pricing';
+import { FinancialTargets, getFinancialTargets, goalSeek, GOAL_SEEK_TARGETS, GoalSeekDriverKey, GoalSeekResult, GoalSeekTargetKey } from './goal-seek';
+import { buildVatPosition, getGrossSellingPrice, getInputVat, getNetSellingPrice, getVatSettings, VatPosition, VatSettings } from './vat';
+import { DEFAULT_MONEY_SETTINGS, getMoneySettings, MoneySettings, roundCashPrice, roundLine, sumMoney } from './money';
+import { convertToReportingCurrency, FxRate } from './fx';
+import { calculateIngredientCost, MeasuredIngredient, scaleIngredientPrice } from './units';
+import { Ingredient, linkBomToCatalog, migrateBomToCatalog, resolveIngredients } from './ingredients';
+
 export interface MenuItem {
   id: string;
   name: string;
   price: number;
+  // Share of total daily units sold as this menu (0-1). Normalized across menus.
+  mixShare?: number;
+  // Delivery menu price uplift over the dine-in price, in percent
+  deliveryMarkupPercent?: number;
+  // Percent change in volume for a 1% change in price (usually negative)
+  priceElasticity?: number;
+  // Price at which the forecast volume was set, kept when a price change should move volume
+  referencePrice?: number;
   channelMix: {
     dineIn: number;
     takeaway: number;
@@ -12,16 +40,18 @@ export interface MenuItem {
   bom: BOMItem[];
 }
 
-export interface BOMItem {
+export interface BOMItem extends MeasuredIngredient {
   item: string;
-  qtyG: number;
-  unitCostPerKg: number;
   yieldPercent: number;
   wastePercent: number;
   packaging?: {
     qtyUnit: number;
     unitCost: number;
   };
+  // Currency of the unit cost; the reporting currency when absent
+  currency?: string;
+  // Catalog entry the line is priced from; its price, pack and currency override the line's
+  ingredientId?: string;
 }
 
 export interface SalesModel {
@@ -29,13 +59,99 @@ export interface SalesModel {
   seasonality: Record<string, number>;
   paymentFeePercent: number;
   deliveryCommissionPercent: number;
-  openDays: string[];
-  operatingHours: {
+  // Average number of menu items ordered per customer, used to convert units to customers
+  itemsPerCustomer?: number;
+  // Legacy location of the trading days; meta.openDays takes precedence
+  openDays?: string[];
+  operatingHours?: {
     open: string;
     close: string;
   };
 }
 
+export type SalesChannel = 'dineIn' | 'takeaway' | 'delivery';
+
+// Daily economics of one sales channel
+export interface ChannelPnL {
+  channel: SalesChannel;
+  label: string;
+  units: number;
+  revenue: number;
+  outputVat: number;
+  fees: number;
+  netRevenue: number;
+  cogs: number;
+  contribution: number;
+  contributionPct: number;
+}
+
+// One month of the plan-year projection
+export interface MonthlyProjection extends VatPosition {
+  month: string;
+  label: string;
+  year: number;
+  openDays: number;
+  seasonality: number;
+  // Volume relative to the daily forecast (growth and ramp-up), 1 for the base plan
+  volumeFactor: number;
+  units: number;
+  revenue: number;
+  channelFees: number;
+  netRevenue: number;
+  cogs: number;
+  grossProfit: number;
+  // Operating expenses include depreciation
+  operatingExpenses: number;
+  depreciation: number;
+  operatingProfit: number;
+  // Gain (or loss) on assets disposed of in the month
+  disposalGain: number;
+  interest: number;
+  preTaxProfit: number;
+  taxExpense: number;
+  netProfit: number;
+  // Financing cash flows: loan principal repaid and loans drawn in the month
+  principalRepayment: number;
+  loanProceeds: number;
+}
+
+// Full-year totals of a projection
+export type AnnualPnL = Omit<MonthlyProjection, 'month' | 'label' | 'year' | 'seasonality' | 'volumeFactor'>;
+
+export interface YearlyProjection extends AnnualPnL {
+  year: number;
+  yearIndex: number;
+}
+
+export interface MultiYearMonth extends MonthlyProjection {
+  yearIndex: number;
+}
+
+export interface MultiYearProjection {
+  settings: MultiYearSettings;
+  years: YearlyProjection[];
+  months: MultiYearMonth[];
+}
+
+// One menu's daily sales split by channel
+interface MenuChannelLines {
+  menu: MenuItem;
+  lines: {
+    channel: SalesChannel;
+    units: number;
+    revenue: number;
+    outputVat: number;
+    fees: number;
+    cogs: number;
+  }[];
+}
+
+export const SALES_CHANNELS: { key: SalesChannel; label: string }[] = [
+  { key: 'dineIn', label: 'ทานที่ร้าน' },
+  { key: 'takeaway', label: 'กลับบ้าน' },
+  { key: 'delivery', label: 'เดลิเวอรี' }
+];
+
 export interface UtilityItem {
   id: string;
   type: 'electric' | 'lpg' | 'water';
@@ -63,6 +179,8 @@ export interface FixedCost {
   id: string;
   name: string;
   amountPerMonth: number;
+  // Currency of the amount; the reporting currency when absent
+  currency?: string;
 }
 
 export interface FinancialMetrics {
@@ -76,10 +194,127 @@ export interface FinancialMetrics {
   cmPct: number;
   bepUnits: number;
   bepPerDay: number;
+  bepRevenue: number;
+  bepCustomersPerDay: number;
   safetyMargin: number;
   avgTicket: number;
 }
 
+// Settings stored alongside the model. Module settings are partial; each module
+// fills in its own defaults when reading them.
+export interface FinanceMeta {
+  currency: string;
+  language?: string;
+  vatPercent?: number;
+  vatRegistered?: boolean;
+  pricesIncludeVat?: boolean;
+  ingredientVatablePercent?: number;
+  openDays?: string[];
+  operatingHours?: { open: string; close: string };
+  planYear?: number;
+  calendar?: Partial<CalendarSettings>;
+  sensitivity?: Partial<SensitivityOptions>;
+  tax?: Partial<TaxSettings>;
+  cashFlow?: Partial<CashFlowSettings>;
+  workingCapital?: Partial<WorkingCapitalSettings>;
+  multiYear?: Partial<MultiYearSettings>;
+  appraisal?: Partial<AppraisalSettings>;
+  monteCarlo?: Partial<MonteCarloSettings>;
+  pricing?: Partial<PricingSettings>;
+  targets?: Partial<FinancialTargets>;
+  money?: Partial<MoneySettings>;
+}
+
+export interface FinanceData {
+  meta: FinanceMeta;
+  menus: MenuItem[];
+  salesModel: SalesModel;
+  utilities: UtilityItem[];
+  labor: LaborItem[];
+  fixedCosts: FixedCost[];
+  assets?: FixedAsset[];
+  loans?: Loan[];
+  fxRates?: FxRate[];
+  ingredients?: Ingredient[];
+}
+
+// Model as stored or imported, before defaults are filled in: any part may be missing,
+// and each settings reader falls back to its own defaults
+export type StoredFinanceData = Partial<Omit<FinanceData, 'meta'>> & { meta?: Partial<FinanceMeta> };
+
+export interface PnLPeriod {
+  revenue: number;
+  channelFees: number;
+  netRevenue: number;
+  cogs: number;
+  grossProfit: number;
+  operatingExpenses: number;
+  depreciation: number;
+  operatingProfit: number;
+  // The plan year's gain (or loss) on asset disposals, spread evenly like its income tax
+  disposalGain: number;
+  interest: number;
+  preTaxProfit: number;
+  taxExpense: number;
+  netProfit: number;
+  vat: VatPosition;
+}
+
+export interface PnLResult {
+  // Per open day and per average month of the plan year
+  daily: PnLPeriod;
+  monthly: PnLPeriod;
+  channels: ChannelPnL[];
+  calendar: OperatingCalendar;
+  breakEven: BreakEvenResult;
+  projection: MonthlyProjection[];
+  annual: AnnualPnL;
+  tax: TaxEstimate;
+  cashFlow: CashFlowStatement;
+  workingCapital: WorkingCapitalResult & { volumeSensitivity: WorkingCapitalAtVolume[] };
+}
+
+// Unit economics of one menu; margins are ex-VAT
+export interface MenuMetrics {
+  id: string;
+  name: string;
+  price: number;
+  netPrice: number;
+  vc: number;
+  cm: number;
+  cmPct: number;
+  mixShare: number;
+  dailyUnits: number;
+}
+
+export interface ComputationResult {
+  pnl: PnLResult;
+  kpis: FinancialMetrics;
+  menus: MenuMetrics[];
+  menuEngineering: MenuEngineeringResult;
+  sensitivity: SensitivityResult;
+  multiYear: MultiYearProjection;
+  appraisal: AppraisalResult;
+  scenarioId: string;
+  computedAt: string;
+  dataVersion: string;
+  // Set when the data could not be computed and the figures are zeroed defaults
+  error?: string;
+}
+
+export interface ComputeOptions {
+  // Scenario to compute; unknown ids and 'base' compute the data as given
+  scenarioId?: string;
+  scenarios?: Record<string, Scenario>;
+}
+
+// Appraisal of one scenario, as listed side by side
+export interface ScenarioAppraisal {
+  scenarioId: string;
+  name: string;
+  appraisal: AppraisalResult;
+}
+
 export interface Scenario {
   id: string;
   name: string;
@@ -92,8 +327,77 @@ export interface Scenario {
   };
 }
 
+// Normalized sales mix keyed by menu id. Menus without a share fall back to an
+// equal split so older data keeps working.
+export function getNormalizedMenuMix(menus: MenuItem[] = []): Record<string, number> {
+  const validMenus = (Array.isArray(menus) ? menus : []).filter(menu => menu && menu.id);
+  const mix: Record<string, number> = {};
+  if (validMenus.length === 0) return mix;
+
+  const equalShare = 1 / validMenus.length;
+  const rawShares = validMenus.map(menu =>
+    typeof menu.mixShare === 'number' && isFinite(menu.mixShare) && menu.mixShare >= 0 ? menu.mixShare : equalShare
+  );
+  const total = rawShares.reduce((sum, share) => sum + share, 0);
+
+  validMenus.forEach((menu, index) => {
+    mix[menu.id] = total > 0 ? rawShares[index] / total : equalShare;
+  });
+  return mix;
+}
+
+const percentFactor = (deltaPercent?: number): number => {
+  return typeof deltaPercent === 'number' && isFinite(deltaPercent) ? 1 + deltaPercent / 100 : 1;
+};
+
+// Derive an adjusted copy of the model for a scenario. The input is never mutated,
+// so the base data stays authoritative for persistence and editing.
+export function applyScenarioDeltas(data: FinanceData, deltas: Scenario['deltas'] = {}): FinanceData {
+  if (!data) return data;
+
+  const priceFactor = percentFactor(deltas.menuPriceDeltaPercent);
+  const ingredientFactor = percentFactor(deltas.ingredientCostDeltaPercent);
+  const electricFactor = percentFactor(deltas.electricRateDeltaPercent);
+  const productivityFactor = percentFactor(deltas.laborProductivityDeltaPercent);
+  const wasteFactor = percentFactor(deltas.wasteDeltaPercent);
+
+  return {
+    ...data,
+    menus: Array.isArray(data.menus)
+      ? data.menus.map((menu: MenuItem) => ({
+          ...(typeof menu.price === 'number' && priceFactor !== 1 ? repriceMenu(menu, menu.price * priceFactor) : menu),
+          bom: Array.isArray(menu.bom)
+            ? menu.bom.map((bomItem: BOMItem) => {
+                // Packaging lines are not ingredients and carry no waste
+                if (bomItem.packaging) return { ...bomItem };
+                return {
+                  ...scaleIngredientPrice(bomItem, ingredientFactor),
+                  wastePercent: bomItem.wastePercent * wasteFactor
+                };
+              })
+            : menu.bom
+        }))
+      : data.menus,
+    utilities: Array.isArray(data.utilities)
+      ? data.utilities.map((utility: UtilityItem) =>
+          utility.type === 'electric' && typeof utility.ratePerKwh === 'number'
+            ? { ...utility, ratePerKwh: utility.ratePerKwh * electricFactor }
+            : { ...utility }
+        )
+      : data.utilities,
+    // Higher productivity means the same output needs fewer direct labor hours
+    labor: Array.isArray(data.labor)
+      ? data.labor.map((labor: LaborItem) =>
+          labor.type === 'direct' && productivityFactor > 0
+            ? { ...labor, hoursPerDay: labor.hoursPerDay / productivityFactor }
+            : { ...labor }
+        )
+      : data.labor
+  };
+}
+
 export class FinanceEngine {
-  private data: any = {};
+  private data!: FinanceData;
   private scenarios: Record<string, Scenario> = {};
 
   constructor() {
@@ -109,6 +413,8 @@ export class FinanceEngine {
       meta: {
         currency: 'THB',
         vatPercent: 7,
+        vatRegistered: false,
+        pricesIncludeVat: true,
         openDays: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
         operatingHours: { open: '07:00', close: '15:00' }
       },
@@ -210,9 +516,21 @@ export class FinanceEngine {
       fixedCosts: [
         { id: 'rent', name: 'ค่าเช่า', amountPerMonth: 0 },
         { id: 'internet', name: 'อินเทอร์เน็ต', amountPerMonth: 700 },
-        { id: 'maintenance', name: 'ซ่อมบำรุง', amountPerMonth: 1000 },
-        { id: 'depreciation', name: 'ค่าเสื่อมราคา', amountPerMonth: 1500 }
-      ]
+        { id: 'maintenance', name: 'ซ่อมบำรุง', amountPerMonth: 1000 }
+      ],
+      assets: [
+        {
+          id: 'kitchen_equipment',
+          name: 'อุปกรณ์ครัว',
+          category: 'equipment',
+          purchaseDate: `${new Date().getFullYear()}-01-01`,
+          cost: 90000,
+          usefulLifeYears: 5,
+          salvageValue: 0,
+          method: 'straightLine'
+        }
+      ],
+      loans: []
     };
 
     this.scenarios = {
@@ -228,32 +546,54 @@ export class FinanceEngine {
     };
   }
 
-  compute(): any {
+  compute(scenarioId: string = 'base'): ComputationResult {
     try {
       // Validate data before computation
       if (!this.validateData()) {
         console.error('Data validation failed');
-        return this.getDefaultComputationResult();
+        return this.getDefaultComputationResult(scenarioId);
       }
 
-      const pnl = this.calculatePnL();
-      const kpis = this.calculateKPIs(pnl);
-      const menus = this.calculateMenuMetrics();
+      const scenario = this.scenarios[scenarioId];
+      if (!scenario && scenarioId !== 'base') {
+        console.warn(`Unknown scenario "${scenarioId}", computing base data`);
+      }
+      const data = this.getScenarioData(scenarioId);
+
+      const pnl = this.calculatePnL(data);
+      const kpis = this.calculateKPIs(pnl, data);
+      const menus = this.calculateMenuMetrics(data);
+      const multiYear = this.calculateMultiYearProjection(data);
       
       return {
         pnl,
         kpis,
         menus,
-        sensitivity: this.calculateSensitivity(),
+        menuEngineering: analyzeMenuEngineering(menus),
+        sensitivity: this.calculateSensitivity(data),
+        multiYear,
+        appraisal: this.calculateAppraisal(data, multiYear),
+        scenarioId: scenario ? scenario.id : 'base',
         computedAt: new Date().toISOString(),
         dataVersion: this.getDataVersion()
       };
         } catch (e: unknown) {
       console.error('Failed to load stored data:', e instanceof Error ? e.message : String(e));
-      return this.getDefaultComputationResult();
+      return this.getDefaultComputationResult(scenarioId);
     }
   }
 
+  // Adjusted copy of the current data with catalog prices filled in, in the reporting
+  // currency, with the scenario's deltas applied
+  getScenarioData(scenarioId: string = 'base'): FinanceData {
+    const data = convertToReportingCurrency(resolveIngredients(this.data));
+    const scenario = this.scenarios[scenarioId];
+    if (!scenario || !scenario.deltas) {
+      return data;
+    }
+    return applyScenarioDeltas(data, scenario.deltas);
+  }
+
   private validateData(): boolean {
     try {
       // Check if essential data exists
@@ -287,17 +627,34 @@ export class FinanceEngine {
     }
   }
 
-  private getDefaultComputationResult(): any {
+  private getDefaultComputationResult(scenarioId: string = 'base'): ComputationResult {
     return {
       pnl: {
-        daily: { revenue: 0, cogs: 0, grossProfit: 0, operatingExpenses: 0, operatingProfit: 0 },
-        monthly: { revenue: 0, cogs: 0, grossProfit: 0, operatingExpenses: 0, operatingProfit: 0 }
+        daily: { revenue: 0, channelFees: 0, netRevenue: 0, cogs: 0, grossProfit: 0, operatingExpenses: 0, depreciation: 0, operatingProfit: 0, disposalGain: 0, interest: 0, preTaxProfit: 0, taxExpense: 0, netProfit: 0, vat: buildVatPosition(0, 0) },
+        monthly: { revenue: 0, channelFees: 0, netRevenue: 0, cogs: 0, grossProfit: 0, operatingExpenses: 0, depreciation: 0, operatingProfit: 0, disposalGain: 0, interest: 0, preTaxProfit: 0, taxExpense: 0, netProfit: 0, vat: buildVatPosition(0, 0) },
+        channels: [],
+        calendar: buildOperatingCalendar(null),
+        breakEven: calculateBreakEven({ menus: [], fixedCostsPerMonth: 0, openDaysPerMonth: 0, itemsPerCustomer: 1 }),
+        projection: [],
+        annual: { openDays: 0, units: 0, revenue: 0, channelFees: 0, netRevenue: 0, cogs: 0, grossProfit: 0, operatingExpenses: 0, depreciation: 0, operatingProfit: 0, disposalGain: 0, interest: 0, preTaxProfit: 0, taxExpense: 0, netProfit: 0, principalRepayment: 0, loanProceeds: 0, outputVat: 0, inputVat: 0, netVatPayable: 0 },
+        tax: estimateIncomeTax(0, 0),
+        cashFlow: buildCashFlowStatement([], getCashFlowSettings(null)),
+        workingCapital: { ...calculateWorkingCapital({ channelSales: [], ingredientPurchases: [] }), volumeSensitivity: [] }
       },
+      multiYear: { settings: getMultiYearSettings(null), years: [], months: [] },
+      appraisal: appraiseInvestment(0, [], getAppraisalSettings(null)),
       kpis: this.getDefaultFinancialMetrics(),
       menus: [],
-      sensitivity: { variable: 'ingredient_cost', series: [] },
+      menuEngineering: analyzeMenuEngineering([]),
+      sensitivity: {
+        baseOperatingProfit: 0,
+        range: { ...DEFAULT_SENSITIVITY_OPTIONS },
+        drivers: [],
+        tornado: []
+      },
       computedAt: new Date().toISOString(),
       dataVersion: this.getDataVersion(),
+      scenarioId: this.scenarios[scenarioId] ? scenarioId : 'base',
       error: 'Computation failed due to invalid data'
     };
   }
@@ -312,144 +669,586 @@ export class FinanceEngine {
     }
   }
 
-  private calculatePnL(): any {
-    const dailyRevenue = this.calculateDailyRevenue();
-    const dailyCOGS = this.calculateDailyCOGS();
-    const monthlyFixedCosts = this.calculateMonthlyFixedCosts();
-    const monthlyLaborCosts = this.calculateMonthlyLaborCosts();
-    const monthlyUtilityCosts = this.calculateMonthlyUtilityCosts();
+  // Daily figures are per open day; monthly figures are an average month of the
+  // plan-year calendar (open days per month, no seasonality). Volume factors flex
+  // each month of the projection for growth and ramp-up.
+  private calculatePnL(data: FinanceData = this.data, volumeFactors: number[] = []): PnLResult {
+    const calendar = buildOperatingCalendar(data);
+    const openDaysPerMonth = calendar.avgOpenDaysPerMonth;
+    const menuLines = this.calculateMenuChannelLines(data);
+    const channels = this.calculateChannelPnL(data, menuLines);
+    const dailyRevenue = this.calculateDailyRevenue(data, channels);
+    const dailyChannelFees = channels.reduce((total, channel) => total + channel.fees, 0);
+    const dailyNetRevenue = dailyRevenue - dailyChannelFees;
+    const dailyCOGS = this.calculateDailyCOGS(data);
+    const monthlyFixedCosts = this.calculateMonthlyFixedCosts(data);
+    const dailyLaborCosts = this.calculateDailyLaborCosts(data, calendar);
+    const dailyUtilityCosts = this.calculateDailyUtilityCosts(data);
+    const yearDepreciation = buildYearDepreciation(getAssets(data), calendar.year);
+    const monthlyDepreciation = yearDepreciation.totalDepreciation / 12;
+    const monthlyOperatingExpenses = monthlyFixedCosts + monthlyDepreciation + (dailyLaborCosts + dailyUtilityCosts) * openDaysPerMonth;
+
+    const dailyOutputVat = channels.reduce((total, channel) => total + channel.outputVat, 0);
+    const dailyInputVat = this.calculateDailyInputVat(data);
+
+    const grossProfitDaily = dailyNetRevenue - dailyCOGS;
+    const operatingExpensesDaily = openDaysPerMonth > 0 ? monthlyOperatingExpenses / openDaysPerMonth : 0;
+    const grossProfitMonthly = grossProfitDaily * openDaysPerMonth;
+    const operatingProfitMonthly = grossProfitMonthly - monthlyOperatingExpenses;
+    const yearFinancing = buildYearFinancing(getLoans(data), calendar.year);
+    const monthlyInterest = yearFinancing.totalInterest / 12;
+    const breakEven = this.calculateBreakEven(data, calendar, menuLines, monthlyOperatingExpenses);
+
+    const { projection, annual } = this.calculateProjection(calendar, data, {
+      units: channels.reduce((total, channel) => total + channel.units, 0),
+      revenue: dailyRevenue,
+      channelFees: dailyChannelFees,
+      cogs: dailyCOGS,
+      openDayCosts: dailyLaborCosts + dailyUtilityCosts,
+      outputVat: dailyOutputVat,
+      salesInputVat: dailyInputVat.cogs,
+      openDayInputVat: dailyInputVat.utilities
+    }, monthlyFixedCosts, yearFinancing, volumeFactors, yearDepreciation);
+
+    // Income tax is assessed on the plan year and spread evenly over the months
+    const tax: TaxEstimate = estimateIncomeTax(annual.revenue, annual.preTaxProfit, getTaxSettings(data));
+    const monthlyTax = tax.taxPayable / 12;
+    projection.forEach(month => {
+      month.taxExpense = monthlyTax;
+      month.netProfit = month.preTaxProfit - monthlyTax;
+    });
+    annual.taxExpense = tax.taxPayable;
+    annual.netProfit = annual.preTaxProfit - tax.taxPayable;
+
+    const receiptsPerDay = (channel: ChannelPnL) => channel.revenue + channel.outputVat - channel.fees;
+    const deliveryChannels = channels.filter(channel => channel.channel === 'delivery');
+    const storeChannels = channels.filter(channel => channel.channel !== 'delivery');
+    const workingCapital = this.calculateWorkingCapital(data, calendar, projection, channels);
+    // Cash-flow timing follows the working capital terms; in-store channels are weighted by sales
+    const storeTerms = workingCapital.channels.filter(channel => channel.channel !== 'delivery');
+    const storeDailyAmount = storeTerms.reduce((total, channel) => total + channel.dailyAmount, 0);
+    const storeReceivables = storeTerms.reduce((total, channel) => total + channel.receivables, 0);
+
+    const cashFlow = this.calculateCashFlow(data, calendar, projection, {
+      storeSales: storeChannels.reduce((total, channel) => total + receiptsPerDay(channel), 0),
+      deliverySales: deliveryChannels.reduce((total, channel) => total + receiptsPerDay(channel), 0),
+      purchases: dailyCOGS + dailyInputVat.cogs,
+      payroll: dailyLaborCosts,
+      utilities: dailyUtilityCosts + dailyInputVat.utilities
+    }, monthlyFixedCosts, {
+      storeReceivableDays: storeDailyAmount > 0 ? storeReceivables / storeDailyAmount : 0,
+      deliveryPayoutDays: workingCapital.channels.find(channel => channel.channel === 'delivery')?.receivableDays || 0,
+      supplierPaymentDays: workingCapital.payableDays
+    });
 
-    const grossProfitDaily = dailyRevenue - dailyCOGS;
-    const operatingExpensesDaily = (monthlyFixedCosts + monthlyLaborCosts + monthlyUtilityCosts) / 30;
+    const perOpenDay = (monthlyAmount: number) => (openDaysPerMonth > 0 ? monthlyAmount / openDaysPerMonth : 0);
     const operatingProfitDaily = grossProfitDaily - operatingExpensesDaily;
+    // The annual tax includes tax on disposal gains, so the average month carries the gains too
+    const monthlyDisposalGain = annual.disposalGain / 12;
+    const preTaxProfitMonthly = operatingProfitMonthly + monthlyDisposalGain - monthlyInterest;
+    const preTaxProfitDaily = perOpenDay(preTaxProfitMonthly);
 
     return {
       daily: {
         revenue: dailyRevenue,
+        channelFees: dailyChannelFees,
+        netRevenue: dailyNetRevenue,
         cogs: dailyCOGS,
         grossProfit: grossProfitDaily,
         operatingExpenses: operatingExpensesDaily,
-        operatingProfit: operatingProfitDaily
+        depreciation: perOpenDay(monthlyDepreciation),
+        operatingProfit: operatingProfitDaily,
+        disposalGain: perOpenDay(monthlyDisposalGain),
+        interest: perOpenDay(monthlyInterest),
+        preTaxProfit: preTaxProfitDaily,
+        taxExpense: perOpenDay(monthlyTax),
+        netProfit: preTaxProfitDaily - perOpenDay(monthlyTax),
+        vat: buildVatPosition(dailyOutputVat, dailyInputVat.cogs + dailyInputVat.utilities)
       },
       monthly: {
-        revenue: dailyRevenue * 30,
-        cogs: dailyCOGS * 30,
-        grossProfit: grossProfitDaily * 30,
-        operatingExpenses: monthlyFixedCosts + monthlyLaborCosts + monthlyUtilityCosts,
-        operatingProfit: operatingProfitDaily * 30
+        revenue: dailyRevenue * openDaysPerMonth,
+        channelFees: dailyChannelFees * openDaysPerMonth,
+        netRevenue: dailyNetRevenue * openDaysPerMonth,
+        cogs: dailyCOGS * openDaysPerMonth,
+        grossProfit: grossProfitMonthly,
+        operatingExpenses: monthlyOperatingExpenses,
+        depreciation: monthlyDepreciation,
+        operatingProfit: operatingProfitMonthly,
+        disposalGain: monthlyDisposalGain,
+        interest: monthlyInterest,
+        preTaxProfit: preTaxProfitMonthly,
+        taxExpense: monthlyTax,
+        netProfit: preTaxProfitMonthly - monthlyTax,
+        vat: buildVatPosition(dailyOutputVat * openDaysPerMonth, (dailyInputVat.cogs + dailyInputVat.utilities) * openDaysPerMonth)
+      },
+      channels,
+      calendar,
+      breakEven,
+      projection,
+      annual,
+      tax,
+      cashFlow,
+      workingCapital
+    };
+  }
+
+  // Working capital tied up by the plan year's average calendar day of sales and purchases,
+  // with its response to changes in forecast volume
+  private calculateWorkingCapital(
+    data: FinanceData,
+    calendar: OperatingCalendar,
+    projection: MonthlyProjection[],
+    channels: ChannelPnL[] = this.calculateChannelPnL(data)
+  ): WorkingCapitalResult & { volumeSensitivity: WorkingCapitalAtVolume[] } {
+    const calendarDays = calendar.months.reduce((total, month) => total + month.daysInMonth, 0);
+    const salesDays = projection.reduce((total, month) => total + month.seasonality * month.volumeFactor * month.openDays, 0);
+    const perCalendarDay = calendarDays > 0 ? salesDays / calendarDays : 0;
+
+    const input = {
+      channelSales: channels.map(channel => ({
+        channel: channel.channel,
+        label: channel.label,
+        dailyAmount: (channel.revenue + channel.outputVat - channel.fees) * perCalendarDay
+      })),
+      ingredientPurchases: this.calculateDailyIngredientPurchases(data).map(item => ({
+        ...item,
+        dailyAmount: item.dailyAmount * perCalendarDay
+      }))
+    };
+    const settings = getWorkingCapitalSettings(data);
+
+    return {
+      ...calculateWorkingCapital(input, settings),
+      volumeSensitivity: calculateWorkingCapitalAtVolumes(input, settings)
+    };
+  }
+
+  // Monthly cash flow of the plan year. Daily sales and purchases (including VAT) follow
+  // each month's sales volume; payroll and utilities follow open days. Income tax is
+  // paid as it accrues.
+  private calculateCashFlow(
+    data: FinanceData,
+    calendar: OperatingCalendar,
+    projection: MonthlyProjection[],
+    daily: { storeSales: number; deliverySales: number; purchases: number; payroll: number; utilities: number },
+    monthlyFixedCosts: number,
+    timing: PaymentTiming
+  ): CashFlowStatement {
+    const yearCapex = buildYearCapex(getAssets(data), calendar.year);
+
+    return buildCashFlowStatement(projection.map((month, index) => {
+      const scale = month.seasonality * month.volumeFactor * month.openDays;
+      return {
+        month: month.month,
+        label: month.label,
+        year: month.year,
+        storeSales: daily.storeSales * scale,
+        deliverySales: daily.deliverySales * scale,
+        purchases: daily.purchases * scale,
+        payroll: daily.payroll * month.openDays,
+        otherExpenses: monthlyFixedCosts + daily.utilities * month.openDays,
+        netVatPayable: month.netVatPayable,
+        incomeTax: month.taxExpense,
+        interest: month.interest,
+        principalRepayment: month.principalRepayment,
+        loanProceeds: month.loanProceeds,
+        capex: yearCapex.capex[index] || 0,
+        disposalProceeds: yearCapex.disposalProceeds[index] || 0
+      };
+    }), getCashFlowSettings(data), timing);
+  }
+
+  // 12-month projection: daily sales flexed by each month's seasonality factor
+  // and multiplied by the open days in that month; labor and utilities follow open days.
+  // Interest and principal follow the loan schedules of the plan year.
+  private calculateProjection(
+    calendar: OperatingCalendar,
+    data: FinanceData,
+    daily: {
+      units: number;
+      revenue: number;
+      channelFees: number;
+      cogs: number;
+      openDayCosts: number;
+      outputVat: number;
+      salesInputVat: number;
+      openDayInputVat: number;
+    },
+    monthlyFixedCosts: number,
+    yearFinancing: YearFinancing = buildYearFinancing([], calendar.year),
+    volumeFactors: number[] = [],
+    yearDepreciation: YearDepreciation = buildYearDepreciation([], calendar.year)
+  ): { projection: MonthlyProjection[]; annual: AnnualPnL } {
+    const seasonality = data?.salesModel?.seasonality || {};
+
+    const projection: MonthlyProjection[] = calendar.months.map(({ month, label, openDays }, index) => {
+      const factor = typeof seasonality[month] === 'number' ? seasonality[month] : 1;
+      const volumeFactor = typeof volumeFactors[index] === 'number' ? volumeFactors[index] : 1;
+      const scale = factor * volumeFactor * openDays;
+      const revenue = daily.revenue * scale;
+      const channelFees = daily.channelFees * scale;
+      const netRevenue = revenue - channelFees;
+      const cogs = daily.cogs * scale;
+      const grossProfit = netRevenue - cogs;
+      const depreciation = yearDepreciation.depreciation[index] || 0;
+      const disposalGain = yearDepreciation.disposalGain[index] || 0;
+      const operatingExpenses = monthlyFixedCosts + depreciation + daily.openDayCosts * openDays;
+      const vat = buildVatPosition(daily.outputVat * scale, daily.salesInputVat * scale + daily.openDayInputVat * openDays);
+      const operatingProfit = grossProfit - operatingExpenses;
+      const interest = yearFinancing.interest[index] || 0;
+      const preTaxProfit = operatingProfit + disposalGain - interest;
+
+      return {
+        month,
+        label,
+        year: calendar.year,
+        openDays,
+        seasonality: factor,
+        volumeFactor,
+        units: daily.units * scale,
+        revenue,
+        channelFees,
+        netRevenue,
+        cogs,
+        grossProfit,
+        operatingExpenses,
+        depreciation,
+        operatingProfit,
+        disposalGain,
+        interest,
+        preTaxProfit,
+        // Tax is allocated once the annual estimate is known
+        taxExpense: 0,
+        netProfit: preTaxProfit,
+        principalRepayment: yearFinancing.principal[index] || 0,
+        loanProceeds: yearFinancing.proceeds[index] || 0,
+        ...vat
+      };
+    });
+
+    const sum = (field: keyof MonthlyProjection) =>
+      projection.reduce((total, month) => total + (month[field] as number), 0);
+
+    return {
+      projection,
+      annual: {
+        openDays: sum('openDays'),
+        units: sum('units'),
+        revenue: sum('revenue'),
+        channelFees: sum('channelFees'),
+        netRevenue: sum('netRevenue'),
+        cogs: sum('cogs'),
+        grossProfit: sum('grossProfit'),
+        operatingExpenses: sum('operatingExpenses'),
+        depreciation: sum('depreciation'),
+        operatingProfit: sum('operatingProfit'),
+        disposalGain: sum('disposalGain'),
+        interest: sum('interest'),
+        preTaxProfit: sum('preTaxProfit'),
+        taxExpense: sum('taxExpense'),
+        netProfit: sum('netProfit'),
+        principalRepayment: sum('principalRepayment'),
+        loanProceeds: sum('loanProceeds'),
+        outputVat: sum('outputVat'),
+        inputVat: sum('inputVat'),
+        netVatPayable: sum('netVatPayable')
       }
     };
   }
 
-  private calculateDailyRevenue(): number {
+  // Plan years from the plan year onwards: prices and costs escalate each year and volume
+  // follows the growth curve and ramp-up. Income tax is assessed per year.
+  private calculateMultiYearProjection(data: FinanceData = this.data): MultiYearProjection {
+    const settings = getMultiYearSettings(data);
+    const startYear = getPlanYear(data);
+    const years: YearlyProjection[] = [];
+    const months: MultiYearMonth[] = [];
+
+    for (let yearIndex = 0; yearIndex < settings.years; yearIndex++) {
+      const year = startYear + yearIndex;
+      const yearData = applyEscalation({ ...data, meta: { ...(data?.meta || {}), planYear: year } }, settings.escalation, yearIndex);
+      const volumeFactors = Array.from({ length: 12 }, (_, monthIndex) => getVolumeFactor(settings, yearIndex, monthIndex));
+      const { projection, annual } = this.calculatePnL(yearData, volumeFactors);
+
+      years.push({ ...annual, year, yearIndex });
+      projection.forEach((month: MonthlyProjection) => months.push({ ...month, yearIndex }));
+    }
+
+    return { settings, years, months };
+  }
+
+  // Appraise the initial investment against the multi-year projection. Monthly cash flow is
+  // operating profit with depreciation added back, less income tax and capex on assets bought
+  // after the opening, before any financing.
+  private calculateAppraisal(data: FinanceData = this.data, multiYear: MultiYearProjection = this.calculateMultiYearProjection(data)): AppraisalResult {
+    const settings = getAppraisalSettings(data);
+    const laterAssets = getAssetsBoughtAfterOpening(data, settings);
+    const capexByYear = new Map(multiYear.years.map(year => [year.year, buildYearCapex(laterAssets, year.year).capex]));
+    // Each projected year contributes its twelve months in calendar order
+    const monthlyCashFlows = multiYear.months.map((month, index) => ({
+      label: `${month.label} ${month.year}`,
+      cashFlow: month.operatingProfit + month.depreciation - month.taxExpense - (capexByYear.get(month.year)?.[index % 12] || 0)
+    }));
+    return appraiseInvestment(getInitialInvestment(data, settings), monthlyCashFlows, settings);
+  }
+
+  private calculateDailyRevenue(data: FinanceData = this.data, channels: ChannelPnL[] = this.calculateChannelPnL(data)): number {
+    return channels.reduce((total, channel) => total + channel.revenue, 0);
+  }
+
+  // Revenue, fees and food cost per channel, summed over menus
+  private calculateChannelPnL(data: FinanceData = this.data, menuLines: MenuChannelLines[] = this.calculateMenuChannelLines(data)): ChannelPnL[] {
+    const channels: ChannelPnL[] = SALES_CHANNELS.map(({ key, label }) => ({
+      channel: key,
+      label,
+      units: 0,
+      revenue: 0,
+      outputVat: 0,
+      fees: 0,
+      netRevenue: 0,
+      cogs: 0,
+      contribution: 0,
+      contributionPct: 0
+    }));
+
+    menuLines.forEach(({ lines }) => {
+      lines.forEach(line => {
+        const channel = channels.find(c => c.channel === line.channel);
+        if (!channel) return;
+        channel.units += line.units;
+        channel.revenue += line.revenue;
+        channel.outputVat += line.outputVat;
+        channel.fees += line.fees;
+        channel.cogs += line.cogs;
+      });
+    });
+
+    channels.forEach(channel => {
+      channel.netRevenue = channel.revenue - channel.fees;
+      channel.contribution = channel.netRevenue - channel.cogs;
+      channel.contributionPct = channel.revenue > 0 ? (channel.contribution / channel.revenue) * 100 : 0;
+    });
+
+    return channels;
+  }
+
+  // Daily sales of each menu through each channel. Dine-in and takeaway pay the card/QR
+  // payment fee; delivery pays the platform commission on its marked-up price.
+  private calculateMenuChannelLines(data: FinanceData = this.data): MenuChannelLines[] {
     // Validate sales model data
-    if (!this.data.salesModel || typeof this.data.salesModel.forecastDailyUnits !== 'number') {
-      console.warn('Invalid sales model data:', this.data.salesModel);
-      return 0;
+    if (!data || !data.salesModel || typeof data.salesModel.forecastDailyUnits !== 'number') {
+      console.warn('Invalid sales model data:', data?.salesModel);
+      return [];
     }
 
-    if (!this.data.menus || !Array.isArray(this.data.menus)) {
-      console.warn('Invalid menus data:', this.data.menus);
-      return 0;
+    if (!data.menus || !Array.isArray(data.menus)) {
+      console.warn('Invalid menus data:', data.menus);
+      return [];
     }
 
-    return this.data.menus.reduce((total: number, menu: MenuItem) => {
+    const mix = getNormalizedMenuMix(data.menus);
+    const vat = getVatSettings(data);
+    const money = getMoneySettings(data);
+    const paymentFeeRate = Math.max(0, data.salesModel.paymentFeePercent || 0) / 100;
+    const deliveryCommissionRate = Math.max(0, data.salesModel.deliveryCommissionPercent || 0) / 100;
+    const result: MenuChannelLines[] = [];
+
+    data.menus.forEach((menu: MenuItem) => {
       // Validate menu data
       if (!menu || typeof menu.price !== 'number' || !menu.channelMix) {
         console.warn('Invalid menu data:', menu);
-        return total;
+        return;
       }
 
       // Validate channel mix percentages
       const { dineIn, takeaway, delivery } = menu.channelMix;
       if (typeof dineIn !== 'number' || typeof takeaway !== 'number' || typeof delivery !== 'number') {
         console.warn('Invalid channel mix data:', menu.channelMix);
-        return total;
+        return;
       }
 
-      // Ensure channel mix percentages are not negative
-      const validDineIn = Math.max(0, dineIn);
-      const validTakeaway = Math.max(0, takeaway);
-      const validDelivery = Math.max(0, delivery);
+      const menuUnits = this.getMenuDailyUnits(menu, data, mix);
+      const variableCostPerUnit = this.getNetVariableCostPerUnit(menu, vat, money);
+      const deliveryPrice = menu.price * (1 + Math.max(0, menu.deliveryMarkupPercent || 0) / 100);
+
+      const lines = SALES_CHANNELS.map(({ key }) => {
+        // Ensure channel mix percentages are not negative
+        const units = menuUnits * Math.max(0, menu.channelMix[key]);
+        const isDelivery = key === 'delivery';
+        const price = isDelivery ? deliveryPrice : menu.price;
+        // Revenue is ex-VAT; fees are charged on what the customer pays
+        const { grossPrice, netPrice } = this.getUnitPrices(price, vat, money, !isDelivery);
+        const grossSales = units * grossPrice;
+        const revenue = units * netPrice;
+
+        return {
+          channel: key,
+          units,
+          revenue,
+          outputVat: grossSales - revenue,
+          fees: grossSales * (isDelivery ? deliveryCommissionRate : paymentFeeRate),
+          cogs: units * variableCostPerUnit
+        };
+      });
+
+      result.push({ menu, lines });
+    });
 
-      const menuUnits = this.data.salesModel.forecastDailyUnits * (validDineIn + validTakeaway + validDelivery);
-      return total + (menu.price * menuUnits);
-    }, 0);
+    return result;
+  }
+
+  // Forecast units of the menu's mix share, moved by its price elasticity when repriced
+  private getMenuDailyUnits(menu: MenuItem, data: FinanceData = this.data, mix: Record<string, number> = getNormalizedMenuMix(data?.menus)): number {
+    const forecastDailyUnits = data?.salesModel?.forecastDailyUnits || 0;
+    return forecastDailyUnits * (mix[menu?.id] || 0) * getElasticVolumeFactor(menu, getPricingSettings(data));
   }
 
-  private calculateDailyCOGS(): number {
-    return this.data.menus.reduce((total: number, menu: MenuItem) => {
-      const menuUnits = this.data.salesModel.forecastDailyUnits;
-      const variableCostPerUnit = this.calculateVariableCostPerUnit(menu);
+  private getTotalDailyUnits(data: FinanceData = this.data): number {
+    const mix = getNormalizedMenuMix(data?.menus);
+    return (data?.menus || []).reduce((total: number, menu: MenuItem) => total + (menu ? this.getMenuDailyUnits(menu, data, mix) : 0), 0);
+  }
+
+  // Food and packaging cost per day, ex-VAT when the business reclaims input VAT
+  private calculateDailyCOGS(data: FinanceData = this.data): number {
+    const mix = getNormalizedMenuMix(data.menus);
+    const vat = getVatSettings(data);
+    const money = getMoneySettings(data);
+
+    return data.menus.reduce((total: number, menu: MenuItem) => {
+      const menuUnits = this.getMenuDailyUnits(menu, data, mix);
+      const variableCostPerUnit = this.getNetVariableCostPerUnit(menu, vat, money);
       return total + (variableCostPerUnit * menuUnits);
     }, 0);
   }
 
-  private calculateVariableCostPerUnit(menu: MenuItem): number {
+  // Reclaimable input VAT per open day on food costs and utility bills
+  private calculateDailyInputVat(data: FinanceData = this.data): { cogs: number; utilities: number } {
+    const vat = getVatSettings(data);
+    if (!vat.registered) return { cogs: 0, utilities: 0 };
+
+    const mix = getNormalizedMenuMix(data.menus);
+    const money = getMoneySettings(data);
+    const cogs = (data.menus || []).reduce((total: number, menu: MenuItem) => {
+      const grossCost = this.calculateVariableCostPerUnit(menu, money);
+      return total + roundLine(getInputVat(grossCost, vat, vat.ingredientVatablePercent), money) * this.getMenuDailyUnits(menu, data, mix);
+    }, 0);
+
+    return { cogs, utilities: getInputVat(this.calculateDailyUtilityCostsGross(data), vat) };
+  }
+
+  // What the customer pays for one unit and its ex-VAT part. Cash rounding applies to
+  // prices paid at the counter, and the ex-VAT price follows from the rounded price.
+  private getUnitPrices(price: number, vat: VatSettings, money: MoneySettings, paidInCash: boolean): { grossPrice: number; netPrice: number } {
+    const grossPrice = roundLine(paidInCash ? roundCashPrice(getGrossSellingPrice(price, vat), money) : getGrossSellingPrice(price, vat), money);
+    const netPrice = roundLine(vat.pricesIncludeVat ? getNetSellingPrice(grossPrice, vat) : price, money);
+    return { grossPrice, netPrice };
+  }
+
+  private getNetVariableCostPerUnit(menu: MenuItem, vat: VatSettings, money: MoneySettings = DEFAULT_MONEY_SETTINGS): number {
+    const grossCost = this.calculateVariableCostPerUnit(menu, money);
+    return grossCost - roundLine(getInputVat(grossCost, vat, vat.ingredientVatablePercent), money);
+  }
+
+  // In line rounding scope each BOM line is rounded before the lines are added up
+  private calculateVariableCostPerUnit(menu: MenuItem, money: MoneySettings = DEFAULT_MONEY_SETTINGS): number {
     // Validate input data
     if (!menu || !menu.bom || !Array.isArray(menu.bom)) {
       console.warn('Invalid menu or BOM data:', menu);
       return 0;
     }
 
-    return menu.bom.reduce((total: number, bomItem: BOMItem) => {
-      // Validate BOM item
-      if (!bomItem) {
-        console.warn('Invalid BOM item:', bomItem);
-        return total;
-      }
+    return sumMoney(menu.bom.map((bomItem: BOMItem) => roundLine(this.calculateBomItemCost(bomItem), money)), money);
+  }
 
-      if (bomItem.packaging) {
-        // Validate packaging data
-        if (typeof bomItem.packaging.qtyUnit !== 'number' || typeof bomItem.packaging.unitCost !== 'number') {
-          console.warn('Invalid packaging data:', bomItem.packaging);
-          return total;
-        }
-        return total + (bomItem.packaging.qtyUnit * bomItem.packaging.unitCost);
-      }
-      
-      // Validate ingredient data
-      if (typeof bomItem.qtyG !== 'number' || typeof bomItem.unitCostPerKg !== 'number' ||
-          typeof bomItem.yieldPercent !== 'number' || typeof bomItem.wastePercent !== 'number') {
-        console.warn('Invalid ingredient data:', bomItem);
-        return total;
-      }
+  // Cost of one BOM line per menu unit, as purchased (including VAT)
+  private calculateBomItemCost(bomItem: BOMItem): number {
+    // Validate BOM item
+    if (!bomItem) {
+      console.warn('Invalid BOM item:', bomItem);
+      return 0;
+    }
 
-      // Prevent division by zero
-      if (bomItem.yieldPercent <= 0) {
-        console.warn('Invalid yield percentage (must be > 0):', bomItem.yieldPercent);
-        return total;
+    if (bomItem.packaging) {
+      // Validate packaging data
+      if (typeof bomItem.packaging.qtyUnit !== 'number' || typeof bomItem.packaging.unitCost !== 'number') {
+        console.warn('Invalid packaging data:', bomItem.packaging);
+        return 0;
       }
+      return bomItem.packaging.qtyUnit * bomItem.packaging.unitCost;
+    }
+    
+    // Recipe quantity in the purchase unit, grossed up for yield and waste
+    const cost = calculateIngredientCost(bomItem);
+    if (cost === null) {
+      console.warn('Invalid ingredient data or units that cannot be converted:', bomItem);
+      return 0;
+    }
+    return cost;
+  }
 
-      // Ensure waste percentage is not negative
-      const wastePercent = Math.max(0, bomItem.wastePercent);
-      
-      const effectiveYield = bomItem.yieldPercent / 100;
-      const wasteMultiplier = 1 + (wastePercent / 100);
-      
-      // Convert grams to kg and calculate actual quantity needed
-      const qtyInKg = bomItem.qtyG / 1000;
-      const actualQtyNeeded = qtyInKg * wasteMultiplier / effectiveYield;
-      
-      return total + (actualQtyNeeded * bomItem.unitCostPerKg);
-    }, 0);
+  // Purchases per catalog ingredient, or per name for lines outside the catalog
+  private calculateDailyIngredientPurchases(data: FinanceData = this.data): { key: string; name: string; dailyAmount: number }[] {
+    const mix = getNormalizedMenuMix(data?.menus);
+    const money = getMoneySettings(data);
+    const purchases = new Map<string, { key: string; name: string; dailyAmount: number }>();
+
+    (data?.menus || []).forEach((menu: MenuItem) => {
+      if (!menu || !Array.isArray(menu.bom)) return;
+      const units = this.getMenuDailyUnits(menu, data, mix);
+      menu.bom.forEach(bomItem => {
+        if (!bomItem) return;
+        const name = bomItem.item || '-';
+        const key = bomItem.ingredientId || name;
+        const purchase = purchases.get(key) || { key, name, dailyAmount: 0 };
+        purchase.dailyAmount += roundLine(this.calculateBomItemCost(bomItem), money) * units;
+        purchases.set(key, purchase);
+      });
+    });
+
+    return Array.from(purchases.values());
   }
 
-  private calculateMonthlyFixedCosts(): number {
-    return this.data.fixedCosts.reduce((total: number, cost: FixedCost) => {
+  private calculateMonthlyFixedCosts(data: FinanceData = this.data): number {
+    return (data.fixedCosts || []).reduce((total: number, cost: FixedCost) => {
       return total + cost.amountPerMonth;
     }, 0);
   }
 
-  private calculateMonthlyLaborCosts(): number {
-    return this.data.labor.reduce((total: number, labor: LaborItem) => {
-      const monthlyHours = labor.hoursPerDay * labor.daysPerWeek * 4.33; // Average weeks per month
-      return total + (labor.wagePerHour * monthlyHours);
-    }, 0);
+  // Labor cost per open day. Staff work their daysPerWeek out of the shop's open
+  // weekdays, so each open day carries that share of their daily wage.
+  private calculateDailyLaborCosts(
+    data: FinanceData = this.data,
+    calendar: OperatingCalendar = buildOperatingCalendar(data),
+    type?: LaborItem['type']
+  ): number {
+    const openDaysPerWeek = calendar.openDaysPerWeek;
+    if (openDaysPerWeek <= 0) return 0;
+
+    return (data.labor || [])
+      .filter((labor: LaborItem) => labor && (!type || labor.type === type))
+      .reduce((total: number, labor: LaborItem) => {
+        if (typeof labor.wagePerHour !== 'number' || typeof labor.hoursPerDay !== 'number') {
+          console.warn('Invalid labor data:', labor);
+          return total;
+        }
+        const attendance = Math.min(Math.max(labor.daysPerWeek || 0, 0), openDaysPerWeek) / openDaysPerWeek;
+        return total + (labor.wagePerHour * labor.hoursPerDay * attendance);
+      }, 0);
+  }
+
+  private calculateMonthlyLaborCosts(data: FinanceData = this.data, calendar: OperatingCalendar = buildOperatingCalendar(data)): number {
+    return this.calculateDailyLaborCosts(data, calendar) * calendar.avgOpenDaysPerMonth;
   }
 
-  private calculateMonthlyUtilityCosts(): number {
-    return this.data.utilities.reduce((total: number, utility: UtilityItem) => {
+  // Utility cost per open day, ex-VAT when the business reclaims input VAT
+  private calculateDailyUtilityCosts(data: FinanceData = this.data): number {
+    const grossCost = this.calculateDailyUtilityCostsGross(data);
+    return grossCost - getInputVat(grossCost, getVatSettings(data));
+  }
+
+  // Utility bills as paid, including VAT
+  private calculateDailyUtilityCostsGross(data: FinanceData = this.data): number {
+    return (data.utilities || []).reduce((total: number, utility: UtilityItem) => {
       let dailyCost = 0;
       
       if (utility.type === 'electric' && utility.kw && utility.hoursPerDay && utility.ratePerKwh) {
@@ -460,11 +1259,44 @@ export class FinanceEngine {
         dailyCost = utility.m3PerDay * utility.ratePerM3;
       }
       
-      return total + (dailyCost * 30);
+      return total + dailyCost;
     }, 0);
   }
 
-  private calculateKPIs(pnl: any): FinancialMetrics {
+  // Average monthly depreciation of the asset register over the plan year
+  private calculateMonthlyDepreciation(data: FinanceData = this.data, calendar: OperatingCalendar = buildOperatingCalendar(data)): number {
+    return buildYearDepreciation(getAssets(data), calendar.year).totalDepreciation / 12;
+  }
+
+  private calculateMonthlyUtilityCosts(data: FinanceData = this.data, calendar: OperatingCalendar = buildOperatingCalendar(data)): number {
+    return this.calculateDailyUtilityCosts(data) * calendar.avgOpenDaysPerMonth;
+  }
+
+  // Break-even on the sales mix: each menu's contribution is its revenue less channel fees
+  // and ex-VAT food cost; fixed costs are all monthly operating expenses
+  private calculateBreakEven(
+    data: FinanceData = this.data,
+    calendar: OperatingCalendar = buildOperatingCalendar(data),
+    menuLines: MenuChannelLines[] = this.calculateMenuChannelLines(data),
+    fixedCostsPerMonth: number = this.calculateMonthlyFixedCosts(data) + this.calculateMonthlyDepreciation(data, calendar) +
+      this.calculateMonthlyLaborCosts(data, calendar) + this.calculateMonthlyUtilityCosts(data, calendar)
+  ): BreakEvenResult {
+    const menus = menuLines.map(({ menu, lines }) => {
+      const units = lines.reduce((total, line) => total + line.units, 0);
+      const revenue = lines.reduce((total, line) => total + line.revenue, 0);
+      const contribution = lines.reduce((total, line) => total + line.revenue - line.fees - line.cogs, 0);
+      return { id: menu.id, name: menu.name, units, revenue, contribution };
+    });
+
+    return calculateBreakEven({
+      menus,
+      fixedCostsPerMonth,
+      openDaysPerMonth: calendar.avgOpenDaysPerMonth,
+      itemsPerCustomer: data?.salesModel?.itemsPerCustomer || 1
+    });
+  }
+
+  private calculateKPIs(pnl: PnLResult, data: FinanceData = this.data): FinancialMetrics {
     // Validate PnL data
     if (!pnl || !pnl.daily) {
       console.warn('Invalid PnL data:', pnl);
@@ -476,38 +1308,18 @@ export class FinanceEngine {
     const operatingProfit = pnl.daily.operatingProfit || 0;
     
     // Validate menus data
-    if (!this.data.menus || !Array.isArray(this.data.menus) || this.data.menus.length === 0) {
+    if (!data.menus || !Array.isArray(data.menus) || data.menus.length === 0) {
       console.warn('No menus data available for KPI calculation');
       return this.getDefaultFinancialMetrics();
     }
     
-    // Calculate weighted average contribution margin
-    const totalCM = this.data.menus.reduce((total: number, menu: MenuItem) => {
-      if (!menu || typeof menu.price !== 'number') {
-        console.warn('Invalid menu data for CM calculation:', menu);
-        return total;
-      }
-      const vc = this.calculateVariableCostPerUnit(menu);
-      const cm = menu.price - vc;
-      return total + cm;
-    }, 0);
+    // Break-even on the mix-weighted contribution margin after channel fees (ex-VAT)
+    const calendar = pnl.calendar || buildOperatingCalendar(data);
+    const breakEven: BreakEvenResult = pnl.breakEven || this.calculateBreakEven(data, calendar);
+    const bepUnits = breakEven.units;
+    const bepPerDay = breakEven.unitsPerDay;
     
-    const avgCM = totalCM / this.data.menus.length;
-    const monthlyFixedTotal = this.calculateMonthlyFixedCosts() + this.calculateMonthlyLaborCosts() + this.calculateMonthlyUtilityCosts();
-    
-    // Prevent division by zero
-    const bepUnits = avgCM > 0 ? monthlyFixedTotal / avgCM : 0;
-    const bepPerDay = bepUnits / 30;
-    
-    const directLaborCost = this.data.labor
-      .filter((l: LaborItem) => l && l.type === 'direct')
-      .reduce((total: number, labor: LaborItem) => {
-        if (!labor || typeof labor.wagePerHour !== 'number' || typeof labor.hoursPerDay !== 'number') {
-          console.warn('Invalid labor data:', labor);
-          return total;
-        }
-        return total + (labor.wagePerHour * labor.hoursPerDay);
-      }, 0);
+    const directLaborCost = this.calculateDailyLaborCosts(data, calendar, 'direct');
     
     const foodCost = pnl.daily.cogs || 0;
     const primeCost = foodCost + directLaborCost;
@@ -517,14 +1329,10 @@ export class FinanceEngine {
     const foodCostPct = revenue > 0 ? (foodCost / revenue) * 100 : 0;
     const laborPct = revenue > 0 ? (directLaborCost / revenue) * 100 : 0;
     
-    // Calculate CM percentage based on average menu price
-    const avgMenuPrice = this.data.menus.reduce((sum: number, menu: MenuItem) => {
-      return sum + (menu?.price || 0);
-    }, 0) / this.data.menus.length;
-    const cmPct = avgMenuPrice > 0 ? (avgCM / avgMenuPrice) * 100 : 0;
+    const cmPct = breakEven.contributionMarginPercent;
     
     // Calculate safety margin
-    const forecastUnits = this.data.salesModel?.forecastDailyUnits || 0;
+    const forecastUnits = this.getTotalDailyUnits(data);
     const safetyMargin = forecastUnits > 0 ? ((forecastUnits - bepPerDay) / forecastUnits) * 100 : 0;
     const avgTicket = forecastUnits > 0 ? revenue / forecastUnits : 0;
     
@@ -532,13 +1340,15 @@ export class FinanceEngine {
       revenue,
       grossProfit,
       operatingProfit,
-      netProfit: operatingProfit, // Simplified for now
+      netProfit: typeof pnl.daily.netProfit === 'number' ? pnl.daily.netProfit : operatingProfit,
       primeCostPct,
       foodCostPct,
       laborPct,
       cmPct,
       bepUnits,
       bepPerDay,
+      bepRevenue: breakEven.revenue,
+      bepCustomersPerDay: breakEven.customersPerDay,
       safetyMargin,
       avgTicket
     };
@@ -556,40 +1366,42 @@ export class FinanceEngine {
       cmPct: 0,
       bepUnits: 0,
       bepPerDay: 0,
+      bepRevenue: 0,
+      bepCustomersPerDay: 0,
       safetyMargin: 0,
       avgTicket: 0
     };
   }
 
-  private calculateMenuMetrics(): any[] {
-    return this.data.menus.map((menu: MenuItem) => {
-      const vc = this.calculateVariableCostPerUnit(menu);
-      const cm = menu.price - vc;
-      const cmPct = (cm / menu.price) * 100;
+  private calculateMenuMetrics(data: FinanceData = this.data): MenuMetrics[] {
+    const mix = getNormalizedMenuMix(data.menus);
+    const vat = getVatSettings(data);
+    const money = getMoneySettings(data);
+
+    return data.menus.map((menu: MenuItem) => {
+      // Margins are stated ex-VAT at the in-store price; price stays as entered on the menu
+      const { netPrice } = this.getUnitPrices(menu.price, vat, money, true);
+      const vc = this.getNetVariableCostPerUnit(menu, vat, money);
+      const cm = netPrice - vc;
+      const cmPct = (cm / netPrice) * 100;
       
       return {
         id: menu.id,
         name: menu.name,
         price: menu.price,
+        netPrice,
         vc,
         cm,
-        cmPct
+        cmPct,
+        mixShare: mix[menu.id] || 0,
+        dailyUnits: this.getMenuDailyUnits(menu, data, mix)
       };
     });
   }
 
-  private calculateSensitivity(): any {
-    // Simplified sensitivity analysis
-    return {
-      variable: 'ingredient_cost',
-      series: [
-        { change: -10, impact: 15 },
-        { change: -5, impact: 7.5 },
-        { change: 0, impact: 0 },
-        { change: 5, impact: -7.5 },
-        { change: 10, impact: -15 }
-      ]
-    };
+  private calculateSensitivity(data: FinanceData = this.data): SensitivityResult {
+    const options = { ...DEFAULT_SENSITIVITY_OPTIONS, ...(data?.meta?.sensitivity || {}) };
+    return runSensitivityAnalysis(data, (flexed: FinanceData) => this.calculatePnL(flexed).monthly.operatingProfit, options);
   }
 
   // Data management methods
@@ -606,8 +1418,9 @@ export class FinanceEngine {
     }
   }
 
-  load(data: any): void {
+  load(data: FinanceData, scenarios: Record<string, Scenario> = this.scenarios): void {
     this.data = data;
+    this.scenarios = scenarios;
   }
 
   private loadFromStorage(): void {
@@ -616,7 +1429,7 @@ export class FinanceEngine {
     
     if (stored) {
       try {
-        this.data = JSON.parse(stored);
+        this.data = migrateStoredData(JSON.parse(stored));
       } catch (e: unknown) {
         console.error('Failed to load stored data:', e instanceof Error ? e.message : String(e));
       }
@@ -668,7 +1481,7 @@ export class FinanceEngine {
       };
 
       try {
-        this.data = imported.data;
+        this.data = migrateStoredData(imported.data);
         this.scenarios = imported.scenarios;
         
         // Validate imported data
@@ -694,7 +1507,7 @@ export class FinanceEngine {
   }
 
   // Getters for components
-  getData(): any {
+  getData(): FinanceData {
     return this.data;
   }
 
@@ -702,6 +1515,57 @@ export class FinanceEngine {
     return this.scenarios;
   }
 
+  // Appraisal of each scenario side by side
+  compareScenarioAppraisals(scenarioIds: string[] = ['base', ...Object.keys(this.scenarios).filter(id => id !== 'base')]): ScenarioAppraisal[] {
+    return scenarioIds.map(scenarioId => ({
+      scenarioId,
+      name: this.scenarios[scenarioId]?.name || scenarioId,
+      appraisal: this.calculateAppraisal(this.getScenarioData(scenarioId))
+    }));
+  }
+
+  // Distribution of annual net profit with the uncertain drivers sampled from their distributions
+  runMonteCarlo(scenarioId: string = 'base', settings: MonteCarloSettings = getMonteCarloSettings(this.data)): MonteCarloResult {
+    const run = this.createMonteCarloRun(scenarioId, settings);
+    run.step(run.total);
+    return run.result();
+  }
+
+  // The same simulation advanced in chunks, for progress reporting from the compute worker
+  createMonteCarloRun(scenarioId: string = 'base', settings: MonteCarloSettings = getMonteCarloSettings(this.data)): MonteCarloRun {
+    return createMonteCarloRun(
+      this.getScenarioData(scenarioId),
+      (sampled: FinanceData) => this.calculatePnL(sampled).annual.netProfit,
+      settings
+    );
+  }
+
+  // Profit-maximizing price of one menu within the pricing bounds
+  optimizeMenuPrice(menuId: string, scenarioId: string = 'base'): PriceOptimization | null {
+    return optimizeMenuPrice(
+      this.getScenarioData(scenarioId),
+      menuId,
+      (repriced: FinanceData) => this.calculatePnL(repriced).monthly.operatingProfit
+    );
+  }
+
+  // Driver value that meets a target; the target defaults to the saved financial targets
+  goalSeek(
+    driver: GoalSeekDriverKey,
+    target: GoalSeekTargetKey,
+    targetValue?: number,
+    scenarioId: string = 'base'
+  ): GoalSeekResult<FinancialMetrics> {
+    const data = this.getScenarioData(scenarioId);
+    const setting = GOAL_SEEK_TARGETS.find(item => item.key === target)?.setting;
+    const value = typeof targetValue === 'number' ? targetValue : setting ? getFinancialTargets(this.data)[setting] : 0;
+
+    return goalSeek(data, (flexed: FinanceData) => {
+      const pnl = this.calculatePnL(flexed);
+      return { monthlyOperatingProfit: pnl.monthly.operatingProfit, kpis: this.calculateKPIs(pnl, flexed) };
+    }, driver, target, value);
+  }
+
   updateMenu(menuId: string, updates: Partial<MenuItem>): void {
     const menuIndex = this.data.menus.findIndex((m: MenuItem) => m.id === menuId);
     if (menuIndex >= 0) {
@@ -741,6 +1605,20 @@ export class FinanceEngine {
     }
   }
 
+  // Set several menus' mix shares at once (menuId -> share 0-1)
+  updateMenuMix(mix: Record<string, number>): void {
+    if (!Array.isArray(this.data.menus)) return;
+    this.data.menus = this.data.menus.map((menu: MenuItem) =>
+      typeof mix[menu.id] === 'number' ? { ...menu, mixShare: mix[menu.id] } : menu
+    );
+    this.save();
+  }
+
+  updateMeta(updates: Partial<FinanceMeta>): void {
+    this.data.meta = { ...this.data.meta, ...updates };
+    this.save();
+  }
+
   updateSalesModel(updates: Partial<SalesModel>): void {
     this.data.salesModel = { ...this.data.salesModel, ...updates };
     this.save();
@@ -760,4 +1638,46 @@ export class FinanceEngine {
     this.data.fixedCosts = fixedCosts;
     this.save();
   }
-}
\ No newline at end of file
+
+  updateAssets(assets: FixedAsset[]): void {
+    this.data.assets = assets;
+    this.save();
+  }
+
+  updateLoans(loans: Loan[]): void {
+    this.data.loans = loans;
+    this.save();
+  }
+
+  updateFxRates(fxRates: FxRate[]): void {
+    this.data.fxRates = fxRates;
+    this.save();
+  }
+
+  updateIngredients(ingredients: Ingredient[]): void {
+    this.data.ingredients = ingredients;
+    this.save();
+  }
+
+  linkBomToCatalog(): void {
+    this.data = linkBomToCatalog(this.data);
+    this.save();
+  }
+}
+
+// Saved or imported data brought up to the current model
+function migrateStoredData(data: FinanceData): FinanceData {
+  return migrateBomToCatalog(migrateLegacyDepreciation(data));
+}
+// Engine over the given model that is never loaded from or saved to localStorage,
+// for scripts, Node and the compute worker
+export function createFinanceEngine(data: FinanceData, scenarios: Record<string, Scenario> = {}): FinanceEngine {
+  const engine = new FinanceEngine();
+  engine.load(migrateStoredData(data), scenarios);
+  return engine;
+}
+
+// Compute a model without the app's persistence; the input data is not mutated
+export function computeFinance(data: FinanceData, options: ComputeOptions = {}): ComputationResult {
+  return createFinanceEngine(data, options.scenarios).compute(options.scenarioId);
+}
@@ -0,0 +1,18 @@
+// Fixed costs: the rows of the fixed cost list that analyses treat on their own
+
+import { FixedCost } from './finance-engine';
+
+// Rent is the default row with id 'rent' or any row named as rent ("ค่าเช่าร้าน", "Shop rental"),
+// so a rent line the user added in place of the default one is still found
+export function isRentCost(cost: FixedCost | null | undefined): boolean {
+  if (!cost) return false;
+  const name = typeof cost.name === 'string' ? cost.name : '';
+  return cost.id === 'rent' || name.includes('เช่า') || /\brent/i.test(name);
+}
+
+// Copy of the fixed costs with every rent row scaled by a factor
+export function scaleRentCosts(fixedCosts: FixedCost[] | undefined, factor: number): FixedCost[] {
+  return (fixedCosts || []).map(cost =>
+    isRentCost(cost) ? { ...cost, amountPerMonth: cost.amountPerMonth * factor } : cost
+  );
+}
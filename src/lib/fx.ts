@@ -0,0 +1,163 @@
+// Foreign currencies: items priced in another currency are converted into the reporting
+// currency (meta.currency) with a user-maintained table of dated exchange rates
+
+import { getPlanYear } from './calendar';
+import { FinanceData, StoredFinanceData } from './finance-engine';
+
+export interface FxRate {
+  id: string;
+  // ISO 4217 code of the foreign currency
+  currency: string;
+  // Units of the reporting currency for one unit of `currency`
+  rate: number;
+  // ISO date (YYYY-MM-DD) from which the rate applies
+  effectiveDate: string;
+}
+
+export const DEFAULT_REPORTING_CURRENCY = 'THB';
+
+export const CURRENCIES: { code: string; label: string }[] = [
+  { code: 'THB', label: 'บาทไทย (THB)' },
+  { code: 'USD', label: 'ดอลลาร์สหรัฐ (USD)' },
+  { code: 'EUR', label: 'ยูโร (EUR)' },
+  { code: 'JPY', label: 'เยนญี่ปุ่น (JPY)' },
+  { code: 'CNY', label: 'หยวนจีน (CNY)' },
+  { code: 'SGD', label: 'ดอลลาร์สิงคโปร์ (SGD)' }
+];
+
+const isIsoDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export function getReportingCurrency(data: StoredFinanceData | null | undefined): string {
+  const currency = data?.meta?.currency;
+  return typeof currency === 'string' && currency ? currency : DEFAULT_REPORTING_CURRENCY;
+}
+
+export function getFxRates(data: StoredFinanceData | null | undefined): FxRate[] {
+  return Array.isArray(data?.fxRates)
+    ? data.fxRates.filter(rate =>
+        rate && rate.id && typeof rate.currency === 'string' && typeof rate.rate === 'number' && isFinite(rate.rate) && rate.rate > 0 && isIsoDate(rate.effectiveDate)
+      )
+    : [];
+}
+
+// Date operating costs are converted at: the start of the plan year
+export function getFxValuationDate(data: StoredFinanceData | null | undefined): string {
+  return `${getPlanYear(data)}-01-01`;
+}
+
+// Rate in effect on a date: the latest one taking effect on or before it, otherwise the
+// earliest one on record. Null when the currency has no rate at all.
+export function findFxRate(rates: FxRate[], currency: string, date: string): FxRate | null {
+  const candidates = rates
+    .filter(rate => rate.currency === currency)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  if (candidates.length === 0) return null;
+
+  const effective = candidates.filter(rate => rate.effectiveDate <= date);
+  return effective.length > 0 ? effective[effective.length - 1] : candidates[0];
+}
+
+// Reporting currency units for one unit of `currency` on a date; null without a rate
+export function getFxRate(data: StoredFinanceData | null | undefined, currency: string | undefined, date: string = getFxValuationDate(data)): number | null {
+  if (!currency || currency === getReportingCurrency(data)) return 1;
+  return findFxRate(getFxRates(data), currency, date)?.rate ?? null;
+}
+
+// Amount in the reporting currency. Without a rate the amount is taken as is;
+// getMissingFxCurrencies reports those currencies.
+export function convertToReporting(amount: number, currency: string | undefined, data: StoredFinanceData | null | undefined, date?: string): number {
+  const rate = getFxRate(data, currency, date);
+  return rate === null ? amount : amount * rate;
+}
+
+// Reporting currency amount shown in another currency
+export function convertFromReporting(amount: number, currency: string, data: StoredFinanceData | null | undefined, date?: string): number {
+  const rate = getFxRate(data, currency, date);
+  return rate === null ? amount : amount / rate;
+}
+
+type Priced = { currency?: string };
+
+const isForeign = <T extends Priced>(item: T | null | undefined, reportingCurrency: string): item is T & { currency: string } =>
+  !!item && typeof item.currency === 'string' && item.currency !== '' && item.currency !== reportingCurrency;
+
+// Currencies priced on BOM lines, catalog ingredients, fixed costs and assets, other than
+// the reporting currency
+export function getForeignCurrencies(data: StoredFinanceData | null | undefined): string[] {
+  const reportingCurrency = getReportingCurrency(data);
+  const items: Priced[] = [
+    ...(Array.isArray(data?.menus) ? data.menus.flatMap(menu => (Array.isArray(menu?.bom) ? menu.bom : [])) : []),
+    ...(Array.isArray(data?.ingredients) ? data.ingredients : []),
+    ...(Array.isArray(data?.fixedCosts) ? data.fixedCosts : []),
+    ...(Array.isArray(data?.assets) ? data.assets : [])
+  ];
+  return Array.from(new Set(items.filter(item => isForeign(item, reportingCurrency)).map(item => item.currency)));
+}
+
+// Foreign currencies in use that have no rate to convert with
+export function getMissingFxCurrencies(data: StoredFinanceData | null | undefined): string[] {
+  const rates = getFxRates(data);
+  return getForeignCurrencies(data).filter(currency => !rates.some(rate => rate.currency === currency));
+}
+
+// Copy of the model with every amount in the reporting currency. BOM lines, catalog
+// ingredients and fixed costs use the rate at the start of the plan year; assets keep their
+// historical cost at the purchase date, and disposal proceeds use the disposal date. Data
+// without foreign-priced items is returned unchanged.
+export function convertToReportingCurrency(data: FinanceData): FinanceData {
+  if (getForeignCurrencies(data).length === 0) return data;
+
+  const reportingCurrency = getReportingCurrency(data);
+  const valuationDate = getFxValuationDate(data);
+  // Optional amounts stay missing
+  const convert = <A extends number | undefined>(amount: A, currency: string, date: string): A =>
+    (typeof amount === 'number' ? convertToReporting(amount, currency, data, date) : amount) as A;
+
+  return {
+    ...data,
+    menus: Array.isArray(data.menus)
+      ? data.menus.map(menu => ({
+          ...menu,
+          bom: Array.isArray(menu?.bom)
+            ? menu.bom.map(bomItem => {
+                if (!isForeign(bomItem, reportingCurrency)) return bomItem;
+                const { currency, ...line } = bomItem;
+                return {
+                  ...line,
+                  unitCostPerKg: convert(line.unitCostPerKg, currency, valuationDate),
+                  purchaseCost: convert(line.purchaseCost, currency, valuationDate),
+                  ...(line.packaging ? { packaging: { ...line.packaging, unitCost: convert(line.packaging.unitCost, currency, valuationDate) } } : {})
+                };
+              })
+            : menu?.bom
+        }))
+      : data.menus,
+    ingredients: Array.isArray(data.ingredients)
+      ? data.ingredients.map(ingredient => {
+          if (!isForeign(ingredient, reportingCurrency)) return ingredient;
+          const { currency, ...rest } = ingredient;
+          return { ...rest, price: convert(rest.price, currency, valuationDate) };
+        })
+      : data.ingredients,
+    fixedCosts: Array.isArray(data.fixedCosts)
+      ? data.fixedCosts.map(cost => {
+          if (!isForeign(cost, reportingCurrency)) return cost;
+          const { currency, ...rest } = cost;
+          return { ...rest, amountPerMonth: convert(rest.amountPerMonth, currency, valuationDate) };
+        })
+      : data.fixedCosts,
+    assets: Array.isArray(data.assets)
+      ? data.assets.map(asset => {
+          if (!isForeign(asset, reportingCurrency)) return asset;
+          const { currency, ...rest } = asset;
+          const purchaseDate = isIsoDate(rest.purchaseDate) ? rest.purchaseDate : valuationDate;
+          return {
+            ...rest,
+            cost: convert(rest.cost, currency, purchaseDate),
+            salvageValue: convert(rest.salvageValue, currency, purchaseDate),
+            disposalProceeds: convert(rest.disposalProceeds, currency, isIsoDate(rest.disposalDate) ? rest.disposalDate : purchaseDate)
+          };
+        })
+      : data.assets
+  };
+}
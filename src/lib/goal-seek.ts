@@ -0,0 +1,231 @@
+// Goal seek: solve for the value of one driver that meets a financial target
+
+import { FinanceData, StoredFinanceData } from './finance-engine';
+import { isRentCost, scaleRentCosts } from './fixed-costs';
+import { repriceMenu } from './pricing';
+import { scaleIngredientPrice } from './units';
+
+export type GoalSeekDriverKey = 'menu_price' | 'forecast_units' | 'ingredient_cost' | 'rent';
+
+export type GoalSeekTargetKey = 'operating_profit' | 'safety_margin' | 'prime_cost_pct';
+
+export interface FinancialTargets {
+  targetMonthlyProfit: number;
+  minSafetyMarginPercent: number;
+  maxPrimeCostPercent: number;
+  maxFoodCostPercent: number;
+}
+
+// KPIs the solver reads; the engine passes its full KPI set through
+export interface GoalSeekMetrics {
+  safetyMargin: number;
+  primeCostPct: number;
+  foodCostPct: number;
+  avgTicket: number;
+}
+
+export interface GoalSeekOutcome<T extends GoalSeekMetrics = GoalSeekMetrics> {
+  monthlyOperatingProfit: number;
+  kpis: T;
+}
+
+export type GoalSeekStatus = 'solved' | 'alreadyMet' | 'unreachable';
+
+export interface GoalSeekResult<T extends GoalSeekMetrics = GoalSeekMetrics> {
+  driver: GoalSeekDriverKey;
+  target: GoalSeekTargetKey;
+  targetValue: number;
+  status: GoalSeekStatus;
+  // 'minimum' when the target needs at least the solved value, 'maximum' for a ceiling
+  bound: 'minimum' | 'maximum';
+  // Driver value in its own unit (see GOAL_SEEK_DRIVERS), before and after solving.
+  // requiredValue is null when no value in the search range sits on the target.
+  baseValue: number;
+  requiredValue: number | null;
+  changePercent: number | null;
+  base: GoalSeekOutcome<T>;
+  // Outcome at the solved value, or the current outcome when the target is met
+  // across the whole search range; null when it cannot be reached
+  solution: GoalSeekOutcome<T> | null;
+}
+
+interface GoalSeekDriver {
+  key: GoalSeekDriverKey;
+  label: string;
+  unit: string;
+  // Multipliers searched, as a fraction of the current value
+  searchRange: [number, number];
+  apply: (data: FinanceData, factor: number) => FinanceData;
+  measure: (data: FinanceData, outcome: GoalSeekOutcome) => number;
+}
+
+interface GoalSeekTarget {
+  key: GoalSeekTargetKey;
+  label: string;
+  unit: string;
+  setting: keyof FinancialTargets;
+  // Non-negative when the target is met
+  gap: (outcome: GoalSeekOutcome, targetValue: number) => number;
+}
+
+export const DEFAULT_FINANCIAL_TARGETS: FinancialTargets = {
+  targetMonthlyProfit: 50000,
+  minSafetyMarginPercent: 30,
+  maxPrimeCostPercent: 60,
+  maxFoodCostPercent: 35
+};
+
+export const GOAL_SEEK_DRIVERS: GoalSeekDriver[] = [
+  {
+    key: 'menu_price',
+    label: 'ราคาเมนู (เฉลี่ยต่อจาน)',
+    unit: 'บาท',
+    searchRange: [0.01, 10],
+    apply: (data, factor) => ({
+      ...data,
+      menus: (data.menus || []).map(menu => repriceMenu(menu, menu.price * factor))
+    }),
+    measure: (_, outcome) => outcome.kpis.avgTicket
+  },
+  {
+    key: 'forecast_units',
+    label: 'ยอดขาย (จาน/วัน)',
+    unit: 'จาน/วัน',
+    searchRange: [0, 20],
+    apply: (data, factor) => ({
+      ...data,
+      salesModel: { ...data.salesModel, forecastDailyUnits: (data.salesModel?.forecastDailyUnits || 0) * factor }
+    }),
+    measure: data => data.salesModel?.forecastDailyUnits || 0
+  },
+  {
+    key: 'ingredient_cost',
+    label: 'ต้นทุนอาหาร (ต่อจาน)',
+    unit: 'บาท',
+    searchRange: [0, 10],
+    apply: (data, factor) => ({
+      ...data,
+      menus: (data.menus || []).map(menu => ({
+        ...menu,
+        bom: (menu.bom || []).map(bomItem =>
+          bomItem && !bomItem.packaging ? scaleIngredientPrice(bomItem, factor) : bomItem
+        )
+      }))
+    }),
+    measure: (_, outcome) => outcome.kpis.avgTicket * outcome.kpis.foodCostPct / 100
+  },
+  {
+    key: 'rent',
+    label: 'ค่าเช่า (ต่อเดือน)',
+    unit: 'บาท/เดือน',
+    searchRange: [0, 20],
+    apply: (data, factor) => ({ ...data, fixedCosts: scaleRentCosts(data.fixedCosts, factor) }),
+    measure: data => (data.fixedCosts || [])
+      .filter(isRentCost)
+      .reduce((total, cost) => total + (cost.amountPerMonth || 0), 0)
+  }
+];
+
+export const GOAL_SEEK_TARGETS: GoalSeekTarget[] = [
+  {
+    key: 'operating_profit',
+    label: 'กำไรจากการดำเนินงาน/เดือน',
+    unit: 'บาท',
+    setting: 'targetMonthlyProfit',
+    gap: (outcome, targetValue) => outcome.monthlyOperatingProfit - targetValue
+  },
+  {
+    key: 'safety_margin',
+    label: 'Safety Margin ขั้นต่ำ',
+    unit: '%',
+    setting: 'minSafetyMarginPercent',
+    gap: (outcome, targetValue) => outcome.kpis.safetyMargin - targetValue
+  },
+  {
+    key: 'prime_cost_pct',
+    label: 'Prime Cost สูงสุด',
+    unit: '%',
+    setting: 'maxPrimeCostPercent',
+    gap: (outcome, targetValue) => targetValue - outcome.kpis.primeCostPct
+  }
+];
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-9;
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+export function getFinancialTargets(data: StoredFinanceData | null | undefined): FinancialTargets {
+  const stored: Partial<FinancialTargets> = data?.meta?.targets || {};
+  const defaults = DEFAULT_FINANCIAL_TARGETS;
+  return {
+    targetMonthlyProfit: toNumber(stored.targetMonthlyProfit, defaults.targetMonthlyProfit),
+    minSafetyMarginPercent: toNumber(stored.minSafetyMarginPercent, defaults.minSafetyMarginPercent),
+    maxPrimeCostPercent: toNumber(stored.maxPrimeCostPercent, defaults.maxPrimeCostPercent),
+    maxFoodCostPercent: toNumber(stored.maxFoodCostPercent, defaults.maxFoodCostPercent)
+  };
+}
+
+// Bisection on the driver multiplier. The gap is assumed to move in one direction across
+// the search range; the closest value that still meets the target is returned.
+export function goalSeek<T extends GoalSeekMetrics>(
+  data: FinanceData,
+  evaluate: (data: FinanceData) => GoalSeekOutcome<T>,
+  driverKey: GoalSeekDriverKey,
+  targetKey: GoalSeekTargetKey,
+  targetValue: number
+): GoalSeekResult<T> {
+  const driver = GOAL_SEEK_DRIVERS.find(item => item.key === driverKey);
+  const target = GOAL_SEEK_TARGETS.find(item => item.key === targetKey);
+  if (!driver || !target) {
+    throw new Error(`Unknown goal seek driver "${driverKey}" or target "${targetKey}"`);
+  }
+
+  const base = evaluate(data);
+  const baseValue = driver.measure(data, base);
+  const gapAt = (factor: number) => target.gap(evaluate(driver.apply(data, factor)), targetValue);
+
+  let [low, high] = driver.searchRange;
+  let gapLow = gapAt(low);
+  const gapHigh = gapAt(high);
+  const bound = gapHigh >= gapLow ? 'minimum' : 'maximum';
+  const result = { driver: driverKey, target: targetKey, targetValue, bound, baseValue, base } as const;
+
+  if (gapLow * gapHigh > 0 || (gapLow === 0 && gapHigh === 0)) {
+    // Met across the whole search range, or out of reach at either end
+    const met = gapLow >= 0 && gapHigh >= 0;
+    return {
+      ...result,
+      status: met ? 'alreadyMet' : 'unreachable',
+      requiredValue: null,
+      changePercent: null,
+      solution: met ? base : null
+    };
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && high - low > TOLERANCE; iteration++) {
+    const mid = (low + high) / 2;
+    const gapMid = gapAt(mid);
+    if (gapLow * gapMid <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+      gapLow = gapMid;
+    }
+  }
+
+  // Take the end of the final bracket on the side where the target is met
+  const factor = bound === 'minimum' ? high : low;
+  const solvedData = driver.apply(data, factor);
+  const solution = evaluate(solvedData);
+  const requiredValue = driver.measure(solvedData, solution);
+
+  return {
+    ...result,
+    status: target.gap(base, targetValue) >= 0 ? 'alreadyMet' : 'solved',
+    requiredValue,
+    changePercent: (factor - 1) * 100,
+    solution
+  };
+}
@@ -0,0 +1,198 @@
+// Ingredient master: one catalog entry per ingredient with its purchase pack and price.
+// BOM lines reference an entry by id, so a price update reaches every menu using it.
+
+import { BOMItem, FinanceData, MenuItem, StoredFinanceData } from './finance-engine';
+import { calculateIngredientCost, getUnit, toUnitForm, UnitKey } from './units';
+
+export type IngredientCategory = 'meat' | 'seafood' | 'vegetable' | 'dry' | 'dairy' | 'sauce' | 'beverage' | 'other';
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  category: IngredientCategory;
+  // Purchase pack: `price` buys `purchaseQty` of `purchaseUnit`
+  purchaseUnit: UnitKey;
+  purchaseQty: number;
+  price: number;
+  // Currency of the price; the reporting currency when absent
+  currency?: string;
+  // Grams per millilitre, for recipes measured by volume against a price by weight
+  densityGPerMl?: number;
+  // Defaults for new BOM lines; each line keeps its own yield and waste
+  defaultYieldPercent: number;
+  defaultWastePercent: number;
+}
+
+export interface IngredientUsage {
+  menuId: string;
+  menuName: string;
+  qty: number;
+  unit: UnitKey;
+  yieldPercent: number;
+  wastePercent: number;
+  // Ingredient cost per menu unit in the ingredient's currency; null when the units do not convert
+  costPerUnit: number | null;
+}
+
+export const INGREDIENT_CATEGORIES: { key: IngredientCategory; label: string }[] = [
+  { key: 'meat', label: 'เนื้อสัตว์' },
+  { key: 'seafood', label: 'อาหารทะเล' },
+  { key: 'vegetable', label: 'ผักและผลไม้' },
+  { key: 'dry', label: 'ของแห้ง' },
+  { key: 'dairy', label: 'นมและไข่' },
+  { key: 'sauce', label: 'เครื่องปรุงและซอส' },
+  { key: 'beverage', label: 'เครื่องดื่ม' },
+  { key: 'other', label: 'อื่นๆ' }
+];
+
+export function getIngredients(data: StoredFinanceData | null | undefined): Ingredient[] {
+  return Array.isArray(data?.ingredients) ? data.ingredients : [];
+}
+
+export function findIngredient(data: StoredFinanceData | null | undefined, ingredientId: string | undefined): Ingredient | undefined {
+  if (!ingredientId) return undefined;
+  return getIngredients(data).find(ingredient => ingredient.id === ingredientId);
+}
+
+const getMenus = (data: StoredFinanceData | null | undefined): MenuItem[] => (Array.isArray(data?.menus) ? data.menus : []);
+
+// BOM line with the purchase price, name, currency and density of its catalog entry.
+// Lines without a catalog reference, or with an unknown one, are returned unchanged.
+export function resolveIngredientLine<T extends BOMItem>(line: T, ingredients: Ingredient[]): T {
+  const ingredient = line.ingredientId ? ingredients.find(entry => entry.id === line.ingredientId) : undefined;
+  if (!ingredient) return line;
+
+  const { unitCostPerKg, currency, densityGPerMl, ...rest } = line;
+  return {
+    ...rest,
+    item: ingredient.name,
+    purchaseCost: ingredient.price,
+    purchaseQty: ingredient.purchaseQty,
+    purchaseUnit: ingredient.purchaseUnit,
+    ...(ingredient.currency ? { currency: ingredient.currency } : {}),
+    ...(typeof ingredient.densityGPerMl === 'number' ? { densityGPerMl: ingredient.densityGPerMl } : {})
+  } as T;
+}
+
+// Copy of the model with catalog prices filled into the BOM lines that reference them.
+// Data without catalog references is returned unchanged.
+export function resolveIngredients(data: FinanceData): FinanceData {
+  const ingredients = getIngredients(data);
+  const menus = getMenus(data);
+  const referenced = menus.some(menu => Array.isArray(menu?.bom) && menu.bom.some(line => line?.ingredientId));
+  if (ingredients.length === 0 || !referenced) return data;
+
+  return {
+    ...data,
+    menus: menus.map(menu => ({
+      ...menu,
+      bom: Array.isArray(menu?.bom) ? menu.bom.map(line => resolveIngredientLine(line, ingredients)) : menu?.bom
+    }))
+  };
+}
+
+// Menus, recipe quantities and line costs using an ingredient ("where used")
+export function getIngredientUsage(data: StoredFinanceData | null | undefined, ingredientId: string): IngredientUsage[] {
+  const ingredients = getIngredients(data);
+  return getMenus(data).flatMap(menu =>
+    (Array.isArray(menu?.bom) ? menu.bom : [])
+      .filter(line => line?.ingredientId === ingredientId)
+      .map((line): IngredientUsage => {
+        const { qty = 0, unit = 'g' } = toUnitForm(line);
+        return {
+          menuId: menu.id,
+          menuName: menu.name,
+          qty,
+          unit,
+          yieldPercent: line.yieldPercent,
+          wastePercent: line.wastePercent,
+          costPerUnit: calculateIngredientCost(resolveIngredientLine(line, ingredients))
+        };
+      })
+  );
+}
+
+// Catalog references that do not match an entry, as "menu name: line name"
+export function getUnknownIngredientReferences(data: StoredFinanceData | null | undefined): string[] {
+  const ids = new Set(getIngredients(data).map(ingredient => ingredient.id));
+  return getMenus(data).flatMap(menu =>
+    (Array.isArray(menu?.bom) ? menu.bom : [])
+      .filter(line => line?.ingredientId && !ids.has(line.ingredientId))
+      .map(line => `${menu.name}: ${line.item || line.ingredientId}`)
+  );
+}
+
+const normalizeName = (name: unknown): string => (typeof name === 'string' ? name.trim().toLowerCase() : '');
+
+const samePrice = (ingredient: Ingredient, line: BOMItem): boolean =>
+  ingredient.price === line.purchaseCost &&
+  ingredient.purchaseQty === line.purchaseQty &&
+  ingredient.purchaseUnit === line.purchaseUnit &&
+  (ingredient.currency || '') === (line.currency || '') &&
+  ingredient.densityGPerMl === line.densityGPerMl;
+
+// Free-text BOM lines turned into catalog references. Lines with the same name and price
+// share an entry; a name seen again at another price gets an entry of its own under the
+// same name, told apart by id, so no menu's cost or line name changes. Packaging lines
+// and lines already referencing the catalog are kept.
+export function linkBomToCatalog(data: FinanceData): FinanceData {
+  if (!data || !Array.isArray(data.menus)) return data;
+
+  const ingredients: Ingredient[] = [...getIngredients(data)];
+  const nextId = () => {
+    let index = ingredients.length + 1;
+    while (ingredients.some(ingredient => ingredient.id === `ing_${index}`)) index++;
+    return `ing_${index}`;
+  };
+
+  let linked = false;
+  const menus = data.menus.map(menu => ({
+    ...menu,
+    bom: Array.isArray(menu?.bom)
+      ? menu.bom.map((line): BOMItem => {
+          if (!line || line.packaging || line.ingredientId || !normalizeName(line.item)) return line;
+          const unitLine = toUnitForm(line);
+          const purchaseUnit = unitLine.purchaseUnit;
+          if (!purchaseUnit || !getUnit(purchaseUnit)) return line;
+
+          let ingredient = ingredients.find(
+            entry => normalizeName(entry.name) === normalizeName(line.item) && samePrice(entry, unitLine)
+          );
+          if (!ingredient) {
+            ingredient = {
+              id: nextId(),
+              name: line.item.trim(),
+              category: 'other',
+              purchaseUnit,
+              purchaseQty: unitLine.purchaseQty ?? 1,
+              price: unitLine.purchaseCost ?? 0,
+              ...(line.currency ? { currency: line.currency } : {}),
+              ...(typeof line.densityGPerMl === 'number' ? { densityGPerMl: line.densityGPerMl } : {}),
+              defaultYieldPercent: line.yieldPercent,
+              defaultWastePercent: line.wastePercent
+            };
+            ingredients.push(ingredient);
+          }
+
+          linked = true;
+          return {
+            item: line.item,
+            ingredientId: ingredient.id,
+            qty: unitLine.qty,
+            unit: unitLine.unit,
+            yieldPercent: line.yieldPercent,
+            wastePercent: line.wastePercent
+          };
+        })
+      : menu?.bom
+  }));
+
+  if (!linked && Array.isArray(data.ingredients)) return data;
+  return { ...data, menus, ingredients };
+}
+
+// Moves free-text BOM lines of data saved before the ingredient master into the catalog
+export function migrateBomToCatalog(data: FinanceData): FinanceData {
+  if (!data || Array.isArray(data.ingredients)) return data;
+  return linkBomToCatalog(data);
+}
@@ -0,0 +1,149 @@
+// Loans and financing: amortization schedules, interest expense and principal repayments
+
+import { parseYearMonth } from './calendar';
+import { StoredFinanceData } from './finance-engine';
+
+export type InterestMethod = 'flat' | 'effective';
+
+export interface Loan {
+  id: string;
+  name: string;
+  principal: number;
+  annualRatePercent: number;
+  // Total term in months, including the grace period
+  termMonths: number;
+  // Interest-only months at the start of the term
+  graceMonths: number;
+  // Flat: interest on the original principal every month. Effective: interest on the
+  // outstanding balance with equal installments (reducing balance).
+  method: InterestMethod;
+  // ISO date (YYYY-MM-DD) the loan is drawn; the first installment falls in the next month
+  startDate: string;
+}
+
+export interface LoanScheduleEntry {
+  period: number;
+  year: number;
+  monthIndex: number;
+  openingBalance: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  closingBalance: number;
+}
+
+// Interest, principal and drawdowns of all loans for each month of one year
+export interface YearFinancing {
+  year: number;
+  interest: number[];
+  principal: number[];
+  proceeds: number[];
+  totalInterest: number;
+  totalPrincipal: number;
+  totalProceeds: number;
+  // Outstanding balance of all loans at the end of the year
+  closingBalance: number;
+}
+
+export const INTEREST_METHODS: { key: InterestMethod; label: string }[] = [
+  { key: 'effective', label: 'ลดต้นลดดอก (Effective rate)' },
+  { key: 'flat', label: 'ดอกเบี้ยคงที่ (Flat rate)' }
+];
+
+export function getLoans(data: StoredFinanceData | null | undefined): Loan[] {
+  return Array.isArray(data?.loans) ? data.loans.filter(loan => loan && loan.id) : [];
+}
+
+// Level installment that repays the principal over the given months at a monthly rate
+export function getAnnuityPayment(principal: number, monthlyRate: number, months: number): number {
+  if (months <= 0) return principal;
+  if (monthlyRate <= 0) return principal / months;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+export function buildLoanSchedule(loan: Loan): LoanScheduleEntry[] {
+  const start = parseYearMonth(loan?.startDate);
+  const principal = typeof loan?.principal === 'number' && loan.principal > 0 ? loan.principal : 0;
+  if (!start || principal === 0) return [];
+
+  const termMonths = Math.max(1, Math.round(loan.termMonths || 0));
+  const graceMonths = Math.min(termMonths - 1, Math.max(0, Math.round(loan.graceMonths || 0)));
+  const repaymentMonths = termMonths - graceMonths;
+  const monthlyRate = Math.max(0, loan.annualRatePercent || 0) / 100 / 12;
+  const installment = getAnnuityPayment(principal, monthlyRate, repaymentMonths);
+
+  const entries: LoanScheduleEntry[] = [];
+  let balance = principal;
+
+  for (let period = 1; period <= termMonths; period++) {
+    const ordinal = start.year * 12 + start.monthIndex + period;
+    const inGrace = period <= graceMonths;
+    const isLast = period === termMonths;
+
+    let interest: number;
+    let principalPaid: number;
+    if (loan.method === 'flat') {
+      interest = principal * monthlyRate;
+      principalPaid = inGrace ? 0 : principal / repaymentMonths;
+    } else {
+      interest = balance * monthlyRate;
+      principalPaid = inGrace ? 0 : installment - interest;
+    }
+    // The last installment clears any rounding left in the balance
+    if (isLast) principalPaid = balance;
+    principalPaid = Math.min(balance, Math.max(0, principalPaid));
+
+    entries.push({
+      period,
+      year: Math.floor(ordinal / 12),
+      monthIndex: ordinal % 12,
+      openingBalance: balance,
+      payment: interest + principalPaid,
+      interest,
+      principal: principalPaid,
+      closingBalance: balance - principalPaid
+    });
+    balance -= principalPaid;
+  }
+
+  return entries;
+}
+
+export function buildYearFinancing(loans: Loan[], year: number): YearFinancing {
+  const interest = new Array(12).fill(0);
+  const principal = new Array(12).fill(0);
+  const proceeds = new Array(12).fill(0);
+  let closingBalance = 0;
+
+  loans.forEach(loan => {
+    const start = parseYearMonth(loan.startDate);
+    const schedule = buildLoanSchedule(loan);
+    if (!start || schedule.length === 0) return;
+
+    if (start.year === year) proceeds[start.monthIndex] += loan.principal;
+    schedule.forEach(entry => {
+      if (entry.year !== year) return;
+      interest[entry.monthIndex] += entry.interest;
+      principal[entry.monthIndex] += entry.principal;
+    });
+
+    // Balance after the last installment on or before December of the year
+    if (start.year <= year) {
+      const paid = schedule.filter(entry => entry.year <= year);
+      closingBalance += paid.length > 0 ? paid[paid.length - 1].closingBalance : loan.principal;
+    }
+  });
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    year,
+    interest,
+    principal,
+    proceeds,
+    totalInterest: sum(interest),
+    totalPrincipal: sum(principal),
+    totalProceeds: sum(proceeds),
+    closingBalance
+  };
+}
@@ -0,0 +1,98 @@
+// Menu engineering: classify dishes by popularity and contribution margin
+
+export type MenuClass = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+// Per-menu figures from the engine's menu metrics
+export interface MenuEngineeringInput {
+  id: string;
+  name: string;
+  mixShare: number;
+  dailyUnits: number;
+  cm: number;
+  cmPct: number;
+}
+
+export interface MenuEngineeringItem extends MenuEngineeringInput {
+  // Share of the units actually sold, in percent
+  popularityPercent: number;
+  isPopular: boolean;
+  isHighMargin: boolean;
+  classification: MenuClass;
+}
+
+export interface MenuEngineeringResult {
+  // Mix share a dish needs to count as popular, in percent
+  popularityThresholdPercent: number;
+  // Contribution margin per unit, weighted by units sold
+  averageCM: number;
+  items: MenuEngineeringItem[];
+  counts: Record<MenuClass, number>;
+}
+
+export const MENU_CLASSES: { key: MenuClass; label: string; description: string; action: string }[] = [
+  {
+    key: 'star',
+    label: 'Star',
+    description: 'ขายดีและกำไรต่อจานสูง',
+    action: 'รักษาคุณภาพและตำแหน่งเด่นบนเมนู ทดลองขึ้นราคาเล็กน้อยได้'
+  },
+  {
+    key: 'plowhorse',
+    label: 'Plowhorse',
+    description: 'ขายดีแต่กำไรต่อจานต่ำ',
+    action: 'ลดต้นทุนสูตรหรือขนาดจาน ขึ้นราคาทีละน้อย หรือจับคู่ขายกับเมนูกำไรสูง'
+  },
+  {
+    key: 'puzzle',
+    label: 'Puzzle',
+    description: 'กำไรต่อจานสูงแต่ขายไม่ดี',
+    action: 'ย้ายไปตำแหน่งเด่น ให้พนักงานแนะนำ ปรับชื่อหรือรูปภาพ หรือทบทวนราคา'
+  },
+  {
+    key: 'dog',
+    label: 'Dog',
+    description: 'ขายไม่ดีและกำไรต่อจานต่ำ',
+    action: 'พิจารณาตัดออกจากเมนู หรือปรับสูตรใหม่ทั้งหมด'
+  }
+];
+
+// A dish is popular when it sells at least 70% of an equal share of the menu
+export const POPULARITY_RULE_PERCENT = 70;
+
+export function classifyMenu(isPopular: boolean, isHighMargin: boolean): MenuClass {
+  if (isPopular) return isHighMargin ? 'star' : 'plowhorse';
+  return isHighMargin ? 'puzzle' : 'dog';
+}
+
+export function analyzeMenuEngineering(
+  menus: MenuEngineeringInput[],
+  popularityRulePercent: number = POPULARITY_RULE_PERCENT
+): MenuEngineeringResult {
+  const counts: Record<MenuClass, number> = { star: 0, plowhorse: 0, puzzle: 0, dog: 0 };
+  const count = menus.length;
+  if (count === 0) {
+    return { popularityThresholdPercent: 0, averageCM: 0, items: [], counts };
+  }
+
+  // Popularity follows units sold, which price elasticity can move away from the planned mix
+  const totalUnits = menus.reduce((total, menu) => total + Math.max(0, menu.dailyUnits || 0), 0);
+  const shareOf = (menu: MenuEngineeringInput) =>
+    totalUnits > 0 ? Math.max(0, menu.dailyUnits || 0) / totalUnits : menu.mixShare || 0;
+  const totalShare = menus.reduce((total, menu) => total + shareOf(menu), 0);
+
+  const popularityThresholdPercent = (100 / count) * (popularityRulePercent / 100);
+  const averageCM = totalShare > 0
+    ? menus.reduce((total, menu) => total + menu.cm * shareOf(menu), 0) / totalShare
+    : menus.reduce((total, menu) => total + menu.cm, 0) / count;
+
+  const items = menus.map(menu => {
+    const popularityPercent = shareOf(menu) * 100;
+    const isPopular = popularityPercent >= popularityThresholdPercent;
+    const isHighMargin = menu.cm >= averageCM;
+    const classification = classifyMenu(isPopular, isHighMargin);
+    counts[classification]++;
+    return { ...menu, popularityPercent, isPopular, isHighMargin, classification };
+  });
+
+  return { popularityThresholdPercent, averageCM, items, counts };
+}
@@ -0,0 +1,114 @@
+// Money rounding: amounts are rounded in whole minor units (satang at 2 decimal places)
+// so sums and exports do not show floating point drift
+
+import { StoredFinanceData } from './finance-engine';
+
+export type RoundingMethod = 'halfUp' | 'halfEven';
+
+// 'line' rounds every BOM line and unit price before they are summed;
+// 'total' keeps full precision and rounds only the reported totals
+export type RoundingScope = 'line' | 'total';
+
+// Stored under data.meta.money
+export interface MoneySettings {
+  // Display, export and line-rounding precision
+  decimalPlaces: number;
+  method: RoundingMethod;
+  scope: RoundingScope;
+  // Round in-store prices paid in cash to the nearest CASH_PRICE_STEP
+  roundCashPrices: boolean;
+}
+
+export const ROUNDING_METHODS: { key: RoundingMethod; label: string }[] = [
+  { key: 'halfUp', label: 'ปัดครึ่งขึ้น (0.5 ขึ้น)' },
+  { key: 'halfEven', label: 'ปัดแบบธนาคาร (0.5 ไปหาเลขคู่)' }
+];
+
+export const ROUNDING_SCOPES: { key: RoundingScope; label: string }[] = [
+  { key: 'total', label: 'ปัดที่ยอดรวม' },
+  { key: 'line', label: 'ปัดทุกรายการก่อนรวม' }
+];
+
+export const DECIMAL_PLACE_OPTIONS = [0, 2, 4];
+
+// Smallest coin in everyday use: 25 satang
+export const CASH_PRICE_STEP = 0.25;
+
+export const DEFAULT_MONEY_SETTINGS: MoneySettings = {
+  decimalPlaces: 2,
+  method: 'halfUp',
+  scope: 'total',
+  roundCashPrices: false
+};
+
+export function getMoneySettings(data: StoredFinanceData | null | undefined): MoneySettings {
+  const stored: Partial<MoneySettings> = data?.meta?.money || {};
+  const defaults = DEFAULT_MONEY_SETTINGS;
+  return {
+    decimalPlaces: DECIMAL_PLACE_OPTIONS.find(places => places === stored.decimalPlaces) ?? defaults.decimalPlaces,
+    method: ROUNDING_METHODS.find(option => option.key === stored.method)?.key ?? defaults.method,
+    scope: ROUNDING_SCOPES.find(option => option.key === stored.scope)?.key ?? defaults.scope,
+    roundCashPrices: typeof stored.roundCashPrices === 'boolean' ? stored.roundCashPrices : defaults.roundCashPrices
+  };
+}
+
+// Nearest integer. A value within floating point noise of a half (1.005 * 100 is
+// 100.49999999999999) counts as the half: away from zero, or to the even neighbour.
+export function roundInteger(value: number, method: RoundingMethod = 'halfUp'): number {
+  if (!isFinite(value)) return value;
+  const magnitude = Math.abs(value);
+  const floor = Math.floor(magnitude);
+  const fraction = magnitude - floor;
+  const tolerance = Math.max(1, magnitude) * 1e-9;
+
+  let rounded: number;
+  if (Math.abs(fraction - 0.5) <= tolerance) {
+    rounded = method === 'halfEven' && floor % 2 === 0 ? floor : floor + 1;
+  } else {
+    rounded = fraction > 0.5 ? floor + 1 : floor;
+  }
+  return rounded === 0 ? 0 : Math.sign(value) * rounded;
+}
+
+export function toMinorUnits(amount: number, decimalPlaces: number = 2, method: RoundingMethod = 'halfUp'): number {
+  return roundInteger(amount * Math.pow(10, decimalPlaces), method);
+}
+
+export function fromMinorUnits(units: number, decimalPlaces: number = 2): number {
+  return units / Math.pow(10, decimalPlaces);
+}
+
+export function roundMoney(amount: number, decimalPlaces: number = 2, method: RoundingMethod = 'halfUp'): number {
+  return fromMinorUnits(toMinorUnits(amount, decimalPlaces, method), decimalPlaces);
+}
+
+export function roundToStep(amount: number, step: number, method: RoundingMethod = 'halfUp'): number {
+  if (!(step > 0)) return amount;
+  // Steps like 0.1 are inexact in binary, so the product is settled on whole minor units
+  return roundMoney(roundInteger(amount / step, method) * step, 4, method);
+}
+
+// A line amount as it enters a sum: rounded in line scope, exact in total scope
+export function roundLine(amount: number, settings: MoneySettings = DEFAULT_MONEY_SETTINGS): number {
+  return settings.scope === 'line' ? roundMoney(amount, settings.decimalPlaces, settings.method) : amount;
+}
+
+// Sum of line amounts. In line scope the rounded lines are added as whole minor units,
+// so the total is exactly the sum of what each line shows.
+export function sumMoney(amounts: number[], settings: MoneySettings = DEFAULT_MONEY_SETTINGS): number {
+  if (settings.scope !== 'line') {
+    return amounts.reduce((total, amount) => total + amount, 0);
+  }
+  const units = amounts.reduce((total, amount) => total + toMinorUnits(amount, settings.decimalPlaces, settings.method), 0);
+  return fromMinorUnits(units, settings.decimalPlaces);
+}
+
+// Price a customer pays at the counter, rounded to the cash step when enabled
+export function roundCashPrice(price: number, settings: MoneySettings = DEFAULT_MONEY_SETTINGS): number {
+  return settings.roundCashPrices ? roundToStep(price, CASH_PRICE_STEP, settings.method) : price;
+}
+
+// Reported amount at the display precision
+export function roundForDisplay(amount: number, settings: MoneySettings = DEFAULT_MONEY_SETTINGS): number {
+  return roundMoney(amount, settings.decimalPlaces, settings.method);
+}
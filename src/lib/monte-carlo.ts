@@ -0,0 +1,323 @@
+// Monte Carlo simulation: sample uncertain drivers from probability distributions
+// and collect the resulting distribution of profit
+
+import { FinanceData, MenuItem, StoredFinanceData } from './finance-engine';
+import { scaleIngredientPrice } from './units';
+
+export type DistributionType = 'triangular' | 'normal' | 'uniform';
+
+export type SimulationDriverKey = 'forecast_units' | 'ingredient_price' | 'wastage' | 'delivery_share';
+
+// Parameters are changes from the current plan: percent for forecast units and ingredient
+// prices, percentage points for wastage and delivery share.
+export interface DriverDistribution {
+  enabled: boolean;
+  type: DistributionType;
+  // Triangular and uniform bounds
+  min: number;
+  max: number;
+  // Mode of the triangular distribution and mean of the normal distribution
+  mostLikely: number;
+  stdDev: number;
+}
+
+export interface MonteCarloSettings {
+  iterations: number;
+  // The same seed reproduces the same samples
+  seed: number;
+  histogramBins: number;
+  drivers: Record<SimulationDriverKey, DriverDistribution>;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+  // Share of iterations in the bin, in percent
+  percent: number;
+}
+
+export interface MonteCarloResult {
+  settings: MonteCarloSettings;
+  // Profit of the plan without any sampled change
+  baseProfit: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  lossProbabilityPercent: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  histogram: HistogramBin[];
+}
+
+interface SimulationDriver {
+  key: SimulationDriverKey;
+  label: string;
+  unit: 'percent' | 'points';
+  apply: (data: FinanceData, change: number) => FinanceData;
+}
+
+export const DISTRIBUTION_TYPES: { key: DistributionType; label: string }[] = [
+  { key: 'triangular', label: 'สามเหลี่ยม (ต่ำสุด/น่าจะเป็น/สูงสุด)' },
+  { key: 'normal', label: 'ปกติ (ค่าเฉลี่ย/ส่วนเบี่ยงเบน)' },
+  { key: 'uniform', label: 'สม่ำเสมอ (ต่ำสุด/สูงสุด)' }
+];
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  iterations: 2000,
+  seed: 12345,
+  histogramBins: 20,
+  drivers: {
+    forecast_units: { enabled: true, type: 'triangular', min: -30, mostLikely: 0, max: 15, stdDev: 10 },
+    ingredient_price: { enabled: true, type: 'triangular', min: -5, mostLikely: 0, max: 20, stdDev: 5 },
+    wastage: { enabled: true, type: 'uniform', min: 0, mostLikely: 0, max: 5, stdDev: 2 },
+    delivery_share: { enabled: true, type: 'normal', min: -10, mostLikely: 0, max: 10, stdDev: 5 }
+  }
+};
+
+const MIN_ITERATIONS = 100;
+const MAX_ITERATIONS = 20000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Move the delivery share of each menu by a number of percentage points; in-store
+// channels give up or absorb the difference in proportion to their current shares.
+const shiftDeliveryShare = (channelMix: MenuItem['channelMix'], points: number): MenuItem['channelMix'] => {
+  const dineIn = Math.max(0, channelMix?.dineIn || 0);
+  const takeaway = Math.max(0, channelMix?.takeaway || 0);
+  const delivery = clamp((channelMix?.delivery || 0) + points / 100, 0, 1);
+  const store = dineIn + takeaway;
+  const remaining = 1 - delivery;
+  return {
+    ...channelMix,
+    dineIn: store > 0 ? remaining * dineIn / store : remaining,
+    takeaway: store > 0 ? remaining * takeaway / store : 0,
+    delivery
+  };
+};
+
+export const SIMULATION_DRIVERS: SimulationDriver[] = [
+  {
+    key: 'forecast_units',
+    label: 'ยอดขาย (จาน/วัน)',
+    unit: 'percent',
+    apply: (data, change) => ({
+      ...data,
+      salesModel: {
+        ...data.salesModel,
+        forecastDailyUnits: Math.max(0, (data.salesModel?.forecastDailyUnits || 0) * (1 + change / 100))
+      }
+    })
+  },
+  {
+    key: 'ingredient_price',
+    label: 'ราคาวัตถุดิบ',
+    unit: 'percent',
+    apply: (data, change) => ({
+      ...data,
+      menus: (data.menus || []).map(menu => ({
+        ...menu,
+        bom: (menu.bom || []).map(bomItem =>
+          bomItem && !bomItem.packaging
+            ? scaleIngredientPrice(bomItem, Math.max(0, 1 + change / 100))
+            : bomItem
+        )
+      }))
+    })
+  },
+  {
+    key: 'wastage',
+    label: 'ของเสีย',
+    unit: 'points',
+    apply: (data, change) => ({
+      ...data,
+      menus: (data.menus || []).map(menu => ({
+        ...menu,
+        bom: (menu.bom || []).map(bomItem =>
+          bomItem && !bomItem.packaging && typeof bomItem.wastePercent === 'number'
+            ? { ...bomItem, wastePercent: clamp(bomItem.wastePercent + change, 0, 99) }
+            : bomItem
+        )
+      }))
+    })
+  },
+  {
+    key: 'delivery_share',
+    label: 'สัดส่วนเดลิเวอรี',
+    unit: 'points',
+    apply: (data, change) => ({
+      ...data,
+      menus: (data.menus || []).map(menu =>
+        menu && menu.channelMix ? { ...menu, channelMix: shiftDeliveryShare(menu.channelMix, change) } : menu
+      )
+    })
+  }
+];
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+const getDriverDistribution = (stored: Partial<DriverDistribution> | undefined, fallback: DriverDistribution): DriverDistribution => {
+  const type = DISTRIBUTION_TYPES.find(option => option.key === stored?.type)?.key || fallback.type;
+  const min = toNumber(stored?.min, fallback.min);
+  const max = Math.max(min, toNumber(stored?.max, fallback.max));
+  return {
+    enabled: typeof stored?.enabled === 'boolean' ? stored.enabled : fallback.enabled,
+    type,
+    min,
+    max,
+    mostLikely: type === 'triangular'
+      ? clamp(toNumber(stored?.mostLikely, fallback.mostLikely), min, max)
+      : toNumber(stored?.mostLikely, fallback.mostLikely),
+    stdDev: Math.max(0, toNumber(stored?.stdDev, fallback.stdDev))
+  };
+};
+
+export function getMonteCarloSettings(data: StoredFinanceData | null | undefined): MonteCarloSettings {
+  const stored: Partial<MonteCarloSettings> = data?.meta?.monteCarlo || {};
+  const defaults = DEFAULT_MONTE_CARLO_SETTINGS;
+  const drivers = {} as Record<SimulationDriverKey, DriverDistribution>;
+  SIMULATION_DRIVERS.forEach(({ key }) => {
+    drivers[key] = getDriverDistribution(stored.drivers?.[key], defaults.drivers[key]);
+  });
+
+  return {
+    iterations: Math.round(clamp(toNumber(stored.iterations, defaults.iterations), MIN_ITERATIONS, MAX_ITERATIONS)),
+    seed: Math.round(toNumber(stored.seed, defaults.seed)),
+    histogramBins: Math.round(clamp(toNumber(stored.histogramBins, defaults.histogramBins), 5, 50)),
+    drivers
+  };
+}
+
+// Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleDistribution(distribution: DriverDistribution, random: () => number): number {
+  const { type, min, max, mostLikely, stdDev } = distribution;
+
+  if (type === 'uniform') {
+    return min + (max - min) * random();
+  }
+
+  if (type === 'normal') {
+    // Box-Muller transform; 1 - u keeps the logarithm finite
+    const u1 = 1 - random();
+    const u2 = random();
+    return mostLikely + stdDev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  // Triangular, by inverting its cumulative distribution
+  const range = max - min;
+  if (range <= 0) return min;
+  const u = random();
+  const modeShare = (mostLikely - min) / range;
+  return u < modeShare
+    ? min + Math.sqrt(u * range * (mostLikely - min))
+    : max - Math.sqrt((1 - u) * range * (max - mostLikely));
+}
+
+// Value below which the given percent of the sorted values fall, interpolated linearly
+export function calculatePercentile(sortedValues: number[], percentile: number): number {
+  if (sortedValues.length === 0) return 0;
+  const position = (sortedValues.length - 1) * clamp(percentile, 0, 100) / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower);
+}
+
+export function buildHistogram(values: number[], binCount: number): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const bins = max > min ? Math.max(1, Math.round(binCount)) : 1;
+  const width = (max - min) / bins;
+
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, index) => ({
+    from: min + index * width,
+    to: index === bins - 1 ? max : min + (index + 1) * width,
+    count: 0,
+    percent: 0
+  }));
+  values.forEach(value => {
+    const index = width > 0 ? Math.min(bins - 1, Math.floor((value - min) / width)) : 0;
+    histogram[index].count++;
+  });
+  histogram.forEach(bin => { bin.percent = (bin.count / values.length) * 100; });
+  return histogram;
+}
+
+export interface MonteCarloRun {
+  total: number;
+  completed: () => number;
+  // Runs up to the given number of further iterations
+  step: (count: number) => void;
+  // Statistics of the iterations completed so far
+  result: () => MonteCarloResult;
+}
+
+// Simulation that can be advanced in chunks, so long runs can report progress and be
+// abandoned between chunks. The samples are the same as one uninterrupted run.
+export function createMonteCarloRun(
+  data: FinanceData,
+  evaluate: (data: FinanceData) => number,
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO_SETTINGS
+): MonteCarloRun {
+  const random = createRandom(settings.seed);
+  const drivers = SIMULATION_DRIVERS.filter(driver => settings.drivers[driver.key]?.enabled);
+  const profits: number[] = [];
+
+  const step = (count: number) => {
+    const end = Math.min(settings.iterations, profits.length + count);
+    while (profits.length < end) {
+      const sampled = drivers.reduce(
+        (flexed, driver) => driver.apply(flexed, sampleDistribution(settings.drivers[driver.key], random)),
+        data
+      );
+      profits.push(evaluate(sampled));
+    }
+  };
+
+  const result = (): MonteCarloResult => {
+    const sorted = [...profits].sort((a, b) => a - b);
+    const count = sorted.length;
+    const mean = count > 0 ? sorted.reduce((total, value) => total + value, 0) / count : 0;
+    const variance = count > 1 ? sorted.reduce((total, value) => total + (value - mean) ** 2, 0) / (count - 1) : 0;
+
+    return {
+      settings,
+      baseProfit: evaluate(data),
+      mean,
+      stdDev: Math.sqrt(variance),
+      min: count > 0 ? sorted[0] : 0,
+      max: count > 0 ? sorted[count - 1] : 0,
+      lossProbabilityPercent: count > 0 ? (sorted.filter(value => value < 0).length / count) * 100 : 0,
+      p10: calculatePercentile(sorted, 10),
+      p50: calculatePercentile(sorted, 50),
+      p90: calculatePercentile(sorted, 90),
+      histogram: buildHistogram(sorted, settings.histogramBins)
+    };
+  };
+
+  return { total: settings.iterations, completed: () => profits.length, step, result };
+}
+
+export function runMonteCarloSimulation(
+  data: FinanceData,
+  evaluate: (data: FinanceData) => number,
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO_SETTINGS
+): MonteCarloResult {
+  const run = createMonteCarloRun(data, evaluate, settings);
+  run.step(run.total);
+  return run.result();
+}
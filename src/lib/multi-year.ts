@@ -0,0 +1,138 @@
+// Multi-year projection settings: annual price and cost escalation, volume growth and
+// the ramp-up of a newly opened shop
+
+import { FinanceData, StoredFinanceData } from './finance-engine';
+import { isRentCost } from './fixed-costs';
+import { scaleIngredientPrice } from './units';
+
+// Annual escalation rates in percent per year
+export interface EscalationRates {
+  menuPrice: number;
+  ingredients: number;
+  wages: number;
+  utilities: number;
+  rent: number;
+}
+
+export interface MultiYearSettings {
+  years: number;
+  escalation: EscalationRates;
+  // Year-over-year volume growth in percent: entry i is the growth of year i + 2 over year i + 1
+  volumeGrowthPercent: number[];
+  // Months after opening before volume reaches the forecast, 0 for an established shop
+  rampUpMonths: number;
+  // Volume in the first month of the ramp-up, as a percent of the forecast
+  rampUpStartPercent: number;
+}
+
+export const MIN_PROJECTION_YEARS = 1;
+export const MAX_PROJECTION_YEARS = 5;
+
+export const DEFAULT_MULTI_YEAR_SETTINGS: MultiYearSettings = {
+  years: 3,
+  escalation: {
+    menuPrice: 3,
+    ingredients: 4,
+    wages: 5,
+    utilities: 3,
+    rent: 5
+  },
+  volumeGrowthPercent: [5, 5, 5, 5],
+  rampUpMonths: 0,
+  rampUpStartPercent: 60
+};
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+export function getMultiYearSettings(data: StoredFinanceData | null | undefined): MultiYearSettings {
+  const stored: Partial<MultiYearSettings> = data?.meta?.multiYear || {};
+  const years = Math.round(toNumber(stored.years, DEFAULT_MULTI_YEAR_SETTINGS.years));
+  const escalation: Partial<EscalationRates> = stored.escalation || {};
+  const growth = Array.isArray(stored.volumeGrowthPercent)
+    ? stored.volumeGrowthPercent
+    : DEFAULT_MULTI_YEAR_SETTINGS.volumeGrowthPercent;
+
+  return {
+    years: Math.min(MAX_PROJECTION_YEARS, Math.max(MIN_PROJECTION_YEARS, years)),
+    escalation: {
+      menuPrice: toNumber(escalation.menuPrice, DEFAULT_MULTI_YEAR_SETTINGS.escalation.menuPrice),
+      ingredients: toNumber(escalation.ingredients, DEFAULT_MULTI_YEAR_SETTINGS.escalation.ingredients),
+      wages: toNumber(escalation.wages, DEFAULT_MULTI_YEAR_SETTINGS.escalation.wages),
+      utilities: toNumber(escalation.utilities, DEFAULT_MULTI_YEAR_SETTINGS.escalation.utilities),
+      rent: toNumber(escalation.rent, DEFAULT_MULTI_YEAR_SETTINGS.escalation.rent)
+    },
+    volumeGrowthPercent: Array.from({ length: MAX_PROJECTION_YEARS - 1 }, (_, index) => toNumber(growth[index], 0)),
+    rampUpMonths: Math.max(0, Math.round(toNumber(stored.rampUpMonths, DEFAULT_MULTI_YEAR_SETTINGS.rampUpMonths))),
+    rampUpStartPercent: Math.min(100, Math.max(0, toNumber(stored.rampUpStartPercent, DEFAULT_MULTI_YEAR_SETTINGS.rampUpStartPercent)))
+  };
+}
+
+// Compounded factor for a rate in percent after the given number of whole years
+export function getEscalationFactor(ratePercent: number, yearIndex: number): number {
+  return Math.pow(1 + ratePercent / 100, Math.max(0, yearIndex));
+}
+
+// Copy of the data with prices and costs escalated to the given year (0 = first year).
+// Only rent rows (see isRentCost) follow the rent rate; other fixed costs stay flat.
+export function applyEscalation(data: FinanceData, escalation: EscalationRates, yearIndex: number): FinanceData {
+  if (!data) return data;
+
+  const priceFactor = getEscalationFactor(escalation.menuPrice, yearIndex);
+  const ingredientFactor = getEscalationFactor(escalation.ingredients, yearIndex);
+  const wageFactor = getEscalationFactor(escalation.wages, yearIndex);
+  const utilityFactor = getEscalationFactor(escalation.utilities, yearIndex);
+  const rentFactor = getEscalationFactor(escalation.rent, yearIndex);
+
+  return {
+    ...data,
+    menus: Array.isArray(data.menus)
+      ? data.menus.map(menu => ({
+          ...menu,
+          price: typeof menu.price === 'number' ? menu.price * priceFactor : menu.price,
+          // Escalation moves the whole price level, so demand does not react to it
+          ...(typeof menu.referencePrice === 'number' ? { referencePrice: menu.referencePrice * priceFactor } : {}),
+          bom: Array.isArray(menu.bom)
+            ? menu.bom.map(bomItem => ({
+                ...scaleIngredientPrice(bomItem, ingredientFactor),
+                packaging: bomItem.packaging
+                  ? { ...bomItem.packaging, unitCost: bomItem.packaging.unitCost * ingredientFactor }
+                  : bomItem.packaging
+              }))
+            : menu.bom
+        }))
+      : data.menus,
+    labor: Array.isArray(data.labor)
+      ? data.labor.map(labor => ({ ...labor, wagePerHour: labor.wagePerHour * wageFactor }))
+      : data.labor,
+    utilities: Array.isArray(data.utilities)
+      ? data.utilities.map(utility => ({
+          ...utility,
+          ratePerKwh: typeof utility.ratePerKwh === 'number' ? utility.ratePerKwh * utilityFactor : utility.ratePerKwh,
+          ratePerKg: typeof utility.ratePerKg === 'number' ? utility.ratePerKg * utilityFactor : utility.ratePerKg,
+          ratePerM3: typeof utility.ratePerM3 === 'number' ? utility.ratePerM3 * utilityFactor : utility.ratePerM3
+        }))
+      : data.utilities,
+    fixedCosts: Array.isArray(data.fixedCosts)
+      ? data.fixedCosts.map(cost =>
+          isRentCost(cost) ? { ...cost, amountPerMonth: cost.amountPerMonth * rentFactor } : { ...cost }
+        )
+      : data.fixedCosts
+  };
+}
+
+// Volume relative to the daily forecast for one month of the plan: cumulative growth
+// of the year times a linear ramp-up from the opening month
+export function getVolumeFactor(settings: MultiYearSettings, yearIndex: number, monthIndex: number): number {
+  let growth = 1;
+  for (let year = 1; year <= yearIndex; year++) {
+    growth *= 1 + (settings.volumeGrowthPercent[year - 1] || 0) / 100;
+  }
+
+  const monthsOpen = yearIndex * 12 + monthIndex;
+  if (settings.rampUpMonths > 0 && monthsOpen < settings.rampUpMonths) {
+    const start = settings.rampUpStartPercent / 100;
+    return growth * (start + (1 - start) * (monthsOpen / settings.rampUpMonths));
+  }
+  return growth;
+}
@@ -0,0 +1,150 @@
+// Price elasticity of demand and profit-maximizing menu prices
+
+import { FinanceData, MenuItem, StoredFinanceData } from './finance-engine';
+
+// Menu fields that set its price and forecast volume
+type PricedMenu = Pick<MenuItem, 'price' | 'priceElasticity' | 'referencePrice'>;
+
+export interface PricingSettings {
+  // Elasticity for menus without their own; 0 means price changes leave volume unchanged
+  defaultElasticity: number;
+  // Optimizer search bounds relative to the current price, in percent
+  minPriceChangePercent: number;
+  maxPriceChangePercent: number;
+}
+
+export interface PricePoint {
+  price: number;
+  // Volume of the menu relative to its forecast at the reference price, in percent
+  volumePercent: number;
+  monthlyOperatingProfit: number;
+}
+
+export interface PriceOptimization {
+  menuId: string;
+  elasticity: number;
+  referencePrice: number;
+  currentPrice: number;
+  currentProfit: number;
+  recommendedPrice: number;
+  recommendedProfit: number;
+  profitChange: number;
+  minPrice: number;
+  maxPrice: number;
+  curve: PricePoint[];
+}
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  defaultElasticity: 0,
+  minPriceChangePercent: -30,
+  maxPriceChangePercent: 50
+};
+
+// Grid points on the profit curve; the best one is then refined by golden-section search
+const CURVE_STEPS = 24;
+const REFINE_ITERATIONS = 40;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+export function getPricingSettings(data: StoredFinanceData | null | undefined): PricingSettings {
+  const stored: Partial<PricingSettings> = data?.meta?.pricing || {};
+  const defaults = DEFAULT_PRICING_SETTINGS;
+  const minPriceChangePercent = Math.max(-95, toNumber(stored.minPriceChangePercent, defaults.minPriceChangePercent));
+  return {
+    defaultElasticity: toNumber(stored.defaultElasticity, defaults.defaultElasticity),
+    minPriceChangePercent,
+    maxPriceChangePercent: Math.max(minPriceChangePercent, toNumber(stored.maxPriceChangePercent, defaults.maxPriceChangePercent))
+  };
+}
+
+export function getMenuElasticity(menu: PricedMenu | null | undefined, settings: PricingSettings = DEFAULT_PRICING_SETTINGS): number {
+  return toNumber(menu?.priceElasticity, settings.defaultElasticity);
+}
+
+// Price at which the menu's forecast volume was set; the current price when never repriced
+export function getReferencePrice(menu: PricedMenu | null | undefined): number {
+  return typeof menu?.referencePrice === 'number' && menu.referencePrice > 0 ? menu.referencePrice : menu?.price || 0;
+}
+
+// Constant-elasticity demand: volume scales with (price / reference price) ^ elasticity
+export function getElasticVolumeFactor(menu: PricedMenu | null | undefined, settings: PricingSettings = DEFAULT_PRICING_SETTINGS): number {
+  const referencePrice = getReferencePrice(menu);
+  const elasticity = getMenuElasticity(menu, settings);
+  if (!elasticity || !menu || !(menu.price > 0) || !(referencePrice > 0)) return 1;
+  return Math.pow(menu.price / referencePrice, elasticity);
+}
+
+// Change a menu price while keeping the price its forecast volume refers to,
+// so the elasticity moves volume with the new price
+export function repriceMenu<T extends PricedMenu>(menu: T, price: number): T {
+  return { ...menu, price, referencePrice: getReferencePrice(menu) };
+}
+
+// Search for the price of one menu that maximizes operating profit within the bounds.
+// Profit is assumed to have a single peak, which holds for constant elasticity.
+export function optimizeMenuPrice(
+  data: FinanceData,
+  menuId: string,
+  evaluate: (data: FinanceData) => number,
+  settings: PricingSettings = getPricingSettings(data)
+): PriceOptimization | null {
+  const menu = (data?.menus || []).find(item => item && item.id === menuId);
+  if (!menu || !(menu.price > 0)) return null;
+
+  const repriced = (price: number): FinanceData => ({
+    ...data,
+    menus: data.menus.map(item => item && item.id === menuId ? repriceMenu(item, price) : item)
+  });
+  const profitAt = (price: number) => evaluate(repriced(price));
+
+  const currentPrice = menu.price;
+  const minPrice = currentPrice * (1 + settings.minPriceChangePercent / 100);
+  const maxPrice = currentPrice * (1 + settings.maxPriceChangePercent / 100);
+  const step = (maxPrice - minPrice) / CURVE_STEPS;
+
+  const curve: PricePoint[] = Array.from({ length: step > 0 ? CURVE_STEPS + 1 : 1 }, (_, index) => {
+    const price = minPrice + step * index;
+    return {
+      price,
+      volumePercent: getElasticVolumeFactor(repriceMenu(menu, price), settings) * 100,
+      monthlyOperatingProfit: profitAt(price)
+    };
+  });
+
+  // Refine between the neighbours of the best grid point
+  const bestIndex = curve.reduce((best, point, index) => point.monthlyOperatingProfit > curve[best].monthlyOperatingProfit ? index : best, 0);
+  let low = curve[Math.max(0, bestIndex - 1)].price;
+  let high = curve[Math.min(curve.length - 1, bestIndex + 1)].price;
+  for (let iteration = 0; iteration < REFINE_ITERATIONS && high - low > 1e-6; iteration++) {
+    const left = high - GOLDEN_RATIO * (high - low);
+    const right = low + GOLDEN_RATIO * (high - low);
+    if (profitAt(left) < profitAt(right)) {
+      low = left;
+    } else {
+      high = right;
+    }
+  }
+
+  const refinedPrice = (low + high) / 2;
+  const refinedProfit = profitAt(refinedPrice);
+  const best = refinedProfit >= curve[bestIndex].monthlyOperatingProfit
+    ? { price: refinedPrice, profit: refinedProfit }
+    : { price: curve[bestIndex].price, profit: curve[bestIndex].monthlyOperatingProfit };
+  const currentProfit = evaluate(data);
+
+  return {
+    menuId,
+    elasticity: getMenuElasticity(menu, settings),
+    referencePrice: getReferencePrice(menu),
+    currentPrice,
+    currentProfit,
+    recommendedPrice: best.price,
+    recommendedProfit: best.profit,
+    profitChange: best.profit - currentProfit,
+    minPrice,
+    maxPrice,
+    curve
+  };
+}
@@ -0,0 +1,200 @@
+// Sensitivity analysis: flex one driver at a time and measure the effect on operating profit
+
+import { FinanceData, UtilityItem } from './finance-engine';
+import { scaleRentCosts } from './fixed-costs';
+import { repriceMenu } from './pricing';
+import { scaleIngredientPrice } from './units';
+
+export type SensitivityDriverKey =
+  | 'menu_price'
+  | 'forecast_units'
+  | 'ingredient_cost'
+  | 'wage_rate'
+  | 'electricity_rate'
+  | 'lpg_rate'
+  | 'rent'
+  | 'delivery_commission';
+
+export interface SensitivityOptions {
+  rangePercent: number;
+  stepPercent: number;
+}
+
+export interface SensitivityPoint {
+  change: number;
+  operatingProfit: number;
+  impact: number;
+  impactPercent: number;
+}
+
+export interface DriverSensitivity {
+  key: SensitivityDriverKey;
+  label: string;
+  series: SensitivityPoint[];
+}
+
+export interface TornadoBar {
+  key: SensitivityDriverKey;
+  label: string;
+  lowImpact: number;
+  highImpact: number;
+  swing: number;
+}
+
+export interface SensitivityResult {
+  baseOperatingProfit: number;
+  range: SensitivityOptions;
+  drivers: DriverSensitivity[];
+  tornado: TornadoBar[];
+}
+
+interface SensitivityDriver {
+  key: SensitivityDriverKey;
+  label: string;
+  apply: (data: FinanceData, factor: number) => FinanceData;
+}
+
+export const DEFAULT_SENSITIVITY_OPTIONS: SensitivityOptions = {
+  rangePercent: 20,
+  stepPercent: 5
+};
+
+const scaleUtilityRate = (data: FinanceData, type: UtilityItem['type'], field: 'ratePerKwh' | 'ratePerKg', factor: number): FinanceData => ({
+  ...data,
+  utilities: (data.utilities || []).map(utility => {
+    const rate = utility?.[field];
+    return utility && utility.type === type && typeof rate === 'number' ? { ...utility, [field]: rate * factor } : utility;
+  })
+});
+
+export const SENSITIVITY_DRIVERS: SensitivityDriver[] = [
+  {
+    key: 'menu_price',
+    label: 'ราคาเมนู',
+    apply: (data, factor) => ({
+      ...data,
+      menus: (data.menus || []).map(menu => repriceMenu(menu, menu.price * factor))
+    })
+  },
+  {
+    key: 'forecast_units',
+    label: 'ยอดขาย (จาน/วัน)',
+    apply: (data, factor) => ({
+      ...data,
+      salesModel: { ...data.salesModel, forecastDailyUnits: (data.salesModel?.forecastDailyUnits || 0) * factor }
+    })
+  },
+  {
+    key: 'ingredient_cost',
+    label: 'ต้นทุนวัตถุดิบ',
+    apply: (data, factor) => ({
+      ...data,
+      menus: (data.menus || []).map(menu => ({
+        ...menu,
+        bom: (menu.bom || []).map(bomItem =>
+          bomItem && !bomItem.packaging ? scaleIngredientPrice(bomItem, factor) : bomItem
+        )
+      }))
+    })
+  },
+  {
+    key: 'wage_rate',
+    label: 'ค่าแรง/ชั่วโมง',
+    apply: (data, factor) => ({
+      ...data,
+      labor: (data.labor || []).map(labor => ({ ...labor, wagePerHour: labor.wagePerHour * factor }))
+    })
+  },
+  {
+    key: 'electricity_rate',
+    label: 'ค่าไฟฟ้า/หน่วย',
+    apply: (data, factor) => scaleUtilityRate(data, 'electric', 'ratePerKwh', factor)
+  },
+  {
+    key: 'lpg_rate',
+    label: 'ราคาแก๊ส LPG',
+    apply: (data, factor) => scaleUtilityRate(data, 'lpg', 'ratePerKg', factor)
+  },
+  {
+    key: 'rent',
+    label: 'ค่าเช่า',
+    apply: (data, factor) => ({ ...data, fixedCosts: scaleRentCosts(data.fixedCosts, factor) })
+  },
+  {
+    key: 'delivery_commission',
+    label: 'ค่าคอมมิชชันเดลิเวอรี',
+    apply: (data, factor) => ({
+      ...data,
+      salesModel: {
+        ...data.salesModel,
+        deliveryCommissionPercent: (data.salesModel?.deliveryCommissionPercent || 0) * factor
+      }
+    })
+  }
+];
+
+// Percent changes from -range to +range, always including 0
+export function buildSensitivitySteps(options: SensitivityOptions = DEFAULT_SENSITIVITY_OPTIONS): number[] {
+  const range = Math.abs(options.rangePercent) || DEFAULT_SENSITIVITY_OPTIONS.rangePercent;
+  const step = Math.abs(options.stepPercent) || DEFAULT_SENSITIVITY_OPTIONS.stepPercent;
+  const steps: number[] = [];
+  const count = Math.floor(range / step + 1e-9);
+
+  for (let i = -count; i <= count; i++) {
+    steps.push(Math.round(i * step * 1000) / 1000);
+  }
+  if (steps[0] !== -range) {
+    steps.unshift(-range);
+    steps.push(range);
+  }
+  return steps;
+}
+
+export function runSensitivityAnalysis(
+  data: FinanceData,
+  evaluate: (data: FinanceData) => number,
+  options: SensitivityOptions = DEFAULT_SENSITIVITY_OPTIONS
+): SensitivityResult {
+  const steps = buildSensitivitySteps(options);
+  const baseOperatingProfit = evaluate(data);
+
+  const drivers: DriverSensitivity[] = SENSITIVITY_DRIVERS.map(driver => ({
+    key: driver.key,
+    label: driver.label,
+    series: steps.map(change => {
+      const operatingProfit = change === 0 ? baseOperatingProfit : evaluate(driver.apply(data, 1 + change / 100));
+      const impact = operatingProfit - baseOperatingProfit;
+      return {
+        change,
+        operatingProfit,
+        impact,
+        impactPercent: baseOperatingProfit !== 0 ? (impact / Math.abs(baseOperatingProfit)) * 100 : 0
+      };
+    })
+  }));
+
+  // Rank drivers by how far profit moves between the two ends of the range
+  const tornado: TornadoBar[] = drivers
+    .map(driver => {
+      const low = driver.series[0];
+      const high = driver.series[driver.series.length - 1];
+      return {
+        key: driver.key,
+        label: driver.label,
+        lowImpact: low ? low.impact : 0,
+        highImpact: high ? high.impact : 0,
+        swing: low && high ? Math.abs(high.impact - low.impact) : 0
+      };
+    })
+    .sort((a, b) => b.swing - a.swing);
+
+  return {
+    baseOperatingProfit,
+    range: {
+      rangePercent: Math.abs(steps[steps.length - 1] || 0),
+      stepPercent: Math.abs(options.stepPercent) || DEFAULT_SENSITIVITY_OPTIONS.stepPercent
+    },
+    drivers,
+    tornado
+  };
+}
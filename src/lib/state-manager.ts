@@ -1,13 +1,35 @@
 // Centralized state management for Finance Simulator
 
-import { FinanceEngine } from './finance-engine';
+import {
+  ComputationResult,
+  FinanceData,
+  FinanceEngine,
+  FinanceMeta,
+  FinancialMetrics,
+  FixedCost,
+  LaborItem,
+  MenuItem,
+  SalesModel,
+  Scenario,
+  ScenarioAppraisal,
+  UtilityItem
+} from './finance-engine';
+import { FixedAsset } from './assets';
+import { Loan } from './loans';
+import { FxRate } from './fx';
+import { Ingredient } from './ingredients';
 import { FinancialDataValidator, ValidationResult } from './validation';
+import { MonteCarloResult, MonteCarloSettings } from './monte-carlo';
+import { GoalSeekDriverKey, GoalSeekResult, GoalSeekTargetKey } from './goal-seek';
+import { PriceOptimization } from './pricing';
+import { ComputeClient, ComputeProgressHandler } from './compute-client';
+import { ComputeInput } from './compute-worker';
 
 export interface AppState {
-  data: any;
-  scenarios: Record<string, any>;
+  data: FinanceData | null;
+  scenarios: Record<string, Scenario>;
   currentScenario: string;
-  computationResult: any;
+  computationResult: ComputationResult | null;
   validationResults: ValidationResult[];
   isLoading: boolean;
   error: string | null;
@@ -31,6 +53,7 @@ export interface StateUpdate {
 export class StateManager {
   private state: AppState;
   private financeEngine: FinanceEngine;
+  private computeClient: ComputeClient = new ComputeClient();
   private subscribers: Array<(state: AppState) => void> = [];
   private validationCache: Map<string, ValidationResult> = new Map();
   private updateQueue: QueuedUpdate[] = [];
@@ -38,7 +61,6 @@ export class StateManager {
   private queueTimeoutId: NodeJS.Timeout | null = null;
   // Dedup / debounce helpers to avoid tight compute/save loops
   private lastSavedDataString: string | null = null;
-  private lastComputationHash: string | null = null;
   private syncTimeoutId: NodeJS.Timeout | null = null;
   private isSyncInProgress: boolean = false;
   private readonly SYNC_DEBOUNCE_MS = 500; // Increased debounce time to prevent rapid updates
@@ -213,6 +235,11 @@ export class StateManager {
         this.computeAndValidate();
       }
 
+      // Switching scenario changes the derived results, so recompute against it
+      if (update.type === 'SCENARIO_UPDATE' && !opts?.skipAuto) {
+        this.computeAndValidate();
+      }
+
       // Log successful update for debugging
       console.debug(`State update successful: ${update.type}`);
     } catch (error) {
@@ -304,82 +331,16 @@ export class StateManager {
           return;
         }
 
-        const dataString = JSON.stringify(data);
-        // If data hasn't changed since last save, skip save/compute to avoid loops
-        if (this.lastSavedDataString && this.lastSavedDataString === dataString) {
-          try {
-            this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } });
-          } catch (err) {
-            // ignore
-          }
-          this.isSyncInProgress = false;
-          return;
-        }
-
-        // Persist current engine data
-        try {
-          if (typeof this.financeEngine.save === 'function') {
-            this.financeEngine.save();
-          }
-          this.lastSavedDataString = dataString;
-        } catch (saveErr) {
-          console.error('syncAfterDataChange: save failed', saveErr);
-        }
-
-        // Ensure finance engine has latest data before computation
-        try {
-          if (typeof this.financeEngine.load === 'function') {
-            this.financeEngine.load(data);
-          }
-        } catch (loadErr) {
-          console.error('syncAfterDataChange: load failed', loadErr);
-        }
-
-        // Compute derived results
-        let computationResult: any = null;
-        try {
-          if (typeof this.financeEngine.compute === 'function') {
-            computationResult = this.financeEngine.compute();
-          }
-        } catch (computeErr) {
-          console.error('syncAfterDataChange: compute failed', computeErr);
-        }
-
-        // Publish authoritative data without retriggering auto-save/compute
+        // Publish authoritative data without retriggering auto-save/compute; the engine's
+        // update methods have already persisted it
         try {
           this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
         } catch (err) {
           // ignore
         }
 
-        // Publish computation result if available and changed
-        if (computationResult) {
-          try {
-            const compHash = JSON.stringify(computationResult);
-            if (this.lastComputationHash !== compHash) {
-              this.lastComputationHash = compHash;
-              this.updateState({ type: 'COMPUTATION_UPDATE', payload: { result: computationResult } }, { skipAuto: true });
-            }
-
-            // Small summary log to help verify behavior during development
-            const kpis = computationResult?.kpis;
-            const menusCount = Array.isArray(data?.menus) ? data.menus.length : 0;
-            const firstMenu = data?.menus?.[0];
-            const firstMenuBOMCost = firstMenu?.bom?.reduce((total: number, item: any) => {
-              if (item.packaging) {
-                return total + (item.packaging.qtyUnit * item.packaging.unitCost);
-              }
-              const effectiveYield = item.yieldPercent / 100;
-              const wasteMultiplier = 1 + (item.wastePercent / 100);
-              const actualQtyNeeded = (item.qtyG / 1000) * wasteMultiplier / effectiveYield;
-              return total + (actualQtyNeeded * item.unitCostPerKg);
-            }, 0);
-            const firstMenuFoodCostPct = firstMenu && firstMenuBOMCost ? ((firstMenuBOMCost / firstMenu.price) * 100).toFixed(1) : 'n/a';
-            console.log(`[StateManager] syncAfterDataChange${reason ? ' (' + reason + ')' : ''} => menus=${menusCount}, computedAt=${computationResult?.computedAt || 'n/a'}, revenue=${kpis?.revenue ?? 'n/a'}, dashboardFoodCost%=${kpis?.foodCostPct?.toFixed(1) ?? 'n/a'}, firstMenuFoodCost%=${firstMenuFoodCostPct}`);
-          } catch (logErr) {
-            // ignore logging errors
-          }
-        }
+        // Derived results follow from the compute worker; a newer change supersedes this request
+        this.requestComputation();
 
         // Run validation using current state (guarded inside validator)
         try {
@@ -400,6 +361,25 @@ export class StateManager {
     }, this.SYNC_DEBOUNCE_MS);
   }
 
+  // Compute the current scenario in the background worker. Only the latest request
+  // publishes its result, so a result computed from superseded inputs never reaches the UI.
+  private requestComputation(): Promise<void> {
+    return this.computeClient.compute(this.getComputeInput()).then(computationResult => {
+      if (!computationResult) return;
+      this.updateState({ type: 'COMPUTATION_UPDATE', payload: { result: computationResult } }, { skipAuto: true });
+    }).catch(error => {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Computation failed: ${this.formatError(error)}` }
+      });
+    });
+  }
+
+  // Snapshot of the model and current scenario sent with each worker request
+  private getComputeInput(): ComputeInput {
+    return { data: this.financeEngine.getData(), scenarios: this.financeEngine.getScenarios(), scenarioId: this.state.currentScenario };
+  }
+
   // Subscription management
   subscribe(callback: (state: AppState) => void): () => void {
     this.subscribers.push(callback);
@@ -424,7 +404,7 @@ export class StateManager {
   }
 
   // Data management methods
-  updateMenu(menuId: string, updates: any): void {
+  updateMenu(menuId: string, updates: Partial<MenuItem>): void {
     try {
       this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
 
@@ -483,7 +463,7 @@ export class StateManager {
   }
 
   // Explicit add menu API - validates, adds, saves, and updates state
-  addMenu(menu: any): void {
+  addMenu(menu: MenuItem): void {
     try {
       this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
 
@@ -527,7 +507,62 @@ export class StateManager {
     }
   }
 
-  updateSalesModel(updates: any): void {
+  updateMenuMix(mix: Record<string, number>): void {
+    try {
+      this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
+
+      const invalid = Object.entries(mix || {}).filter(([, share]) =>
+        typeof share !== 'number' || isNaN(share) || share < 0 || share > 1
+      );
+      if (!mix || typeof mix !== 'object' || invalid.length > 0) {
+        this.updateState({
+          type: 'ERROR_UPDATE',
+          payload: { error: 'Menu mix shares must be numbers between 0 and 1' }
+        });
+        return;
+      }
+
+      this.financeEngine.updateMenuMix(mix);
+      const data = this.financeEngine.getData();
+      this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
+      this.syncAfterDataChange('updateMenuMix');
+    } catch (error) {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Failed to update menu mix: ${this.formatError(error)}` }
+      });
+    } finally {
+      try { this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } }); } catch (e) { }
+    }
+  }
+
+  updateMeta(updates: Partial<FinanceMeta>): void {
+    try {
+      this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
+
+      if (!updates || typeof updates !== 'object') {
+        this.updateState({
+          type: 'ERROR_UPDATE',
+          payload: { error: 'Settings update must be an object' }
+        });
+        return;
+      }
+
+      this.financeEngine.updateMeta(updates);
+      const data = this.financeEngine.getData();
+      this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
+      this.syncAfterDataChange('updateMeta');
+    } catch (error) {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Failed to update settings: ${this.formatError(error)}` }
+      });
+    } finally {
+      try { this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } }); } catch (e) { }
+    }
+  }
+
+  updateSalesModel(updates: Partial<SalesModel>): void {
     try {
       this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
 
@@ -555,7 +590,7 @@ export class StateManager {
     }
   }
 
-  updateUtilities(utilities: any[]): void {
+  updateUtilities(utilities: UtilityItem[]): void {
     try {
       this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
 
@@ -591,7 +626,7 @@ export class StateManager {
     }
   }
 
-  updateLabor(labor: any[]): void {
+  updateLabor(labor: LaborItem[]): void {
     try {
       this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
 
@@ -627,7 +662,7 @@ export class StateManager {
     }
   }
 
-  updateFixedCosts(fixedCosts: any[]): void {
+  updateFixedCosts(fixedCosts: FixedCost[]): void {
     try {
       this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
 
@@ -663,6 +698,169 @@ export class StateManager {
     }
   }
 
+  updateAssets(assets: FixedAsset[]): void {
+    try {
+      this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
+
+      // Validate each asset
+      const validationResults = assets.map(asset =>
+        FinancialDataValidator.validateFixedAsset(asset)
+      );
+
+      const hasErrors = validationResults.some(result => !result.isValid);
+      if (hasErrors) {
+        const errors = validationResults
+          .filter(result => !result.isValid)
+          .flatMap(result => result.errors);
+
+        this.updateState({
+          type: 'ERROR_UPDATE',
+          payload: { error: `Asset validation failed: ${errors.join(', ')}` }
+        });
+        return;
+      }
+
+      this.financeEngine.updateAssets(assets);
+      const data = this.financeEngine.getData();
+      this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
+      this.syncAfterDataChange('updateAssets');
+    } catch (error) {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Failed to update assets: ${this.formatError(error)}` }
+      });
+    } finally {
+      try { this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } }); } catch (e) { }
+    }
+  }
+
+  updateLoans(loans: Loan[]): void {
+    try {
+      this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
+
+      // Validate each loan
+      const validationResults = loans.map(loan =>
+        FinancialDataValidator.validateLoan(loan)
+      );
+
+      const hasErrors = validationResults.some(result => !result.isValid);
+      if (hasErrors) {
+        const errors = validationResults
+          .filter(result => !result.isValid)
+          .flatMap(result => result.errors);
+
+        this.updateState({
+          type: 'ERROR_UPDATE',
+          payload: { error: `Loan validation failed: ${errors.join(', ')}` }
+        });
+        return;
+      }
+
+      this.financeEngine.updateLoans(loans);
+      const data = this.financeEngine.getData();
+      this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
+      this.syncAfterDataChange('updateLoans');
+    } catch (error) {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Failed to update loans: ${this.formatError(error)}` }
+      });
+    } finally {
+      try { this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } }); } catch (e) { }
+    }
+  }
+
+  updateFxRates(fxRates: FxRate[]): void {
+    try {
+      this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
+
+      // Validate each exchange rate
+      const validationResults = fxRates.map(rate =>
+        FinancialDataValidator.validateFxRate(rate)
+      );
+
+      const hasErrors = validationResults.some(result => !result.isValid);
+      if (hasErrors) {
+        const errors = validationResults
+          .filter(result => !result.isValid)
+          .flatMap(result => result.errors);
+
+        this.updateState({
+          type: 'ERROR_UPDATE',
+          payload: { error: `Exchange rate validation failed: ${errors.join(', ')}` }
+        });
+        return;
+      }
+
+      this.financeEngine.updateFxRates(fxRates);
+      const data = this.financeEngine.getData();
+      this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
+      this.syncAfterDataChange('updateFxRates');
+    } catch (error) {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Failed to update exchange rates: ${this.formatError(error)}` }
+      });
+    } finally {
+      try { this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } }); } catch (e) { }
+    }
+  }
+
+  updateIngredients(ingredients: Ingredient[]): void {
+    try {
+      this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
+
+      // Validate each catalog entry
+      const validationResults = ingredients.map(ingredient =>
+        FinancialDataValidator.validateIngredient(ingredient)
+      );
+
+      const hasErrors = validationResults.some(result => !result.isValid);
+      if (hasErrors) {
+        const errors = validationResults
+          .filter(result => !result.isValid)
+          .flatMap(result => result.errors);
+
+        this.updateState({
+          type: 'ERROR_UPDATE',
+          payload: { error: `Ingredient validation failed: ${errors.join(', ')}` }
+        });
+        return;
+      }
+
+      this.financeEngine.updateIngredients(ingredients);
+      const data = this.financeEngine.getData();
+      this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
+      this.syncAfterDataChange('updateIngredients');
+    } catch (error) {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Failed to update ingredients: ${this.formatError(error)}` }
+      });
+    } finally {
+      try { this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } }); } catch (e) { }
+    }
+  }
+
+  // Move free-text BOM lines into the ingredient catalog
+  linkBomToCatalog(): void {
+    try {
+      this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: true } });
+
+      this.financeEngine.linkBomToCatalog();
+      const data = this.financeEngine.getData();
+      this.updateState({ type: 'DATA_UPDATE', payload: { data, scenarios: this.state.scenarios } }, { skipAuto: true });
+      this.syncAfterDataChange('linkBomToCatalog');
+    } catch (error) {
+      this.updateState({
+        type: 'ERROR_UPDATE',
+        payload: { error: `Failed to link BOM lines to the catalog: ${this.formatError(error)}` }
+      });
+    } finally {
+      try { this.updateState({ type: 'LOADING_UPDATE', payload: { isLoading: false } }); } catch (e) { }
+    }
+  }
+
   // Delete a menu by id, update state and persist
   deleteMenu(menuId: string): void {
     try {
@@ -710,13 +908,8 @@ export class StateManager {
         return;
       }
 
-      // Compute financial metrics
-      const computationResult = this.financeEngine.compute();
-      
-      this.updateState({
-        type: 'COMPUTATION_UPDATE',
-        payload: { result: computationResult }
-      });
+      // Compute financial metrics for the selected scenario off the main thread
+      this.requestComputation();
       
       // Validate all data
       this.validateAllData();
@@ -891,15 +1084,8 @@ export class StateManager {
           payload: { data: freshData, scenarios: this.state.scenarios }
         }, { skipAuto: true });
 
-        // Force computation
-        const computationResult = this.financeEngine.compute();
-
-        if (computationResult) {
-          this.updateState({
-            type: 'COMPUTATION_UPDATE',
-            payload: { result: computationResult }
-          }, { skipAuto: true });
-        }
+        // Force computation and wait for its result
+        await this.requestComputation();
 
         // Run validation
         this.validateAllData();
@@ -1016,11 +1202,11 @@ export class StateManager {
     return { ...this.state };
   }
 
-  getData(): any {
+  getData(): FinanceData | null {
     return this.state.data;
   }
 
-  getComputationResult(): any {
+  getComputationResult(): ComputationResult | null {
     return this.state.computationResult;
   }
 
@@ -1055,10 +1241,56 @@ export class StateManager {
     return this.state.currentScenario;
   }
 
-  getScenarios(): Record<string, any> {
+  getScenarios(): Record<string, Scenario> {
     return this.state.scenarios;
   }
 
+  // NPV, IRR and payback of every scenario, computed on demand in the compute worker.
+  // A newer request cancels this one, which then resolves to null.
+  async compareScenarioAppraisals(scenarioIds?: string[]): Promise<ScenarioAppraisal[] | null> {
+    try {
+      return await this.computeClient.compareScenarioAppraisals(this.getComputeInput(), scenarioIds);
+    } catch (error) {
+      console.error('[StateManager] Scenario appraisal failed:', this.formatError(error));
+      return null;
+    }
+  }
+
+  // Monte Carlo profit distribution of the current scenario, run on demand in the compute
+  // worker. Starting another run cancels this one, which then resolves to null.
+  async runMonteCarlo(settings?: MonteCarloSettings, onProgress?: ComputeProgressHandler): Promise<MonteCarloResult | null> {
+    try {
+      return await this.computeClient.runMonteCarlo(this.getComputeInput(), settings, onProgress);
+    } catch (error) {
+      console.error('[StateManager] Monte Carlo simulation failed:', this.formatError(error));
+      return null;
+    }
+  }
+
+  cancelMonteCarlo(): void {
+    this.computeClient.cancel('monteCarlo');
+  }
+
+  // Profit-maximizing price of one menu in the current scenario, found in the compute worker
+  async optimizeMenuPrice(menuId: string): Promise<PriceOptimization | null> {
+    try {
+      return await this.computeClient.optimizeMenuPrice(this.getComputeInput(), menuId);
+    } catch (error) {
+      console.error('[StateManager] Price optimization failed:', this.formatError(error));
+      return null;
+    }
+  }
+
+  // Goal seek on the current scenario, run in the compute worker
+  async goalSeek(driver: GoalSeekDriverKey, target: GoalSeekTargetKey, targetValue?: number): Promise<GoalSeekResult<FinancialMetrics> | null> {
+    try {
+      return await this.computeClient.goalSeek(this.getComputeInput(), driver, target, targetValue);
+    } catch (error) {
+      console.error('[StateManager] Goal seek failed:', this.formatError(error));
+      return null;
+    }
+  }
+
   // Error handling
   clearError(): void {
     this.updateState({
@@ -1116,6 +1348,9 @@ export class StateManager {
         this.queueTimeoutId = null;
       }
 
+      // Stop the compute worker; outstanding requests are rejected
+      this.computeClient.terminate();
+
       // Reset processing flags
       this.isProcessingQueue = false;
       this.isSyncInProgress = false;
@@ -0,0 +1,153 @@
+// Thai income tax estimate for a sole proprietor (personal income tax) or an SME company
+
+import { StoredFinanceData } from './finance-engine';
+
+export type TaxEntityType = 'individual' | 'company';
+
+// Sole proprietors may deduct actual expenses or the 60% lump sum allowed for restaurant income
+export type ExpenseDeductionMethod = 'lumpSum' | 'actual';
+
+export interface TaxSettings {
+  entityType: TaxEntityType;
+  expenseMethod: ExpenseDeductionMethod;
+  lumpSumPercent: number;
+  personalAllowances: number;
+  paidUpCapital: number;
+}
+
+export interface TaxBracket {
+  from: number;
+  to: number | null;
+  ratePercent: number;
+}
+
+export interface TaxBracketResult extends TaxBracket {
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface TaxEstimate {
+  entityType: TaxEntityType;
+  expenseMethod?: ExpenseDeductionMethod;
+  assessableIncome: number;
+  expenseDeduction: number;
+  allowances: number;
+  taxableIncome: number;
+  progressiveTax: number;
+  // Personal income tax minimum (0.5% of gross business income), 0 when not applicable
+  minimumTax: number;
+  taxPayable: number;
+  effectiveRatePercent: number;
+  brackets: TaxBracketResult[];
+}
+
+export const PERSONAL_INCOME_TAX_BRACKETS: TaxBracket[] = [
+  { from: 0, to: 150000, ratePercent: 0 },
+  { from: 150000, to: 300000, ratePercent: 5 },
+  { from: 300000, to: 500000, ratePercent: 10 },
+  { from: 500000, to: 750000, ratePercent: 15 },
+  { from: 750000, to: 1000000, ratePercent: 20 },
+  { from: 1000000, to: 2000000, ratePercent: 25 },
+  { from: 2000000, to: 5000000, ratePercent: 30 },
+  { from: 5000000, to: null, ratePercent: 35 }
+];
+
+// SME rates apply when paid-up capital is at most 5M and annual revenue at most 30M
+export const SME_CORPORATE_TAX_BRACKETS: TaxBracket[] = [
+  { from: 0, to: 300000, ratePercent: 0 },
+  { from: 300000, to: 3000000, ratePercent: 15 },
+  { from: 3000000, to: null, ratePercent: 20 }
+];
+
+export const STANDARD_CORPORATE_TAX_BRACKETS: TaxBracket[] = [
+  { from: 0, to: null, ratePercent: 20 }
+];
+
+const SME_MAX_PAID_UP_CAPITAL = 5000000;
+const SME_MAX_REVENUE = 30000000;
+const MINIMUM_TAX_INCOME_THRESHOLD = 120000;
+const MINIMUM_TAX_RATE = 0.005;
+const MINIMUM_TAX_EXEMPT_AMOUNT = 5000;
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  entityType: 'individual',
+  expenseMethod: 'lumpSum',
+  lumpSumPercent: 60,
+  // Personal allowance for the taxpayer
+  personalAllowances: 60000,
+  paidUpCapital: 1000000
+};
+
+export function getTaxSettings(data: StoredFinanceData | null | undefined): TaxSettings {
+  const tax: Partial<TaxSettings> = data?.meta?.tax || {};
+  return {
+    ...DEFAULT_TAX_SETTINGS,
+    ...tax,
+    entityType: tax.entityType === 'company' ? 'company' : 'individual',
+    expenseMethod: tax.expenseMethod === 'actual' ? 'actual' : 'lumpSum'
+  };
+}
+
+export function applyTaxBrackets(taxableIncome: number, brackets: TaxBracket[]): TaxBracketResult[] {
+  const income = Math.max(0, taxableIncome);
+  return brackets.map(bracket => {
+    const upper = bracket.to === null ? income : Math.min(income, bracket.to);
+    const taxableAmount = Math.max(0, upper - bracket.from);
+    return { ...bracket, taxableAmount, tax: (taxableAmount * bracket.ratePercent) / 100 };
+  });
+}
+
+const sumTax = (results: TaxBracketResult[]): number => results.reduce((total, bracket) => total + bracket.tax, 0);
+
+// Annual tax from annual revenue (ex-VAT) and pre-tax profit
+export function estimateIncomeTax(annualRevenue: number, annualPreTaxProfit: number, settings: TaxSettings = DEFAULT_TAX_SETTINGS): TaxEstimate {
+  const revenue = Math.max(0, annualRevenue);
+
+  if (settings.entityType === 'company') {
+    const isSme = settings.paidUpCapital <= SME_MAX_PAID_UP_CAPITAL && revenue <= SME_MAX_REVENUE;
+    const taxableIncome = Math.max(0, annualPreTaxProfit);
+    const brackets = applyTaxBrackets(taxableIncome, isSme ? SME_CORPORATE_TAX_BRACKETS : STANDARD_CORPORATE_TAX_BRACKETS);
+    const taxPayable = sumTax(brackets);
+
+    return {
+      entityType: 'company',
+      assessableIncome: revenue,
+      expenseDeduction: revenue - annualPreTaxProfit,
+      allowances: 0,
+      taxableIncome,
+      progressiveTax: taxPayable,
+      minimumTax: 0,
+      taxPayable,
+      effectiveRatePercent: annualPreTaxProfit > 0 ? (taxPayable / annualPreTaxProfit) * 100 : 0,
+      brackets
+    };
+  }
+
+  const actualExpenses = Math.max(0, revenue - annualPreTaxProfit);
+  const expenseDeduction = settings.expenseMethod === 'lumpSum'
+    ? (revenue * settings.lumpSumPercent) / 100
+    : Math.min(revenue, actualExpenses);
+  const allowances = Math.max(0, settings.personalAllowances);
+  const taxableIncome = Math.max(0, revenue - expenseDeduction - allowances);
+  const brackets = applyTaxBrackets(taxableIncome, PERSONAL_INCOME_TAX_BRACKETS);
+  const progressiveTax = sumTax(brackets);
+
+  // Minimum tax applies when business income reaches 120,000 and 0.5% of it exceeds 5,000
+  const minimumTaxBase = revenue >= MINIMUM_TAX_INCOME_THRESHOLD ? revenue * MINIMUM_TAX_RATE : 0;
+  const minimumTax = minimumTaxBase > MINIMUM_TAX_EXEMPT_AMOUNT ? minimumTaxBase : 0;
+  const taxPayable = Math.max(progressiveTax, minimumTax);
+
+  return {
+    entityType: 'individual',
+    expenseMethod: settings.expenseMethod,
+    assessableIncome: revenue,
+    expenseDeduction,
+    allowances,
+    taxableIncome,
+    progressiveTax,
+    minimumTax,
+    taxPayable,
+    effectiveRatePercent: annualPreTaxProfit > 0 ? (taxPayable / annualPreTaxProfit) * 100 : 0,
+    brackets
+  };
+}
@@ -0,0 +1,133 @@
+// Units of measure for BOM lines: mass, volume and count units, purchase packs, and
+// ingredient density to cost volume recipes against prices by weight and vice versa
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export type UnitKey = 'g' | 'kg' | 'ml' | 'l' | 'tsp' | 'tbsp' | 'piece' | 'dozen';
+
+export interface UnitDefinition {
+  key: UnitKey;
+  label: string;
+  dimension: UnitDimension;
+  // Base units (g, ml or piece) in one of this unit
+  factor: number;
+}
+
+// Recipe and purchase quantities of an ingredient line. Lines saved before units of
+// measure keep grams and a price per kilogram in qtyG and unitCostPerKg.
+export interface MeasuredIngredient {
+  qtyG?: number;
+  unitCostPerKg?: number;
+  // Recipe quantity per menu unit, in `unit`
+  qty?: number;
+  unit?: UnitKey;
+  // Purchase pack: `purchaseCost` buys `purchaseQty` of `purchaseUnit`, e.g. 450 per 15 kg sack
+  purchaseCost?: number;
+  purchaseQty?: number;
+  purchaseUnit?: UnitKey;
+  // Grams per millilitre, for converting between mass and volume
+  densityGPerMl?: number;
+  yieldPercent?: number;
+  wastePercent?: number;
+}
+
+export const UNITS: UnitDefinition[] = [
+  { key: 'g', label: 'กรัม', dimension: 'mass', factor: 1 },
+  { key: 'kg', label: 'กิโลกรัม', dimension: 'mass', factor: 1000 },
+  { key: 'ml', label: 'มิลลิลิตร', dimension: 'volume', factor: 1 },
+  { key: 'l', label: 'ลิตร', dimension: 'volume', factor: 1000 },
+  { key: 'tsp', label: 'ช้อนชา', dimension: 'volume', factor: 5 },
+  { key: 'tbsp', label: 'ช้อนโต๊ะ', dimension: 'volume', factor: 15 },
+  { key: 'piece', label: 'ชิ้น/ฟอง', dimension: 'count', factor: 1 },
+  { key: 'dozen', label: 'โหล', dimension: 'count', factor: 12 }
+];
+
+export function getUnit(key: string | undefined): UnitDefinition | undefined {
+  return UNITS.find(unit => unit.key === key);
+}
+
+// Quantity in another unit. Mass and volume convert through the density in g/ml;
+// null when the units cannot be converted (count against mass, or no density).
+export function convertQuantity(qty: number, from: UnitKey, to: UnitKey, densityGPerMl?: number): number | null {
+  const fromUnit = getUnit(from);
+  const toUnit = getUnit(to);
+  if (!fromUnit || !toUnit) return null;
+
+  const base = qty * fromUnit.factor;
+  if (fromUnit.dimension === toUnit.dimension) {
+    return base / toUnit.factor;
+  }
+
+  const hasDensity = typeof densityGPerMl === 'number' && isFinite(densityGPerMl) && densityGPerMl > 0;
+  if (!hasDensity) return null;
+  if (fromUnit.dimension === 'volume' && toUnit.dimension === 'mass') {
+    return (base * densityGPerMl) / toUnit.factor;
+  }
+  if (fromUnit.dimension === 'mass' && toUnit.dimension === 'volume') {
+    return base / densityGPerMl / toUnit.factor;
+  }
+  return null;
+}
+
+export function getRecipeQuantity(line: MeasuredIngredient): { qty: number; unit: UnitKey } {
+  return line.unit
+    ? { qty: line.qty ?? 0, unit: line.unit }
+    : { qty: line.qtyG ?? 0, unit: 'g' };
+}
+
+export function getPurchasePrice(line: MeasuredIngredient): { cost: number; qty: number; unit: UnitKey } {
+  return line.purchaseUnit
+    ? { cost: line.purchaseCost ?? 0, qty: line.purchaseQty ?? 1, unit: line.purchaseUnit }
+    : { cost: line.unitCostPerKg ?? 0, qty: 1, unit: 'kg' };
+}
+
+// Cost of one ingredient line per menu unit, with yield and waste. Null when the line
+// has no usable numbers or its recipe unit cannot be converted into the purchase unit.
+export function calculateIngredientCost(line: MeasuredIngredient): number | null {
+  const recipe = getRecipeQuantity(line);
+  const purchase = getPurchasePrice(line);
+  if (![recipe.qty, purchase.cost, purchase.qty, line.yieldPercent, line.wastePercent].every(value => typeof value === 'number' && isFinite(value))) {
+    return null;
+  }
+  if (purchase.qty <= 0 || (line.yieldPercent as number) <= 0) return null;
+
+  const qtyInPurchaseUnit = convertQuantity(recipe.qty, recipe.unit, purchase.unit, line.densityGPerMl);
+  if (qtyInPurchaseUnit === null) return null;
+
+  const effectiveYield = (line.yieldPercent as number) / 100;
+  const wasteMultiplier = 1 + Math.max(0, line.wastePercent as number) / 100;
+  const actualQtyNeeded = qtyInPurchaseUnit * wasteMultiplier / effectiveYield;
+  return actualQtyNeeded * (purchase.cost / purchase.qty);
+}
+
+// The line in the unit form, carrying over legacy grams and price per kilogram
+export function toUnitForm<T extends MeasuredIngredient>(line: T): T {
+  if (line.unit && line.purchaseUnit) return line;
+  const recipe = getRecipeQuantity(line);
+  const purchase = getPurchasePrice(line);
+  const { qtyG, unitCostPerKg, ...rest } = line;
+  return {
+    ...rest,
+    qty: recipe.qty,
+    unit: recipe.unit,
+    purchaseCost: purchase.cost,
+    purchaseQty: purchase.qty,
+    purchaseUnit: purchase.unit
+  } as T;
+}
+
+// The same line with its ingredient price scaled, in whichever form the price is stored
+export function scaleIngredientPrice<T extends MeasuredIngredient>(line: T, factor: number): T {
+  return {
+    ...line,
+    ...(typeof line.unitCostPerKg === 'number' ? { unitCostPerKg: line.unitCostPerKg * factor } : {}),
+    ...(typeof line.purchaseCost === 'number' ? { purchaseCost: line.purchaseCost * factor } : {})
+  };
+}
+
+// Purchase pack for price labels, such as "15 กิโลกรัม" or "กิโลกรัม"
+export function describePurchaseUnit(line: MeasuredIngredient): string {
+  const purchase = getPurchasePrice(line);
+  const label = getUnit(purchase.unit)?.label || purchase.unit;
+  return purchase.qty === 1 ? label : `${purchase.qty} ${label}`;
+}
@@ -1,26 +1,31 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { DEFAULT_MONEY_SETTINGS, MoneySettings, roundForDisplay, roundMoney } from "./money"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatCurrency(amount: number, currency: string = 'THB'): string {
+// Amounts are rounded with the money settings' method and shown at their decimal places
+export function formatCurrency(amount: number, currency: string = 'THB', settings: MoneySettings = DEFAULT_MONEY_SETTINGS): string {
+  const { decimalPlaces } = settings;
+  const rounded = roundForDisplay(amount, settings);
+
   if (currency === 'THB') {
     return new Intl.NumberFormat('th-TH', {
       style: 'currency',
       currency: 'THB',
       minimumFractionDigits: 0,
-      maximumFractionDigits: 2
-    }).format(amount);
+      maximumFractionDigits: decimalPlaces
+    }).format(rounded);
   }
   
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency,
     minimumFractionDigits: 0,
-    maximumFractionDigits: 2
-  }).format(amount);
+    maximumFractionDigits: decimalPlaces
+  }).format(rounded);
 }
 
 export function formatPercent(value: number, decimals: number = 1): string {
@@ -93,15 +98,32 @@ export function downloadJSON(data: any, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
-export function downloadCSV(data: any[], filename: string): void {
-  if (data.length === 0) return;
-  
+// Columns named in moneyKeys are amounts, written at the money settings' precision
+// Decimal places of numeric CSV columns that are neither amounts nor listed with their own precision
+export const CSV_DEFAULT_DECIMALS = 4;
+
+// CSV text of the rows. Every number is written at a fixed precision, without floating point
+// noise: amounts (moneyKeys) at the money settings, other columns at their entry in
+// `decimals` or CSV_DEFAULT_DECIMALS.
+export function toCSV(
+  data: Record<string, unknown>[],
+  moneyKeys: string[] = [],
+  settings: MoneySettings = DEFAULT_MONEY_SETTINGS,
+  decimals: Record<string, number> = {}
+): string {
+  if (data.length === 0) return '';
+
   const headers = Object.keys(data[0]);
-  const csvContent = [
+  return [
     headers.join(','),
-    ...data.map(row => 
+    ...data.map(row =>
       headers.map(header => {
         const value = row[header];
+        if (typeof value === 'number' && isFinite(value)) {
+          return moneyKeys.includes(header)
+            ? roundForDisplay(value, settings)
+            : roundMoney(value, decimals[header] ?? CSV_DEFAULT_DECIMALS);
+        }
         // Escape commas and quotes in CSV
         if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
           return `"${value.replace(/"/g, '""')}"`;
@@ -110,6 +132,18 @@ export function downloadCSV(data: any[], filename: string): void {
       }).join(',')
     )
   ].join('\n');
+}
+
+export function downloadCSV(
+  data: Record<string, unknown>[],
+  filename: string,
+  moneyKeys: string[] = [],
+  settings: MoneySettings = DEFAULT_MONEY_SETTINGS,
+  decimals: Record<string, number> = {}
+): void {
+  if (data.length === 0) return;
+
+  const csvContent = toCSV(data, moneyKeys, settings, decimals);
   
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
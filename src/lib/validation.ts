@@ -1,5 +1,9 @@
 // Input validation utilities for financial data
 
+import { getMissingFxCurrencies } from './fx';
+import { convertQuantity, getUnit } from './units';
+import { getUnknownIngredientReferences, INGREDIENT_CATEGORIES, resolveIngredients } from './ingredients';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -66,6 +70,41 @@ export class FinancialDataValidator {
       }
     }
 
+    // Sales mix validation (optional)
+    if (menuItem.mixShare !== undefined) {
+      if (typeof menuItem.mixShare !== 'number' || isNaN(menuItem.mixShare)) {
+        errors.push('Mix share must be a valid number');
+      } else if (menuItem.mixShare < 0 || menuItem.mixShare > 1) {
+        errors.push('Mix share must be between 0 and 1');
+      }
+    }
+
+    // Delivery markup validation (optional)
+    if (menuItem.deliveryMarkupPercent !== undefined) {
+      if (typeof menuItem.deliveryMarkupPercent !== 'number' || isNaN(menuItem.deliveryMarkupPercent)) {
+        errors.push('Delivery markup must be a valid number');
+      } else if (menuItem.deliveryMarkupPercent < this.MIN_PERCENTAGE || menuItem.deliveryMarkupPercent > this.MAX_PERCENTAGE) {
+        errors.push(`Delivery markup must be between ${this.MIN_PERCENTAGE} and ${this.MAX_PERCENTAGE}%`);
+      }
+    }
+
+    // Price elasticity validation (optional)
+    if (menuItem.priceElasticity !== undefined) {
+      if (typeof menuItem.priceElasticity !== 'number' || isNaN(menuItem.priceElasticity)) {
+        errors.push('Price elasticity must be a valid number');
+      } else if (menuItem.priceElasticity > 0) {
+        warnings.push(`Price elasticity (${menuItem.priceElasticity}) is positive: volume would rise with price. Please verify.`);
+      } else if (menuItem.priceElasticity < -5) {
+        warnings.push(`Price elasticity (${menuItem.priceElasticity}) seems very strong. Please verify.`);
+      }
+    }
+
+    if (menuItem.referencePrice !== undefined) {
+      if (typeof menuItem.referencePrice !== 'number' || isNaN(menuItem.referencePrice) || menuItem.referencePrice <= 0) {
+        errors.push('Reference price must be a positive number');
+      }
+    }
+
     // BOM validation
     if (!Array.isArray(menuItem.bom)) {
       errors.push('BOM must be an array');
@@ -97,27 +136,31 @@ export class FinancialDataValidator {
       errors.push('Item name is required');
     }
 
-    // Quantity validation
-    if (typeof bomItem.qtyG !== 'number' || isNaN(bomItem.qtyG)) {
-      errors.push('Quantity (grams) must be a valid number');
+    if (bomItem.unit || bomItem.purchaseUnit) {
+      this.validateBOMUnits(bomItem, errors, warnings);
     } else {
-      if (bomItem.qtyG < this.MIN_QUANTITY) {
-        errors.push(`Quantity must be at least ${this.MIN_QUANTITY}`);
-      }
-      if (bomItem.qtyG > this.MAX_QUANTITY) {
-        warnings.push(`Quantity seems high: ${bomItem.qtyG}g. Please verify.`);
+      // Quantity validation
+      if (typeof bomItem.qtyG !== 'number' || isNaN(bomItem.qtyG)) {
+        errors.push('Quantity (grams) must be a valid number');
+      } else {
+        if (bomItem.qtyG < this.MIN_QUANTITY) {
+          errors.push(`Quantity must be at least ${this.MIN_QUANTITY}`);
+        }
+        if (bomItem.qtyG > this.MAX_QUANTITY) {
+          warnings.push(`Quantity seems high: ${bomItem.qtyG}g. Please verify.`);
+        }
       }
-    }
 
-    // Unit cost validation
-    if (typeof bomItem.unitCostPerKg !== 'number' || isNaN(bomItem.unitCostPerKg)) {
-      errors.push('Unit cost per kg must be a valid number');
-    } else {
-      if (bomItem.unitCostPerKg < 0) {
-        errors.push('Unit cost cannot be negative');
-      }
-      if (bomItem.unitCostPerKg > 1000) {
-        warnings.push(`Unit cost seems high: ${bomItem.unitCostPerKg} THB/kg. Please verify.`);
+      // Unit cost validation
+      if (typeof bomItem.unitCostPerKg !== 'number' || isNaN(bomItem.unitCostPerKg)) {
+        errors.push('Unit cost per kg must be a valid number');
+      } else {
+        if (bomItem.unitCostPerKg < 0) {
+          errors.push('Unit cost cannot be negative');
+        }
+        if (bomItem.unitCostPerKg > 1000) {
+          warnings.push(`Unit cost seems high: ${bomItem.unitCostPerKg} THB/kg. Please verify.`);
+        }
       }
     }
 
@@ -166,6 +209,43 @@ export class FinancialDataValidator {
     };
   }
 
+  // Recipe quantity, purchase pack and their conversion on a BOM line in the unit form.
+  // Lines priced from the ingredient catalog take the pack from their entry.
+  private static validateBOMUnits(bomItem: any, errors: string[], warnings: string[]): void {
+    if (!getUnit(bomItem.unit)) {
+      errors.push('Recipe unit is not a known unit');
+    }
+
+    if (typeof bomItem.qty !== 'number' || isNaN(bomItem.qty)) {
+      errors.push('Quantity must be a valid number');
+    } else if (bomItem.qty < this.MIN_QUANTITY) {
+      errors.push(`Quantity must be at least ${this.MIN_QUANTITY}`);
+    } else if (getUnit(bomItem.unit) && bomItem.qty * getUnit(bomItem.unit)!.factor > this.MAX_QUANTITY) {
+      warnings.push(`Quantity seems high: ${bomItem.qty} ${bomItem.unit}. Please verify.`);
+    }
+
+    if (bomItem.ingredientId && bomItem.purchaseUnit === undefined) return;
+
+    if (!getUnit(bomItem.purchaseUnit)) {
+      errors.push('Purchase unit is not a known unit');
+    }
+
+    if (typeof bomItem.purchaseCost !== 'number' || isNaN(bomItem.purchaseCost)) {
+      errors.push('Purchase cost must be a valid number');
+    } else if (bomItem.purchaseCost < 0) {
+      errors.push('Purchase cost cannot be negative');
+    }
+
+    if (typeof bomItem.purchaseQty !== 'number' || isNaN(bomItem.purchaseQty) || bomItem.purchaseQty <= 0) {
+      errors.push('Purchase quantity must be a positive number');
+    }
+
+    if (getUnit(bomItem.unit) && getUnit(bomItem.purchaseUnit) &&
+        convertQuantity(1, bomItem.unit, bomItem.purchaseUnit, bomItem.densityGPerMl) === null) {
+      errors.push(`Cannot convert ${bomItem.unit} to ${bomItem.purchaseUnit}; set a density or use matching units`);
+    }
+  }
+
   static validateSalesModel(salesModel: any): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -206,6 +286,15 @@ export class FinancialDataValidator {
       }
     }
 
+    // Items per customer validation (optional)
+    if (salesModel.itemsPerCustomer !== undefined) {
+      if (typeof salesModel.itemsPerCustomer !== 'number' || isNaN(salesModel.itemsPerCustomer) || salesModel.itemsPerCustomer <= 0) {
+        errors.push('Items per customer must be a positive number');
+      } else if (salesModel.itemsPerCustomer > 10) {
+        warnings.push(`Items per customer (${salesModel.itemsPerCustomer}) seems high. Please verify.`);
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -380,6 +469,195 @@ export class FinancialDataValidator {
     };
   }
 
+  static validateFixedAsset(asset: any): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Required fields
+    if (!asset.id || typeof asset.id !== 'string') {
+      errors.push('Asset ID is required');
+    }
+
+    if (!asset.name || typeof asset.name !== 'string') {
+      errors.push('Asset name is required');
+    }
+
+    if (!['equipment', 'renovation', 'furniture'].includes(asset.category)) {
+      errors.push('Category must be "equipment", "renovation" or "furniture"');
+    }
+
+    if (!['straightLine', 'decliningBalance'].includes(asset.method)) {
+      errors.push('Depreciation method must be "straightLine" or "decliningBalance"');
+    }
+
+    if (typeof asset.purchaseDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(asset.purchaseDate)) {
+      errors.push('Purchase date must be a valid date (YYYY-MM-DD)');
+    }
+
+    // Cost and salvage validation
+    if (typeof asset.cost !== 'number' || isNaN(asset.cost) || asset.cost <= 0) {
+      errors.push('Asset cost must be a positive number');
+    } else if (typeof asset.salvageValue !== 'number' || isNaN(asset.salvageValue) || asset.salvageValue < 0) {
+      errors.push('Salvage value must be zero or a positive number');
+    } else if (asset.salvageValue > asset.cost) {
+      errors.push('Salvage value cannot exceed the asset cost');
+    }
+
+    // Useful life validation
+    if (typeof asset.usefulLifeYears !== 'number' || isNaN(asset.usefulLifeYears) || asset.usefulLifeYears <= 0) {
+      errors.push('Useful life must be a positive number of years');
+    } else if (asset.usefulLifeYears > 50) {
+      warnings.push(`Useful life (${asset.usefulLifeYears} years) seems long. Please verify.`);
+    }
+
+    // Disposal validation (optional)
+    if (asset.disposalDate !== undefined && asset.disposalDate !== '') {
+      if (typeof asset.disposalDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(asset.disposalDate)) {
+        errors.push('Disposal date must be a valid date (YYYY-MM-DD)');
+      } else if (typeof asset.purchaseDate === 'string' && asset.disposalDate < asset.purchaseDate) {
+        errors.push('Disposal date cannot be before the purchase date');
+      }
+      if (asset.disposalProceeds !== undefined && (typeof asset.disposalProceeds !== 'number' || asset.disposalProceeds < 0)) {
+        errors.push('Disposal proceeds cannot be negative');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  static validateLoan(loan: any): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Required fields
+    if (!loan.id || typeof loan.id !== 'string') {
+      errors.push('Loan ID is required');
+    }
+
+    if (!loan.name || typeof loan.name !== 'string') {
+      errors.push('Loan name is required');
+    }
+
+    if (!['flat', 'effective'].includes(loan.method)) {
+      errors.push('Interest method must be "flat" or "effective"');
+    }
+
+    if (typeof loan.startDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(loan.startDate)) {
+      errors.push('Start date must be a valid date (YYYY-MM-DD)');
+    }
+
+    // Principal and rate validation
+    if (typeof loan.principal !== 'number' || isNaN(loan.principal) || loan.principal <= 0) {
+      errors.push('Loan principal must be a positive number');
+    }
+
+    if (typeof loan.annualRatePercent !== 'number' || isNaN(loan.annualRatePercent) || loan.annualRatePercent < 0) {
+      errors.push('Interest rate must be zero or a positive number');
+    } else if (loan.annualRatePercent > 30) {
+      warnings.push(`Interest rate (${loan.annualRatePercent}%) seems high. Please verify.`);
+    }
+
+    // Term and grace period validation
+    if (!Number.isInteger(loan.termMonths) || loan.termMonths <= 0) {
+      errors.push('Loan term must be a positive whole number of months');
+    } else if (!Number.isInteger(loan.graceMonths) || loan.graceMonths < 0) {
+      errors.push('Grace period must be zero or a positive whole number of months');
+    } else if (loan.graceMonths >= loan.termMonths) {
+      errors.push('Grace period must be shorter than the loan term');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  static validateFxRate(fxRate: any): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Required fields
+    if (!fxRate.id || typeof fxRate.id !== 'string') {
+      errors.push('Exchange rate ID is required');
+    }
+
+    if (typeof fxRate.currency !== 'string' || !/^[A-Z]{3}$/.test(fxRate.currency)) {
+      errors.push('Currency must be a three-letter code');
+    }
+
+    if (typeof fxRate.effectiveDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(fxRate.effectiveDate)) {
+      errors.push('Effective date must be a valid date (YYYY-MM-DD)');
+    }
+
+    if (typeof fxRate.rate !== 'number' || isNaN(fxRate.rate) || fxRate.rate <= 0) {
+      errors.push('Exchange rate must be a positive number');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  static validateIngredient(ingredient: any): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Required fields
+    if (!ingredient.id || typeof ingredient.id !== 'string') {
+      errors.push('Ingredient ID is required');
+    }
+
+    if (!ingredient.name || typeof ingredient.name !== 'string') {
+      errors.push('Ingredient name is required');
+    }
+
+    if (!INGREDIENT_CATEGORIES.some(category => category.key === ingredient.category)) {
+      errors.push('Ingredient category is not a known category');
+    }
+
+    if (!getUnit(ingredient.purchaseUnit)) {
+      errors.push('Purchase unit is not a known unit');
+    }
+
+    if (typeof ingredient.purchaseQty !== 'number' || isNaN(ingredient.purchaseQty) || ingredient.purchaseQty <= 0) {
+      errors.push('Purchase quantity must be a positive number');
+    }
+
+    if (typeof ingredient.price !== 'number' || isNaN(ingredient.price)) {
+      errors.push('Price must be a valid number');
+    } else if (ingredient.price < 0) {
+      errors.push('Price cannot be negative');
+    }
+
+    if (ingredient.densityGPerMl !== undefined &&
+        (typeof ingredient.densityGPerMl !== 'number' || isNaN(ingredient.densityGPerMl) || ingredient.densityGPerMl <= 0)) {
+      errors.push('Density must be a positive number');
+    }
+
+    if (typeof ingredient.defaultYieldPercent !== 'number' || isNaN(ingredient.defaultYieldPercent) || ingredient.defaultYieldPercent <= 0) {
+      errors.push('Default yield percentage must be greater than 0');
+    } else if (ingredient.defaultYieldPercent > 100) {
+      warnings.push(`Default yield percentage (${ingredient.defaultYieldPercent}%) seems high. Please verify.`);
+    }
+
+    if (typeof ingredient.defaultWastePercent !== 'number' || isNaN(ingredient.defaultWastePercent) || ingredient.defaultWastePercent < 0) {
+      errors.push('Default waste percentage cannot be negative');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
   static validateAllData(data: any): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -391,9 +669,10 @@ export class FinancialDataValidator {
       return { isValid: false, errors, warnings };
     }
 
-    // Validate menus
-    if (Array.isArray(data.menus)) {
-      data.menus.forEach((menu: any, index: number) => {
+    // Validate menus, with catalog prices filled into the lines that use them
+    const resolved = resolveIngredients(data);
+    if (Array.isArray(resolved.menus)) {
+      resolved.menus.forEach((menu: any, index: number) => {
         const menuValidation = this.validateMenuItem(menu);
         menuValidation.errors.forEach(error => 
           errors.push(`Menu ${index + 1}: ${error}`)
@@ -454,6 +733,64 @@ export class FinancialDataValidator {
       });
     }
 
+    // Validate assets
+    if (Array.isArray(data.assets)) {
+      data.assets.forEach((asset: any, index: number) => {
+        const assetValidation = this.validateFixedAsset(asset);
+        assetValidation.errors.forEach(error =>
+          errors.push(`Asset ${index + 1}: ${error}`)
+        );
+        assetValidation.warnings.forEach(warning =>
+          warnings.push(`Asset ${index + 1}: ${warning}`)
+        );
+      });
+    }
+
+    // Validate loans
+    if (Array.isArray(data.loans)) {
+      data.loans.forEach((loan: any, index: number) => {
+        const loanValidation = this.validateLoan(loan);
+        loanValidation.errors.forEach(error =>
+          errors.push(`Loan ${index + 1}: ${error}`)
+        );
+        loanValidation.warnings.forEach(warning =>
+          warnings.push(`Loan ${index + 1}: ${warning}`)
+        );
+      });
+    }
+
+    // Validate exchange rates
+    if (Array.isArray(data.fxRates)) {
+      data.fxRates.forEach((fxRate: any, index: number) => {
+        const fxValidation = this.validateFxRate(fxRate);
+        fxValidation.errors.forEach(error =>
+          errors.push(`Exchange Rate ${index + 1}: ${error}`)
+        );
+      });
+    }
+
+    // Validate ingredient catalog
+    if (Array.isArray(data.ingredients)) {
+      data.ingredients.forEach((ingredient: any, index: number) => {
+        const ingredientValidation = this.validateIngredient(ingredient);
+        ingredientValidation.errors.forEach(error =>
+          errors.push(`Ingredient ${index + 1}: ${error}`)
+        );
+        ingredientValidation.warnings.forEach(warning =>
+          warnings.push(`Ingredient ${index + 1}: ${warning}`)
+        );
+      });
+    }
+
+    getUnknownIngredientReferences(data).forEach(reference =>
+      errors.push(`BOM line ${reference} refers to an ingredient that is not in the catalog`)
+    );
+
+    // Amounts in a currency without a rate are taken at face value
+    getMissingFxCurrencies(data).forEach(currency =>
+      warnings.push(`No exchange rate for ${currency}; amounts in ${currency} are not converted`)
+    );
+
     return {
       isValid: errors.length === 0,
       errors,
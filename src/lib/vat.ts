@@ -0,0 +1,61 @@
+// Value added tax: split VAT out of prices and costs for VAT-registered businesses
+
+import { FinanceMeta, StoredFinanceData } from './finance-engine';
+
+export interface VatSettings {
+  registered: boolean;
+  ratePercent: number;
+  // Menu prices already include VAT (typical for Thai restaurants)
+  pricesIncludeVat: boolean;
+  // Share of ingredient and packaging purchases backed by a tax invoice (0-100)
+  ingredientVatablePercent: number;
+}
+
+// Daily or monthly VAT position
+export interface VatPosition {
+  outputVat: number;
+  inputVat: number;
+  netVatPayable: number;
+}
+
+export const DEFAULT_VAT_RATE_PERCENT = 7;
+
+// Businesses that are not VAT-registered neither charge nor reclaim VAT
+export function getVatSettings(data: StoredFinanceData | null | undefined): VatSettings {
+  const meta: Partial<FinanceMeta> = data?.meta || {};
+  const ratePercent = typeof meta.vatPercent === 'number' && meta.vatPercent >= 0 ? meta.vatPercent : DEFAULT_VAT_RATE_PERCENT;
+  const vatablePercent = typeof meta.ingredientVatablePercent === 'number' ? meta.ingredientVatablePercent : 100;
+
+  return {
+    registered: meta.vatRegistered === true,
+    ratePercent,
+    pricesIncludeVat: meta.pricesIncludeVat !== false,
+    ingredientVatablePercent: Math.min(100, Math.max(0, vatablePercent))
+  };
+}
+
+const vatRate = (settings: VatSettings): number => (settings.registered ? settings.ratePercent / 100 : 0);
+
+// Revenue recognised from a menu price (ex-VAT when registered)
+export function getNetSellingPrice(price: number, settings: VatSettings): number {
+  const rate = vatRate(settings);
+  return settings.pricesIncludeVat ? price / (1 + rate) : price;
+}
+
+// What the customer actually pays for a menu price
+export function getGrossSellingPrice(price: number, settings: VatSettings): number {
+  const rate = vatRate(settings);
+  return settings.pricesIncludeVat ? price : price * (1 + rate);
+}
+
+// Costs are entered as paid (VAT-inclusive). Returns the reclaimable input VAT
+// on the vatable share of that amount.
+export function getInputVat(grossCost: number, settings: VatSettings, vatablePercent: number = 100): number {
+  const rate = vatRate(settings);
+  if (rate <= 0) return 0;
+  return grossCost * (vatablePercent / 100) * (rate / (1 + rate));
+}
+
+export function buildVatPosition(outputVat: number, inputVat: number): VatPosition {
+  return { outputVat, inputVat, netVatPayable: outputVat - inputVat };
+}
@@ -0,0 +1,179 @@
+// Working capital: stock on hand, sales receivables and supplier credit
+
+import { CashFlowSettings } from './cash-flow';
+import { StoredFinanceData } from './finance-engine';
+
+export interface IngredientTerms {
+  // Days of usage held in stock
+  inventoryDays: number;
+  // Days the supplier allows before payment
+  supplierCreditDays: number;
+}
+
+export interface WorkingCapitalSettings {
+  // Days before each sales channel pays out (card settlement, delivery platform payouts)
+  receivableDays: Record<string, number>;
+  // Terms for ingredients without their own entry
+  defaultTerms: IngredientTerms;
+  // Terms per ingredient, keyed by catalog ingredient id so a rename keeps them; lines
+  // outside the catalog are keyed by their BOM item name
+  ingredients: Record<string, Partial<IngredientTerms>>;
+}
+
+// Average amounts per calendar day. Sales include VAT and are net of channel fees;
+// purchases include VAT.
+export interface WorkingCapitalInput {
+  channelSales: { channel: string; label: string; dailyAmount: number }[];
+  // key is the catalog ingredient id, or the name for lines outside the catalog
+  ingredientPurchases: { key?: string; name: string; dailyAmount: number }[];
+}
+
+export interface ChannelReceivable {
+  channel: string;
+  label: string;
+  dailyAmount: number;
+  receivableDays: number;
+  receivables: number;
+}
+
+export interface IngredientWorkingCapital extends IngredientTerms {
+  key: string;
+  name: string;
+  dailyAmount: number;
+  inventory: number;
+  payables: number;
+}
+
+export interface WorkingCapitalResult {
+  inventory: number;
+  receivables: number;
+  payables: number;
+  // Inventory plus receivables less payables
+  requirement: number;
+  // Weighted days: inventory and payables over purchases, receivables over sales
+  inventoryDays: number;
+  receivableDays: number;
+  payableDays: number;
+  cashConversionCycle: number;
+  channels: ChannelReceivable[];
+  ingredients: IngredientWorkingCapital[];
+}
+
+export interface WorkingCapitalAtVolume {
+  volumeChangePercent: number;
+  requirement: number;
+  changeInRequirement: number;
+  cashConversionCycle: number;
+}
+
+export const DEFAULT_WORKING_CAPITAL_SETTINGS: WorkingCapitalSettings = {
+  receivableDays: { dineIn: 0, takeaway: 0, delivery: 7 },
+  defaultTerms: { inventoryDays: 3, supplierCreditDays: 0 },
+  ingredients: {}
+};
+
+export const DEFAULT_VOLUME_CHANGES = [-20, -10, 0, 10, 20];
+
+const toDays = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? Math.max(0, value) : fallback;
+
+// Payout and supplier days saved with the cash-flow settings before this model
+// existed are used as defaults.
+export function getWorkingCapitalSettings(data: StoredFinanceData | null | undefined): WorkingCapitalSettings {
+  const stored: Partial<WorkingCapitalSettings> = data?.meta?.workingCapital || {};
+  const legacy: Partial<CashFlowSettings> & { deliveryPayoutDays?: number; supplierPaymentDays?: number } = data?.meta?.cashFlow || {};
+  const receivableDays: Partial<Record<string, number>> = stored.receivableDays || {};
+  const defaultTerms: Partial<IngredientTerms> = stored.defaultTerms || {};
+  const defaults = DEFAULT_WORKING_CAPITAL_SETTINGS;
+
+  return {
+    receivableDays: {
+      dineIn: toDays(receivableDays.dineIn, defaults.receivableDays.dineIn),
+      takeaway: toDays(receivableDays.takeaway, defaults.receivableDays.takeaway),
+      delivery: toDays(receivableDays.delivery, toDays(legacy.deliveryPayoutDays, defaults.receivableDays.delivery))
+    },
+    defaultTerms: {
+      inventoryDays: toDays(defaultTerms.inventoryDays, defaults.defaultTerms.inventoryDays),
+      supplierCreditDays: toDays(defaultTerms.supplierCreditDays, toDays(legacy.supplierPaymentDays, defaults.defaultTerms.supplierCreditDays))
+    },
+    ingredients: stored.ingredients && typeof stored.ingredients === 'object' ? stored.ingredients : {}
+  };
+}
+
+// Terms saved under the ingredient's key, or under its name as saved before ingredient ids
+export function getIngredientTerms(settings: WorkingCapitalSettings, key: string, name: string = key): IngredientTerms {
+  const terms = settings.ingredients[key] || settings.ingredients[name] || {};
+  return {
+    inventoryDays: toDays(terms.inventoryDays, settings.defaultTerms.inventoryDays),
+    supplierCreditDays: toDays(terms.supplierCreditDays, settings.defaultTerms.supplierCreditDays)
+  };
+}
+
+export function calculateWorkingCapital(
+  input: WorkingCapitalInput,
+  settings: WorkingCapitalSettings = DEFAULT_WORKING_CAPITAL_SETTINGS
+): WorkingCapitalResult {
+  const channels: ChannelReceivable[] = input.channelSales.map(({ channel, label, dailyAmount }) => {
+    const receivableDays = toDays(settings.receivableDays[channel], 0);
+    return { channel, label, dailyAmount, receivableDays, receivables: dailyAmount * receivableDays };
+  });
+
+  const ingredients: IngredientWorkingCapital[] = input.ingredientPurchases.map(({ name, key = name, dailyAmount }) => {
+    const terms = getIngredientTerms(settings, key, name);
+    return {
+      key,
+      name,
+      dailyAmount,
+      ...terms,
+      inventory: dailyAmount * terms.inventoryDays,
+      payables: dailyAmount * terms.supplierCreditDays
+    };
+  });
+
+  const sum = <T>(rows: T[], pick: (row: T) => number) => rows.reduce((total, row) => total + pick(row), 0);
+  const dailySales = sum(channels, row => row.dailyAmount);
+  const dailyPurchases = sum(ingredients, row => row.dailyAmount);
+  const inventory = sum(ingredients, row => row.inventory);
+  const receivables = sum(channels, row => row.receivables);
+  const payables = sum(ingredients, row => row.payables);
+
+  const inventoryDays = dailyPurchases > 0 ? inventory / dailyPurchases : settings.defaultTerms.inventoryDays;
+  const receivableDays = dailySales > 0 ? receivables / dailySales : 0;
+  const payableDays = dailyPurchases > 0 ? payables / dailyPurchases : settings.defaultTerms.supplierCreditDays;
+
+  return {
+    inventory,
+    receivables,
+    payables,
+    requirement: inventory + receivables - payables,
+    inventoryDays,
+    receivableDays,
+    payableDays,
+    cashConversionCycle: inventoryDays + receivableDays - payableDays,
+    channels,
+    ingredients
+  };
+}
+
+// Working capital with sales and purchases flexed by each change in forecast volume
+export function calculateWorkingCapitalAtVolumes(
+  input: WorkingCapitalInput,
+  settings: WorkingCapitalSettings = DEFAULT_WORKING_CAPITAL_SETTINGS,
+  volumeChanges: number[] = DEFAULT_VOLUME_CHANGES
+): WorkingCapitalAtVolume[] {
+  const base = calculateWorkingCapital(input, settings).requirement;
+
+  return volumeChanges.map(volumeChangePercent => {
+    const factor = 1 + volumeChangePercent / 100;
+    const result = calculateWorkingCapital({
+      channelSales: input.channelSales.map(row => ({ ...row, dailyAmount: row.dailyAmount * factor })),
+      ingredientPurchases: input.ingredientPurchases.map(row => ({ ...row, dailyAmount: row.dailyAmount * factor }))
+    }, settings);
+    return {
+      volumeChangePercent,
+      requirement: result.requirement,
+      changeInRequirement: result.requirement - base,
+      cashConversionCycle: result.cashConversionCycle
+    };
+  });
+}
@@ -0,0 +1,13 @@
+// Background compute worker: runs engine computations off the main thread
+
+import { ComputeRequest, ComputeResponse, createComputeHandler } from '../lib/compute-worker';
+
+// The app compiles against the DOM library, so the worker scope is described here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ComputeRequest>) => void) | null;
+  postMessage: (response: ComputeResponse) => void;
+};
+
+const handle = createComputeHandler(response => scope.postMessage(response));
+
+scope.onmessage = event => handle(event.data);